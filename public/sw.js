@@ -402,6 +402,51 @@ function createOfflinePage() {
   });
 }
 
+// Push event - alerts sent by the Node server while the app is in the background
+self.addEventListener('push', (event) => {
+  let message = {};
+  try {
+    message = event.data ? event.data.json() : {};
+  } catch {
+    message = { body: event.data ? event.data.text() : '' };
+  }
+
+  const title = message.title || 'SFTi Alert';
+  console.log('🔔 Push received:', title);
+
+  // Same tag as the in-app desktop notification, so an open app doesn't show it twice
+  event.waitUntil(
+    self.registration.showNotification(title, {
+      body: message.body || '',
+      tag: message.tag,
+      icon: '/favicon.ico',
+      badge: '/favicon.ico',
+      data: message.data || {}
+    })
+  );
+});
+
+// Notification click - open the alert's chart, reusing an open window when there is one
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+
+  const { symbol, url } = event.notification.data || {};
+  const target = url || '/';
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(windows => {
+      const client = windows.find(candidate => new URL(candidate.url).origin === self.location.origin);
+      if (client) {
+        if (symbol) {
+          client.postMessage({ type: 'openChart', symbol });
+        }
+        return client.focus();
+      }
+      return self.clients.openWindow(target);
+    })
+  );
+});
+
 // Service worker ready
 console.log('🎯 SFTi Stock Scanner Service Worker v6.0 loaded and ready');
 console.log('📦 Caching strategy: Cache-first for app assets, Network-first for APIs');
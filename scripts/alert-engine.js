@@ -0,0 +1,324 @@
+/**
+ * Server-side alert evaluation
+ * Plain-JS counterpart of src/lib/alert-rules.ts, src/lib/alert-timing.ts, the
+ * indicator math in src/lib/indicators.ts and the holiday and early-close rules in
+ * src/lib/trading-calendar.ts, so synced alerts behave the same when the server checks
+ * them in the background. Keep the two in step.
+ */
+
+const NEW_YORK = 'America/New_York';
+
+const INDICATOR_FIELDS = new Set(['vwap', 'ema9', 'ema20', 'ema50', 'rsi', 'relativeVolume']);
+
+const BAR_SECONDS = { '1m': 60, '5m': 300, '15m': 900, '30m': 1800, '1h': 3600, '1d': 86400 };
+
+const DEFAULT_REPEAT_MINUTES = 5;
+
+export const toSessionDate = (seconds) =>
+    new Date(seconds * 1000).toLocaleDateString('en-CA', { timeZone: NEW_YORK });
+
+function toNewYorkMinutes(now) {
+    const [hours, minutes] = new Date(now)
+        .toLocaleTimeString('en-GB', { timeZone: NEW_YORK, hour12: false, hour: '2-digit', minute: '2-digit' })
+        .split(':')
+        .map(Number);
+    return (hours % 24) * 60 + minutes;
+}
+
+// Calendar
+
+// Minutes after midnight in New York
+const PREMARKET_OPEN_MINUTE = 240;
+const REGULAR_OPEN_MINUTE = 570;
+const REGULAR_CLOSE_MINUTE = 960;
+const AFTER_HOURS_CLOSE_MINUTE = 1200;
+const EARLY_CLOSE_MINUTE = 780;
+const EARLY_AFTER_HOURS_CLOSE_MINUTE = 1020;
+
+// Closures announced for one-off events, which no rule predicts
+const SPECIAL_CLOSURES = ['2012-10-29', '2012-10-30', '2018-12-05', '2025-01-09'];
+
+const holidayCache = new Map();
+const earlyCloseCache = new Map();
+
+const pad = (value) => String(value).padStart(2, '0');
+const formatDate = (year, month, day) => `${year}-${pad(month)}-${pad(day)}`;
+const weekdayOf = (year, month, day) => new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+
+function nthWeekday(year, month, weekday, n) {
+    if (n > 0) {
+        const first = weekdayOf(year, month, 1);
+        return 1 + ((weekday - first + 7) % 7) + (n - 1) * 7;
+    }
+
+    const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    const last = weekdayOf(year, month, lastDay);
+    return lastDay - ((last - weekday + 7) % 7);
+}
+
+// Easter Sunday (anonymous Gregorian algorithm) as [month, day]
+function easter(year) {
+    const a = year % 19;
+    const b = Math.floor(year / 100);
+    const c = year % 100;
+    const d = Math.floor(b / 4);
+    const e = b % 4;
+    const f = Math.floor((b + 8) / 25);
+    const g = Math.floor((b - f + 1) / 3);
+    const h = (19 * a + b - d - g + 15) % 30;
+    const i = Math.floor(c / 4);
+    const k = c % 4;
+    const l = (32 + 2 * e + 2 * i - h - k) % 7;
+    const m = Math.floor((a + 11 * h + 22 * l) / 451);
+    return [Math.floor((h + l - 7 * m + 114) / 31), ((h + l - 7 * m + 114) % 31) + 1];
+}
+
+// Fixed-date holiday moved off the weekend: Saturday to Friday, Sunday to Monday
+function observed(year, month, day) {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    const weekday = date.getUTCDay();
+    if (weekday === 6) date.setUTCDate(day - 1);
+    if (weekday === 0) date.setUTCDate(day + 1);
+    return date.toISOString().slice(0, 10);
+}
+
+function getHolidays(year) {
+    if (holidayCache.has(year)) return holidayCache.get(year);
+
+    const [easterMonth, easterDay] = easter(year);
+    const goodFriday = new Date(Date.UTC(year, easterMonth - 1, easterDay - 2)).toISOString().slice(0, 10);
+    const holidays = new Set([
+        formatDate(year, 1, nthWeekday(year, 1, 1, 3)),
+        formatDate(year, 2, nthWeekday(year, 2, 1, 3)),
+        goodFriday,
+        formatDate(year, 5, nthWeekday(year, 5, 1, -1)),
+        observed(year, 7, 4),
+        formatDate(year, 9, nthWeekday(year, 9, 1, 1)),
+        formatDate(year, 11, nthWeekday(year, 11, 4, 4)),
+        observed(year, 12, 25),
+        ...SPECIAL_CLOSURES.filter(date => date.startsWith(`${year}-`))
+    ]);
+
+    // A Saturday New Year's Day isn't moved back into the old year
+    if (weekdayOf(year, 1, 1) !== 6) holidays.add(observed(year, 1, 1));
+    if (year >= 2022) holidays.add(observed(year, 6, 19));
+
+    holidayCache.set(year, holidays);
+    return holidays;
+}
+
+// 1:00 PM closes: July 3rd and Christmas Eve on Monday to Thursday, and the day after Thanksgiving
+function getEarlyCloses(year) {
+    if (earlyCloseCache.has(year)) return earlyCloseCache.get(year);
+
+    const closes = new Set([formatDate(year, 11, nthWeekday(year, 11, 4, 4) + 1)]);
+    const july3 = weekdayOf(year, 7, 3);
+    if (july3 >= 1 && july3 <= 4) closes.add(formatDate(year, 7, 3));
+    const christmasEve = weekdayOf(year, 12, 24);
+    if (christmasEve >= 1 && christmasEve <= 4) closes.add(formatDate(year, 12, 24));
+
+    earlyCloseCache.set(year, closes);
+    return closes;
+}
+
+/**
+ * Same session boundaries as getMarketHours() in src/lib/market.ts, including exchange
+ * holidays and early closes
+ */
+export function getSessionStatus(now = Date.now()) {
+    const date = toSessionDate(now / 1000);
+    const [year, month, day] = date.split('-').map(Number);
+    const weekday = weekdayOf(year, month, day);
+    if (weekday === 0 || weekday === 6 || getHolidays(year).has(date)) return 'closed';
+
+    const early = getEarlyCloses(year).has(date);
+    const close = early ? EARLY_CLOSE_MINUTE : REGULAR_CLOSE_MINUTE;
+    const afterHoursClose = early ? EARLY_AFTER_HOURS_CLOSE_MINUTE : AFTER_HOURS_CLOSE_MINUTE;
+
+    const minutes = toNewYorkMinutes(now);
+    if (minutes >= PREMARKET_OPEN_MINUTE && minutes < REGULAR_OPEN_MINUTE) return 'premarket';
+    if (minutes >= REGULAR_OPEN_MINUTE && minutes < close) return 'regular';
+    if (minutes >= close && minutes < afterHoursClose) return 'afterhours';
+    return 'closed';
+}
+
+// Rules
+
+function getFieldValue(field, context) {
+    const value = INDICATOR_FIELDS.has(field) ? context.indicators[field] : context.stock[field];
+    return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+function compare(condition, context) {
+    const left = getFieldValue(condition.field, context);
+    const right = typeof condition.target === 'number' ? condition.target : getFieldValue(condition.target, context);
+    return left === null || right === null ? null : [left, right];
+}
+
+export function evaluateRule(node, context, previous) {
+    switch (node.kind) {
+        case 'group':
+            if (!Array.isArray(node.rules) || node.rules.length === 0) return false;
+            return node.combinator === 'and'
+                ? node.rules.every(rule => evaluateRule(rule, context, previous))
+                : node.rules.some(rule => evaluateRule(rule, context, previous));
+
+        case 'session':
+            return Array.isArray(node.sessions) && node.sessions.includes(context.session);
+
+        case 'condition': {
+            const values = compare(node, context);
+            if (!values) return false;
+            const [left, right] = values;
+
+            switch (node.operator) {
+                case '>': return left > right;
+                case '>=': return left >= right;
+                case '<': return left < right;
+                case '<=': return left <= right;
+                case 'crosses_above':
+                case 'crosses_below': {
+                    const before = previous ? compare(node, previous) : null;
+                    if (!before) return false;
+                    return node.operator === 'crosses_above'
+                        ? before[0] <= before[1] && left > right
+                        : before[0] >= before[1] && left < right;
+                }
+                default: return false;
+            }
+        }
+
+        default:
+            return false;
+    }
+}
+
+export function getRuleIndicators(node, fields = new Set()) {
+    if (node.kind === 'group') {
+        (node.rules || []).forEach(rule => getRuleIndicators(rule, fields));
+    } else if (node.kind === 'condition') {
+        if (INDICATOR_FIELDS.has(node.field)) fields.add(node.field);
+        if (typeof node.target === 'string' && INDICATOR_FIELDS.has(node.target)) fields.add(node.target);
+    }
+    return fields;
+}
+
+// Timing
+
+function parseTimeOfDay(value) {
+    const match = typeof value === 'string' ? value.match(/^(\d{1,2}):(\d{2})$/) : null;
+    if (!match) return null;
+    const hours = Number(match[1]);
+    const minutes = Number(match[2]);
+    return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+}
+
+export const isExpired = (alert, now = Date.now()) =>
+    typeof alert.expiresAt === 'number' && now >= alert.expiresAt;
+
+export function isInWindow(alert, now = Date.now()) {
+    const from = parseTimeOfDay(alert.activeFrom);
+    const until = parseTimeOfDay(alert.activeUntil);
+    if (from === null && until === null) return true;
+
+    const minutes = toNewYorkMinutes(now);
+    if (from === null) return minutes < until;
+    if (until === null) return minutes >= from;
+
+    return from <= until ? minutes >= from && minutes < until : minutes >= from || minutes < until;
+}
+
+function toBarKey(time, timeframe) {
+    const seconds = Math.floor(time / 1000);
+    return timeframe === '1d' ? toSessionDate(seconds) : String(Math.floor(seconds / BAR_SECONDS[timeframe]));
+}
+
+export function shouldRearm(alert, now = Date.now()) {
+    if (!alert.triggered || typeof alert.triggeredAt !== 'number') return false;
+
+    switch (alert.triggerMode || 'once') {
+        case 'once_per_bar': {
+            const timeframe = BAR_SECONDS[alert.barTimeframe] ? alert.barTimeframe : '1m';
+            return toBarKey(alert.triggeredAt, timeframe) !== toBarKey(now, timeframe);
+        }
+        case 'once_per_session':
+            return `${toSessionDate(alert.triggeredAt / 1000)}:${getSessionStatus(alert.triggeredAt)}`
+                !== `${toSessionDate(now / 1000)}:${getSessionStatus(now)}`;
+        case 'every_n_minutes':
+            return now - alert.triggeredAt >= (alert.repeatMinutes || DEFAULT_REPEAT_MINUTES) * 60_000;
+        default:
+            return false;
+    }
+}
+
+// Indicators (bars: ascending { time (epoch seconds), open, high, low, close, volume })
+
+function lastEMA(bars, period) {
+    if (bars.length < period) return null;
+    const multiplier = 2 / (period + 1);
+    return bars.reduce((ema, bar, i) => (i === 0 ? bar.close : bar.close * multiplier + ema * (1 - multiplier)), 0);
+}
+
+function lastRSI(bars, period = 14) {
+    if (bars.length <= period) return null;
+
+    let avgGain = 0;
+    let avgLoss = 0;
+    for (let i = 1; i <= period; i++) {
+        const change = bars[i].close - bars[i - 1].close;
+        avgGain += Math.max(change, 0);
+        avgLoss += Math.max(-change, 0);
+    }
+    avgGain /= period;
+    avgLoss /= period;
+
+    for (let i = period + 1; i < bars.length; i++) {
+        const change = bars[i].close - bars[i - 1].close;
+        avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period;
+        avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period;
+    }
+
+    return avgLoss === 0 ? 100 : 100 - 100 / (1 + avgGain / avgLoss);
+}
+
+function sessionVWAP(bars) {
+    if (bars.length === 0) return null;
+
+    const session = toSessionDate(bars[bars.length - 1].time);
+    let volume = 0;
+    let value = 0;
+    for (let i = bars.length - 1; i >= 0 && toSessionDate(bars[i].time) === session; i--) {
+        volume += bars[i].volume;
+        value += ((bars[i].high + bars[i].low + bars[i].close) / 3) * bars[i].volume;
+    }
+    return volume > 0 ? value / volume : null;
+}
+
+/**
+ * Indicator values from intraday bars (VWAP, EMAs, RSI)
+ */
+export function computeIntradayIndicators(bars) {
+    const values = {};
+    const assign = (field, value) => {
+        if (value !== null) values[field] = value;
+    };
+
+    assign('vwap', sessionVWAP(bars));
+    assign('ema9', lastEMA(bars, 9));
+    assign('ema20', lastEMA(bars, 20));
+    assign('ema50', lastEMA(bars, 50));
+    assign('rsi', lastRSI(bars));
+    return values;
+}
+
+// Daily bars are stamped at UTC midnight of their date, so their UTC date is the session date
+const toDailyDate = (seconds) => new Date(seconds * 1000).toISOString().slice(0, 10);
+
+export function computeRelativeVolume(dailyBars, todayVolume, now = Date.now(), period = 20) {
+    const today = toSessionDate(now / 1000);
+    const previous = dailyBars.filter(bar => toDailyDate(bar.time) < today).slice(-period);
+    if (previous.length === 0) return null;
+
+    const average = previous.reduce((sum, bar) => sum + bar.volume, 0) / previous.length;
+    return average > 0 ? todayVolume / average : null;
+}
@@ -0,0 +1,287 @@
+import fs from 'fs';
+import path from 'path';
+import { generateVapidKeys, sendWebPush } from './web-push.js';
+import {
+    computeIntradayIndicators,
+    computeRelativeVolume,
+    evaluateRule,
+    getRuleIndicators,
+    getSessionStatus,
+    isExpired,
+    isInWindow,
+    shouldRearm
+} from './alert-engine.js';
+
+/**
+ * Background alert checker
+ * Holds the alerts synced from the web app and the browsers' push subscriptions,
+ * checks the alerts against server-side quotes on an interval and sends Web Push
+ * messages when one triggers. State is kept in a JSON file so restarts keep the
+ * VAPID keys (and with them every subscription).
+ */
+
+const INDICATOR_REFRESH_INTERVAL = 60_000;
+
+export class PushAlertService {
+    /**
+     * @param {object} options
+     * @param {(symbols: string[]) => Promise<object[]>} options.getQuotes Stock-shaped quotes
+     * @param {(symbol: string, timeframe: '1m' | '1d') => Promise<object[]>} [options.getBars]
+     * @param {string} [options.stateFile]
+     * @param {number} [options.pollInterval]
+     * @param {{ publicKey?: string, privateKey?: string, subject?: string }} [options.vapid]
+     * @param {typeof sendWebPush} [options.sendPush]
+     */
+    constructor(options) {
+        this.getQuotes = options.getQuotes;
+        this.getBars = options.getBars || (async () => []);
+        this.sendPush = options.sendPush || sendWebPush;
+        this.stateFile = options.stateFile || null;
+        this.pollInterval = options.pollInterval || 5000;
+
+        this.alerts = new Map();
+        this.subscriptions = new Map();
+        this.lastContext = new Map();
+        this.indicators = new Map();
+        this.timer = null;
+        this.checking = false;
+
+        const saved = this.load();
+        (saved.alerts || []).forEach(alert => this.alerts.set(alert.id, alert));
+        (saved.subscriptions || []).forEach(subscription => this.subscriptions.set(subscription.endpoint, subscription));
+
+        const envKeys = options.vapid?.publicKey && options.vapid?.privateKey ? options.vapid : null;
+        this.vapid = {
+            ...(envKeys || saved.vapid || generateVapidKeys()),
+            subject: options.vapid?.subject || 'mailto:alerts@localhost'
+        };
+        if (!envKeys && !saved.vapid) {
+            console.log('🔑 Generated VAPID keys for Web Push');
+            this.save();
+        }
+    }
+
+    start() {
+        if (this.timer) return;
+        this.timer = setInterval(() => this.check(), this.pollInterval);
+        console.log(`🔔 Push alerts: ${this.alerts.size} alerts, ${this.subscriptions.size} subscriptions`);
+    }
+
+    stop() {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    getPublicKey() {
+        return this.vapid.publicKey;
+    }
+
+    addSubscription(subscription) {
+        if (!subscription?.endpoint || !subscription?.keys?.p256dh || !subscription?.keys?.auth) {
+            throw new Error('subscription with endpoint and keys is required');
+        }
+        this.subscriptions.set(subscription.endpoint, subscription);
+        this.save();
+    }
+
+    removeSubscription(endpoint) {
+        const removed = this.subscriptions.delete(endpoint);
+        if (removed) this.save();
+        return removed;
+    }
+
+    getAlerts() {
+        return Array.from(this.alerts.values());
+    }
+
+    /**
+     * Replace the alert list with the app's. Trigger state the server recorded after the
+     * app's last trigger is kept, so a sync doesn't re-arm an alert the server just fired.
+     */
+    setAlerts(alerts) {
+        const next = new Map();
+
+        alerts.filter(alert => alert && alert.id && alert.symbol).forEach(alert => {
+            const current = this.alerts.get(alert.id);
+            const serverNewer = current?.triggered && (current.triggeredAt || 0) > (alert.triggeredAt || 0);
+            next.set(alert.id, serverNewer
+                ? { ...alert, triggered: true, triggeredAt: current.triggeredAt, message: current.message }
+                : alert);
+        });
+
+        this.alerts = next;
+        this.save();
+    }
+
+    /**
+     * One pass: re-arm/expire, fetch quotes for armed alerts, trigger and push
+     */
+    async check(now = Date.now()) {
+        if (this.checking || this.subscriptions.size === 0) return [];
+        this.checking = true;
+
+        try {
+            this.applyTiming(now);
+
+            const armed = this.getAlerts().filter(alert =>
+                alert.enabled && !alert.triggered && alert.rule && !isExpired(alert, now) && isInWindow(alert, now)
+            );
+            if (armed.length === 0) return [];
+
+            const symbols = Array.from(new Set(armed.map(alert => alert.symbol)));
+            const quotes = await this.getQuotes(symbols);
+            const session = getSessionStatus(now);
+            const triggered = [];
+
+            for (const stock of quotes) {
+                const symbolAlerts = armed.filter(alert => alert.symbol === stock.symbol);
+                const fields = new Set();
+                symbolAlerts.forEach(alert => getRuleIndicators(alert.rule, fields));
+                if (fields.size > 0) {
+                    await this.refreshIndicators(stock.symbol, fields);
+                }
+
+                const context = { stock, session, indicators: this.getIndicators(stock) };
+                const previous = this.lastContext.get(stock.symbol);
+                this.lastContext.set(stock.symbol, context);
+
+                symbolAlerts.forEach(alert => {
+                    if (evaluateRule(alert.rule, context, previous)) {
+                        triggered.push(this.trigger(alert, stock, now));
+                    }
+                });
+            }
+
+            if (triggered.length > 0) {
+                this.save();
+                await Promise.all(triggered.map(alert => this.notify(alert)));
+            }
+            return triggered;
+        } catch (error) {
+            console.error('Push alert check failed:', error.message);
+            return [];
+        } finally {
+            this.checking = false;
+        }
+    }
+
+    applyTiming(now) {
+        let changed = false;
+
+        this.alerts.forEach((alert, id) => {
+            let next = alert;
+            if (alert.enabled && isExpired(alert, now)) {
+                next = { ...next, enabled: false };
+            }
+            if (shouldRearm(alert, now)) {
+                next = { ...next, triggered: false, message: undefined };
+            }
+            if (next !== alert) {
+                this.alerts.set(id, next);
+                changed = true;
+            }
+        });
+
+        if (changed) this.save();
+    }
+
+    trigger(alert, stock, now) {
+        const message = `${stock.symbol} alert: ${this.describeValue(alert, stock)}`;
+        const next = { ...alert, triggered: true, triggeredAt: now, triggerPrice: stock.price, message };
+        this.alerts.set(alert.id, next);
+        console.log(`🔔 Alert triggered: ${message}`);
+        return next;
+    }
+
+    describeValue(alert, stock) {
+        switch (alert.type) {
+            case 'price_above': return `at or above $${alert.value} (last $${stock.price})`;
+            case 'price_below': return `at or below $${alert.value} (last $${stock.price})`;
+            case 'volume_spike': return `volume spike ${stock.volume?.toLocaleString()} shares`;
+            default: return `rule met at $${stock.price}`;
+        }
+    }
+
+    /**
+     * Send a triggered alert to every subscription, dropping ones the push service rejects
+     */
+    async notify(alert) {
+        const payload = {
+            title: `Penny Stock Alert: ${alert.symbol}`,
+            body: alert.message,
+            tag: alert.id,
+            data: { type: 'alert', alertId: alert.id, symbol: alert.symbol, url: `/?chart=${encodeURIComponent(alert.symbol)}` }
+        };
+
+        await Promise.all(Array.from(this.subscriptions.values()).map(async subscription => {
+            try {
+                const result = await this.sendPush(subscription, payload, this.vapid);
+                if (result.statusCode === 404 || result.statusCode === 410) {
+                    console.log('🗑️ Dropping expired push subscription');
+                    this.removeSubscription(subscription.endpoint);
+                } else if (result.statusCode >= 400) {
+                    console.warn(`Push rejected (${result.statusCode}): ${result.body}`);
+                }
+            } catch (error) {
+                console.warn('Push delivery failed:', error.message);
+            }
+        }));
+    }
+
+    async refreshIndicators(symbol, fields) {
+        const current = this.indicators.get(symbol);
+        if (current && Date.now() - current.loadedAt < INDICATOR_REFRESH_INTERVAL) return;
+
+        const needsIntraday = Array.from(fields).some(field => field !== 'relativeVolume');
+        const needsDaily = fields.has('relativeVolume');
+
+        try {
+            const [intraday, daily] = await Promise.all([
+                needsIntraday ? this.getBars(symbol, '1m') : null,
+                needsDaily ? this.getBars(symbol, '1d') : current?.daily || []
+            ]);
+            this.indicators.set(symbol, {
+                values: intraday ? computeIntradayIndicators(intraday) : current?.values || {},
+                daily,
+                loadedAt: Date.now()
+            });
+        } catch (error) {
+            console.warn(`Failed to load indicators for ${symbol}:`, error.message);
+            this.indicators.set(symbol, { values: current?.values || {}, daily: current?.daily || [], loadedAt: Date.now() });
+        }
+    }
+
+    getIndicators(stock) {
+        const data = this.indicators.get(stock.symbol);
+        if (!data) return {};
+
+        const relativeVolume = computeRelativeVolume(data.daily, stock.volume || 0);
+        return relativeVolume === null ? data.values : { ...data.values, relativeVolume };
+    }
+
+    load() {
+        if (!this.stateFile || !fs.existsSync(this.stateFile)) return {};
+        try {
+            return JSON.parse(fs.readFileSync(this.stateFile, 'utf8'));
+        } catch (error) {
+            console.warn('Failed to read push state:', error.message);
+            return {};
+        }
+    }
+
+    save() {
+        if (!this.stateFile) return;
+        try {
+            fs.mkdirSync(path.dirname(this.stateFile), { recursive: true });
+            fs.writeFileSync(this.stateFile, JSON.stringify({
+                vapid: { publicKey: this.vapid.publicKey, privateKey: this.vapid.privateKey },
+                subscriptions: Array.from(this.subscriptions.values()),
+                alerts: this.getAlerts()
+            }, null, 2));
+        } catch (error) {
+            console.warn('Failed to save push state:', error.message);
+        }
+    }
+}
@@ -7,8 +7,31 @@ import { RateLimiterMemory } from 'rate-limiter-flexible';
 import axios from 'axios';
 import https from 'https';
 import dotenv from 'dotenv';
+import { PushAlertService } from './push-alerts.js';
+import { WebhookDispatcher } from './webhooks.js';
 dotenv.config();
 
+// Snapshot fields used for alert quotes (same ids as src/lib/ibkr-stream.ts)
+const SNAPSHOT_FIELDS = '31,82,83,84,86,87,7289';
+
+// Symbols per /api/fundamentals request, and FMP float lookups in flight at once
+const MAX_FUNDAMENTALS_SYMBOLS = 100;
+const FUNDAMENTALS_CONCURRENCY = 5;
+
+/**
+ * Parse an IBKR snapshot value: "1.23", "C1.23" (prior close marker), "1.2M" volume
+ */
+const parseField = (value) => {
+    if (typeof value === 'number') return value;
+    if (typeof value !== 'string') return undefined;
+
+    const match = value.replace(/,/g, '').match(/-?\d+(\.\d+)?/);
+    if (!match) return undefined;
+
+    const multiplier = { K: 1e3, M: 1e6, B: 1e9 }[value.trim().slice(-1).toUpperCase()] || 1;
+    return parseFloat(match[0]) * multiplier;
+};
+
 class SFTiServer {
     constructor() {
         this.app = express();
@@ -16,6 +39,7 @@ class SFTiServer {
         this.wss = null;
         this.clients = new Set();
         this.marketData = new Map();
+        this.conids = new Map();
         this.lastUpdate = new Date();
         this.ibkrAuthenticated = false;
         
@@ -52,6 +76,33 @@ class SFTiServer {
             }
         });
         
+        // Float and news counts for scanner rows; IBKR snapshots carry neither
+        this.fundamentalsConfig = {
+            apiKey: process.env.FMP_API_KEY,
+            baseUrl: process.env.FMP_BASE_URL || 'https://financialmodelingprep.com/stable',
+            timeout: parseInt(process.env.FMP_TIMEOUT) || 10000
+        };
+        
+        // Alert webhooks (Discord/Slack/JSON) relayed for the web app
+        this.webhooks = new WebhookDispatcher({
+            logFile: process.env.WEBHOOK_LOG_FILE || '.data/webhook-log.json',
+            destinationsFile: process.env.WEBHOOK_DESTINATIONS_FILE || '.data/webhook-destinations.json',
+            allowedHosts: (process.env.WEBHOOK_ALLOWED_HOSTS || '').split(',')
+        });
+        
+        // Background alerts delivered through Web Push
+        this.pushAlerts = new PushAlertService({
+            getQuotes: (symbols) => this.getAlertQuotes(symbols),
+            getBars: (symbol, timeframe) => this.getBarsFromIBKR(symbol, timeframe),
+            stateFile: process.env.PUSH_STATE_FILE || '.data/push-state.json',
+            pollInterval: parseInt(process.env.ALERT_POLL_INTERVAL) || 5000,
+            vapid: {
+                publicKey: process.env.VAPID_PUBLIC_KEY,
+                privateKey: process.env.VAPID_PRIVATE_KEY,
+                subject: process.env.VAPID_SUBJECT
+            }
+        });
+        
         this.setupMiddleware();
         this.setupRoutes();
         this.setupWebSocket();
@@ -183,12 +234,31 @@ class SFTiServer {
         // Scanner endpoints
         this.app.post('/api/scan', async (req, res) => {
             try {
-                const filters = req.body;
-                const scannerData = await this.runIBKRScanner(filters);
+                const scannerData = await this.runIBKRScanner(req.body);
                 res.json(scannerData);
             } catch (error) {
-                console.error('Scanner request failed:', error);
-                res.status(500).json({ error: 'Scanner request failed' });
+                console.error('Scanner request failed:', error.message);
+                res.status(502).json({ error: 'Scanner request failed', details: error.message });
+            }
+        });
+        
+        this.app.get('/api/fundamentals', async (req, res) => {
+            if (!this.fundamentalsConfig.apiKey) {
+                return res.status(503).json({ error: 'Fundamentals are not configured (FMP_API_KEY)' });
+            }
+            
+            try {
+                const symbols = req.query.symbols
+                    ? Array.from(new Set(req.query.symbols.split(',').map(symbol => symbol.trim().toUpperCase()).filter(Boolean)))
+                    : [];
+                if (symbols.length > MAX_FUNDAMENTALS_SYMBOLS) {
+                    return res.status(400).json({ error: `At most ${MAX_FUNDAMENTALS_SYMBOLS} symbols per request` });
+                }
+                const fundamentals = await this.getFundamentals(symbols);
+                res.json({ fundamentals });
+            } catch (error) {
+                console.error('Fundamentals request failed:', error.message);
+                res.status(502).json({ error: 'Fundamentals request failed', details: error.message });
             }
         });
         
@@ -206,8 +276,9 @@ class SFTiServer {
         // Orders endpoints
         this.app.get('/api/orders', async (req, res) => {
             try {
-                const response = await this.ibkrRequest('GET', '/iserver/orders');
-                res.json(response.data);
+                // Live and recently completed orders for the session (same feed as the `sor` topic)
+                const response = await this.ibkrRequest('GET', '/iserver/account/orders');
+                res.json({ orders: response.data?.orders || [] });
             } catch (error) {
                 console.error('Orders request failed:', error);
                 res.status(500).json({ error: 'Orders request failed' });
@@ -216,8 +287,11 @@ class SFTiServer {
         
         this.app.post('/api/orders', async (req, res) => {
             try {
-                const orderData = req.body;
-                const response = await this.ibkrRequest('POST', '/iserver/orders', orderData);
+                const { accountId, orders } = req.body;
+                if (!accountId || !Array.isArray(orders)) {
+                    return res.status(400).json({ error: 'accountId and orders are required' });
+                }
+                const response = await this.ibkrRequest('POST', `/iserver/account/${accountId}/orders`, { orders });
                 res.json(response.data);
             } catch (error) {
                 console.error('Order placement failed:', error);
@@ -225,6 +299,81 @@ class SFTiServer {
             }
         });
         
+        // Web Push and background alerts
+        this.app.get('/api/push/public-key', (req, res) => {
+            res.json({ publicKey: this.pushAlerts.getPublicKey() });
+        });
+        
+        this.app.post('/api/push/subscribe', (req, res) => {
+            try {
+                this.pushAlerts.addSubscription(req.body.subscription);
+                res.status(201).json({ subscribed: true });
+            } catch (error) {
+                res.status(400).json({ error: error.message });
+            }
+        });
+        
+        this.app.post('/api/push/unsubscribe', (req, res) => {
+            const removed = this.pushAlerts.removeSubscription(req.body.endpoint);
+            res.json({ removed });
+        });
+        
+        this.app.post('/api/push/test', async (req, res) => {
+            await this.pushAlerts.notify({
+                id: `test_${Date.now()}`,
+                symbol: (req.body.symbol || 'SPY').toUpperCase(),
+                message: 'Test notification from the SFTi server'
+            });
+            res.json({ sent: this.pushAlerts.subscriptions.size });
+        });
+        
+        this.app.get('/api/alerts', (req, res) => {
+            res.json({ alerts: this.pushAlerts.getAlerts() });
+        });
+        
+        this.app.put('/api/alerts', (req, res) => {
+            const { alerts } = req.body;
+            if (!Array.isArray(alerts)) {
+                return res.status(400).json({ error: 'alerts array is required' });
+            }
+            this.pushAlerts.setAlerts(alerts);
+            res.json({ count: this.pushAlerts.getAlerts().length });
+        });
+        
+        this.app.put('/api/webhooks/destinations', (req, res) => {
+            const { destinations } = req.body;
+            if (!Array.isArray(destinations)) {
+                return res.status(400).json({ error: 'destinations array is required' });
+            }
+            try {
+                const rejected = this.webhooks.setDestinations(destinations);
+                res.json({ count: this.webhooks.getDestinations().length, rejected });
+            } catch (error) {
+                res.status(error.status || 400).json({ error: error.message });
+            }
+        });
+        
+        this.app.post('/api/webhooks/deliver', (req, res) => {
+            const { deliveries } = req.body;
+            if (!Array.isArray(deliveries) || deliveries.length === 0) {
+                return res.status(400).json({ error: 'deliveries array is required' });
+            }
+            try {
+                res.status(202).json({ deliveries: this.webhooks.enqueue(deliveries) });
+            } catch (error) {
+                res.status(error.status || 400).json({ error: error.message });
+            }
+        });
+        
+        this.app.get('/api/webhooks/log', (req, res) => {
+            res.json({ deliveries: this.webhooks.getLog() });
+        });
+        
+        this.app.delete('/api/webhooks/log', (req, res) => {
+            this.webhooks.clearLog();
+            res.json({ cleared: true });
+        });
+        
         // AI endpoints (mock for now)
         this.app.post('/api/ai/search', async (req, res) => {
             try {
@@ -396,16 +545,23 @@ class SFTiServer {
             // Get market data snapshots
             const marketDataPromises = contracts.map(async (contract) => {
                 try {
-                    const response = await this.ibkrRequest('GET', `/iserver/marketdata/snapshot?conids=${contract.conid}&fields=31,84,85,86`);
-                    return {
+                    const response = await this.ibkrRequest('GET', `/iserver/marketdata/snapshot?conids=${contract.conid}&fields=${SNAPSHOT_FIELDS}`);
+                    const item = response.data[0] || {};
+                    const quote = {
                         symbol: contract.symbol,
                         conid: contract.conid,
-                        price: response.data[0]?.['31'] || 0,
-                        bid: response.data[0]?.['84'] || 0,
-                        ask: response.data[0]?.['85'] || 0,
-                        volume: response.data[0]?.['86'] || 0,
+                        price: parseField(item['31']) || 0,
+                        change: parseField(item['82']) || 0,
+                        changePercent: parseField(item['83']) || 0,
+                        bid: parseField(item['84']) || 0,
+                        ask: parseField(item['86']) || 0,
+                        volume: parseField(item['87']) || 0,
+                        marketCap: parseField(item['7289']) || 0,
                         timestamp: new Date().toISOString()
                     };
+                    this.marketData.set(quote.symbol, quote);
+                    this.lastUpdate = new Date();
+                    return quote;
                 } catch (error) {
                     console.error(`Failed to get market data for ${contract.symbol}:`, error.message);
                     return null;
@@ -423,6 +579,9 @@ class SFTiServer {
     async getContractDetails(symbols) {
         try {
             const searchPromises = symbols.map(async (symbol) => {
+                const cached = this.conids.get(symbol.toUpperCase());
+                if (cached) return cached;
+                
                 try {
                     const response = await this.ibkrRequest('POST', '/iserver/secdef/search', {
                         symbol: symbol.toUpperCase(),
@@ -431,11 +590,13 @@ class SFTiServer {
                     });
                     
                     if (response.data && response.data.length > 0) {
-                        return {
+                        const contract = {
                             symbol: symbol.toUpperCase(),
                             conid: response.data[0].conid,
                             exchange: response.data[0].exchange
                         };
+                        this.conids.set(contract.symbol, contract);
+                        return contract;
                     }
                     return null;
                 } catch (error) {
@@ -452,34 +613,105 @@ class SFTiServer {
         }
     }
     
-    async runIBKRScanner(filters) {
-        try {
-            // Get scanner parameters first
-            const paramsResponse = await this.ibkrRequest('GET', '/iserver/scanner/params');
-            
-            // Build scanner subscription
-            const scannerData = {
-                instrument: 'STK',
-                locations: 'STK.US.MAJOR',
-                scanCode: 'TOP_PERC_GAIN',
-                secType: 'STK',
-                numberOfRows: 50,
-                ...filters
-            };
-            
-            const response = await this.ibkrRequest('POST', '/iserver/scanner/run', scannerData);
-            return response.data;
-        } catch (error) {
-            console.error('IBKR scanner failed:', error);
-            // Return mock data for demo
-            return {
-                contracts: [
-                    { symbol: 'AAPL', price: 150.00, change: 2.5, volume: 1000000 },
-                    { symbol: 'MSFT', price: 300.00, change: 1.8, volume: 800000 },
-                    { symbol: 'GOOGL', price: 2500.00, change: 15.0, volume: 500000 }
-                ]
-            };
-        }
+    /**
+     * Quotes for background alert checks; empty until the gateway session is authenticated
+     */
+    async getAlertQuotes(symbols) {
+        if (!this.ibkrAuthenticated) return [];
+        
+        const quotes = await this.getMarketDataFromIBKR(symbols);
+        return quotes.filter(quote => quote.price > 0);
+    }
+    
+    /**
+     * Intraday (1 minute, 1 day back) or daily (1 month back) bars for alert indicators
+     */
+    async getBarsFromIBKR(symbol, timeframe) {
+        const [contract] = await this.getContractDetails([symbol]);
+        if (!contract) return [];
+        
+        const query = timeframe === '1d' ? 'period=1m&bar=1d' : 'period=1d&bar=1min';
+        const response = await this.ibkrRequest('GET', `/iserver/marketdata/history?conid=${contract.conid}&${query}&outsideRth=true`);
+        const bars = Array.isArray(response.data?.data) ? response.data.data : [];
+        
+        return bars.map(bar => ({
+            time: Math.floor(bar.t / 1000),
+            open: bar.o,
+            high: bar.h,
+            low: bar.l,
+            close: bar.c,
+            volume: bar.v
+        }));
+    }
+    
+    async runIBKRScanner(params = {}) {
+        // Same shape the web client builds from its ScannerFilters (see src/lib/ibkr-scanner.ts)
+        const scannerParams = {
+            instrument: params.instrument || 'STK',
+            type: params.type || 'TOP_PERC_GAIN',
+            location: params.location || 'STK.US.MAJOR',
+            filter: Array.isArray(params.filter) ? params.filter : []
+        };
+        
+        const response = await this.ibkrRequest('POST', '/iserver/scanner/run', scannerParams);
+        const contracts = Array.isArray(response.data?.contracts) ? response.data.contracts : [];
+        
+        return {
+            scanCode: scannerParams.type,
+            contracts: contracts.map((item, index) => ({
+                symbol: item.symbol,
+                conid: item.con_id ?? item.conid,
+                name: item.company_name,
+                exchange: item.listing_exchange,
+                rank: index + 1
+            }))
+        };
+    }
+    
+    /**
+     * Float (FMP shares-float) and the number of news items published today (New York date)
+     * per symbol. A symbol whose float lookup fails keeps only its news count.
+     */
+    async getFundamentals(symbols) {
+        if (symbols.length === 0) return {};
+        
+        const { apiKey, baseUrl, timeout } = this.fundamentalsConfig;
+        const today = new Intl.DateTimeFormat('en-CA', { timeZone: 'America/New_York' }).format(new Date());
+        
+        // shares-float takes one symbol per call; a few at a time keeps within FMP's rate limit
+        const getFloats = async () => {
+            const results = [];
+            for (let start = 0; start < symbols.length; start += FUNDAMENTALS_CONCURRENCY) {
+                const batch = symbols.slice(start, start + FUNDAMENTALS_CONCURRENCY);
+                results.push(...await Promise.allSettled(batch.map(symbol =>
+                    axios.get(`${baseUrl}/shares-float`, { params: { symbol, apikey: apiKey }, timeout })
+                )));
+            }
+            return results;
+        };
+        
+        const [floats, news] = await Promise.all([
+            getFloats(),
+            axios.get(`${baseUrl}/news/stock`, {
+                params: { symbols: symbols.join(','), from: today, limit: 1000, apikey: apiKey },
+                timeout
+            })
+        ]);
+        
+        const fundamentals = Object.fromEntries(symbols.map(symbol => [symbol, { news: 0 }]));
+        
+        floats.forEach((result, index) => {
+            const entry = result.status === 'fulfilled' && Array.isArray(result.value.data) ? result.value.data[0] : null;
+            const float = Number(entry?.floatShares);
+            if (float > 0) fundamentals[symbols[index]].float = float;
+        });
+        
+        (Array.isArray(news.data) ? news.data : []).forEach(item => {
+            const symbol = String(item?.symbol || '').toUpperCase();
+            if (fundamentals[symbol]) fundamentals[symbol].news += 1;
+        });
+        
+        return fundamentals;
     }
     
     async subscribeToMarketData(symbols) {
@@ -540,6 +772,8 @@ class SFTiServer {
             console.log('4. The server will automatically detect authentication');
         });
         
+        this.pushAlerts.start();
+        
         // Graceful shutdown
         process.on('SIGTERM', this.shutdown.bind(this));
         process.on('SIGINT', this.shutdown.bind(this));
@@ -548,6 +782,9 @@ class SFTiServer {
     shutdown() {
         console.log('Shutting down server...');
         
+        this.pushAlerts.stop();
+        this.webhooks.stop();
+        
         if (this.wss) {
             this.wss.close();
         }
@@ -0,0 +1,116 @@
+import crypto from 'crypto';
+import http from 'http';
+import { PushAlertService } from './push-alerts.js';
+import { fromBase64Url, toBase64Url } from './web-push.js';
+
+/**
+ * Local Web Push check: runs a stand-in push service that verifies the VAPID JWT and
+ * decrypts the aes128gcm payload with a generated browser key pair, then triggers a
+ * synced alert through PushAlertService against it.
+ *
+ *   node scripts/test-push.js
+ */
+
+// Browser side of the subscription
+const browserKeys = crypto.createECDH('prime256v1');
+const browserPublicKey = browserKeys.generateKeys();
+const authSecret = crypto.randomBytes(16);
+
+function verifyVapid(authorization, origin) {
+    const match = authorization?.match(/^vapid t=([^,]+), k=(.+)$/);
+    if (!match) throw new Error(`Malformed Authorization header: ${authorization}`);
+
+    const [header, claims, signature] = match[1].split('.');
+    const point = fromBase64Url(match[2]);
+    const key = crypto.createPublicKey({
+        format: 'jwk',
+        key: { kty: 'EC', crv: 'P-256', x: toBase64Url(point.subarray(1, 33)), y: toBase64Url(point.subarray(33, 65)) }
+    });
+
+    const valid = crypto.verify('sha256', Buffer.from(`${header}.${claims}`), { key, dsaEncoding: 'ieee-p1363' }, fromBase64Url(signature));
+    if (!valid) throw new Error('VAPID signature does not verify');
+
+    const { aud, exp } = JSON.parse(fromBase64Url(claims).toString());
+    if (aud !== origin) throw new Error(`VAPID audience ${aud} does not match ${origin}`);
+    if (exp * 1000 <= Date.now()) throw new Error('VAPID token already expired');
+}
+
+function decrypt(body) {
+    const salt = body.subarray(0, 16);
+    const idLength = body.readUInt8(20);
+    const serverPublicKey = body.subarray(21, 21 + idLength);
+    const record = body.subarray(21 + idLength);
+
+    const sharedSecret = browserKeys.computeSecret(serverPublicKey);
+    const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), browserPublicKey, serverPublicKey]);
+    const ikm = Buffer.from(crypto.hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32));
+    const contentKey = Buffer.from(crypto.hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16));
+    const nonce = Buffer.from(crypto.hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12));
+
+    const decipher = crypto.createDecipheriv('aes-128-gcm', contentKey, nonce);
+    decipher.setAuthTag(record.subarray(record.length - 16));
+    const plaintext = Buffer.concat([decipher.update(record.subarray(0, record.length - 16)), decipher.final()]);
+
+    // Strip the record delimiter (0x02) and any padding before it
+    return plaintext.subarray(0, plaintext.lastIndexOf(2)).toString();
+}
+
+const received = [];
+const pushService = http.createServer((req, res) => {
+    const chunks = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+        try {
+            if (req.headers['content-encoding'] !== 'aes128gcm') throw new Error('Missing aes128gcm encoding');
+            verifyVapid(req.headers.authorization, `http://127.0.0.1:${pushService.address().port}`);
+            received.push(JSON.parse(decrypt(Buffer.concat(chunks))));
+            res.writeHead(201).end();
+        } catch (error) {
+            console.error('❌ Push service rejected message:', error.message);
+            res.writeHead(400).end(error.message);
+        }
+    });
+});
+
+await new Promise(resolve => pushService.listen(0, '127.0.0.1', resolve));
+const endpoint = `http://127.0.0.1:${pushService.address().port}/push/test-device`;
+
+let price = 0.95;
+const service = new PushAlertService({
+    getQuotes: async (symbols) => symbols.map(symbol => ({ symbol, price, change: 0, changePercent: 0, volume: 1_000_000 }))
+});
+
+service.addSubscription({
+    endpoint,
+    keys: { p256dh: toBase64Url(browserPublicKey), auth: toBase64Url(authSecret) }
+});
+service.setAlerts([{
+    id: 'alert_test',
+    symbol: 'ABCD',
+    type: 'price_above',
+    value: 1,
+    enabled: true,
+    triggered: false,
+    rule: { kind: 'group', combinator: 'and', rules: [{ kind: 'condition', field: 'price', operator: '>=', target: 1 }] }
+}]);
+
+const failures = [];
+
+if ((await service.check()).length !== 0) failures.push('alert triggered below its level');
+
+price = 1.05;
+const triggered = await service.check();
+if (triggered.length !== 1) failures.push(`expected one trigger, got ${triggered.length}`);
+if (received.length !== 1) failures.push(`expected one push, got ${received.length}`);
+else if (received[0].data?.url !== '/?chart=ABCD') failures.push(`unexpected deep link ${received[0].data?.url}`);
+
+if ((await service.check()).length !== 0) failures.push('"once" alert triggered twice');
+
+pushService.close();
+
+if (failures.length > 0) {
+    failures.forEach(failure => console.error(`❌ ${failure}`));
+    process.exit(1);
+}
+
+console.log('✅ Push delivered and decrypted:', JSON.stringify(received[0]));
@@ -0,0 +1,111 @@
+import crypto from 'crypto';
+
+/**
+ * Minimal Web Push sender (VAPID, RFC 8292 + aes128gcm payload encryption, RFC 8291)
+ * built on node:crypto so the server needs no extra dependency.
+ */
+
+const RECORD_SIZE = 4096;
+
+export const toBase64Url = (buffer) => Buffer.from(buffer).toString('base64url');
+export const fromBase64Url = (value) => Buffer.from(value, 'base64url');
+
+/**
+ * Create a VAPID key pair (base64url: 65-byte uncompressed public key, 32-byte private key)
+ */
+export function generateVapidKeys() {
+    const ecdh = crypto.createECDH('prime256v1');
+    ecdh.generateKeys();
+    // getPrivateKey() drops leading zero bytes
+    const privateKey = ecdh.getPrivateKey();
+    return {
+        publicKey: toBase64Url(ecdh.getPublicKey()),
+        privateKey: toBase64Url(Buffer.concat([Buffer.alloc(32 - privateKey.length), privateKey]))
+    };
+}
+
+function toPrivateKeyObject(publicKey, privateKey) {
+    const point = fromBase64Url(publicKey);
+    return crypto.createPrivateKey({
+        format: 'jwk',
+        key: {
+            kty: 'EC',
+            crv: 'P-256',
+            x: toBase64Url(point.subarray(1, 33)),
+            y: toBase64Url(point.subarray(33, 65)),
+            d: privateKey
+        }
+    });
+}
+
+/**
+ * `Authorization` header value for a push service origin
+ */
+export function createVapidAuthorization(endpoint, vapid, expiresIn = 12 * 60 * 60) {
+    const header = toBase64Url(JSON.stringify({ typ: 'JWT', alg: 'ES256' }));
+    const claims = toBase64Url(JSON.stringify({
+        aud: new URL(endpoint).origin,
+        exp: Math.floor(Date.now() / 1000) + expiresIn,
+        sub: vapid.subject
+    }));
+
+    const signature = crypto.sign('sha256', Buffer.from(`${header}.${claims}`), {
+        key: toPrivateKeyObject(vapid.publicKey, vapid.privateKey),
+        dsaEncoding: 'ieee-p1363'
+    });
+
+    return `vapid t=${header}.${claims}.${toBase64Url(signature)}, k=${vapid.publicKey}`;
+}
+
+/**
+ * Encrypt a payload for a subscription as a single aes128gcm record
+ */
+export function encryptPayload(subscription, payload) {
+    const userPublicKey = fromBase64Url(subscription.keys.p256dh);
+    const authSecret = fromBase64Url(subscription.keys.auth);
+
+    const ecdh = crypto.createECDH('prime256v1');
+    const serverPublicKey = ecdh.generateKeys();
+    const sharedSecret = ecdh.computeSecret(userPublicKey);
+
+    const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), userPublicKey, serverPublicKey]);
+    const ikm = Buffer.from(crypto.hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32));
+
+    const salt = crypto.randomBytes(16);
+    const contentKey = Buffer.from(crypto.hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16));
+    const nonce = Buffer.from(crypto.hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12));
+
+    // 0x02 marks the last (only) record
+    const plaintext = Buffer.concat([Buffer.from(payload), Buffer.from([2])]);
+    const cipher = crypto.createCipheriv('aes-128-gcm', contentKey, nonce);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+
+    const header = Buffer.alloc(21);
+    salt.copy(header, 0);
+    header.writeUInt32BE(RECORD_SIZE, 16);
+    header.writeUInt8(serverPublicKey.length, 20);
+
+    return Buffer.concat([header, serverPublicKey, ciphertext]);
+}
+
+/**
+ * Deliver one push message. Resolves with the push service's status code; 404/410
+ * mean the subscription is gone and should be dropped.
+ */
+export async function sendWebPush(subscription, payload, vapid, options = {}) {
+    const body = encryptPayload(subscription, typeof payload === 'string' ? payload : JSON.stringify(payload));
+
+    const response = await fetch(subscription.endpoint, {
+        method: 'POST',
+        headers: {
+            'Authorization': createVapidAuthorization(subscription.endpoint, vapid),
+            'Content-Encoding': 'aes128gcm',
+            'Content-Type': 'application/octet-stream',
+            'TTL': String(options.ttl ?? 3600),
+            'Urgency': options.urgency || 'high'
+        },
+        body
+    });
+
+    return { statusCode: response.status, body: await response.text() };
+}
@@ -0,0 +1,320 @@
+import fs from 'fs';
+import path from 'path';
+import dns from 'dns/promises';
+import net from 'net';
+
+/**
+ * Outbound webhook delivery
+ * The web app syncs its webhook destinations here and renders each request body
+ * (Discord, Slack or generic JSON); the server POSTs it to the saved destination with
+ * retries and keeps a delivery log. Deliveries name a destination by id, so a request
+ * can't pick its own URL, and private or loopback addresses are never contacted.
+ */
+
+// Delay before each retry; the first attempt is immediate
+const RETRY_DELAYS = [2000, 10000, 30000];
+const MAX_LOG_ENTRIES = 200;
+const REQUEST_TIMEOUT = 10000;
+// Upper bound for a destination's Retry-After
+const MAX_RETRY_AFTER = 60000;
+const MAX_DESTINATIONS = 50;
+const MAX_DELIVERIES_PER_REQUEST = 10;
+const MAX_BODY_BYTES = 64 * 1024;
+// Deliveries queued per destination in any minute (Discord allows 30)
+const MAX_DELIVERIES_PER_MINUTE = 30;
+
+const isRetryable = (statusCode) => statusCode === 408 || statusCode === 429 || statusCode >= 500;
+
+// Loopback, private, link-local, shared, reserved and multicast ranges
+const BLOCKED_ADDRESSES = new net.BlockList();
+[
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+    ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+].forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address, prefix, 'ipv4'));
+[
+    ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+].forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address, prefix, 'ipv6'));
+
+const isBlockedAddress = (address) => {
+    const family = net.isIP(address);
+    return family !== 0 && BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+};
+
+const requestError = (message, status = 400) => Object.assign(new Error(message), { status });
+
+export class WebhookDispatcher {
+    /**
+     * @param {object} [options]
+     * @param {string} [options.logFile] JSON file the delivery log is kept in
+     * @param {string} [options.destinationsFile] JSON file the synced destinations are kept in
+     * @param {string[]} [options.allowedHosts] Destination hosts (and their subdomains) allowed; empty allows any public host
+     * @param {number[]} [options.retryDelays]
+     * @param {typeof fetch} [options.fetch]
+     * @param {(hostname: string) => Promise<string[]>} [options.resolve] Addresses a hostname resolves to
+     */
+    constructor(options = {}) {
+        this.logFile = options.logFile || null;
+        this.destinationsFile = options.destinationsFile || null;
+        this.allowedHosts = (options.allowedHosts || []).map(host => host.trim().toLowerCase()).filter(Boolean);
+        this.retryDelays = options.retryDelays || RETRY_DELAYS;
+        this.fetch = options.fetch || fetch;
+        this.resolve = options.resolve || (async (hostname) => (await dns.lookup(hostname, { all: true })).map(entry => entry.address));
+        this.log = this.load();
+        this.destinations = this.loadDestinations();
+        this.timers = new Set();
+    }
+
+    /**
+     * Replace the saved destinations with the app's list of `{ id, name, url }`. Entries
+     * without an id, or whose URL isn't http(s) to an allowed public host, are left out
+     * and returned.
+     */
+    setDestinations(destinations) {
+        if (destinations.length > MAX_DESTINATIONS) {
+            throw requestError(`At most ${MAX_DESTINATIONS} destinations`);
+        }
+
+        const next = new Map();
+        const rejected = [];
+        destinations.forEach(destination => {
+            const id = destination?.id;
+            const url = this.checkUrl(destination?.url);
+            if (typeof id !== 'string' || !id || !url) {
+                rejected.push({ id, name: destination?.name });
+                return;
+            }
+            next.set(id, { id, name: String(destination.name || url.host).slice(0, 100), url: url.href });
+        });
+
+        this.destinations = next;
+        this.saveDestinations();
+        return rejected;
+    }
+
+    getDestinations() {
+        return Array.from(this.destinations.values());
+    }
+
+    /**
+     * Queue one delivery per entry and return their log records. Each entry is
+     * `{ destinationId, body, alertId?, symbol? }` naming a synced destination.
+     */
+    enqueue(entries) {
+        if (entries.length > MAX_DELIVERIES_PER_REQUEST) {
+            throw requestError(`At most ${MAX_DELIVERIES_PER_REQUEST} deliveries per request`);
+        }
+
+        // Validate everything first so a bad entry doesn't leave the rest half-queued
+        const since = Date.now() - 60000;
+        const queued = new Map();
+        entries.forEach((entry, index) => {
+            const destination = this.destinations.get(entry?.destinationId);
+            if (!destination) {
+                throw requestError(`deliveries[${index}]: unknown destination (not saved yet, or its URL is not allowed)`);
+            }
+            if (entry.body === undefined) {
+                throw requestError(`deliveries[${index}]: body is required`);
+            }
+            const body = typeof entry.body === 'string' ? entry.body : JSON.stringify(entry.body);
+            if (Buffer.byteLength(body) > MAX_BODY_BYTES) {
+                throw requestError(`deliveries[${index}]: body is over ${MAX_BODY_BYTES} bytes`);
+            }
+
+            const recent = queued.get(destination.id)
+                ?? this.log.filter(delivery => delivery.destinationId === destination.id && delivery.createdAt > since).length;
+            if (recent >= MAX_DELIVERIES_PER_MINUTE) {
+                throw requestError(`${destination.name}: more than ${MAX_DELIVERIES_PER_MINUTE} deliveries a minute`, 429);
+            }
+            queued.set(destination.id, recent + 1);
+        });
+
+        return entries.map(entry => {
+            const destination = this.destinations.get(entry.destinationId);
+            const now = Date.now();
+            const delivery = {
+                id: `wh_${now}_${Math.random().toString(36).slice(2, 8)}`,
+                destinationId: destination.id,
+                destinationName: destination.name,
+                alertId: typeof entry.alertId === 'string' ? entry.alertId : undefined,
+                symbol: typeof entry.symbol === 'string' ? entry.symbol.slice(0, 20) : undefined,
+                status: 'pending',
+                attempts: 0,
+                createdAt: now,
+                updatedAt: now
+            };
+            this.record(delivery);
+            this.attempt(delivery, destination.url, entry.body);
+            return delivery;
+        });
+    }
+
+    /**
+     * Delivery log, newest first
+     */
+    getLog() {
+        return this.log.slice();
+    }
+
+    clearLog() {
+        this.log = [];
+        this.save();
+    }
+
+    stop() {
+        this.timers.forEach(timer => clearTimeout(timer));
+        this.timers.clear();
+    }
+
+    async attempt(delivery, url, body) {
+        delivery.attempts += 1;
+        let retryAfter = null;
+
+        try {
+            // Checked on every attempt, since a hostname can be pointed somewhere else later
+            const blocked = await this.findBlockedAddress(url);
+            if (blocked) {
+                delivery.error = `Destination resolves to a private address (${blocked})`;
+                this.fail(delivery);
+                return;
+            }
+
+            // Redirects are not followed, so a destination can't bounce the request inward
+            const response = await this.fetch(url, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'User-Agent': 'SFTi-Scanner/1.0'
+                },
+                body: typeof body === 'string' ? body : JSON.stringify(body),
+                redirect: 'manual',
+                signal: AbortSignal.timeout(REQUEST_TIMEOUT)
+            });
+
+            delivery.statusCode = response.status;
+            if (response.ok) {
+                delivery.status = 'delivered';
+                delivery.error = undefined;
+                this.update(delivery);
+                return;
+            }
+
+            delivery.error = (await response.text().catch(() => '')).slice(0, 200) || response.statusText;
+            if (!isRetryable(response.status)) {
+                this.fail(delivery);
+                return;
+            }
+
+            const header = Number(response.headers.get('retry-after'));
+            retryAfter = Number.isFinite(header) && header > 0 ? Math.min(header * 1000, MAX_RETRY_AFTER) : null;
+        } catch (error) {
+            delivery.error = error.message;
+        }
+
+        const delay = this.retryDelays[delivery.attempts - 1];
+        if (delay === undefined) {
+            this.fail(delivery);
+            return;
+        }
+
+        this.update(delivery);
+        const timer = setTimeout(() => {
+            this.timers.delete(timer);
+            this.attempt(delivery, url, body);
+        }, retryAfter ?? delay);
+        this.timers.add(timer);
+    }
+
+    /**
+     * The parsed URL when it is http(s) to an allowed host that isn't a private address literal, else null
+     */
+    checkUrl(value) {
+        let url;
+        try {
+            url = new URL(String(value));
+        } catch {
+            return null;
+        }
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+
+        const hostname = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+        if (hostname === 'localhost' || hostname.endsWith('.localhost') || isBlockedAddress(hostname)) return null;
+        if (this.allowedHosts.length > 0
+            && !this.allowedHosts.some(host => hostname === host || hostname.endsWith(`.${host}`))) {
+            return null;
+        }
+        return url;
+    }
+
+    /**
+     * The first private or loopback address the URL's host resolves to, or null
+     */
+    async findBlockedAddress(url) {
+        const hostname = new URL(url).hostname.replace(/^\[|\]$/g, '');
+        const addresses = net.isIP(hostname) ? [hostname] : await this.resolve(hostname);
+        return addresses.find(isBlockedAddress) ?? null;
+    }
+
+    fail(delivery) {
+        delivery.status = 'failed';
+        console.warn(`❌ Webhook to ${delivery.destinationName} failed after ${delivery.attempts} attempt(s): ${delivery.error}`);
+        this.update(delivery);
+    }
+
+    record(delivery) {
+        this.log = [delivery, ...this.log].slice(0, MAX_LOG_ENTRIES);
+        this.save();
+    }
+
+    update(delivery) {
+        delivery.updatedAt = Date.now();
+        this.save();
+    }
+
+    load() {
+        if (!this.logFile || !fs.existsSync(this.logFile)) return [];
+        try {
+            const saved = JSON.parse(fs.readFileSync(this.logFile, 'utf8'));
+            // Deliveries still pending when the server stopped are not resumed
+            return (Array.isArray(saved) ? saved : []).map(delivery =>
+                delivery.status === 'pending' ? { ...delivery, status: 'failed', error: 'Server restarted before delivery' } : delivery
+            );
+        } catch (error) {
+            console.warn('Failed to read webhook log:', error.message);
+            return [];
+        }
+    }
+
+    loadDestinations() {
+        if (!this.destinationsFile || !fs.existsSync(this.destinationsFile)) return new Map();
+        try {
+            const saved = JSON.parse(fs.readFileSync(this.destinationsFile, 'utf8'));
+            // Saved entries go through the same checks, so a tightened allowlist applies on restart
+            return new Map((Array.isArray(saved) ? saved : [])
+                .filter(destination => destination?.id && this.checkUrl(destination.url))
+                .map(destination => [destination.id, destination]));
+        } catch (error) {
+            console.warn('Failed to read webhook destinations:', error.message);
+            return new Map();
+        }
+    }
+
+    saveDestinations() {
+        if (!this.destinationsFile) return;
+        try {
+            fs.mkdirSync(path.dirname(this.destinationsFile), { recursive: true });
+            fs.writeFileSync(this.destinationsFile, JSON.stringify(this.getDestinations(), null, 2));
+        } catch (error) {
+            console.warn('Failed to save webhook destinations:', error.message);
+        }
+    }
+
+    save() {
+        if (!this.logFile) return;
+        try {
+            fs.mkdirSync(path.dirname(this.logFile), { recursive: true });
+            fs.writeFileSync(this.logFile, JSON.stringify(this.log, null, 2));
+        } catch (error) {
+            console.warn('Failed to save webhook log:', error.message);
+        }
+    }
+}
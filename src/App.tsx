@@ -1,8 +1,18 @@
-import { useState, useEffect } from 'react';
-import { Stock, ScannerFilters, Tab } from '@/types';
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { Stock, StockDelta, ScannerFilters, Tab, DataSource } from '@/types';
 import { getMarketHours } from '@/lib/market';
 import { alertService } from '@/lib/alerts';
-import { ibkrGateway } from '@/lib/ibkr-gateway-browser';
+import { marketData, DEFAULT_DATA_SOURCE, MarketDataProvider } from '@/lib/market-data';
+import { fundamentalsService } from '@/lib/fundamentals';
+import { applyStockDelta } from '@/lib/ibkr-stream';
+import { scannerService, matchesFilters } from '@/lib/scanner';
+import { ordersService } from '@/lib/orders';
+import { pushService } from '@/lib/push';
+import { marketRecorder } from '@/lib/recorder';
+import { sessionScheduler } from '@/lib/session-scheduler';
+import { scannerMetrics } from '@/lib/scanner-metrics';
+import { getColumnLayoutKey } from '@/lib/scanner-columns';
+import { useMarketData } from '@/hooks/use-market-data';
 import { useKV } from '@github/spark/hooks';
 import { ScannerTable } from '@/components/ScannerTable';
 import { FilterPanel } from '@/components/FilterPanel';
@@ -14,6 +24,11 @@ import { IBKRSettings } from '@/components/IBKRSettingsBrowser';
 import { AISearch } from '@/components/AISearch';
 import { MarketInsights } from '@/components/MarketInsights';
 import { SFTiTop10 } from '@/components/SFTiTop10';
+import { OrdersBlotter } from '@/components/OrdersBlotter';
+import { PortfolioView } from '@/components/PortfolioView';
+import { StrategyBacktest } from '@/components/StrategyBacktest';
+import { SessionReplay, ReplayBar } from '@/components/SessionReplay';
+import { SessionSchedule } from '@/components/SessionSchedule';
 import { Footer } from '@/components/Footer';
 import { OfflineBanner } from '@/components/OfflineBanner';
 import { Toaster, toast } from 'sonner';
@@ -33,6 +48,12 @@ const DEFAULT_FILTERS: ScannerFilters = {
   newsOnly: false
 };
 
+const TAB_TITLES = {
+  orders: 'Orders',
+  portfolio: 'Portfolio',
+  backtest: 'Backtest'
+};
+
 function App() {
   const [stocks, setStocks] = useState<Stock[]>([]);
   const [filteredStocks, setFilteredStocks] = useState<Stock[]>([]);
@@ -42,99 +63,220 @@ function App() {
     { id: 'scanner', type: 'scanner', title: 'Scanner' }
   ]);
   const [activeTabId, setActiveTabId] = useKV<string>('active-tab-v2', 'sfti_top10');
+  const [dataSource, setDataSource] = useKV<DataSource>('market-data-source', DEFAULT_DATA_SOURCE);
+  const { provider, status: providerStatus } = useMarketData();
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [lastScan, setLastScan] = useState<Date | null>(null);
+  const [scannerError, setScannerError] = useState<string | null>(null);
+  // Bumped when scanner metrics load more history, to refilter with them
+  const [metricsVersion, setMetricsVersion] = useState(0);
+  const stocksRef = useRef<Stock[]>(stocks);
+  stocksRef.current = stocks;
+  // Latest tab state for window event handlers registered once
+  const stockSelectRef = useRef<(symbol: string) => void>(() => {});
 
-  // Ensure tabs are properly initialized
+  // Ensure the pinned tabs lead, keeping any chart, orders, portfolio, backtest or preset scanner tabs
   useEffect(() => {
-    const correctTabs = [
+    const pinnedTabs: Tab[] = [
       { id: 'sfti_top10', type: 'sfti_top10', title: 'AI Picks' },
       { id: 'scanner', type: 'scanner', title: 'Scanner' }
     ];
     
-    if (tabs.length !== 2 || !tabs.find(t => t.id === 'sfti_top10') || !tabs.find(t => t.id === 'scanner')) {
+    if (tabs[0]?.id !== 'sfti_top10' || tabs[1]?.id !== 'scanner') {
       console.log('Resetting tabs to correct order');
-      setTabs(correctTabs);
+      setTabs([...pinnedTabs, ...tabs.filter(tab => tab.id !== 'sfti_top10' && tab.id !== 'scanner')]);
     }
   }, []);
 
-  // Initialize IBKR connection and data
+  // Apply the persisted data source before streaming starts
   useEffect(() => {
-    const initializeData = async () => {
-      try {
-        setLoading(true);
-        setError(null);
-        
-        // Check for existing IBKR session
-        const status = await ibkrGateway.getConnectionStatus();
-        if (status.authenticated) {
-          console.log('IBKR already authenticated');
-          setStocks([]);
-        } else {
-          console.log('IBKR authentication required');
-          setError('IBKR authentication required - Click Settings to login');
-          setStocks([]);
-        }
-      } catch (error) {
-        console.warn('IBKR initialization error:', error);
-        setError('IBKR connection failed - running in demo mode');
-        setStocks([]);
-      } finally {
-        setLoading(false);
-      }
+    if (dataSource === undefined) return;
+
+    marketData.setSource(dataSource);
+    setLoading(false);
+  }, [dataSource]);
+
+  // Persist data source switches made in settings. A session replay is never restored on reload.
+  useEffect(() => {
+    return marketData.onProviderChange(next => {
+      if (next.source !== 'replay') setDataSource(next.source);
+    });
+  }, []);
+
+  // IBKR quotes carry no float or news counts, so the scanner looks them up on the server
+  useEffect(() => {
+    const applyFundamentals = (provider: MarketDataProvider) => {
+      scannerService.setFundamentalsSource(
+        provider.capabilities.fundamentals ? null : symbols => fundamentalsService.fetch(symbols)
+      );
     };
-    
-    initializeData();
+
+    applyFundamentals(marketData.getProvider());
+    return marketData.onProviderChange(applyFundamentals);
   }, []);
 
-  // Real-time updates from IBKR
+  // Scanner universe: the active provider's market scan, refreshed on an interval
   useEffect(() => {
-    if (loading || stocks.length === 0) return;
-
-    const marketHours = getMarketHours();
-    const updateInterval = marketHours.isOpen ? 3000 : 30000;
-
-    const interval = setInterval(async () => {
-      try {
-        const symbols = stocks.map(s => s.symbol);
-        if (symbols.length > 0) {
-          const updatedStocks = await ibkrService.getMarketData(symbols);
-          setStocks(updatedStocks);
-          alertService.checkAlerts(updatedStocks);
-        }
-      } catch (error) {
-        console.warn('Failed to update market data:', error);
-      }
-    }, updateInterval);
+    const unsubscribe = scannerService.onUpdate(state => {
+      setStocks(state.rows);
+      setLastScan(state.lastScan);
+      setScannerError(state.error);
+    });
+
+    return () => {
+      unsubscribe();
+      scannerService.stop();
+    };
+  }, []);
+
+  // Every scanner tab is scanned together; the tab on screen (or the pinned tab elsewhere)
+  // narrows the shared rows with its own filters
+  const activeTab = tabs.find(tab => tab.id === activeTabId);
+  const scanFilters = activeTab?.type === 'scanner' && activeTab.filters ? activeTab.filters : filters;
+  const scannerFilterSets = useMemo(() => [
+    ...(filters ? [filters] : []),
+    ...(tabs ?? []).flatMap(tab => (tab.type === 'scanner' && tab.filters ? [tab.filters] : []))
+  ], [filters, tabs]);
 
-    return () => clearInterval(interval);
-  }, [stocks.length, loading]);
+  useEffect(() => {
+    if (loading || !filters) return;
+    scannerService.start(scannerFilterSets);
+  }, [loading, filters, scannerFilterSets]);
+
+  // Orders and fill notifications run whether or not the Orders tab is open
+  useEffect(() => {
+    if (loading) return;
+    ordersService.start();
 
-  // Listen for chart open events from alerts
+    return () => ordersService.stop();
+  }, [loading]);
+
+  // Keep the server's alert copy current for background push
+  useEffect(() => {
+    pushService.start();
+    return () => pushService.stop();
+  }, []);
+
+  // Record scanner rows and streamed quotes for replay, backtests and export
+  useEffect(() => {
+    marketRecorder.start();
+    return () => marketRecorder.stop();
+  }, []);
+
+  // Derived metrics (relative volume, gap, VWAP distance) for the scanner rows
+  useEffect(() => {
+    scannerMetrics.start();
+    const unsubscribe = scannerMetrics.onUpdate(() => setMetricsVersion(version => version + 1));
+
+    return () => {
+      unsubscribe();
+      scannerMetrics.stop();
+    };
+  }, []);
+
+  // Session boundaries and the actions attached to them
+  useEffect(() => {
+    sessionScheduler.start();
+    return () => sessionScheduler.stop();
+  }, []);
+
+  // Preset switches scheduled for a session boundary
+  useEffect(() => {
+    const handleApplyPreset = (event: CustomEvent<{ filters: ScannerFilters }>) => {
+      setFilters(event.detail.filters);
+    };
+
+    window.addEventListener('applyScannerPreset', handleApplyPreset as EventListener);
+    return () => window.removeEventListener('applyScannerPreset', handleApplyPreset as EventListener);
+  }, []);
+
+  // Deep link from a push notification opened while the app was closed (/?chart=SYMBOL)
+  useEffect(() => {
+    if (loading) return;
+
+    const params = new URLSearchParams(window.location.search);
+    const symbol = params.get('chart');
+    if (!symbol) return;
+
+    params.delete('chart');
+    const query = params.toString();
+    window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`);
+    stockSelectRef.current(symbol.toUpperCase());
+  }, [loading]);
+
+  const error = !providerStatus.authenticated
+    ? `${provider.label} authentication required - Click Settings to login`
+    : scannerError
+      ? `Scanner unavailable: ${scannerError}`
+      : null;
+  const updatedLabel = lastScan ? `Updated ${lastScan.toLocaleTimeString()}` : 'Scanning...';
+
+  // Real-time tick streaming from the active provider
+  const streamedSymbols = stocks.map(s => s.symbol).sort().join(',');
+  useEffect(() => {
+    if (loading || !streamedSymbols || !providerStatus.authenticated) return;
+
+    const symbols = streamedSymbols.split(',');
+    const unsubscribers: (() => void)[] = [];
+    let cancelled = false;
+
+    const handleDelta = (delta: StockDelta) => {
+      const stock = stocksRef.current.find(s => s.symbol === delta.symbol);
+      if (!stock) return;
+
+      const next = applyStockDelta(stock, delta);
+      setStocks(current => current.map(s => s.symbol === delta.symbol ? applyStockDelta(s, delta) : s));
+      alertService.checkAlerts([next]);
+      marketRecorder.recordStocks([next]);
+      scannerMetrics.update([next]);
+    };
+
+    symbols.forEach(symbol => {
+      provider.subscribe(symbol, handleDelta)
+        .then(unsubscribe => {
+          if (cancelled) {
+            unsubscribe();
+          } else {
+            unsubscribers.push(unsubscribe);
+          }
+        })
+        .catch(error => {
+          console.warn(`Failed to subscribe to ${symbol} market data:`, error);
+        });
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+  }, [streamedSymbols, loading, provider, providerStatus.authenticated]);
+
+  // Listen for chart open events from alerts, push notifications and the portfolio
   useEffect(() => {
     const handleOpenChart = (event: CustomEvent) => {
       const { symbol } = event.detail;
-      handleStockSelect(symbol);
+      stockSelectRef.current(symbol);
+    };
+
+    // Notification clicks while the app is open arrive from the service worker
+    const handleWorkerMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'openChart' && event.data.symbol) {
+        stockSelectRef.current(event.data.symbol);
+      }
     };
 
     window.addEventListener('openChart', handleOpenChart as EventListener);
-    return () => window.removeEventListener('openChart', handleOpenChart as EventListener);
+    navigator.serviceWorker?.addEventListener('message', handleWorkerMessage);
+    return () => {
+      window.removeEventListener('openChart', handleOpenChart as EventListener);
+      navigator.serviceWorker?.removeEventListener('message', handleWorkerMessage);
+    };
   }, []);
 
-  // Apply filters
+  // Apply filters, including the derived-metric ranges
   useEffect(() => {
-    const filtered = stocks.filter(stock => {
-      if (stock.price < filters.priceMin || stock.price > filters.priceMax) return false;
-      if (stock.marketCap < filters.marketCapMin || stock.marketCap > filters.marketCapMax) return false;
-      if (stock.float < filters.floatMin || stock.float > filters.floatMax) return false;
-      if (stock.volume < filters.volumeMin) return false;
-      if (stock.changePercent < filters.changeMin || stock.changePercent > filters.changeMax) return false;
-      if (filters.newsOnly && stock.news === 0) return false;
-      return true;
-    });
-    
-    setFilteredStocks(filtered);
-  }, [stocks, filters]);
+    setFilteredStocks(scannerMetrics.withMetrics(stocks).filter(stock => matchesFilters(stock, scanFilters)));
+  }, [stocks, scanFilters, metricsVersion]);
 
   // Market hours theme
   const marketHours = getMarketHours();
@@ -175,10 +317,18 @@ function App() {
     setTabs(prevTabs => [...prevTabs, newTab]);
     setActiveTabId(newTab.id);
   };
+  stockSelectRef.current = handleStockSelect;
 
   const handleTabClose = (tabId: string) => {
     if (tabId === 'scanner' || tabId === 'sfti_top10') return;
 
+    // A closed preset tab's column layout would otherwise linger in the KV store
+    if (tabs?.find(tab => tab.id === tabId)?.type === 'scanner') {
+      window.spark.kv.delete(getColumnLayoutKey(tabId)).catch(error => {
+        console.warn('Failed to remove scanner column layout:', error);
+      });
+    }
+
     setTabs(prevTabs => {
       const newTabs = prevTabs.filter(tab => tab.id !== tabId);
       
@@ -211,7 +361,54 @@ function App() {
     setActiveTabId(newTab.id);
   };
 
-  const activeTab = tabs.find(tab => tab.id === activeTabId);
+  const handleOpenScannerTab = (title: string, tabFilters: ScannerFilters) => {
+    if ((tabs?.length ?? 0) >= 6) {
+      toast.error('Maximum 6 tabs allowed. Close a tab to open a new one.');
+      return;
+    }
+
+    const newTab: Tab = {
+      id: `scanner-${Date.now()}`,
+      type: 'scanner',
+      title,
+      filters: tabFilters
+    };
+
+    setTabs(prevTabs => [...(prevTabs ?? []), newTab]);
+    setActiveTabId(newTab.id);
+  };
+
+  // Filter edits on the pinned Scanner tab go to `scanner-filters`; other scanner tabs keep their own
+  const handleScannerFiltersChange = (tabId: string, tabFilters: ScannerFilters) => {
+    if (tabId === 'scanner') {
+      setFilters(tabFilters);
+      return;
+    }
+    setTabs(prevTabs => (prevTabs ?? []).map(tab => (tab.id === tabId ? { ...tab, filters: tabFilters } : tab)));
+  };
+
+  const handleOpenTab = (type: 'orders' | 'portfolio' | 'backtest') => {
+    const existingTab = tabs?.find(tab => tab.type === type);
+    if (existingTab) {
+      setActiveTabId(existingTab.id);
+      return;
+    }
+
+    if ((tabs?.length ?? 0) >= 6) {
+      toast.error('Maximum 6 tabs allowed. Close a tab to open a new one.');
+      return;
+    }
+
+    const newTab: Tab = {
+      id: `${type}-${Date.now()}`,
+      type,
+      title: TAB_TITLES[type]
+    };
+
+    setTabs(prevTabs => [...prevTabs, newTab]);
+    setActiveTabId(newTab.id);
+  };
+
   const currentStock = activeTab?.symbol ? stocks.find(s => s.symbol === activeTab.symbol) : null;
 
   if (loading) {
@@ -219,7 +416,7 @@ function App() {
       <div className="min-h-screen bg-background text-foreground flex items-center justify-center">
         <div className="text-center">
           <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
-          <p className="text-sm text-muted-foreground">Initializing IBKR connection...</p>
+          <p className="text-sm text-muted-foreground">Initializing market data connection...</p>
         </div>
       </div>
     );
@@ -253,7 +450,7 @@ function App() {
           {/* Center Section: Stock Count */}
           <div className="flex-1 flex justify-center">
             <div className="text-sm text-muted-foreground whitespace-nowrap -ml-1">
-              {filteredStocks.length} stocks • Updated {new Date().toLocaleTimeString()}
+              {filteredStocks.length} stocks • {updatedLabel}
             </div>
           </div>
           
@@ -262,6 +459,8 @@ function App() {
             <AISearch stocks={filteredStocks} onStockSelect={handleStockSelect} />
             <MarketInsights stocks={filteredStocks} />
             <AlertsManager />
+            <SessionSchedule />
+            <SessionReplay stocks={stocks} />
             <IBKRSettings />
           </div>
         </div>
@@ -280,7 +479,7 @@ function App() {
           {/* Middle Row: Stock Count + Update Time (Combined) */}
           <div className="flex justify-center mb-2">
             <div className="text-xs text-muted-foreground text-center">
-              {filteredStocks.length} stocks • Updated {new Date().toLocaleTimeString()}
+              {filteredStocks.length} stocks • {updatedLabel}
             </div>
           </div>
           
@@ -289,6 +488,8 @@ function App() {
             <AISearch stocks={filteredStocks} onStockSelect={handleStockSelect} />
             <MarketInsights stocks={filteredStocks} />
             <AlertsManager />
+            <SessionSchedule />
+            <SessionReplay stocks={stocks} />
             <IBKRSettings />
           </div>
           
@@ -300,6 +501,9 @@ function App() {
         </div>
       </div>
 
+      {/* Replay transport while a past session plays */}
+      <ReplayBar />
+
       {/* Offline Banner */}
       <OfflineBanner />
 
@@ -311,6 +515,7 @@ function App() {
         onTabClose={handleTabClose}
         onAddTab={handleAddTab}
         onAddEmptyTab={handleAddEmptyTab}
+        onOpenTab={handleOpenTab}
         stocks={filteredStocks}
         maxTabs={6}
       />
@@ -320,20 +525,30 @@ function App() {
         <div className="flex-1 overflow-hidden">
           {activeTab?.type === 'sfti_top10' ? (
             <SFTiTop10 stocks={filteredStocks} onStockSelect={handleStockSelect} />
+          ) : activeTab?.type === 'orders' ? (
+            <OrdersBlotter onStockSelect={handleStockSelect} />
+          ) : activeTab?.type === 'portfolio' ? (
+            <PortfolioView />
+          ) : activeTab?.type === 'backtest' ? (
+            <StrategyBacktest stocks={stocks} filters={filters} />
           ) : activeTab?.type === 'scanner' ? (
             <div className="h-full flex flex-col">
               <div className="p-3 pb-1 flex-shrink-0">
                 <FilterPanel 
-                  filters={filters} 
-                  onFiltersChange={setFilters}
+                  key={activeTab.id}
+                  filters={scanFilters} 
+                  onFiltersChange={(tabFilters) => handleScannerFiltersChange(activeTab.id, tabFilters)}
+                  onOpenAsTab={handleOpenScannerTab}
                 />
               </div>
               <div className="flex-1 min-h-0 px-3 pb-3">
                 <div className="h-full border border-border rounded-lg overflow-hidden">
                   <div className="h-full overflow-auto">
                     <ScannerTable 
+                      key={activeTab.id}
                       stocks={filteredStocks}
                       onStockSelect={handleStockSelect}
+                      layoutKey={activeTab.id}
                     />
                   </div>
                 </div>
@@ -0,0 +1,212 @@
+import { AlertCondition, AlertField, AlertOperator, AlertRuleGroup, AlertRuleNode, MarketHours } from '@/types';
+import { ALERT_FIELDS, ALERT_OPERATORS, SESSION_LABELS, createCondition, createRuleGroup } from '@/lib/alert-rules';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+
+// Custom SVG Icons
+const Close = () => (
+  <svg width="12" height="12" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+    <path d="M18 6L6 18M6 6L18 18" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+  </svg>
+);
+
+// Groups nest at most this deep to keep rules readable
+const MAX_DEPTH = 2;
+
+// Sentinel for "compare with a number" in the target select
+const NUMBER_TARGET = '__number';
+
+const FIELDS = Object.keys(ALERT_FIELDS) as AlertField[];
+const OPERATORS = Object.keys(ALERT_OPERATORS) as AlertOperator[];
+const SESSIONS = Object.keys(SESSION_LABELS) as MarketHours['status'][];
+
+interface ConditionEditorProps {
+  condition: AlertCondition;
+  onChange: (condition: AlertCondition) => void;
+}
+
+function ConditionEditor({ condition, onChange }: ConditionEditorProps) {
+  const targetIsNumber = typeof condition.target === 'number';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select value={condition.field} onValueChange={(field: AlertField) => onChange({ ...condition, field })}>
+        <SelectTrigger className="h-8 w-36 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {FIELDS.map(field => (
+            <SelectItem key={field} value={field}>{ALERT_FIELDS[field].label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select value={condition.operator} onValueChange={(operator: AlertOperator) => onChange({ ...condition, operator })}>
+        <SelectTrigger className="h-8 w-32 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {OPERATORS.map(operator => (
+            <SelectItem key={operator} value={operator}>{ALERT_OPERATORS[operator]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={targetIsNumber ? NUMBER_TARGET : String(condition.target)}
+        onValueChange={(value) => onChange({
+          ...condition,
+          target: value === NUMBER_TARGET ? 0 : value as AlertField
+        })}
+      >
+        <SelectTrigger className="h-8 w-36 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NUMBER_TARGET}>Value</SelectItem>
+          {FIELDS.filter(field => field !== condition.field).map(field => (
+            <SelectItem key={field} value={field}>{ALERT_FIELDS[field].label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {targetIsNumber && (
+        <Input
+          type="number"
+          value={Number.isFinite(condition.target) ? condition.target : ''}
+          onChange={(e) => onChange({ ...condition, target: e.target.value === '' ? NaN : Number(e.target.value) })}
+          className="h-8 w-28 text-xs font-mono"
+        />
+      )}
+    </div>
+  );
+}
+
+interface GroupEditorProps {
+  group: AlertRuleGroup;
+  depth: number;
+  onChange: (group: AlertRuleGroup) => void;
+  onRemove?: () => void;
+}
+
+function GroupEditor({ group, depth, onChange, onRemove }: GroupEditorProps) {
+  const updateRule = (index: number, rule: AlertRuleNode) => {
+    onChange({ ...group, rules: group.rules.map((current, i) => (i === index ? rule : current)) });
+  };
+
+  const removeRule = (index: number) => {
+    onChange({ ...group, rules: group.rules.filter((_, i) => i !== index) });
+  };
+
+  const addRule = (rule: AlertRuleNode) => {
+    onChange({ ...group, rules: [...group.rules, rule] });
+  };
+
+  return (
+    <div className={cn('space-y-2 rounded-md border p-2', depth > 0 ? 'bg-muted/30' : 'bg-card/50')}>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <span>Match</span>
+          <Select
+            value={group.combinator}
+            onValueChange={(combinator: AlertRuleGroup['combinator']) => onChange({ ...group, combinator })}
+          >
+            <SelectTrigger className="h-7 w-20 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="and">ALL</SelectItem>
+              <SelectItem value="or">ANY</SelectItem>
+            </SelectContent>
+          </Select>
+          <span>of</span>
+        </div>
+        {onRemove && (
+          <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onRemove} title="Remove group">
+            <Close />
+          </Button>
+        )}
+      </div>
+
+      {group.rules.map((rule, index) => (
+        <div key={index} className="flex items-start gap-2">
+          <div className="flex-1 min-w-0">
+            {rule.kind === 'group' ? (
+              <GroupEditor
+                group={rule}
+                depth={depth + 1}
+                onChange={(next) => updateRule(index, next)}
+                onRemove={() => removeRule(index)}
+              />
+            ) : rule.kind === 'session' ? (
+              <div className="flex flex-wrap items-center gap-1">
+                <span className="text-xs text-muted-foreground mr-1">Session is</span>
+                {SESSIONS.map(session => (
+                  <Button
+                    key={session}
+                    size="sm"
+                    variant={rule.sessions.includes(session) ? 'default' : 'outline'}
+                    className="h-7 px-2 text-xs"
+                    onClick={() => updateRule(index, {
+                      ...rule,
+                      sessions: rule.sessions.includes(session)
+                        ? rule.sessions.filter(current => current !== session)
+                        : [...rule.sessions, session]
+                    })}
+                  >
+                    {SESSION_LABELS[session]}
+                  </Button>
+                ))}
+              </div>
+            ) : (
+              <ConditionEditor condition={rule} onChange={(next) => updateRule(index, next)} />
+            )}
+          </div>
+          {rule.kind !== 'group' && (
+            <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => removeRule(index)} title="Remove condition">
+              <Close />
+            </Button>
+          )}
+        </div>
+      ))}
+
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" size="sm" className="h-7 px-2 text-xs" onClick={() => addRule(createCondition())}>
+          + Condition
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 px-2 text-xs"
+          onClick={() => addRule({ kind: 'session', sessions: ['premarket'] })}
+        >
+          + Session
+        </Button>
+        {depth < MAX_DEPTH && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 px-2 text-xs"
+            onClick={() => addRule(createRuleGroup(group.combinator === 'and' ? 'or' : 'and'))}
+          >
+            + Group
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface AlertRuleBuilderProps {
+  rule: AlertRuleGroup;
+  onChange: (rule: AlertRuleGroup) => void;
+}
+
+/**
+ * Editor for AND/OR alert rule trees
+ */
+export function AlertRuleBuilder({ rule, onChange }: AlertRuleBuilderProps) {
+  return <GroupEditor group={rule} depth={0} onChange={onChange} />;
+}
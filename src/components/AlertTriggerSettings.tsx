@@ -0,0 +1,102 @@
+import { AlertTriggerMode, ChartTimeframe } from '@/types';
+import { AlertTiming, TRIGGER_MODE_LABELS } from '@/lib/alert-timing';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+const TRIGGER_MODES = Object.keys(TRIGGER_MODE_LABELS) as AlertTriggerMode[];
+const BAR_TIMEFRAMES: ChartTimeframe['value'][] = ['1m', '5m', '15m', '30m', '1h', '1d'];
+
+/**
+ * Epoch ms to a `datetime-local` input value in local time
+ */
+const toLocalInput = (time: number | undefined) => {
+  if (time === undefined) return '';
+  const date = new Date(time);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+};
+
+interface AlertTriggerSettingsProps {
+  value: AlertTiming;
+  onChange: (value: AlertTiming) => void;
+}
+
+/**
+ * Re-arm mode, daily window and expiry fields for a new alert
+ */
+export function AlertTriggerSettings({ value, onChange }: AlertTriggerSettingsProps) {
+  const mode = value.triggerMode ?? 'once';
+
+  return (
+    <div className="grid grid-cols-2 lg:grid-cols-4 gap-2 items-end">
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">Trigger</Label>
+        <div className="flex gap-1">
+          <Select value={mode} onValueChange={(triggerMode: AlertTriggerMode) => onChange({ ...value, triggerMode })}>
+            <SelectTrigger className="h-8 text-xs px-2">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TRIGGER_MODES.map(option => (
+                <SelectItem key={option} value={option}>{TRIGGER_MODE_LABELS[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {mode === 'once_per_bar' && (
+            <Select
+              value={value.barTimeframe ?? '1m'}
+              onValueChange={(barTimeframe: ChartTimeframe['value']) => onChange({ ...value, barTimeframe })}
+            >
+              <SelectTrigger className="h-8 w-20 text-xs px-2">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BAR_TIMEFRAMES.map(timeframe => (
+                  <SelectItem key={timeframe} value={timeframe}>{timeframe}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {mode === 'every_n_minutes' && (
+            <Input
+              type="number"
+              min={1}
+              value={value.repeatMinutes ?? ''}
+              placeholder="5"
+              onChange={(e) => onChange({ ...value, repeatMinutes: parseInt(e.target.value) || undefined })}
+              className="h-8 w-20 text-xs px-2"
+              title="Minutes between triggers"
+            />
+          )}
+        </div>
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">Active from (ET)</Label>
+        <Input
+          type="time"
+          value={value.activeFrom ?? ''}
+          onChange={(e) => onChange({ ...value, activeFrom: e.target.value || undefined })}
+          className="h-8 text-xs px-2"
+        />
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">Active until (ET)</Label>
+        <Input
+          type="time"
+          value={value.activeUntil ?? ''}
+          onChange={(e) => onChange({ ...value, activeUntil: e.target.value || undefined })}
+          className="h-8 text-xs px-2"
+        />
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">Expires</Label>
+        <Input
+          type="datetime-local"
+          value={toLocalInput(value.expiresAt)}
+          onChange={(e) => onChange({ ...value, expiresAt: e.target.value ? new Date(e.target.value).getTime() : undefined })}
+          className="h-8 text-xs px-2"
+        />
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,14 @@
 import { useState, useEffect } from 'react';
-import { PriceAlert, NotificationSettings } from '@/types';
-import { alertService } from '@/lib/alerts';
+import { PriceAlert, NotificationSettings, AlertRuleGroup } from '@/types';
+import { alertService, AlertsState } from '@/lib/alerts';
+import { createRuleGroup, describeRule, validateRule } from '@/lib/alert-rules';
+import { AlertTiming, describeTiming, isExpired, validateTiming } from '@/lib/alert-timing';
+import { pushService } from '@/lib/push';
+import { webhookService } from '@/lib/webhooks';
+import { fundamentalsService } from '@/lib/fundamentals';
+import { AlertRuleBuilder } from '@/components/AlertRuleBuilder';
+import { AlertTriggerSettings } from '@/components/AlertTriggerSettings';
+import { WebhookRouting, WebhookSettings } from '@/components/WebhookSettings';
 import { useKV } from '@github/spark/hooks';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -81,7 +89,10 @@ interface AlertsManagerProps {
 }
 
 export function AlertsManager({ symbol }: AlertsManagerProps) {
-  const [alerts, setAlerts] = useKV<PriceAlert[]>('price-alerts', []);
+  // Alerts saved before AlertService owned the store; migrated once, then removed
+  const [legacyAlerts, , deleteLegacyAlerts] = useKV<PriceAlert[]>('price-alerts', []);
+  const [alertsState, setAlertsState] = useState<AlertsState>(() => alertService.getState());
+  const { alerts, history } = alertsState;
   const [settings, setSettings] = useKV<NotificationSettings>('notification-settings', {
     enabled: true,
     sound: true,
@@ -97,46 +108,38 @@ export function AlertsManager({ symbol }: AlertsManagerProps) {
     type: 'price_above' as PriceAlert['type'],
     value: 0
   });
+  const [ruleSymbol, setRuleSymbol] = useState(symbol || '');
+  const [rule, setRule] = useState<AlertRuleGroup>(() => createRuleGroup());
+  // Shared by the simple and rule forms
+  const [timing, setTiming] = useState<AlertTiming>({ triggerMode: 'once' });
+  const [webhookIds, setWebhookIds] = useState<string[]>([]);
+  const webhooks = settings?.webhooks ?? [];
+  // Routing chips only matter when some destination takes routed alerts only
+  const hasRoutedWebhooks = webhooks.some(destination => destination.enabled && !destination.allAlerts);
+
+  // The service owns the alert list; render whatever it holds
+  useEffect(() => alertService.onUpdate(setAlertsState), []);
 
-  // Sync alerts with service
   useEffect(() => {
-    // Load alerts into service
-    alerts.forEach(alert => {
-      if (!alertService.getAlerts().find(a => a.id === alert.id)) {
-        alertService.addAlert(alert);
-      }
-    });
+    if (!legacyAlerts || legacyAlerts.length === 0) return;
 
-    // Update settings
-    alertService.updateSettings(settings);
-  }, [alerts, settings]);
+    alertService.importAlerts(legacyAlerts)
+      .then(() => deleteLegacyAlerts())
+      .catch(error => console.warn('Failed to migrate saved alerts:', error));
+  }, [legacyAlerts, deleteLegacyAlerts]);
 
-  // Update alerts from service (when triggered) - Fixed to prevent loops
   useEffect(() => {
-    const handleAlertUpdate = () => {
-      const serviceAlerts = alertService.getAlerts();
-      setAlerts(current => {
-        const updatedAlerts = current.map(alert => {
-          const serviceAlert = serviceAlerts.find(a => a.id === alert.id);
-          return serviceAlert || alert;
-        });
-        
-        // Only update if there are actual changes to prevent infinite loops
-        const hasChanges = updatedAlerts.some((alert, index) => {
-          const currentAlert = current[index];
-          return !currentAlert || 
-                 alert.triggered !== currentAlert.triggered ||
-                 alert.message !== currentAlert.message;
-        });
-        
-        return hasChanges ? updatedAlerts : current;
-      });
-    };
+    if (settings) {
+      alertService.updateSettings(settings);
+      pushService.setServerUrl(settings.pushServerUrl);
+      webhookService.setServerUrl(settings.pushServerUrl);
+      fundamentalsService.setServerUrl(settings.pushServerUrl);
+      webhookService.setDestinations(settings.webhooks ?? [])
+        .catch(error => console.warn('Failed to sync webhook destinations to server:', error));
+    }
+  }, [settings]);
 
-    // Listen for alert events instead of polling
-    window.addEventListener('alertTriggered', handleAlertUpdate);
-    return () => window.removeEventListener('alertTriggered', handleAlertUpdate);
-  }, [setAlerts]);
+  const [pushBusy, setPushBusy] = useState(false);
 
   const handleAddAlert = () => {
     if (!newAlert.symbol || !newAlert.value) {
@@ -144,57 +147,109 @@ export function AlertsManager({ symbol }: AlertsManagerProps) {
       return;
     }
 
+    const invalidTiming = validateTiming(timing);
+    if (invalidTiming) {
+      toast.error(invalidTiming);
+      return;
+    }
+
     const alert: Omit<PriceAlert, 'id' | 'createdAt' | 'triggered'> = {
       symbol: newAlert.symbol.toUpperCase(),
       type: newAlert.type,
       value: newAlert.value,
-      enabled: true
-    };
-
-    const id = alertService.addAlert(alert);
-    const fullAlert: PriceAlert = {
-      ...alert,
-      id,
-      createdAt: new Date(),
-      triggered: false
+      enabled: true,
+      ...timing,
+      ...(webhookIds.length > 0 && { webhookIds })
     };
 
-    setAlerts(current => [...current, fullAlert]);
+    alertService.addAlert(alert);
     setNewAlert({ symbol: symbol || '', type: 'price_above', value: 0 });
     toast.success('Alert created successfully');
   };
 
+  const handleAddRuleAlert = () => {
+    if (!ruleSymbol) {
+      toast.error('Enter a symbol for the rule');
+      return;
+    }
+
+    const invalid = validateRule(rule) ?? validateTiming(timing);
+    if (invalid) {
+      toast.error(invalid);
+      return;
+    }
+
+    alertService.addAlert({
+      symbol: ruleSymbol.toUpperCase(),
+      type: 'rule',
+      value: 0,
+      enabled: true,
+      rule,
+      ...timing,
+      ...(webhookIds.length > 0 && { webhookIds })
+    });
+    setRule(createRuleGroup());
+    toast.success('Rule alert created');
+  };
+
   const handleRemoveAlert = (alertId: string) => {
     alertService.removeAlert(alertId);
-    setAlerts(current => current.filter(alert => alert.id !== alertId));
     toast.success('Alert removed');
   };
 
   const handleToggleAlert = (alertId: string, enabled: boolean) => {
-    setAlerts(current => current.map(alert => 
-      alert.id === alertId ? { ...alert, enabled } : alert
-    ));
+    const alert = alerts.find(current => current.id === alertId);
+    // Turning an expired alert back on clears its expiry
+    alertService.updateAlert(alertId, enabled && alert && isExpired(alert) ? { enabled, expiresAt: undefined } : { enabled });
   };
 
   const handleResetAlert = (alertId: string) => {
     alertService.resetAlert(alertId);
-    setAlerts(current => current.map(alert => 
-      alert.id === alertId ? { ...alert, triggered: false, message: undefined } : alert
-    ));
   };
 
   const handleClearTriggered = () => {
     alertService.clearTriggeredAlerts();
-    setAlerts(current => current.filter(alert => !alert.triggered));
     toast.success('Triggered alerts cleared');
   };
 
+  const handleClearHistory = () => {
+    alertService.clearHistory();
+    toast.success('Alert history cleared');
+  };
+
   const handleSettingsChange = (key: keyof NotificationSettings, value: boolean) => {
     const newSettings = { ...settings, [key]: value };
     setSettings(newSettings);
     alertService.updateSettings(newSettings);
   };
 
+  const updateSettings = (changes: Partial<NotificationSettings>) => {
+    setSettings(current => ({ ...(current ?? alertService.getSettings()), ...changes }));
+  };
+
+  const handleBackgroundPush = async (enabled: boolean) => {
+    setPushBusy(true);
+    try {
+      if (enabled) {
+        await pushService.enable();
+        toast.success('Background alerts enabled on this device');
+      } else {
+        await pushService.disable();
+      }
+      updateSettings({ backgroundPush: enabled });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update background alerts');
+    } finally {
+      setPushBusy(false);
+    }
+  };
+
+  const handleTestPush = () => {
+    pushService.sendTest(symbol)
+      .then(() => toast.success('Test notification sent'))
+      .catch(error => toast.error(error instanceof Error ? error.message : 'Test notification failed'));
+  };
+
   const getAlertIcon = (type: PriceAlert['type']) => {
     switch (type) {
       case 'price_above': return <TrendingUp size={16} />;
@@ -203,6 +258,7 @@ export function AlertsManager({ symbol }: AlertsManagerProps) {
       case 'breakout': return <Target size={16} />;
       case 'pattern_recognition': return <Brain size={16} />;
       case 'ai_signal': return <Lightbulb size={16} />;
+      case 'rule': return <Target />;
     }
   };
 
@@ -214,10 +270,12 @@ export function AlertsManager({ symbol }: AlertsManagerProps) {
       case 'breakout': return 'Breakout Pattern';
       case 'pattern_recognition': return 'Pattern Recognition';
       case 'ai_signal': return 'AI Signal';
+      case 'rule': return 'Rule';
     }
   };
 
-  const formatAlertValue = (type: PriceAlert['type'], value: number) => {
+  const formatAlertValue = (alert: PriceAlert) => {
+    const { type, value } = alert;
     switch (type) {
       case 'price_above':
       case 'price_below':
@@ -230,6 +288,8 @@ export function AlertsManager({ symbol }: AlertsManagerProps) {
         return `${value}% confidence`;
       case 'ai_signal':
         return `Score: ${value}`;
+      case 'rule':
+        return alert.rule ? describeRule(alert.rule) : '';
     }
   };
 
@@ -271,8 +331,10 @@ export function AlertsManager({ symbol }: AlertsManagerProps) {
 
         <div className="flex-1 min-h-0">
           <Tabs defaultValue="alerts" className="h-full flex flex-col">
-            <TabsList className="grid w-full grid-cols-2 mb-3 flex-shrink-0 h-9">
+            <TabsList className="grid w-full grid-cols-4 mb-3 flex-shrink-0 h-9">
               <TabsTrigger value="alerts" className="text-sm">Alerts</TabsTrigger>
+              <TabsTrigger value="rules" className="text-sm">Rule Builder</TabsTrigger>
+              <TabsTrigger value="history" className="text-sm">History ({history.length})</TabsTrigger>
               <TabsTrigger value="settings" className="text-sm">Settings</TabsTrigger>
             </TabsList>
 
@@ -332,6 +394,14 @@ export function AlertsManager({ symbol }: AlertsManagerProps) {
                           Add
                         </Button>
                       </div>
+                      <div className="mt-2">
+                        <AlertTriggerSettings value={timing} onChange={setTiming} />
+                      </div>
+                      {hasRoutedWebhooks && (
+                        <div className="mt-2">
+                          <WebhookRouting destinations={webhooks} value={webhookIds} onChange={setWebhookIds} />
+                        </div>
+                      )}
                     </CardContent>
                   </Card>
 
@@ -379,12 +449,29 @@ export function AlertsManager({ symbol }: AlertsManagerProps) {
                                         {getAlertTypeLabel(alert.type)}
                                       </Badge>
                                       <span className="text-muted-foreground text-sm">
-                                        {formatAlertValue(alert.type, alert.value)}
+                                        {formatAlertValue(alert)}
                                       </span>
                                     </div>
                                     
+                                    {describeTiming(alert) && (
+                                      <p className={cn('mt-1 text-xs', isExpired(alert) ? 'text-destructive' : 'text-muted-foreground')}>
+                                        {describeTiming(alert)}
+                                      </p>
+                                    )}
+                                    {hasRoutedWebhooks && (
+                                      <div className="mt-1">
+                                        <WebhookRouting
+                                          destinations={webhooks}
+                                          value={alert.webhookIds}
+                                          onChange={(ids) => alertService.updateAlert(alert.id, { webhookIds: ids })}
+                                        />
+                                      </div>
+                                    )}
                                     {alert.triggered && alert.message && (
-                                      <p className="text-destructive mt-1 text-xs truncate">{alert.message}</p>
+                                      <p className="text-destructive mt-1 text-xs truncate">
+                                        {alert.triggeredAt && `${new Date(alert.triggeredAt).toLocaleTimeString()} · `}
+                                        {alert.message}
+                                      </p>
                                     )}
                                   </div>
                                 </div>
@@ -426,6 +513,81 @@ export function AlertsManager({ symbol }: AlertsManagerProps) {
                 </div>
               </TabsContent>
 
+              <TabsContent value="rules" className="h-full mt-0 overflow-hidden">
+                <div className="h-full flex flex-col gap-2">
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <Input
+                      placeholder="AAPL"
+                      value={ruleSymbol}
+                      onChange={(e) => setRuleSymbol(e.target.value.toUpperCase())}
+                      className="font-mono text-xs h-8 px-2 w-32"
+                    />
+                    <Button onClick={handleAddRuleAlert} className="text-xs h-8 px-3">
+                      Create Rule Alert
+                    </Button>
+                  </div>
+                  <div className="flex-shrink-0">
+                    <AlertTriggerSettings value={timing} onChange={setTiming} />
+                  </div>
+                  {hasRoutedWebhooks && (
+                    <div className="flex-shrink-0">
+                      <WebhookRouting destinations={webhooks} value={webhookIds} onChange={setWebhookIds} />
+                    </div>
+                  )}
+                  <div className="flex-1 min-h-0 overflow-y-auto custom-scrollbar">
+                    <AlertRuleBuilder rule={rule} onChange={setRule} />
+                  </div>
+                  <p className="text-xs text-muted-foreground flex-shrink-0 truncate">
+                    {ruleSymbol || 'Symbol'}: {describeRule(rule) || 'No conditions'}
+                  </p>
+                </div>
+              </TabsContent>
+
+              <TabsContent value="history" className="h-full mt-0 overflow-hidden">
+                <div className="h-full flex flex-col gap-2">
+                  <div className="flex items-center justify-between flex-shrink-0">
+                    <h3 className="text-sm font-semibold">Triggered Alerts</h3>
+                    {history.length > 0 && (
+                      <Button variant="outline" size="sm" onClick={handleClearHistory} className="text-xs h-7 px-3">
+                        Clear History
+                      </Button>
+                    )}
+                  </div>
+                  <div className="flex-1 min-h-0 border border-border rounded-lg bg-card/30 overflow-y-auto custom-scrollbar">
+                    {history.length === 0 ? (
+                      <div className="text-center py-12 text-sm text-muted-foreground">
+                        No alerts have triggered yet
+                      </div>
+                    ) : (
+                      <table className="w-full">
+                        <thead className="border-b border-border sticky top-0 bg-background">
+                          <tr>
+                            {['Time', 'Ticker', 'Type', 'Price', 'Message'].map(header => (
+                              <th key={header} className="px-3 py-2 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                                {header}
+                              </th>
+                            ))}
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-border">
+                          {history.map(trigger => (
+                            <tr key={trigger.id} className="text-xs">
+                              <td className="px-3 py-2 font-mono text-muted-foreground whitespace-nowrap">
+                                {new Date(trigger.triggeredAt).toLocaleString()}
+                              </td>
+                              <td className="px-3 py-2 font-mono font-bold">{trigger.symbol}</td>
+                              <td className="px-3 py-2 whitespace-nowrap">{getAlertTypeLabel(trigger.type)}</td>
+                              <td className="px-3 py-2 font-mono">${trigger.price.toFixed(4)}</td>
+                              <td className="px-3 py-2 text-muted-foreground">{trigger.message}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                </div>
+              </TabsContent>
+
               <TabsContent value="settings" className="h-full mt-0 overflow-hidden">
                 <div className="h-full overflow-y-auto custom-scrollbar">
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-2">
@@ -519,6 +681,57 @@ export function AlertsManager({ symbol }: AlertsManagerProps) {
                         />
                       </div>
                     </div>
+
+                    <div className="space-y-3 md:col-span-2">
+                      <h4 className="font-semibold text-sm mb-2">Background Alerts</h4>
+                      <div className="flex items-center justify-between py-3 px-3 rounded border bg-card/50">
+                        <div className="flex-1 min-w-0">
+                          <Label htmlFor="backgroundPush" className="text-sm font-medium">Push Notifications</Label>
+                          <p className="text-xs text-muted-foreground">
+                            The server checks your alerts and notifies this device while the app is closed
+                          </p>
+                        </div>
+                        <Switch
+                          id="backgroundPush"
+                          checked={settings?.backgroundPush ?? false}
+                          onCheckedChange={handleBackgroundPush}
+                          disabled={pushBusy || !pushService.isSupported()}
+                          className="scale-100"
+                        />
+                      </div>
+                      <div className="flex flex-col sm:flex-row sm:items-center gap-2 py-3 px-3 rounded border bg-card/50">
+                        <div className="flex-1 min-w-0">
+                          <Label htmlFor="pushServerUrl" className="text-sm font-medium">Alert Server</Label>
+                          <p className="text-xs text-muted-foreground">Delivers push and webhooks and looks up scanner float and news; leave empty when the app is served by the server itself</p>
+                        </div>
+                        <Input
+                          id="pushServerUrl"
+                          placeholder="http://localhost:3000"
+                          value={settings?.pushServerUrl ?? ''}
+                          onChange={(e) => updateSettings({ pushServerUrl: e.target.value })}
+                          className="text-xs h-8 px-2 sm:w-64"
+                        />
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={handleTestPush}
+                          disabled={!settings?.backgroundPush}
+                          className="text-xs h-8 px-3"
+                        >
+                          Send Test
+                        </Button>
+                      </div>
+                    </div>
+
+                    <div className="space-y-3 md:col-span-2">
+                      <div>
+                        <h4 className="font-semibold text-sm">Webhooks</h4>
+                        <p className="text-xs text-muted-foreground">
+                          Relay triggered alerts to Discord, Slack or any JSON endpoint through the alert server
+                        </p>
+                      </div>
+                      <WebhookSettings destinations={webhooks} onChange={(next) => updateSettings({ webhooks: next })} />
+                    </div>
                   </div>
                 </div>
               </TabsContent>
@@ -1,5 +1,6 @@
 import { useState } from 'react';
 import { ScannerFilters } from '@/types';
+import { SCANNER_PRESETS } from '@/lib/scanner';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -29,50 +30,38 @@ const RotateCcw = () => (
   </svg>
 );
 
+type MetricLimit = 'relativeVolumeMin' | 'gapMin' | 'gapMax' | 'vwapDistanceMin' | 'vwapDistanceMax' | 'floatRotationMin' | 'dollarVolumeMin';
+
+interface MetricInputProps {
+  value: number | undefined;
+  placeholder: string;
+  step: string;
+  onCommit: (value: string) => void;
+}
+
+/**
+ * Number input for an optional limit, applied on blur so typing doesn't refilter every keystroke
+ */
+function MetricInput({ value, placeholder, step, onCommit }: MetricInputProps) {
+  return (
+    <Input
+      type="number"
+      placeholder={placeholder}
+      defaultValue={value ?? ''}
+      onBlur={(e) => onCommit(e.target.value)}
+      className="text-xs h-8"
+      step={step}
+    />
+  );
+}
+
 interface FilterPanelProps {
   filters: ScannerFilters;
   onFiltersChange: (filters: ScannerFilters) => void;
+  /** Open a preset in a scanner tab of its own */
+  onOpenAsTab?: (name: string, filters: ScannerFilters) => void;
 }
 
-const PRESET_FILTERS = {
-  'Hot Penny Stocks': {
-    priceMin: 0.01,
-    priceMax: 5.00,
-    marketCapMin: 50_000_000,
-    marketCapMax: 2_000_000_000,
-    floatMin: 10_000_000,
-    floatMax: 500_000_000,
-    volumeMin: 5_000_000,
-    changeMin: 5,
-    changeMax: 100,
-    newsOnly: false
-  },
-  'Low Float Runners': {
-    priceMin: 0.50,
-    priceMax: 5.00,
-    marketCapMin: 100_000_000,
-    marketCapMax: 1_000_000_000,
-    floatMin: 10_000_000,
-    floatMax: 100_000_000,
-    volumeMin: 2_000_000,
-    changeMin: 10,
-    changeMax: 100,
-    newsOnly: false
-  },
-  'News Breakouts': {
-    priceMin: 0.10,
-    priceMax: 5.00,
-    marketCapMin: 25_000_000,
-    marketCapMax: 2_000_000_000,
-    floatMin: 5_000_000,
-    floatMax: 1_000_000_000,
-    volumeMin: 1_000_000,
-    changeMin: 15,
-    changeMax: 100,
-    newsOnly: true
-  }
-};
-
 const DEFAULT_FILTERS: ScannerFilters = {
   priceMin: 0.01,
   priceMax: 5.00,
@@ -86,7 +75,10 @@ const DEFAULT_FILTERS: ScannerFilters = {
   newsOnly: false
 };
 
-export function FilterPanel({ filters, onFiltersChange }: FilterPanelProps) {
+// Select value for opening the filters being edited in a new tab
+const CURRENT_FILTERS = '__current__';
+
+export function FilterPanel({ filters, onFiltersChange, onOpenAsTab }: FilterPanelProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [savedPresets, setSavedPresets] = useKV<Record<string, ScannerFilters>>('scanner-presets', {});
 
@@ -105,10 +97,36 @@ export function FilterPanel({ filters, onFiltersChange }: FilterPanelProps) {
     }
   };
 
+  // Derived-metric limits are optional; an empty input removes the limit
+  const updateMetricLimit = (key: MetricLimit, value: string) => {
+    const number = parseFloat(value);
+    onFiltersChange({ ...filters, [key]: Number.isFinite(number) ? number : undefined });
+  };
+
+  const metricInput = (field: MetricLimit, placeholder: string, step: string) => (
+    <MetricInput
+      // Remount when a preset or reset changes the limit, so the input shows it
+      key={`${field}:${filters[field] ?? ''}`}
+      value={filters[field]}
+      placeholder={placeholder}
+      step={step}
+      onCommit={(value) => updateMetricLimit(field, value)}
+    />
+  );
+
   const applyPreset = (preset: ScannerFilters) => {
     onFiltersChange(preset);
   };
 
+  const openAsTab = (name: string) => {
+    if (name === CURRENT_FILTERS) {
+      onOpenAsTab?.('Custom Scan', filters);
+      return;
+    }
+    const preset = savedPresets?.[name] ?? SCANNER_PRESETS[name];
+    if (preset) onOpenAsTab?.(name, preset);
+  };
+
   const resetFilters = () => {
     onFiltersChange(DEFAULT_FILTERS);
   };
@@ -145,7 +163,7 @@ export function FilterPanel({ filters, onFiltersChange }: FilterPanelProps) {
             <div>
               <Label className="text-xs font-medium mb-1 block">Quick Presets</Label>
               <div className="flex flex-wrap gap-1">
-                {Object.entries(PRESET_FILTERS).map(([name, preset]) => (
+                {Object.entries(SCANNER_PRESETS).map(([name, preset]) => (
                   <Button 
                     key={name}
                     size="sm" 
@@ -166,6 +184,20 @@ export function FilterPanel({ filters, onFiltersChange }: FilterPanelProps) {
                   Reset
                 </Button>
               </div>
+              {onOpenAsTab && (
+                // Held empty so picking the same preset again opens another tab
+                <Select value="" onValueChange={openAsTab}>
+                  <SelectTrigger className="h-7 w-56 mt-2 text-xs px-2">
+                    <SelectValue placeholder="Open a preset in a new scanner tab" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[...Object.keys(SCANNER_PRESETS), ...Object.keys(savedPresets ?? {}).filter(name => !SCANNER_PRESETS[name])].map(name => (
+                      <SelectItem key={name} value={name}>{name}</SelectItem>
+                    ))}
+                    <SelectItem value={CURRENT_FILTERS}>Current filters</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-6 gap-3">
@@ -302,6 +334,42 @@ export function FilterPanel({ filters, onFiltersChange }: FilterPanelProps) {
                 </div>
               </div>
             </div>
+
+            {/* Derived metrics */}
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-3">
+              <div className="space-y-2">
+                <Label className="text-xs font-medium">Rel. Volume (10d)</Label>
+                {metricInput('relativeVolumeMin', 'Min ×', '0.5')}
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-xs font-medium">Gap %</Label>
+                <div className="flex items-center gap-1">
+                  {metricInput('gapMin', 'Min', '1')}
+                  <span className="text-xs text-muted-foreground">to</span>
+                  {metricInput('gapMax', 'Max', '1')}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-xs font-medium">From VWAP %</Label>
+                <div className="flex items-center gap-1">
+                  {metricInput('vwapDistanceMin', 'Min', '0.5')}
+                  <span className="text-xs text-muted-foreground">to</span>
+                  {metricInput('vwapDistanceMax', 'Max', '0.5')}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-xs font-medium">Float Rotation</Label>
+                {metricInput('floatRotationMin', 'Min ×', '0.1')}
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-xs font-medium">Dollar Volume</Label>
+                {metricInput('dollarVolumeMin', 'Min $', '1000000')}
+              </div>
+            </div>
           </div>
         </CollapsibleContent>
       </Collapsible>
@@ -1,8 +1,13 @@
 import { useEffect, useRef, useState } from 'react';
-import { createChart, ColorType } from 'lightweight-charts';
-import type { IChartApi, ISeriesApi, CandlestickData, Time } from 'lightweight-charts';
-import { ChartData, TechnicalIndicator, ChartTimeframe } from '@/types';
-import { ibkrService } from '@/lib/ibkr';
+import { createChart, createSeriesMarkers, ColorType, CandlestickSeries, HistogramSeries, LineSeries, LineStyle } from 'lightweight-charts';
+import type { IChartApi, ISeriesApi, ISeriesMarkersPluginApi, CandlestickData, SeriesMarker, Time } from 'lightweight-charts';
+import { ChartData, TechnicalIndicator, ChartTimeframe, StockDelta, PatternAnalysis } from '@/types';
+import { marketData, MarketDataProvider } from '@/lib/market-data';
+import { historyService } from '@/lib/history';
+import { clock } from '@/lib/clock';
+import { calculateEMA } from '@/lib/indicators';
+import { detectPatterns } from '@/lib/patterns';
+import { useMarketData } from '@/hooks/use-market-data';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -67,57 +72,80 @@ const TIMEFRAMES: ChartTimeframe[] = [
   { value: '1d', label: '1d' }
 ];
 
+// Load an older page once fewer than this many bars are left of the visible range
+const LOAD_OLDER_THRESHOLD = 10;
+
 const INDICATORS: TechnicalIndicator[] = [
   { id: 'ema9', name: 'EMA 9', enabled: false },
   { id: 'ema20', name: 'EMA 20', enabled: false },
   { id: 'ema50', name: 'EMA 50', enabled: false },
   { id: 'rsi', name: 'RSI (14)', enabled: false },
   { id: 'macd', name: 'MACD', enabled: false },
-  { id: 'volume', name: 'Volume', enabled: true }
+  { id: 'volume', name: 'Volume', enabled: true },
+  { id: 'patterns', name: 'Patterns', enabled: true }
 ];
 
+const PATTERN_COLORS = {
+  bullish: '#10B981',
+  bearish: '#F87171'
+};
+
 export function IBKRChart({ symbol, currentPrice, change, changePercent }: IBKRChartProps) {
   const chartContainerRef = useRef<HTMLDivElement>(null);
   const chartRef = useRef<IChartApi | null>(null);
   const candlestickSeriesRef = useRef<ISeriesApi<'Candlestick'> | null>(null);
   const volumeSeriesRef = useRef<ISeriesApi<'Histogram'> | null>(null);
   const indicatorSeriesRef = useRef<Map<string, ISeriesApi<any>>>(new Map());
+  const patternMarkersRef = useRef<ISeriesMarkersPluginApi<Time> | null>(null);
   
   const [timeframe, setTimeframe] = useState<ChartTimeframe['value']>('5m');
   const [indicators, setIndicators] = useState<TechnicalIndicator[]>(INDICATORS);
   const [isLoading, setIsLoading] = useState(true);
   const [chartData, setChartData] = useState<ChartData[]>([]);
-  const [ibkrConnection, setIbkrConnection] = useState(ibkrService.getConnection());
+  const [patterns, setPatterns] = useState<PatternAnalysis[]>([]);
+  const { provider, status: providerStatus } = useMarketData();
   const [realTimePrice, setRealTimePrice] = useState<number | null>(null);
-
-  // Monitor IBKR connection status
+  const historySourceRef = useRef<MarketDataProvider | null>(null);
+  const historyKeyRef = useRef('');
+  const loadingOlderRef = useRef(false);
+  const loadOlderRef = useRef<() => void>(() => {});
+  const [clockJumps, setClockJumps] = useState(0);
+
+  // A replay seek, or the return to live time, invalidates the loaded bars
+  useEffect(() => clock.onChange((_now, jumped) => {
+    if (jumped) setClockJumps(count => count + 1);
+  }), []);
+
+  // Subscribe to real-time data when the provider is connected
   useEffect(() => {
-    const checkConnection = () => {
-      setIbkrConnection(ibkrService.getConnection());
-    };
+    if (!symbol || !providerStatus.connected) return;
 
-    const interval = setInterval(checkConnection, 1000);
-    return () => clearInterval(interval);
-  }, []);
-
-  // Subscribe to real-time data when IBKR is connected
-  useEffect(() => {
-    if (!symbol || !ibkrConnection.connected) return;
-
-    const handleRealTimeData = (data: any) => {
-      if (data.lastPrice) {
-        setRealTimePrice(data.lastPrice);
+    const handleRealTimeData = (delta: StockDelta) => {
+      if (delta.price) {
+        setRealTimePrice(delta.price);
         // Update chart with new tick if available
-        updateRealtimeTick(data);
+        updateRealtimeTick(delta);
       }
     };
 
-    ibkrService.subscribeToMarketData(symbol, handleRealTimeData);
+    let unsubscribe: (() => void) | null = null;
+    let cancelled = false;
+
+    provider.subscribe(symbol, handleRealTimeData)
+      .then(remove => {
+        if (cancelled) {
+          remove();
+        } else {
+          unsubscribe = remove;
+        }
+      })
+      .catch(error => console.warn(`Failed to stream ${symbol}:`, error));
 
     return () => {
-      ibkrService.unsubscribeFromMarketData(symbol);
+      cancelled = true;
+      unsubscribe?.();
     };
-  }, [symbol, ibkrConnection.connected]);
+  }, [symbol, provider, providerStatus.connected]);
 
   // Initialize chart
   useEffect(() => {
@@ -163,7 +191,7 @@ export function IBKRChart({ symbol, currentPrice, change, changePercent }: IBKRC
       });
 
       // Create candlestick series
-      const candlestickSeries = chart.addCandlestickSeries({
+      const candlestickSeries = chart.addSeries(CandlestickSeries, {
         upColor: '#059669',
         downColor: '#DC2626',
         borderUpColor: '#059669',
@@ -173,7 +201,7 @@ export function IBKRChart({ symbol, currentPrice, change, changePercent }: IBKRC
       });
 
       // Create volume series
-      const volumeSeries = chart.addHistogramSeries({
+      const volumeSeries = chart.addSeries(HistogramSeries, {
         color: '#374151',
         priceFormat: {
           type: 'volume'
@@ -191,6 +219,14 @@ export function IBKRChart({ symbol, currentPrice, change, changePercent }: IBKRC
       chartRef.current = chart;
       candlestickSeriesRef.current = candlestickSeries;
       volumeSeriesRef.current = volumeSeries;
+      patternMarkersRef.current = createSeriesMarkers(candlestickSeries, []);
+
+      // Page in older history when scrolled near the first bar
+      chart.timeScale().subscribeVisibleLogicalRangeChange(range => {
+        if (range && range.from < LOAD_OLDER_THRESHOLD) {
+          loadOlderRef.current();
+        }
+      });
 
       // Handle resize
       const handleResize = () => {
@@ -213,37 +249,79 @@ export function IBKRChart({ symbol, currentPrice, change, changePercent }: IBKRC
     }
   }, []);
 
-  // Load historical data from IBKR
+  // Load history: cached bars first, then the latest page merged over them.
+  // Falls back to simulated bars while disconnected.
   useEffect(() => {
     if (!symbol) return;
 
+    let cancelled = false;
+    let loaded = false;
     setIsLoading(true);
-    
-    try {
-      // Convert timeframe to IBKR format
-      const duration = getDurationForTimeframe(timeframe);
-      const barSize = getBarSizeForTimeframe(timeframe);
-      
-      ibkrService.requestHistoricalData(
-        symbol,
-        '', // Current time
-        duration,
-        barSize,
-        (data: ChartData[]) => {
-          if (data && data.length > 0) {
-            setChartData(data);
-            updateChart(data);
-          } else {
-            console.warn('No chart data received for', symbol);
-          }
-          setIsLoading(false);
+
+    const show = (data: ChartData[]) => {
+      if (cancelled || data.length === 0) return;
+      setChartData(data);
+      updateChart(data);
+    };
+
+    const source = providerStatus.connected ? provider : marketData.getProvider('simulated');
+    historySourceRef.current = source;
+    historyKeyRef.current = `${symbol}:${timeframe}`;
+
+    historyService.getCached(source, symbol, timeframe).then(data => {
+      if (!loaded) show(data);
+    });
+
+    historyService.load(source, symbol, timeframe)
+      .catch(error => {
+        console.error('Failed to load historical data:', error);
+        const fallback = marketData.getProvider('simulated');
+        historySourceRef.current = fallback;
+        return historyService.load(fallback, symbol, timeframe);
+      })
+      .then(data => {
+        loaded = true;
+        if (data.length === 0) {
+          console.warn('No chart data received for', symbol);
         }
-      );
-    } catch (error) {
-      console.error('Failed to load historical data:', error);
-      setIsLoading(false);
-    }
-  }, [symbol, timeframe]);
+        show(data);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [symbol, timeframe, provider, providerStatus.connected, clockJumps]);
+
+  // Prepend an older page, keeping the visible bars in place
+  loadOlderRef.current = () => {
+    const source = historySourceRef.current;
+    if (!source || isLoading || loadingOlderRef.current || historyService.isExhausted(source, symbol, timeframe)) return;
+
+    loadingOlderRef.current = true;
+    const previousLength = chartData.length;
+    const key = historyKeyRef.current;
+
+    historyService.loadOlder(source, symbol, timeframe)
+      .then(data => {
+        const added = data.length - previousLength;
+        if (added <= 0 || source !== historySourceRef.current || key !== historyKeyRef.current) return;
+
+        const timeScale = chartRef.current?.timeScale();
+        const range = timeScale?.getVisibleLogicalRange();
+        setChartData(data);
+        updateChart(data);
+        if (timeScale && range) {
+          timeScale.setVisibleLogicalRange({ from: range.from + added, to: range.to + added });
+        }
+      })
+      .catch(error => console.warn(`Failed to load older ${symbol} bars:`, error))
+      .finally(() => {
+        loadingOlderRef.current = false;
+      });
+  };
 
   // Update chart with historical data
   const updateChart = (data: ChartData[]) => {
@@ -276,20 +354,20 @@ export function IBKRChart({ symbol, currentPrice, change, changePercent }: IBKRC
   };
 
   // Update real-time price tick
-  const updateRealtimeTick = (tickData: any) => {
-    if (!candlestickSeriesRef.current || !chartData.length) return;
+  const updateRealtimeTick = (tickData: StockDelta) => {
+    if (!candlestickSeriesRef.current || !chartData.length || tickData.price === undefined) return;
 
     try {
       const lastBar = chartData[chartData.length - 1];
-      const currentTime = Math.floor(Date.now() / 1000);
+      const currentTime = Math.floor(clock.now() / 1000);
       
       // Update last bar or create new one based on timeframe
       const updatedBar = {
         time: getBarTime(currentTime, timeframe) as Time,
         open: lastBar.close,
-        high: Math.max(lastBar.high, tickData.lastPrice),
-        low: Math.min(lastBar.low, tickData.lastPrice),
-        close: tickData.lastPrice
+        high: Math.max(lastBar.high, tickData.price),
+        low: Math.min(lastBar.low, tickData.price),
+        close: tickData.price
       };
 
       candlestickSeriesRef.current.update(updatedBar);
@@ -298,44 +376,6 @@ export function IBKRChart({ symbol, currentPrice, change, changePercent }: IBKRC
     }
   };
 
-  // Get duration string for IBKR request
-  const getDurationForTimeframe = (tf: string): string => {
-    switch (tf) {
-      case '1m':
-      case '5m':
-        return '1 D';
-      case '15m':
-      case '30m':
-        return '2 D';
-      case '1h':
-        return '1 W';
-      case '1d':
-        return '1 M';
-      default:
-        return '1 D';
-    }
-  };
-
-  // Get bar size string for IBKR request
-  const getBarSizeForTimeframe = (tf: string): string => {
-    switch (tf) {
-      case '1m':
-        return '1 min';
-      case '5m':
-        return '5 mins';
-      case '15m':
-        return '15 mins';
-      case '30m':
-        return '30 mins';
-      case '1h':
-        return '1 hour';
-      case '1d':
-        return '1 day';
-      default:
-        return '5 mins';
-    }
-  };
-
   // Get bar time for real-time updates
   const getBarTime = (timestamp: number, tf: string): number => {
     const minutes = Math.floor(timestamp / 60);
@@ -359,7 +399,7 @@ export function IBKRChart({ symbol, currentPrice, change, changePercent }: IBKRC
   };
 
   // Update technical indicators (simplified)
-  const updateIndicators = (data: ChartData[]) => {
+  const updateIndicators = (data: ChartData[], active: TechnicalIndicator[] = indicators) => {
     if (!chartRef.current || !data.length) return;
 
     try {
@@ -372,8 +412,10 @@ export function IBKRChart({ symbol, currentPrice, change, changePercent }: IBKRC
         }
       });
       indicatorSeriesRef.current.clear();
+      patternMarkersRef.current?.setMarkers([]);
+      setPatterns([]);
 
-      indicators.filter(ind => ind.enabled).forEach(indicator => {
+      active.filter(ind => ind.enabled).forEach(indicator => {
         try {
           switch (indicator.id) {
             case 'ema9':
@@ -385,6 +427,9 @@ export function IBKRChart({ symbol, currentPrice, change, changePercent }: IBKRC
             case 'ema50':
               addEMA(data, 50, '#8B5CF6');
               break;
+            case 'patterns':
+              addPatterns(data);
+              break;
           }
         } catch (error) {
           console.warn(`Failed to add ${indicator.id} indicator:`, error);
@@ -400,8 +445,8 @@ export function IBKRChart({ symbol, currentPrice, change, changePercent }: IBKRC
     if (!chartRef.current || data.length < period) return;
 
     try {
-      const emaData = calculateEMA(data, period);
-      const emaSeries = chartRef.current.addLineSeries({
+      const emaData = calculateEMA(data, period).map(point => ({ time: point.time as Time, value: point.value }));
+      const emaSeries = chartRef.current.addSeries(LineSeries, {
         color,
         lineWidth: 1,
         title: `EMA ${period}`
@@ -414,35 +459,59 @@ export function IBKRChart({ symbol, currentPrice, change, changePercent }: IBKRC
     }
   };
 
-  // Calculate EMA
-  const calculateEMA = (data: ChartData[], period: number) => {
-    if (data.length < period) return [];
-    
-    const ema = [];
-    const multiplier = 2 / (period + 1);
-    let emaValue = data[0].close;
-
-    for (let i = 0; i < data.length; i++) {
-      if (i === 0) {
-        emaValue = data[i].close;
-      } else {
-        emaValue = (data[i].close * multiplier) + (emaValue * (1 - multiplier));
-      }
-      
-      ema.push({
-        time: data[i].time as Time,
-        value: Number(emaValue.toFixed(4))
+  // Detect chart patterns on the loaded bars and draw their lines and pivots
+  const addPatterns = (data: ChartData[]) => {
+    if (!chartRef.current) return;
+
+    const detected = detectPatterns(data, timeframe);
+    const markers: SeriesMarker<Time>[] = [];
+
+    detected.forEach((pattern, p) => {
+      const color = PATTERN_COLORS[pattern.type ?? 'bullish'];
+
+      pattern.lines?.forEach((line, l) => {
+        // Line series need ascending, distinct times
+        if (line.from.time >= line.to.time) return;
+
+        const lineSeries = chartRef.current!.addSeries(LineSeries, {
+          color,
+          lineWidth: 2,
+          lineStyle: LineStyle.Dashed,
+          lastValueVisible: false,
+          priceLineVisible: false,
+          crosshairMarkerVisible: false,
+          title: l === 0 ? pattern.pattern : ''
+        });
+        lineSeries.setData([
+          { time: line.from.time as Time, value: line.from.price },
+          { time: line.to.time as Time, value: line.to.price }
+        ]);
+        indicatorSeriesRef.current.set(`pattern${p}-${l}`, lineSeries);
       });
-    }
 
-    return ema;
+      pattern.points?.forEach(point => {
+        const above = point.price >= data[point.index].high;
+        markers.push({
+          time: point.time as Time,
+          position: above ? 'aboveBar' : 'belowBar',
+          shape: 'circle',
+          color,
+          text: point.label
+        });
+      });
+    });
+
+    patternMarkersRef.current?.setMarkers(markers.sort((a, b) => (a.time as number) - (b.time as number)));
+    setPatterns(detected);
   };
 
   // Toggle indicator
   const toggleIndicator = (indicatorId: string) => {
-    setIndicators(prev => prev.map(ind => 
+    const next = indicators.map(ind => 
       ind.id === indicatorId ? { ...ind, enabled: !ind.enabled } : ind
-    ));
+    );
+    setIndicators(next);
+    updateIndicators(chartData, next);
   };
 
   const displayPrice = realTimePrice || currentPrice;
@@ -456,7 +525,7 @@ export function IBKRChart({ symbol, currentPrice, change, changePercent }: IBKRC
             <div className="flex items-center gap-4">
               <CardTitle className="text-2xl font-mono flex items-center gap-2">
                 {symbol}
-                {ibkrConnection.connected ? (
+                {providerStatus.connected ? (
                   <Wifi size={16} className="text-success" />
                 ) : (
                   <WifiOff size={16} className="text-destructive" />
@@ -513,12 +582,35 @@ export function IBKRChart({ symbol, currentPrice, change, changePercent }: IBKRC
             ))}
           </div>
 
+          {patterns.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {patterns.map((pattern, index) => (
+                <Badge
+                  key={`${pattern.pattern}-${index}`}
+                  variant="outline"
+                  title={pattern.signals.join(' · ')}
+                  className={pattern.type === 'bearish' ? 'text-red-400 border-red-400/50' : 'text-green-400 border-green-400/50'}
+                >
+                  {pattern.pattern} {Math.round(pattern.confidence * 100)}%
+                </Badge>
+              ))}
+            </div>
+          )}
+
           {/* IBKR Connection Status */}
-          {!ibkrConnection.connected && (
+          {providerStatus.status === 'reconnecting' && (
+            <Alert>
+              <WifiOff />
+              <AlertDescription>
+                {provider.label} stream interrupted. Reconnecting{providerStatus.reconnectAttempt ? ` (attempt ${providerStatus.reconnectAttempt})` : ''}...
+              </AlertDescription>
+            </Alert>
+          )}
+          {!providerStatus.connected && (
             <Alert>
               <WifiOff size={16} />
               <AlertDescription>
-                IBKR not connected. Using mock data. Check IBKR settings to connect to live data.
+                {provider.label} not connected. Showing simulated data. Check settings to connect to live data.
               </AlertDescription>
             </Alert>
           )}
@@ -533,7 +625,7 @@ export function IBKRChart({ symbol, currentPrice, change, changePercent }: IBKRC
               <div className="text-center">
                 <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-2" />
                 <p className="text-sm text-muted-foreground">
-                  Loading {ibkrConnection.connected ? 'IBKR' : 'mock'} chart data...
+                  Loading {providerStatus.connected ? provider.label : 'simulated'} chart data...
                 </p>
               </div>
             </div>
@@ -1,9 +1,14 @@
 import { useState, useEffect } from 'react';
+import { DataSource } from '@/types';
 import { ibkrGateway } from '@/lib/ibkr-gateway-browser';
+import { marketData } from '@/lib/market-data';
+import { useMarketData } from '@/hooks/use-market-data';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RecorderSettings } from '@/components/RecorderSettings';
 import { toast } from 'sonner';
 
 // Custom SVG Icons
@@ -31,6 +36,7 @@ export function IBKRSettings() {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [accounts, setAccounts] = useState<any[]>([]);
+  const { provider, status: providerStatus } = useMarketData();
 
   useEffect(() => {
     checkAuthStatus();
@@ -94,6 +100,11 @@ export function IBKRSettings() {
     }
   };
 
+  const handleSourceChange = (source: DataSource) => {
+    marketData.setSource(source);
+    toast.success(`Market data source: ${marketData.getProvider(source).label}`);
+  };
+
   const handleLogout = async () => {
     try {
       await ibkrGateway.logout();
@@ -114,7 +125,7 @@ export function IBKRSettings() {
         </Button>
       </DialogTrigger>
       
-      <DialogContent className="max-w-md">
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Settings className="h-5 w-5" />
@@ -123,6 +134,35 @@ export function IBKRSettings() {
         </DialogHeader>
 
         <div className="space-y-4">
+          {/* Data Source */}
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-sm">Data Source</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <Select value={provider.source} onValueChange={value => handleSourceChange(value as DataSource)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {/* Replay is started from the header with a session to play, not picked here */}
+                  {marketData.getProviders().filter(option => option.source !== 'replay' || option.source === provider.source).map(option => (
+                    <SelectItem key={option.source} value={option.source}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex items-center justify-between text-xs text-muted-foreground">
+                <span>
+                  {provider.capabilities.streaming ? 'Streaming' : 'Polled'} quotes
+                  {provider.capabilities.orders ? ' • Order entry' : ''}
+                </span>
+                <span className="capitalize">{providerStatus.status.replace('_', ' ')}</span>
+              </div>
+            </CardContent>
+          </Card>
+
           {/* Authentication Status */}
           <Card>
             <CardHeader className="pb-3">
@@ -159,6 +199,8 @@ export function IBKRSettings() {
             </CardContent>
           </Card>
 
+          <RecorderSettings />
+
           {/* Action Buttons */}
           <div className="space-y-2">
             {!isAuthenticated ? (
@@ -1,21 +1,60 @@
 import { useEffect, useState } from 'react';
-import { MarketHours } from '@/types';
+import { MarketHours, SessionEvent } from '@/types';
 import { getMarketHours } from '@/lib/market';
+import { clock } from '@/lib/clock';
+import { sessionScheduler } from '@/lib/session-scheduler';
 import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
 
+/**
+ * "2h 05m" / "3d 4h" / "12m" for a countdown
+ */
+const formatCountdown = (ms: number) => {
+  const totalMinutes = Math.max(0, Math.ceil(ms / 60_000));
+  const days = Math.floor(totalMinutes / 1440);
+  const hours = Math.floor((totalMinutes % 1440) / 60);
+  const minutes = totalMinutes % 60;
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${String(minutes).padStart(2, '0')}m`;
+  return `${minutes}m`;
+};
+
+const COUNTDOWN_LABELS: Record<SessionEvent, string> = {
+  premarket_open: 'Premarket in',
+  regular_open: 'Opens in',
+  regular_close: 'Closes in',
+  afterhours_close: 'After-hours ends in'
+};
+
+/**
+ * Time until the next session boundary
+ */
+const getCountdown = (now: number) => {
+  const next = sessionScheduler.getNextEvent(now);
+  return next ? `${COUNTDOWN_LABELS[next.event]} ${formatCountdown(next.at - now)}` : null;
+};
+
 export function MarketStatus() {
   const [marketHours, setMarketHours] = useState<MarketHours>(getMarketHours());
+  const [countdown, setCountdown] = useState<string | null>(() => getCountdown(clock.now()));
 
   useEffect(() => {
     const updateMarketStatus = () => {
       setMarketHours(getMarketHours());
+      setCountdown(getCountdown(clock.now()));
     };
 
-    // Update every minute
-    const interval = setInterval(updateMarketStatus, 60_000);
+    // Update often enough for the countdown, and as a session replay moves the clock
+    const interval = setInterval(updateMarketStatus, 15_000);
+    const detachClock = clock.onChange(updateMarketStatus);
+    const detachSession = sessionScheduler.onEvent(updateMarketStatus);
     
-    return () => clearInterval(interval);
+    return () => {
+      clearInterval(interval);
+      detachClock();
+      detachSession();
+    };
   }, []);
 
   const getStatusColor = () => {
@@ -48,6 +87,14 @@ export function MarketStatus() {
       >
         {marketHours.label}
       </Badge>
+      {countdown && (
+        <span
+          className="hidden sm:inline text-xs text-muted-foreground whitespace-nowrap"
+          title={marketHours.earlyClose ? `Early close (1:00 PM ET): ${marketHours.earlyClose}` : undefined}
+        >
+          {countdown}{marketHours.earlyClose ? ' (early close)' : ''}
+        </span>
+      )}
     </div>
   );
 }
\ No newline at end of file
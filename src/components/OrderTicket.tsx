@@ -0,0 +1,448 @@
+import { useState, useEffect } from 'react';
+import { BrokerAccount, OrderAck, OrderRequest, OrderType, TimeInForce } from '@/types';
+import { useMarketData } from '@/hooks/use-market-data';
+import { aiPatternService } from '@/lib/aiPatterns';
+import { ORDER_TYPE_LABELS, STOP_LIMIT_OFFSET_PERCENT, validateOrder } from '@/lib/ibkr-orders';
+import { getMarketHours } from '@/lib/market';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+// Custom SVG Icons
+const Brain = () => (
+  <svg width="14" height="14" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+    <path d="M12 5C13.66 5 15 3.66 15 2C15 3.66 16.34 5 18 5C16.34 5 15 6.34 15 8C15 6.34 13.66 5 12 5Z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+    <path d="M12 22C10.34 22 9 20.66 9 19C9 20.66 7.66 22 6 22C7.66 22 9 20.66 9 19C9 17.34 10.34 16 12 16C13.66 16 15 17.34 15 19C15 20.66 13.66 22 12 22Z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+    <path d="M12 16V5M15 8V19M9 8V19" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+  </svg>
+);
+
+interface OrderTicketProps {
+  symbol: string;
+  lastPrice?: number;
+}
+
+interface TicketForm {
+  side: OrderRequest['side'];
+  quantity: string;
+  orderType: OrderType;
+  price: string;
+  auxPrice: string;
+  trailingAmount: string;
+  trailingType: 'amt' | '%';
+  tif: TimeInForce;
+  outsideRth: boolean;
+  bracket: boolean;
+  takeProfit: string;
+  stopLoss: string;
+}
+
+const TIME_IN_FORCE: { value: TimeInForce; label: string }[] = [
+  { value: 'DAY', label: 'Day' },
+  { value: 'GTC', label: 'Good till cancelled' },
+  { value: 'IOC', label: 'Immediate or cancel' },
+  { value: 'OPG', label: 'At the open' }
+];
+
+const createForm = (): TicketForm => ({
+  side: 'BUY',
+  quantity: '100',
+  orderType: 'LMT',
+  price: '',
+  auxPrice: '',
+  trailingAmount: '',
+  trailingType: 'amt',
+  tif: 'DAY',
+  // Low-float runners move before the bell; default to extended hours outside the regular session
+  outsideRth: getMarketHours().status !== 'regular',
+  bracket: false,
+  takeProfit: '',
+  stopLoss: ''
+});
+
+const toNumber = (value: string): number | undefined => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+export function OrderTicket({ symbol, lastPrice }: OrderTicketProps) {
+  const { provider, status } = useMarketData();
+  const [form, setForm] = useState<TicketForm>(createForm);
+  const [accounts, setAccounts] = useState<BrokerAccount[]>([]);
+  const [accountId, setAccountId] = useState<string>('');
+  const [submitting, setSubmitting] = useState(false);
+  const [prompt, setPrompt] = useState<OrderAck | null>(null);
+
+  const canTrade = provider.capabilities.orders && status.authenticated;
+  const recommendation = aiPatternService.getLatestRecommendation(symbol);
+
+  // Reset the ticket per symbol, prefilled from the latest AI recommendation
+  useEffect(() => {
+    const next = createForm();
+    const latest = aiPatternService.getLatestRecommendation(symbol);
+    if (latest) {
+      next.bracket = true;
+      next.takeProfit = latest.priceTarget.toFixed(4);
+      next.stopLoss = latest.stopLoss.toFixed(4);
+    }
+    if (lastPrice) {
+      next.price = lastPrice.toFixed(4);
+    }
+    setForm(next);
+  }, [symbol]);
+
+  useEffect(() => {
+    if (!canTrade) return;
+
+    let cancelled = false;
+    provider.getAccounts()
+      .then(list => {
+        if (cancelled) return;
+        setAccounts(list);
+        setAccountId(current => list.some(account => account.id === current) ? current : list[0]?.id || '');
+      })
+      .catch(error => console.warn('Failed to load accounts:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [provider, canTrade]);
+
+  const update = <K extends keyof TicketForm>(key: K, value: TicketForm[K]) => {
+    setForm(prev => ({ ...prev, [key]: value }));
+  };
+
+  const applyRecommendation = () => {
+    if (!recommendation) return;
+    setForm(prev => ({
+      ...prev,
+      side: 'BUY',
+      bracket: true,
+      takeProfit: recommendation.priceTarget.toFixed(4),
+      stopLoss: recommendation.stopLoss.toFixed(4)
+    }));
+  };
+
+  const buildOrder = (): OrderRequest => ({
+    symbol,
+    side: form.side,
+    quantity: Number(form.quantity),
+    orderType: form.orderType,
+    price: form.orderType === 'LMT' || form.orderType === 'STOP_LIMIT' ? toNumber(form.price) : undefined,
+    auxPrice: form.orderType === 'STP' || form.orderType === 'STOP_LIMIT' ? toNumber(form.auxPrice) : undefined,
+    trailingAmount: form.orderType === 'TRAIL' ? toNumber(form.trailingAmount) : undefined,
+    trailingType: form.orderType === 'TRAIL' ? form.trailingType : undefined,
+    tif: form.tif,
+    outsideRth: form.outsideRth,
+    accountId: accountId || undefined,
+    bracket: form.bracket
+      ? { takeProfit: toNumber(form.takeProfit), stopLoss: toNumber(form.stopLoss) }
+      : undefined
+  });
+
+  const handleAck = (ack: OrderAck) => {
+    switch (ack.status) {
+      case 'confirmation_required':
+        setPrompt(ack);
+        break;
+      case 'rejected':
+        toast.error(`Order rejected: ${ack.message || 'unknown reason'}`);
+        break;
+      default:
+        toast.success(ack.status === 'filled' ? 'Order filled' : 'Order submitted', {
+          description: ack.message || `Order ${ack.orderId}`
+        });
+    }
+  };
+
+  const handleSubmit = async () => {
+    const order = buildOrder();
+    const problem = validateOrder(order, lastPrice);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      handleAck(await provider.placeOrder(order));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Order placement failed');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleReply = async (confirmed: boolean) => {
+    const replyId = prompt?.replyId;
+    setPrompt(null);
+    if (!replyId) return;
+
+    try {
+      const ack = await provider.confirmOrder(replyId, confirmed);
+      if (confirmed) {
+        handleAck(ack);
+      } else {
+        toast.info('Order cancelled');
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Order reply failed');
+    }
+  };
+
+  const showLimit = form.orderType === 'LMT' || form.orderType === 'STOP_LIMIT';
+  const showStop = form.orderType === 'STP' || form.orderType === 'STOP_LIMIT';
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base font-mono">Order Ticket · {symbol}</CardTitle>
+          {recommendation && (
+            <Button variant="outline" size="sm" className="h-7 text-xs gap-1" onClick={applyRecommendation}>
+              <Brain />
+              AI levels
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {!canTrade && (
+          <p className="text-xs text-muted-foreground">
+            {provider.capabilities.orders
+              ? `Log in to ${provider.label} to place orders.`
+              : `Order entry is not available through ${provider.label}.`}
+          </p>
+        )}
+
+        <div className="grid grid-cols-2 gap-2">
+          <Button
+            variant={form.side === 'BUY' ? 'default' : 'outline'}
+            className={cn(form.side === 'BUY' && 'bg-success text-success-foreground hover:bg-success/90')}
+            onClick={() => update('side', 'BUY')}
+          >
+            Buy
+          </Button>
+          <Button
+            variant={form.side === 'SELL' ? 'destructive' : 'outline'}
+            onClick={() => update('side', 'SELL')}
+          >
+            Sell
+          </Button>
+        </div>
+
+        {accounts.length > 1 && (
+          <div className="space-y-1">
+            <Label className="text-xs">Account</Label>
+            <Select value={accountId} onValueChange={setAccountId}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {accounts.map(account => (
+                  <SelectItem key={account.id} value={account.id}>
+                    {account.alias ? `${account.alias} (${account.id})` : account.id}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="ticket-quantity" className="text-xs">Quantity</Label>
+            <Input
+              id="ticket-quantity"
+              type="number"
+              min="1"
+              step="1"
+              className="h-8 text-xs font-mono"
+              value={form.quantity}
+              onChange={(e) => update('quantity', e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Type</Label>
+            <Select value={form.orderType} onValueChange={(value: OrderType) => update('orderType', value)}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(ORDER_TYPE_LABELS) as OrderType[]).map(type => (
+                  <SelectItem key={type} value={type}>{ORDER_TYPE_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {(showStop || showLimit) && (
+          <div className="grid grid-cols-2 gap-2">
+            {showStop && (
+              <div className="space-y-1">
+                <Label htmlFor="ticket-stop" className="text-xs">Stop Price</Label>
+                <Input
+                  id="ticket-stop"
+                  type="number"
+                  step="0.0001"
+                  className="h-8 text-xs font-mono"
+                  value={form.auxPrice}
+                  onChange={(e) => update('auxPrice', e.target.value)}
+                />
+              </div>
+            )}
+            {showLimit && (
+              <div className="space-y-1">
+                <Label htmlFor="ticket-limit" className="text-xs">Limit Price</Label>
+                <Input
+                  id="ticket-limit"
+                  type="number"
+                  step="0.0001"
+                  className="h-8 text-xs font-mono"
+                  value={form.price}
+                  onChange={(e) => update('price', e.target.value)}
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        {form.orderType === 'TRAIL' && (
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="ticket-trail" className="text-xs">Trail By</Label>
+              <Input
+                id="ticket-trail"
+                type="number"
+                step="0.01"
+                className="h-8 text-xs font-mono"
+                value={form.trailingAmount}
+                onChange={(e) => update('trailingAmount', e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Unit</Label>
+              <Select value={form.trailingType} onValueChange={(value: 'amt' | '%') => update('trailingType', value)}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="amt">$ amount</SelectItem>
+                  <SelectItem value="%">Percent</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-1">
+          <Label className="text-xs">Time in Force</Label>
+          <Select value={form.tif} onValueChange={(value: TimeInForce) => update('tif', value)}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TIME_IN_FORCE.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <Label htmlFor="ticket-outside-rth" className="text-xs font-medium">Outside RTH</Label>
+            <p className="text-xs text-muted-foreground">Allow premarket and after-hours fills</p>
+          </div>
+          <Switch
+            id="ticket-outside-rth"
+            checked={form.outsideRth}
+            onCheckedChange={(checked) => update('outsideRth', checked)}
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <Label htmlFor="ticket-bracket" className="text-xs font-medium">Bracket</Label>
+            <p className="text-xs text-muted-foreground">Attach take-profit and stop-loss exits</p>
+          </div>
+          <Switch
+            id="ticket-bracket"
+            checked={form.bracket}
+            onCheckedChange={(checked) => update('bracket', checked)}
+          />
+        </div>
+
+        {form.bracket && (
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="ticket-take-profit" className="text-xs">Take Profit</Label>
+              <Input
+                id="ticket-take-profit"
+                type="number"
+                step="0.0001"
+                className="h-8 text-xs font-mono"
+                value={form.takeProfit}
+                onChange={(e) => update('takeProfit', e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="ticket-stop-loss" className="text-xs">Stop Loss</Label>
+              <Input
+                id="ticket-stop-loss"
+                type="number"
+                step="0.0001"
+                className="h-8 text-xs font-mono"
+                value={form.stopLoss}
+                onChange={(e) => update('stopLoss', e.target.value)}
+              />
+            </div>
+            {form.outsideRth && (
+              <p className="col-span-2 text-xs text-muted-foreground">
+                Outside RTH the stop-loss is sent as a stop limit {STOP_LIMIT_OFFSET_PERCENT}% past the stop, since plain stops only trigger in regular hours.
+              </p>
+            )}
+          </div>
+        )}
+
+        <Button
+          className="w-full"
+          variant={form.side === 'SELL' ? 'destructive' : 'default'}
+          disabled={!canTrade || submitting}
+          onClick={handleSubmit}
+        >
+          {submitting ? 'Submitting...' : `${form.side === 'BUY' ? 'Buy' : 'Sell'} ${form.quantity || 0} ${symbol}`}
+        </Button>
+      </CardContent>
+
+      <AlertDialog open={prompt !== null} onOpenChange={(open) => !open && setPrompt(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Confirm order</AlertDialogTitle>
+            <AlertDialogDescription>{prompt?.message}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={() => handleReply(false)}>Cancel order</AlertDialogCancel>
+            <AlertDialogAction onClick={() => handleReply(true)}>Transmit</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,347 @@
+import { useState, useEffect } from 'react';
+import { BrokerOrder, OrderModification } from '@/types';
+import { ordersService, OrdersState } from '@/lib/orders';
+import { ORDER_TYPE_LABELS, getModifyBlock } from '@/lib/ibkr-orders';
+import { formatPrice } from '@/lib/market';
+import { useMarketData } from '@/hooks/use-market-data';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+// Custom SVG Icons
+const Edit = () => (
+  <svg width="14" height="14" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+    <path d="M11 4H4A2 2 0 0 0 2 6V20A2 2 0 0 0 4 22H18A2 2 0 0 0 20 20V13" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+    <path d="M18.5 2.5A2.12 2.12 0 0 1 21.5 5.5L12 15L8 16L9 12L18.5 2.5Z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+  </svg>
+);
+
+const Check = () => (
+  <svg width="14" height="14" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+    <path d="M20 6L9 17L4 12" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+  </svg>
+);
+
+const X = () => (
+  <svg width="14" height="14" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+    <path d="M18 6L6 18M6 6L18 18" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+  </svg>
+);
+
+const Refresh = () => (
+  <svg width="14" height="14" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+    <path d="M23 4V10H17" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+    <path d="M20.49 15A9 9 0 1 1 18.36 5.64L23 10" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+  </svg>
+);
+
+interface OrdersBlotterProps {
+  onStockSelect: (symbol: string) => void;
+}
+
+type OrderFilter = 'working' | 'filled' | 'cancelled' | 'all';
+
+const FILTERS: { value: OrderFilter; label: string }[] = [
+  { value: 'working', label: 'Working' },
+  { value: 'filled', label: 'Filled' },
+  { value: 'cancelled', label: 'Cancelled' },
+  { value: 'all', label: 'All' }
+];
+
+const isWorking = (order: BrokerOrder) => order.status === 'working' || order.status === 'pending';
+
+const matchesFilter = (order: BrokerOrder, filter: OrderFilter) => {
+  switch (filter) {
+    case 'working':
+      return isWorking(order);
+    case 'filled':
+      return order.status === 'filled';
+    case 'cancelled':
+      return order.status === 'cancelled' || order.status === 'rejected';
+    default:
+      return true;
+  }
+};
+
+// Which price an inline edit changes: the stop trigger for stops, the limit otherwise
+const editablePrice = (order: BrokerOrder): 'price' | 'auxPrice' | null => {
+  switch (order.orderType) {
+    case 'LMT':
+    case 'STOP_LIMIT':
+      return 'price';
+    case 'STP':
+      return 'auxPrice';
+    default:
+      return null;
+  }
+};
+
+const formatTime = (time: number) => new Date(time).toLocaleTimeString();
+
+export function OrdersBlotter({ onStockSelect }: OrdersBlotterProps) {
+  const { provider } = useMarketData();
+  const [state, setState] = useState<OrdersState>(ordersService.getState());
+  const [filter, setFilter] = useState<OrderFilter>('working');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editQuantity, setEditQuantity] = useState('');
+  const [editPrice, setEditPrice] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => ordersService.onUpdate(setState), []);
+
+  const canTrade = provider.capabilities.orders;
+  const orders = state.orders.filter(order => matchesFilter(order, filter));
+
+  const startEdit = (order: BrokerOrder) => {
+    const field = editablePrice(order);
+    setEditingId(order.id);
+    setEditQuantity(String(order.quantity));
+    setEditPrice(field ? String(order[field] ?? '') : '');
+  };
+
+  const saveEdit = async (order: BrokerOrder) => {
+    const changes: OrderModification = {};
+    const quantity = Number(editQuantity);
+    if (quantity !== order.quantity) {
+      changes.quantity = quantity;
+    }
+
+    const field = editablePrice(order);
+    const price = parseFloat(editPrice);
+    if (field && Number.isFinite(price) && price !== order[field]) {
+      changes[field] = price;
+    }
+
+    if (Object.keys(changes).length === 0) {
+      setEditingId(null);
+      return;
+    }
+
+    setBusyId(order.id);
+    try {
+      const ack = await ordersService.modify(order, changes);
+      if (ack.status === 'rejected') {
+        toast.error(`Modify rejected: ${ack.message || 'unknown reason'}`);
+      } else if (ack.status === 'confirmation_required') {
+        toast.warning(ack.message || 'Modification needs confirmation in IBKR');
+      } else {
+        toast.success(`Order ${order.id} modified`);
+        setEditingId(null);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Order modification failed');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const cancelOrder = async (order: BrokerOrder) => {
+    setBusyId(order.id);
+    try {
+      const ack = await ordersService.cancel(order);
+      if (ack.status === 'rejected') {
+        toast.error(`Cancel rejected: ${ack.message || 'unknown reason'}`);
+      } else {
+        toast.info(`Cancel requested for ${order.side} ${order.quantity} ${order.symbol}`);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Order cancellation failed');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const statusBadge = (order: BrokerOrder) => (
+    <Badge
+      variant={order.status === 'rejected' ? 'destructive' : order.status === 'filled' ? 'default' : 'outline'}
+      className={cn('text-xs capitalize', order.status === 'filled' && 'bg-success text-success-foreground')}
+    >
+      {order.status}
+    </Badge>
+  );
+
+  return (
+    <div className="h-full flex flex-col lg:flex-row gap-3 p-3">
+      <div className="flex-1 min-w-0 flex flex-col border border-border rounded-lg overflow-hidden">
+        <div className="flex items-center justify-between gap-2 px-3 py-2 border-b border-border">
+          <div className="flex items-center gap-1">
+            {FILTERS.map(option => (
+              <Button
+                key={option.value}
+                size="sm"
+                variant={filter === option.value ? 'secondary' : 'ghost'}
+                className="h-7 text-xs"
+                onClick={() => setFilter(option.value)}
+              >
+                {option.label}
+                <span className="ml-1 text-muted-foreground">
+                  {state.orders.filter(order => matchesFilter(order, option.value)).length}
+                </span>
+              </Button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            {state.error ? (
+              <span className="text-yellow-500">{state.error}</span>
+            ) : state.lastUpdate && (
+              <span>Updated {state.lastUpdate.toLocaleTimeString()}</span>
+            )}
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 w-7 p-0"
+              disabled={state.loading}
+              onClick={() => ordersService.refresh()}
+              title="Refresh orders"
+            >
+              <Refresh />
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-auto">
+          <table className="w-full min-w-[760px]">
+            <thead className="border-b border-border sticky top-0 bg-background">
+              <tr>
+                {['Time', 'Ticker', 'Side', 'Type', 'Qty', 'Filled', 'Price', 'Avg Fill', 'Status', ''].map(header => (
+                  <th key={header} className="px-3 py-2 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                    {header}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {orders.map(order => {
+                const editing = editingId === order.id;
+                const priceField = editablePrice(order);
+                const shownPrice = order.orderType === 'STP' || order.orderType === 'TRAIL' ? order.auxPrice : order.price;
+                const modifyBlock = getModifyBlock(order);
+
+                return (
+                  <tr key={order.id} className="hover:bg-muted/50 transition-colors">
+                    <td className="px-3 py-2 font-mono text-xs text-muted-foreground">{formatTime(order.updatedAt)}</td>
+                    <td className="px-3 py-2">
+                      <button
+                        className="font-mono font-semibold text-foreground hover:text-accent"
+                        onClick={() => onStockSelect(order.symbol)}
+                      >
+                        {order.symbol}
+                      </button>
+                      {order.parentId && <div className="text-xs text-muted-foreground">Bracket exit</div>}
+                    </td>
+                    <td className={cn('px-3 py-2 font-mono text-xs font-semibold', order.side === 'BUY' ? 'text-success' : 'text-destructive')}>
+                      {order.side}
+                    </td>
+                    <td className="px-3 py-2 text-xs">
+                      {ORDER_TYPE_LABELS[order.orderType]}
+                      {order.tif && <span className="ml-1 text-muted-foreground">{order.tif}</span>}
+                    </td>
+                    <td className="px-3 py-2 font-mono text-xs">
+                      {editing ? (
+                        <Input
+                          type="number"
+                          min="1"
+                          step="1"
+                          className="h-7 w-20 text-xs font-mono"
+                          value={editQuantity}
+                          onChange={(e) => setEditQuantity(e.target.value)}
+                        />
+                      ) : order.quantity}
+                    </td>
+                    <td className="px-3 py-2 font-mono text-xs text-muted-foreground">{order.filledQuantity}</td>
+                    <td className="px-3 py-2 font-mono text-xs">
+                      {editing && priceField ? (
+                        <Input
+                          type="number"
+                          step="0.0001"
+                          className="h-7 w-24 text-xs font-mono"
+                          value={editPrice}
+                          onChange={(e) => setEditPrice(e.target.value)}
+                        />
+                      ) : shownPrice !== undefined ? formatPrice(shownPrice) : 'MKT'}
+                    </td>
+                    <td className="px-3 py-2 font-mono text-xs text-muted-foreground">
+                      {order.avgFillPrice ? formatPrice(order.avgFillPrice) : '-'}
+                    </td>
+                    <td className="px-3 py-2">{statusBadge(order)}</td>
+                    <td className="px-3 py-2">
+                      {canTrade && isWorking(order) && (
+                        <div className="flex items-center justify-end gap-1">
+                          {editing ? (
+                            <>
+                              <Button size="sm" variant="ghost" className="h-7 w-7 p-0" disabled={busyId === order.id} onClick={() => saveEdit(order)} title="Save changes">
+                                <Check />
+                              </Button>
+                              <Button size="sm" variant="ghost" className="h-7 w-7 p-0" onClick={() => setEditingId(null)} title="Discard changes">
+                                <X />
+                              </Button>
+                            </>
+                          ) : (
+                            <>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                className="h-7 w-7 p-0"
+                                disabled={modifyBlock !== null}
+                                onClick={() => startEdit(order)}
+                                title={modifyBlock ?? 'Modify order'}
+                              >
+                                <Edit />
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                className="h-7 px-2 text-xs text-destructive hover:bg-destructive/20"
+                                disabled={busyId === order.id}
+                                onClick={() => cancelOrder(order)}
+                              >
+                                Cancel
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          {orders.length === 0 && (
+            <div className="text-center text-sm text-muted-foreground py-12">
+              {state.loading ? 'Loading orders...' : `No ${filter === 'all' ? '' : `${filter} `}orders this session`}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="lg:w-80 flex-shrink-0 flex flex-col border border-border rounded-lg overflow-hidden">
+        <div className="px-3 py-2 border-b border-border text-sm font-medium">
+          Session Fills
+          <span className="ml-2 text-xs text-muted-foreground">{state.fills.length}</span>
+        </div>
+        <div className="flex-1 overflow-auto divide-y divide-border">
+          {state.fills.length > 0 ? state.fills.map(fill => (
+            <div key={`${fill.orderId}-${fill.time}-${fill.quantity}`} className="flex items-center justify-between px-3 py-2 text-xs">
+              <div>
+                <span className={cn('font-mono font-semibold', fill.side === 'BUY' ? 'text-success' : 'text-destructive')}>
+                  {fill.side}
+                </span>
+                <span className="ml-2 font-mono">{fill.quantity} {fill.symbol}</span>
+              </div>
+              <div className="text-right">
+                <div className="font-mono">{formatPrice(fill.price)}</div>
+                <div className="text-muted-foreground">{formatTime(fill.time)}</div>
+              </div>
+            </div>
+          )) : (
+            <div className="text-center text-xs text-muted-foreground py-8">No fills yet this session</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
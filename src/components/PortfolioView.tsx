@@ -0,0 +1,299 @@
+import { useState, useEffect, useMemo } from 'react';
+import { AccountSummary, BrokerAccount, Position, StockDelta } from '@/types';
+import { PositionMark, summarizePortfolio, toPortfolioRow, updateMark } from '@/lib/portfolio';
+import { formatPrice } from '@/lib/market';
+import { useMarketData } from '@/hooks/use-market-data';
+import { useKV } from '@github/spark/hooks';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+
+// Custom SVG Icons
+const ChartLine = () => (
+  <svg width="14" height="14" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+    <path d="M3 3V21H21" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+    <path d="M7 14L11 10L15 14L20 9" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+  </svg>
+);
+
+const Refresh = () => (
+  <svg width="14" height="14" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+    <path d="M23 4V10H17" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+    <path d="M20.49 15A9 9 0 1 1 18.36 5.64L23 10" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+  </svg>
+);
+
+// Quantities, cost basis and realized P&L change slowly; marks stream in between
+const POSITIONS_REFRESH_INTERVAL = 15_000;
+
+const formatPnl = (value: number | null) => {
+  if (value === null) return '-';
+  const sign = value > 0 ? '+' : value < 0 ? '-' : '';
+  return `${sign}${formatPrice(Math.abs(value))}`;
+};
+
+const pnlClass = (value: number | null) =>
+  value === null || value === 0 ? 'text-muted-foreground' : value > 0 ? 'text-success' : 'text-destructive';
+
+const openChart = (symbol: string) => {
+  window.dispatchEvent(new CustomEvent('openChart', { detail: { symbol } }));
+};
+
+export function PortfolioView() {
+  const { provider, status } = useMarketData();
+  const [accounts, setAccounts] = useState<BrokerAccount[]>([]);
+  const [selectedAccount, setSelectedAccount] = useKV<string>('portfolio-account', '');
+  const [positions, setPositions] = useState<Position[]>([]);
+  const [summary, setSummary] = useState<AccountSummary | null>(null);
+  const [marks, setMarks] = useState<Record<string, PositionMark>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  const accountId = accounts.some(account => account.id === selectedAccount) ? selectedAccount : accounts[0]?.id;
+
+  useEffect(() => {
+    if (!status.authenticated) {
+      setAccounts([]);
+      return;
+    }
+
+    let cancelled = false;
+    provider.getAccounts()
+      .then(list => {
+        if (!cancelled) setAccounts(list);
+      })
+      .catch(err => console.warn('Failed to load accounts:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [provider, status.authenticated]);
+
+  // Positions and account value for the selected account
+  useEffect(() => {
+    setPositions([]);
+    setSummary(null);
+    setMarks({});
+    if (!accountId || !status.authenticated) return;
+
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      try {
+        const [nextPositions, nextSummary] = await Promise.all([
+          provider.getPositions(accountId),
+          provider.getAccountSummary(accountId).catch(err => {
+            console.warn('Failed to load account summary:', err);
+            return null;
+          })
+        ]);
+        if (cancelled) return;
+
+        setPositions(nextPositions.filter(position => position.quantity !== 0 || position.realizedPnl !== 0));
+        setSummary(nextSummary);
+        setLastUpdate(new Date());
+        setError(null);
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Positions request failed');
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+    const timer = setInterval(load, POSITIONS_REFRESH_INTERVAL);
+
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [provider, accountId, status.authenticated, refreshKey]);
+
+  // Live marks: one snapshot for previous closes, then streamed ticks
+  const heldSymbols = positions.filter(position => position.quantity !== 0).map(position => position.symbol).sort().join(',');
+  useEffect(() => {
+    if (!heldSymbols || !status.authenticated) return;
+
+    const symbols = heldSymbols.split(',');
+    const unsubscribers: (() => void)[] = [];
+    let cancelled = false;
+
+    const handleQuote = (quote: StockDelta) => {
+      if (cancelled) return;
+      setMarks(current => {
+        const next = updateMark(current[quote.symbol], quote);
+        return next ? { ...current, [quote.symbol]: next } : current;
+      });
+    };
+
+    provider.getQuotes(symbols)
+      .then(quotes => quotes.forEach(handleQuote))
+      .catch(err => console.warn('Failed to load position quotes:', err));
+
+    symbols.forEach(symbol => {
+      provider.subscribe(symbol, handleQuote)
+        .then(unsubscribe => {
+          if (cancelled) {
+            unsubscribe();
+          } else {
+            unsubscribers.push(unsubscribe);
+          }
+        })
+        .catch(err => console.warn(`Failed to stream ${symbol}:`, err));
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+  }, [heldSymbols, provider, status.authenticated]);
+
+  const rows = useMemo(
+    () => positions
+      .map(position => toPortfolioRow(position, marks[position.symbol], summary?.netLiquidation))
+      .sort((a, b) => Math.abs(b.marketValue) - Math.abs(a.marketValue)),
+    [positions, marks, summary]
+  );
+  const totals = summarizePortfolio(rows);
+
+  if (!provider.capabilities.accounts) {
+    return (
+      <div className="h-full flex items-center justify-center text-sm text-muted-foreground">
+        Positions are not available through {provider.label}
+      </div>
+    );
+  }
+
+  if (!status.authenticated) {
+    return (
+      <div className="h-full flex items-center justify-center text-sm text-muted-foreground">
+        Log in to {provider.label} to see positions
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col gap-3 p-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          {accounts.length > 1 ? (
+            <Select value={accountId} onValueChange={setSelectedAccount}>
+              <SelectTrigger className="h-8 w-56 text-xs">
+                <SelectValue placeholder="Select account" />
+              </SelectTrigger>
+              <SelectContent>
+                {accounts.map(account => (
+                  <SelectItem key={account.id} value={account.id}>
+                    {account.alias ? `${account.alias} (${account.id})` : account.id}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <span className="text-sm font-mono">{accounts[0]?.alias || accountId || 'No account'}</span>
+          )}
+        </div>
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          {error ? (
+            <span className="text-yellow-500">{error}</span>
+          ) : lastUpdate && (
+            <span>Updated {lastUpdate.toLocaleTimeString()}</span>
+          )}
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-7 w-7 p-0"
+            disabled={loading}
+            onClick={() => setRefreshKey(key => key + 1)}
+            title="Refresh positions"
+          >
+            <Refresh />
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-5 gap-2">
+        {[
+          { label: 'Net Liquidation', value: summary ? formatPrice(summary.netLiquidation) : '-', className: '' },
+          { label: 'Market Value', value: formatPrice(totals.marketValue), className: '' },
+          { label: 'Unrealized P&L', value: formatPnl(totals.unrealizedPnl), className: pnlClass(totals.unrealizedPnl) },
+          { label: 'Realized P&L', value: formatPnl(totals.realizedPnl), className: pnlClass(totals.realizedPnl) },
+          { label: 'Day P&L', value: formatPnl(totals.dayPnl), className: pnlClass(totals.dayPnl) }
+        ].map(item => (
+          <Card key={item.label}>
+            <CardContent className="p-3">
+              <div className="text-xs text-muted-foreground">{item.label}</div>
+              <div className={cn('text-lg font-mono font-semibold', item.className)}>{item.value}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="flex-1 min-h-0 border border-border rounded-lg overflow-auto">
+        <table className="w-full min-w-[860px]">
+          <thead className="border-b border-border sticky top-0 bg-background">
+            <tr>
+              {['Ticker', 'Qty', 'Avg Cost', 'Mark', 'Mkt Value', 'Unrealized', 'Realized', 'Day P&L', '% Acct', ''].map(header => (
+                <th key={header} className="px-3 py-2 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                  {header}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-border">
+            {rows.map(row => (
+              <tr
+                key={`${row.accountId}-${row.conid}`}
+                className="hover:bg-muted/50 transition-colors cursor-pointer"
+                onClick={() => openChart(row.symbol)}
+              >
+                <td className="px-3 py-2 font-mono font-semibold">{row.symbol}</td>
+                <td className={cn('px-3 py-2 font-mono text-sm', row.quantity < 0 && 'text-destructive')}>{row.quantity}</td>
+                <td className="px-3 py-2 font-mono text-sm text-muted-foreground">{row.quantity !== 0 ? formatPrice(row.avgCost) : '-'}</td>
+                <td className="px-3 py-2 font-mono text-sm">{formatPrice(row.marketPrice)}</td>
+                <td className="px-3 py-2 font-mono text-sm">{formatPrice(row.marketValue)}</td>
+                <td className={cn('px-3 py-2 font-mono text-sm', pnlClass(row.unrealizedPnl))}>
+                  {formatPnl(row.unrealizedPnl)}
+                  {row.quantity !== 0 && (
+                    <span className="ml-1 text-xs">({row.unrealizedPercent >= 0 ? '+' : ''}{row.unrealizedPercent.toFixed(1)}%)</span>
+                  )}
+                </td>
+                <td className={cn('px-3 py-2 font-mono text-sm', pnlClass(row.realizedPnl))}>{formatPnl(row.realizedPnl)}</td>
+                <td className={cn('px-3 py-2 font-mono text-sm', pnlClass(row.dayPnl))}>{formatPnl(row.dayPnl)}</td>
+                <td className="px-3 py-2 font-mono text-sm text-muted-foreground">
+                  {row.percentOfAccount !== null ? `${row.percentOfAccount.toFixed(1)}%` : '-'}
+                </td>
+                <td className="px-3 py-2">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 w-7 p-0"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      openChart(row.symbol);
+                    }}
+                    title="Open chart"
+                  >
+                    <ChartLine />
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {rows.length === 0 && (
+          <div className="text-center text-sm text-muted-foreground py-12">
+            {loading ? 'Loading positions...' : 'No open positions'}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
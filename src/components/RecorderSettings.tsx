@@ -0,0 +1,219 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { RecorderDataset, RecorderFormat, RecorderSettings as RecorderSettingsValue, RecorderStats } from '@/types';
+import { marketRecorder } from '@/lib/recorder';
+import { RECORDER_FORMATS } from '@/lib/recorder-formats';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { toast } from 'sonner';
+
+const STATS_INTERVAL = 5000;
+
+const formatBytes = (bytes: number) => {
+  if (bytes >= 1e9) return `${(bytes / 1e9).toFixed(2)} GB`;
+  if (bytes >= 1e6) return `${(bytes / 1e6).toFixed(1)} MB`;
+  return `${Math.round(bytes / 1e3)} KB`;
+};
+
+const formatDate = (time: number | null) => (time ? new Date(time).toLocaleString() : '—');
+
+/**
+ * Recorder switch, retention limits, storage use and export/import
+ */
+export function RecorderSettings() {
+  const [settings, setSettings] = useState<RecorderSettingsValue>(() => marketRecorder.getSettings());
+  const [stats, setStats] = useState<RecorderStats | null>(null);
+  const [dataset, setDataset] = useState<RecorderDataset>('ticks');
+  const [format, setFormat] = useState<RecorderFormat>('csv');
+  const [busy, setBusy] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const refreshStats = useCallback(() => {
+    marketRecorder.getStats().then(setStats);
+  }, []);
+
+  useEffect(() => {
+    refreshStats();
+    const timer = setInterval(refreshStats, STATS_INTERVAL);
+    return () => clearInterval(timer);
+  }, [refreshStats]);
+
+  const updateSettings = (patch: Partial<RecorderSettingsValue>) => {
+    marketRecorder.updateSettings(patch);
+    setSettings(marketRecorder.getSettings());
+  };
+
+  const updateLimit = (key: 'retentionDays' | 'maxTicks' | 'maxBars', value: string) => {
+    const number = Math.floor(Number(value));
+    if (Number.isFinite(number) && number > 0) {
+      updateSettings({ [key]: number });
+    }
+  };
+
+  const handleExport = async () => {
+    setBusy(true);
+    try {
+      const file = await marketRecorder.exportData(dataset, format);
+      const url = URL.createObjectURL(new Blob([file.text], { type: file.mime }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = file.filename;
+      link.click();
+      URL.revokeObjectURL(url);
+      toast.success(`Exported ${file.rows.toLocaleString()} ${dataset}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Export failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+
+    setBusy(true);
+    try {
+      const result = await marketRecorder.importData(await file.text());
+      toast.success(
+        `Imported ${result.imported.toLocaleString()} ${result.dataset}` +
+        (result.skipped > 0 ? `, skipped ${result.skipped.toLocaleString()} invalid rows` : '')
+      );
+      refreshStats();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Import failed');
+    } finally {
+      setBusy(false);
+      if (fileInput.current) fileInput.current.value = '';
+    }
+  };
+
+  const handleClear = async () => {
+    await marketRecorder.clear();
+    refreshStats();
+    toast.success('Recorded data cleared');
+  };
+
+  const usedPercent = stats?.usage != null && stats.quota ? (stats.usage / stats.quota) * 100 : null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm">Market Recorder</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="flex-1 min-w-0">
+            <Label htmlFor="recorder-enabled" className="text-sm font-medium">Record market data</Label>
+            <p className="text-xs text-muted-foreground">Scanner updates and chart bars, for replay, backtests and export</p>
+          </div>
+          <Switch
+            id="recorder-enabled"
+            checked={settings.enabled}
+            onCheckedChange={(enabled) => updateSettings({ enabled })}
+          />
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="recorder-days" className="text-xs">Keep days</Label>
+            <Input
+              id="recorder-days"
+              type="number"
+              min={1}
+              defaultValue={settings.retentionDays}
+              onBlur={(e) => updateLimit('retentionDays', e.target.value)}
+              className="h-8 text-xs"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="recorder-ticks" className="text-xs">Max ticks</Label>
+            <Input
+              id="recorder-ticks"
+              type="number"
+              min={1}
+              defaultValue={settings.maxTicks}
+              onBlur={(e) => updateLimit('maxTicks', e.target.value)}
+              className="h-8 text-xs"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="recorder-bars" className="text-xs">Max bars</Label>
+            <Input
+              id="recorder-bars"
+              type="number"
+              min={1}
+              defaultValue={settings.maxBars}
+              onBlur={(e) => updateLimit('maxBars', e.target.value)}
+              className="h-8 text-xs"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-1 text-xs">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Recorded</span>
+            <span className="font-mono">
+              {stats ? `${stats.ticks.toLocaleString()} ticks • ${stats.bars.toLocaleString()} bars` : '—'}
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Ticks from</span>
+            <span className="font-mono">{formatDate(stats?.oldestTick ?? null)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Storage</span>
+            <span className="font-mono">
+              {stats?.usage != null && stats.quota ? `${formatBytes(stats.usage)} of ${formatBytes(stats.quota)}` : 'Unavailable'}
+            </span>
+          </div>
+          {usedPercent !== null && <Progress value={usedPercent} className="h-2" />}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Select value={dataset} onValueChange={(value: RecorderDataset) => setDataset(value)}>
+            <SelectTrigger className="h-8 w-24 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="ticks">Ticks</SelectItem>
+              <SelectItem value="bars">Bars</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={format} onValueChange={(value: RecorderFormat) => setFormat(value)}>
+            <SelectTrigger className="h-8 flex-1 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RECORDER_FORMATS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" className="h-8 px-3 text-xs" disabled={busy} onClick={handleExport}>
+            Export
+          </Button>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".csv,.jsonl,.json,.ndjson"
+            className="hidden"
+            onChange={(e) => handleImport(e.target.files?.[0])}
+          />
+          <Button variant="outline" size="sm" className="h-8 flex-1 text-xs" disabled={busy} onClick={() => fileInput.current?.click()}>
+            Import File
+          </Button>
+          <Button variant="ghost" size="sm" className="h-8 px-3 text-xs text-destructive" disabled={busy} onClick={handleClear}>
+            Clear
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,6 +1,8 @@
 import { useState, useEffect } from 'react';
-import { AIRecommendation, Stock, AIMarketScan } from '@/types';
+import { AIRecommendation, Stock, AIMarketScan, MarketPattern } from '@/types';
 import { aiPatternService } from '@/lib/aiPatterns';
+import { aiSearchService } from '@/lib/aiSearch';
+import { DEFAULT_BACKTEST_OPTIONS, patternBacktestService } from '@/lib/backtest';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -8,6 +10,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Progress } from '@/components/ui/progress';
 import { Separator } from '@/components/ui/separator';
 import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
 
 // Custom SVG Icons
 const Brain = ({ size = 10 }: { size?: number }) => (
@@ -92,6 +95,8 @@ export function SFTiTop10({ stocks, onStockSelect }: SFTiTop10Props) {
   const [marketScan, setMarketScan] = useState<AIMarketScan | null>(null);
   const [loading, setLoading] = useState(true);
   const [lastUpdate, setLastUpdate] = useState<Date>(new Date());
+  const [registry, setRegistry] = useState<MarketPattern[]>(() => aiSearchService.getPatterns());
+  const [backtestProgress, setBacktestProgress] = useState<number | null>(null);
 
   // Generate AI recommendations
   useEffect(() => {
@@ -122,6 +127,26 @@ export function SFTiTop10({ stocks, onStockSelect }: SFTiTop10Props) {
     return () => clearInterval(interval);
   }, [stocks]);
 
+  const runBacktest = async () => {
+    const symbols = stocks.slice(0, 20).map(stock => stock.symbol);
+    if (symbols.length === 0) return;
+
+    setBacktestProgress(0);
+    try {
+      const report = await patternBacktestService.run(symbols, undefined, (done, total) => {
+        setBacktestProgress(Math.round((done / total) * 100));
+      });
+      setRegistry(aiSearchService.getPatterns());
+      toast.success(`Backtested ${report.trades.length} pattern signals across ${symbols.length} symbols`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Pattern backtest failed');
+    } finally {
+      setBacktestProgress(null);
+    }
+  };
+
+  const formatPercent = (value: number) => `${value >= 0 ? '+' : ''}${(value * 100).toFixed(2)}%`;
+
   const getTypeIcon = (type: AIRecommendation['type']) => {
     switch (type) {
       case 'strong_buy':
@@ -258,6 +283,10 @@ export function SFTiTop10({ stocks, onStockSelect }: SFTiTop10Props) {
               <BarChart3 size={14} className="mr-1" />
               Volume Analysis
             </TabsTrigger>
+            <TabsTrigger value="accuracy" className="text-xs">
+              <Target />
+              Accuracy
+            </TabsTrigger>
           </TabsList>
 
           <div className="flex-1 min-h-0 p-6 pt-4">
@@ -490,6 +519,87 @@ export function SFTiTop10({ stocks, onStockSelect }: SFTiTop10Props) {
                 </div>
               </div>
             </TabsContent>
+
+            <TabsContent value="accuracy" className="h-full mt-0">
+              <div className="h-full overflow-y-auto scrollbar-hide touch-scroll">
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between gap-3">
+                    <p className="text-xs text-muted-foreground">
+                      Hit rate is the share of signals that reached a {DEFAULT_BACKTEST_OPTIONS.targetPct * 100}% target before a {DEFAULT_BACKTEST_OPTIONS.stopPct * 100}% stop within {DEFAULT_BACKTEST_OPTIONS.maxBars} bars, on stored bars for the first 20 symbols.
+                    </p>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={runBacktest}
+                      disabled={backtestProgress !== null || stocks.length === 0}
+                      className="text-xs shrink-0"
+                    >
+                      {backtestProgress !== null ? `Backtesting ${backtestProgress}%` : 'Run Backtest'}
+                    </Button>
+                  </div>
+
+                  {registry.map(pattern => (
+                    <Card key={pattern.id} className="bg-card/50">
+                      <CardContent className="p-4">
+                        <div className="flex items-center justify-between mb-2">
+                          <div className="flex items-center gap-2">
+                            <div className="font-semibold text-sm">{pattern.name}</div>
+                            <Badge variant="outline" className="text-xs">{pattern.timeframe}</Badge>
+                            <Badge
+                              variant="outline"
+                              className={cn('text-xs', pattern.type === 'bearish' ? 'text-red-400' : 'text-green-400')}
+                            >
+                              {pattern.type}
+                            </Badge>
+                          </div>
+                          <div className="text-right">
+                            <div className="text-xs text-muted-foreground">Hit Rate</div>
+                            <div className="text-sm font-semibold">
+                              {pattern.samples ? `${(pattern.accuracy * 100).toFixed(0)}%` : '—'}
+                            </div>
+                          </div>
+                        </div>
+
+                        {pattern.backtest ? (
+                          <div className="space-y-2 text-xs">
+                            <div className="grid grid-cols-4 gap-2">
+                              <div>
+                                <div className="text-muted-foreground">Signals</div>
+                                <div className="font-semibold">{pattern.backtest.signals}</div>
+                              </div>
+                              <div>
+                                <div className="text-muted-foreground">Target / Stop</div>
+                                <div className="font-semibold">{pattern.backtest.targets} / {pattern.backtest.stops}</div>
+                              </div>
+                              <div>
+                                <div className="text-muted-foreground">Avg MFE</div>
+                                <div className="font-semibold text-green-400">{formatPercent(pattern.backtest.avgMFE)}</div>
+                              </div>
+                              <div>
+                                <div className="text-muted-foreground">Avg MAE</div>
+                                <div className="font-semibold text-red-400">{formatPercent(-pattern.backtest.avgMAE)}</div>
+                              </div>
+                            </div>
+                            <div className="flex flex-wrap gap-2">
+                              {pattern.backtest.horizons.map(horizon => (
+                                <Badge key={horizon.bars} variant="secondary" className="text-xs font-normal">
+                                  {horizon.bars} bar{horizon.bars !== 1 ? 's' : ''}: {formatPercent(horizon.avgReturn)} · {(horizon.winRate * 100).toFixed(0)}% won
+                                </Badge>
+                              ))}
+                            </div>
+                            <div className="text-muted-foreground">
+                              {pattern.backtest.symbols} symbol{pattern.backtest.symbols !== 1 ? 's' : ''} · tested {new Date(pattern.backtest.testedAt).toLocaleString()}
+                            </div>
+                          </div>
+                        ) : (
+                          <div className="text-xs text-muted-foreground">Not backtested yet</div>
+                        )}
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              </div>
+            </TabsContent>
           </div>
         </Tabs>
       </div>
@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import { ScannerColumnId, ScannerColumnLayout, ScannerColumnSetting, ScannerNumberFormat } from '@/types';
+import { DEFAULT_COLUMN_LAYOUT, getColumn, getColumnFormats, moveColumn } from '@/lib/scanner-columns';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+
+// Custom SVG Icons
+const Columns = () => (
+  <svg width="14" height="14" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+    <rect x="3" y="4" width="18" height="16" rx="2" stroke="currentColor" strokeWidth="2"/>
+    <path d="M9 4V20M15 4V20" stroke="currentColor" strokeWidth="2"/>
+  </svg>
+);
+
+const Grip = () => (
+  <svg width="12" height="12" viewBox="0 0 24 24" fill="currentColor" xmlns="http://www.w3.org/2000/svg">
+    <circle cx="9" cy="6" r="1.5"/>
+    <circle cx="15" cy="6" r="1.5"/>
+    <circle cx="9" cy="12" r="1.5"/>
+    <circle cx="15" cy="12" r="1.5"/>
+    <circle cx="9" cy="18" r="1.5"/>
+    <circle cx="15" cy="18" r="1.5"/>
+  </svg>
+);
+
+const FORMAT_LABELS: Record<ScannerNumberFormat, string> = {
+  default: 'Default',
+  compact: 'Compact',
+  full: 'Full'
+};
+
+// "auto" keeps the column's default decimal places
+const DECIMAL_OPTIONS = ['auto', '0', '1', '2', '3', '4'];
+
+interface ScannerColumnManagerProps {
+  layout: ScannerColumnLayout;
+  onLayoutChange: (layout: ScannerColumnLayout) => void;
+}
+
+/**
+ * Popover for showing, ordering and formatting the scanner table's columns
+ */
+export function ScannerColumnManager({ layout, onLayoutChange }: ScannerColumnManagerProps) {
+  const [dragging, setDragging] = useState<ScannerColumnId | null>(null);
+
+  const updateColumn = (id: ScannerColumnId, changes: Partial<ScannerColumnSetting>) => {
+    onLayoutChange({
+      ...layout,
+      columns: layout.columns.map(column => (column.id === id ? { ...column, ...changes } : column))
+    });
+  };
+
+  const resetLayout = () => {
+    onLayoutChange({ ...DEFAULT_COLUMN_LAYOUT, columns: DEFAULT_COLUMN_LAYOUT.columns.map(column => ({ ...column })) });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-7 px-2 text-xs gap-1" title="Columns">
+          <Columns />
+          Columns
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96 p-3 space-y-3 max-h-[70vh] overflow-y-auto" align="end">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-semibold">Columns</h4>
+          <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={resetLayout}>
+            Reset
+          </Button>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="pin-symbol" className="text-xs">Pin ticker column</Label>
+          <Switch
+            id="pin-symbol"
+            checked={layout.pinSymbol}
+            onCheckedChange={(pinSymbol) => onLayoutChange({ ...layout, pinSymbol })}
+          />
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          Drag to reorder. Shift-click a header to sort by it after the current columns.
+        </p>
+
+        <div className="space-y-1">
+          {layout.columns.map(setting => {
+            const column = getColumn(setting.id);
+            if (!column) return null;
+
+            const formats = getColumnFormats(column.kind);
+            const locked = layout.pinSymbol && setting.id === 'symbol';
+
+            return (
+              <div
+                key={setting.id}
+                draggable={!locked}
+                onDragStart={() => setDragging(setting.id)}
+                onDragEnd={() => setDragging(null)}
+                onDragOver={(e) => dragging && e.preventDefault()}
+                onDrop={() => {
+                  if (dragging) onLayoutChange(moveColumn(layout, dragging, setting.id));
+                  setDragging(null);
+                }}
+                className={`flex items-center gap-2 p-1 rounded border bg-card/50 ${dragging === setting.id ? 'opacity-50' : ''}`}
+              >
+                <span className={locked ? 'text-muted-foreground/30' : 'text-muted-foreground cursor-grab'}>
+                  <Grip />
+                </span>
+                <Checkbox
+                  checked={setting.visible || locked}
+                  disabled={locked}
+                  onCheckedChange={(checked) => updateColumn(setting.id, { visible: checked === true })}
+                />
+                <span className="flex-1 text-xs truncate">{column.label}</span>
+
+                {formats.length > 1 && (
+                  <Select
+                    value={setting.format}
+                    onValueChange={(format: ScannerNumberFormat) => updateColumn(setting.id, { format })}
+                  >
+                    <SelectTrigger className="h-6 w-24 text-xs px-2">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {formats.map(format => (
+                        <SelectItem key={format} value={format}>{FORMAT_LABELS[format]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+
+                {formats.length > 0 && (
+                  <Select
+                    value={setting.decimals === undefined ? 'auto' : String(setting.decimals)}
+                    onValueChange={(value) => updateColumn(setting.id, { decimals: value === 'auto' ? undefined : Number(value) })}
+                  >
+                    <SelectTrigger className="h-6 w-16 text-xs px-2" title="Decimal places">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DECIMAL_OPTIONS.map(option => (
+                        <SelectItem key={option} value={option}>{option === 'auto' ? 'Auto' : `${option} dp`}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
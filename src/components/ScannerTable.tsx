@@ -1,7 +1,20 @@
-import { useState, useEffect } from 'react';
-import { Stock } from '@/types';
-import { formatPrice, formatPercent, formatVolume, formatMarketCap } from '@/lib/market';
-import { Button } from '@/components/ui/button';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { ScannerColumnId, ScannerColumnLayout, Stock } from '@/types';
+import {
+  DEFAULT_COLUMN_LAYOUT,
+  MAX_COLUMN_WIDTH,
+  MIN_COLUMN_WIDTH,
+  compareStocks,
+  formatColumnValue,
+  getColumn,
+  getColumnLayoutKey,
+  getVisibleColumns,
+  moveColumn,
+  normalizeLayout,
+  toggleSort
+} from '@/lib/scanner-columns';
+import { ScannerColumnManager } from '@/components/ScannerColumnManager';
+import { useKV } from '@github/spark/hooks';
 import { cn } from '@/lib/utils';
 
 // Custom SVG Icons
@@ -28,69 +41,70 @@ const News = () => (
 interface ScannerTableProps {
   stocks: Stock[];
   onStockSelect: (symbol: string) => void;
+  /** Scanner tab whose column layout and sort this table shows */
+  layoutKey?: string;
 }
 
-type SortField = 'symbol' | 'changePercent' | 'price' | 'volume' | 'float' | 'marketCap';
-type SortDirection = 'asc' | 'desc';
+// Columns whose cells flash on a price change
+const FLASHING_COLUMNS: ScannerColumnId[] = ['changePercent', 'price'];
 
-export function ScannerTable({ stocks, onStockSelect }: ScannerTableProps) {
-  const [sortField, setSortField] = useState<SortField>('changePercent');
-  const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
+export function ScannerTable({ stocks, onStockSelect, layoutKey = 'scanner' }: ScannerTableProps) {
+  const [savedLayout, setSavedLayout] = useKV<ScannerColumnLayout>(getColumnLayoutKey(layoutKey), DEFAULT_COLUMN_LAYOUT);
   const [flashingCells, setFlashingCells] = useState<Record<string, 'up' | 'down'>>({});
+  const [dragging, setDragging] = useState<ScannerColumnId | null>(null);
+  // Width of the column being resized, kept locally until the pointer is released
+  const [resizing, setResizing] = useState<{ id: ScannerColumnId; width: number } | null>(null);
+  // Set while a resize handle is held, so the header neither starts a column drag nor sorts
+  const resizeActive = useRef(false);
 
-  const handleSort = (field: SortField) => {
-    if (sortField === field) {
-      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
-    } else {
-      setSortField(field);
-      setSortDirection('desc');
-    }
+  const layout = useMemo(() => normalizeLayout(savedLayout), [savedLayout]);
+  const columns = getVisibleColumns(layout);
+
+  const handleSort = (field: ScannerColumnId, additive: boolean) => {
+    setSavedLayout({ ...layout, sort: toggleSort(layout.sort, field, additive) });
   };
 
-  const sortedStocks = [...stocks].sort((a, b) => {
-    let aVal: number | string;
-    let bVal: number | string;
-
-    switch (sortField) {
-      case 'symbol':
-        aVal = a.symbol;
-        bVal = b.symbol;
-        break;
-      case 'changePercent':
-        aVal = a.changePercent;
-        bVal = b.changePercent;
-        break;
-      case 'price':
-        aVal = a.price;
-        bVal = b.price;
-        break;
-      case 'volume':
-        aVal = a.volume;
-        bVal = b.volume;
-        break;
-      case 'float':
-        aVal = a.float;
-        bVal = b.float;
-        break;
-      case 'marketCap':
-        aVal = a.marketCap;
-        bVal = b.marketCap;
-        break;
-      default:
-        aVal = a.symbol;
-        bVal = b.symbol;
-    }
+  const sortedStocks = [...stocks].sort((a, b) => compareStocks(a, b, layout.sort));
 
-    if (typeof aVal === 'string' && typeof bVal === 'string') {
-      return sortDirection === 'asc' 
-        ? aVal.localeCompare(bVal)
-        : bVal.localeCompare(aVal);
-    }
+  const widthOf = (id: ScannerColumnId) => {
+    if (resizing?.id === id) return resizing.width;
+    return layout.columns.find(column => column.id === id)?.width ?? getColumn(id)?.width ?? 100;
+  };
+  const tableWidth = columns.reduce((sum, column) => sum + widthOf(column.id), 0);
+
+  const startResize = (id: ScannerColumnId, event: React.PointerEvent) => {
+    event.preventDefault();
+    event.stopPropagation();
+
+    resizeActive.current = true;
+    const startX = event.clientX;
+    const startWidth = widthOf(id);
+    const clamp = (width: number) => Math.min(MAX_COLUMN_WIDTH, Math.max(MIN_COLUMN_WIDTH, Math.round(width)));
+    let width = startWidth;
+
+    const handleMove = (move: PointerEvent) => {
+      width = clamp(startWidth + move.clientX - startX);
+      setResizing({ id, width });
+    };
+    const handleUp = () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+      // Cleared after the click that ends the resize, so it doesn't sort the column
+      setTimeout(() => {
+        resizeActive.current = false;
+      }, 0);
+      setResizing(null);
+      if (width !== startWidth) {
+        setSavedLayout({
+          ...layout,
+          columns: layout.columns.map(column => (column.id === id ? { ...column, width } : column))
+        });
+      }
+    };
 
-    return sortDirection === 'asc' 
-      ? (aVal as number) - (bVal as number)
-      : (bVal as number) - (aVal as number);
-  });
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+  };
 
   // Track price changes for flash effect
   useEffect(() => {
@@ -114,93 +128,141 @@ export function ScannerTable({ stocks, onStockSelect }: ScannerTableProps) {
     return () => clearTimeout(timer);
   }, [stocks]);
 
-  const SortableHeader = ({ field, children }: { field: SortField; children: React.ReactNode }) => (
-    <th 
-      className="px-3 py-2 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider cursor-pointer hover:text-foreground transition-colors"
-      onClick={() => handleSort(field)}
-    >
-      <div className="flex items-center gap-1">
-        {children}
-        {sortField === field && (
-          sortDirection === 'asc' ? <TrendingUp size={12} /> : <TrendingDown size={12} />
-        )}
-      </div>
-    </th>
-  );
+  const isPinned = (id: ScannerColumnId) => layout.pinSymbol && id === 'symbol';
+
+  const renderCell = (stock: Stock, id: ScannerColumnId) => {
+    const column = getColumn(id);
+    const setting = layout.columns.find(entry => entry.id === id);
+    if (!column || !setting) return null;
+
+    if (id === 'symbol') {
+      return (
+        <div>
+          <div className="font-mono font-semibold text-foreground">
+            {stock.symbol}
+          </div>
+          <div className="text-xs text-muted-foreground truncate">
+            {stock.name}
+          </div>
+        </div>
+      );
+    }
+
+    if (id === 'news') {
+      return stock.news > 0 ? (
+        <div className="flex items-center gap-1">
+          <News size={16} className="text-accent" />
+          <span className="text-xs font-medium text-accent">
+            {stock.news}
+          </span>
+        </div>
+      ) : (
+        <span className="text-xs text-muted-foreground">-</span>
+      );
+    }
+
+    return formatColumnValue(column, setting, column.value(stock));
+  };
+
+  const cellClass = (stock: Stock, id: ScannerColumnId) => {
+    const column = getColumn(id);
+    const value = column?.value(stock);
+
+    return cn(
+      "px-3 py-3 truncate",
+      id !== 'symbol' && id !== 'news' && "font-mono",
+      id === 'changePercent' && "font-semibold",
+      column?.signed && typeof value === 'number'
+        ? (value >= 0 ? "text-success" : "text-destructive")
+        : id !== 'symbol' && id !== 'price' && "text-muted-foreground",
+      FLASHING_COLUMNS.includes(id) && "transition-colors duration-200",
+      FLASHING_COLUMNS.includes(id) && flashingCells[stock.symbol] === 'up' && "price-flash-up",
+      FLASHING_COLUMNS.includes(id) && flashingCells[stock.symbol] === 'down' && "price-flash-down",
+      isPinned(id) && "sticky left-0 z-[1] bg-background group-hover:bg-muted"
+    );
+  };
+
+  const sortIndex = (id: ScannerColumnId) => layout.sort.findIndex(key => key.field === id);
 
   return (
     <div className="overflow-x-auto overflow-y-visible scrollbar-hide touch-scroll">
-      <table className="w-full min-w-[800px]">
-        <thead className="border-b border-border sticky top-0 bg-background">
+      <div className="flex items-center justify-between gap-2 px-3 py-1 border-b border-border text-xs text-muted-foreground">
+        <span className="truncate">
+          Sorted by {layout.sort.map(key => `${getColumn(key.field)?.label ?? key.field} ${key.direction === 'asc' ? '↑' : '↓'}`).join(', then ')}
+        </span>
+        <ScannerColumnManager layout={layout} onLayoutChange={setSavedLayout} />
+      </div>
+      <table className="table-fixed" style={{ width: Math.max(tableWidth, 0), minWidth: '100%' }}>
+        <thead className="border-b border-border sticky top-0 bg-background z-[2]">
           <tr>
-            <SortableHeader field="symbol">Ticker</SortableHeader>
-            <SortableHeader field="changePercent">Chg%</SortableHeader>
-            <SortableHeader field="price">Last Price</SortableHeader>
-            <SortableHeader field="volume">Volume</SortableHeader>
-            <SortableHeader field="float">Float</SortableHeader>
-            <SortableHeader field="marketCap">Market Cap</SortableHeader>
-            <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
-              News
-            </th>
+            {columns.map(setting => {
+              const column = getColumn(setting.id);
+              if (!column) return null;
+
+              const index = sortIndex(setting.id);
+              const key = layout.sort[index];
+
+              return (
+                <th
+                  key={setting.id}
+                  style={{ width: widthOf(setting.id) }}
+                  draggable={!isPinned(setting.id)}
+                  onDragStart={(e) => {
+                    if (resizeActive.current) {
+                      e.preventDefault();
+                      return;
+                    }
+                    setDragging(setting.id);
+                  }}
+                  onDragEnd={() => setDragging(null)}
+                  onDragOver={(e) => dragging && !isPinned(setting.id) && e.preventDefault()}
+                  onDrop={() => {
+                    if (dragging) setSavedLayout(moveColumn(layout, dragging, setting.id));
+                    setDragging(null);
+                  }}
+                  onClick={(e) => !resizeActive.current && handleSort(setting.id, e.shiftKey)}
+                  title={`${column.label} (shift-click to add to the sort)`}
+                  className={cn(
+                    "relative px-3 py-2 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider cursor-pointer hover:text-foreground transition-colors select-none",
+                    dragging === setting.id && "opacity-50",
+                    isPinned(setting.id) && "sticky left-0 z-[3] bg-background"
+                  )}
+                >
+                  <div className="flex items-center gap-1 truncate">
+                    {column.header ?? column.label}
+                    {key && (
+                      key.direction === 'asc' ? <TrendingUp size={12} /> : <TrendingDown size={12} />
+                    )}
+                    {key && layout.sort.length > 1 && (
+                      <span className="text-[10px]">{index + 1}</span>
+                    )}
+                  </div>
+                  <span
+                    className="absolute right-0 top-0 h-full w-1.5 cursor-col-resize hover:bg-border"
+                    onPointerDown={(e) => startResize(setting.id, e)}
+                    onClick={(e) => e.stopPropagation()}
+                  />
+                </th>
+              );
+            })}
           </tr>
         </thead>
         <tbody className="divide-y divide-border">
           {sortedStocks.map((stock) => (
             <tr 
               key={stock.symbol}
-              className="hover:bg-muted/50 transition-colors cursor-pointer"
+              className="group hover:bg-muted/50 transition-colors cursor-pointer"
               onClick={() => onStockSelect(stock.symbol)}
             >
-              <td className="px-3 py-3">
-                <div>
-                  <div className="font-mono font-semibold text-foreground">
-                    {stock.symbol}
-                  </div>
-                  <div className="text-xs text-muted-foreground truncate max-w-[120px]">
-                    {stock.name}
-                  </div>
-                </div>
-              </td>
-              <td className={cn(
-                "px-3 py-3 font-mono font-semibold transition-colors duration-200",
-                stock.changePercent >= 0 ? "text-success" : "text-destructive",
-                flashingCells[stock.symbol] === 'up' && "price-flash-up",
-                flashingCells[stock.symbol] === 'down' && "price-flash-down"
-              )}>
-                {formatPercent(stock.changePercent)}
-              </td>
-              <td className={cn(
-                "px-3 py-3 font-mono transition-colors duration-200",
-                flashingCells[stock.symbol] === 'up' && "price-flash-up",
-                flashingCells[stock.symbol] === 'down' && "price-flash-down"
-              )}>
-                {formatPrice(stock.price)}
-              </td>
-              <td className="px-3 py-3 font-mono text-muted-foreground">
-                {formatVolume(stock.volume)}
-              </td>
-              <td className="px-3 py-3 font-mono text-muted-foreground">
-                {formatVolume(stock.float)}
-              </td>
-              <td className="px-3 py-3 font-mono text-muted-foreground">
-                {formatMarketCap(stock.marketCap)}
-              </td>
-              <td className="px-3 py-3">
-                {stock.news > 0 ? (
-                  <div className="flex items-center gap-1">
-                    <News size={16} className="text-accent" />
-                    <span className="text-xs font-medium text-accent">
-                      {stock.news}
-                    </span>
-                  </div>
-                ) : (
-                  <span className="text-xs text-muted-foreground">-</span>
-                )}
-              </td>
+              {columns.map(setting => (
+                <td key={setting.id} className={cellClass(stock, setting.id)}>
+                  {renderCell(stock, setting.id)}
+                </td>
+              ))}
             </tr>
           ))}
         </tbody>
       </table>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,202 @@
+import { useEffect, useState } from 'react';
+import { ReplayState, Stock } from '@/types';
+import { REPLAY_SPEEDS, replayService } from '@/lib/replay';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+
+// Custom SVG Icons
+const Rewind = () => (
+  <svg width="16" height="16" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+    <path d="M11 19L2 12L11 5V19Z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+    <path d="M22 19L13 12L22 5V19Z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+  </svg>
+);
+
+const Play = () => (
+  <svg width="14" height="14" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+    <path d="M6 4L20 12L6 20V4Z" fill="currentColor"/>
+  </svg>
+);
+
+const Pause = () => (
+  <svg width="14" height="14" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+    <path d="M7 4H10V20H7V4ZM14 4H17V20H14V4Z" fill="currentColor"/>
+  </svg>
+);
+
+const StepBack = () => (
+  <svg width="14" height="14" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+    <path d="M19 20L9 12L19 4V20ZM5 19V5" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+  </svg>
+);
+
+const StepForward = () => (
+  <svg width="14" height="14" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+    <path d="M5 4L15 12L5 20V4ZM19 5V19" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+  </svg>
+);
+
+const formatReplayTime = (time: number) =>
+  new Date(time).toLocaleTimeString('en-US', { timeZone: 'America/New_York', hour12: false });
+
+function useReplayState(): ReplayState {
+  const [state, setState] = useState<ReplayState>(() => replayService.getState());
+  useEffect(() => replayService.onUpdate(setState), []);
+  return state;
+}
+
+interface SessionReplayProps {
+  /** Scanner rows whose stored bars are replayed */
+  stocks: Stock[];
+}
+
+/**
+ * Header button for picking a past session to replay
+ */
+export function SessionReplay({ stocks }: SessionReplayProps) {
+  const state = useReplayState();
+  const [session, setSession] = useState<string>('');
+  const active = state.status === 'playing' || state.status === 'paused';
+  const selected = state.sessions.includes(session) ? session : state.sessions[0] ?? '';
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={cn('h-8 w-8 p-0', active && 'text-primary')}
+          title="Session replay"
+        >
+          <Rewind />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 p-3 space-y-3" align="end">
+        <div>
+          <h4 className="text-sm font-semibold">Session Replay</h4>
+          <p className="text-xs text-muted-foreground">
+            Play a past session's stored 1-minute bars through the scanner, charts and alerts.
+            Replayed alerts are not saved or sent.
+          </p>
+        </div>
+
+        {active ? (
+          <div className="flex items-center justify-between">
+            <span className="text-xs">Replaying {state.session}</span>
+            <Button variant="outline" size="sm" className="h-7 px-2 text-xs" onClick={() => replayService.stop()}>
+              Exit Replay
+            </Button>
+          </div>
+        ) : (
+          <>
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full h-8 text-xs"
+              disabled={state.status === 'loading' || stocks.length === 0}
+              onClick={() => replayService.prepare(stocks)}
+            >
+              {state.status === 'loading' && state.progress
+                ? `Loading bars ${state.progress.done}/${state.progress.total}...`
+                : `Load ${stocks.length} scanner symbols`}
+            </Button>
+
+            {state.sessions.length > 0 && (
+              <div className="flex items-center gap-2">
+                <Select value={selected} onValueChange={setSession}>
+                  <SelectTrigger className="h-8 flex-1 text-xs">
+                    <SelectValue placeholder="Session" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {state.sessions.map(date => (
+                      <SelectItem key={date} value={date}>{date}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button size="sm" className="h-8 px-3 text-xs" disabled={!selected} onClick={() => replayService.start(selected)}>
+                  Start
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+
+        {state.error && <p className="text-xs text-destructive">{state.error}</p>}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+/**
+ * Transport controls shown under the header while a session is replayed
+ */
+export function ReplayBar() {
+  const state = useReplayState();
+  // Slider position while dragging; seeking on every move would reload the charts each time
+  const [dragTime, setDragTime] = useState<number | null>(null);
+
+  if (state.status !== 'playing' && state.status !== 'paused') return null;
+
+  const playing = state.status === 'playing';
+  const time = dragTime ?? state.time;
+
+  return (
+    <div className="flex items-center gap-3 px-4 sm:px-6 py-2 border-b border-border bg-primary/10 flex-shrink-0">
+      <Badge variant="outline" className="text-xs font-mono whitespace-nowrap">
+        Replay {state.session}
+      </Badge>
+
+      <div className="flex items-center gap-1">
+        <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => replayService.step(-1)} title="Back one minute">
+          <StepBack />
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 w-7 p-0"
+          onClick={() => (playing ? replayService.pause() : replayService.play())}
+          title={playing ? 'Pause' : 'Play'}
+        >
+          {playing ? <Pause /> : <Play />}
+        </Button>
+        <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => replayService.step(1)} title="Forward one minute">
+          <StepForward />
+        </Button>
+      </div>
+
+      <Select value={String(state.speed)} onValueChange={value => replayService.setSpeed(Number(value))}>
+        <SelectTrigger className="h-7 w-20 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {REPLAY_SPEEDS.map(speed => (
+            <SelectItem key={speed} value={String(speed)}>{speed}x</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Slider
+        className="flex-1 min-w-24"
+        min={state.start}
+        max={state.end}
+        step={60_000}
+        value={[time]}
+        onValueChange={([value]) => setDragTime(value)}
+        onValueCommit={([value]) => {
+          setDragTime(null);
+          replayService.seek(value);
+        }}
+      />
+
+      <span className="text-xs font-mono whitespace-nowrap">{formatReplayTime(time)} ET</span>
+
+      <Button variant="outline" size="sm" className="h-7 px-2 text-xs" onClick={() => replayService.stop()}>
+        Exit
+      </Button>
+    </div>
+  );
+}
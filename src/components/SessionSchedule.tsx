@@ -0,0 +1,199 @@
+import { useEffect, useState } from 'react';
+import { ScannerFilters, SessionAction, SessionActionType, SessionEvent } from '@/types';
+import {
+  SESSION_ACTION_LABELS,
+  SESSION_EVENT_LABELS,
+  SessionSchedulerState,
+  createSessionAction,
+  sessionScheduler
+} from '@/lib/session-scheduler';
+import { SCANNER_PRESETS } from '@/lib/scanner';
+import { useKV } from '@github/spark/hooks';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { toast } from 'sonner';
+
+// Custom SVG Icons
+const Clock = () => (
+  <svg width="16" height="16" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+    <circle cx="12" cy="12" r="9" stroke="currentColor" strokeWidth="2"/>
+    <path d="M12 7V12L15 14" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+  </svg>
+);
+
+const Close = () => (
+  <svg width="12" height="12" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+    <path d="M18 6L6 18M6 6L18 18" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+  </svg>
+);
+
+const EVENTS = Object.keys(SESSION_EVENT_LABELS) as SessionEvent[];
+const ACTION_TYPES = Object.keys(SESSION_ACTION_LABELS) as SessionActionType[];
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleString('en-US', { timeZone: 'America/New_York', weekday: 'short', hour: 'numeric', minute: '2-digit' });
+
+interface ActionRowProps {
+  action: SessionAction;
+  presets: Record<string, ScannerFilters>;
+  onChange: (action: SessionAction) => void;
+  onRemove: () => void;
+}
+
+function ActionRow({ action, presets, onChange, onRemove }: ActionRowProps) {
+  return (
+    <div className="space-y-2 p-2 rounded border bg-card/50">
+      <div className="flex items-center gap-2">
+        <Select value={action.event} onValueChange={(event: SessionEvent) => onChange({ ...action, event })}>
+          <SelectTrigger className="h-7 flex-1 text-xs px-2">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {EVENTS.map(event => (
+              <SelectItem key={event} value={event}>{SESSION_EVENT_LABELS[event]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Switch checked={action.enabled} onCheckedChange={(enabled) => onChange({ ...action, enabled })} title="Enabled" />
+        <Button variant="outline" size="sm" className="h-7 w-7 p-0" onClick={onRemove} title="Remove action">
+          <Close />
+        </Button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Select value={action.type} onValueChange={(type: SessionActionType) => onChange({ ...action, type })}>
+          <SelectTrigger className="h-7 flex-1 text-xs px-2">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ACTION_TYPES.map(type => (
+              <SelectItem key={type} value={type}>{SESSION_ACTION_LABELS[type]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-xs"
+          disabled={action.type === 'apply_preset' && !action.filters}
+          onClick={() => sessionScheduler.runAction(action.id).catch(() => toast.error(`${SESSION_ACTION_LABELS[action.type]} failed`))}
+        >
+          Run now
+        </Button>
+      </div>
+
+      {action.type === 'apply_preset' && (
+        <Select
+          value={action.presetName && presets[action.presetName] ? action.presetName : ''}
+          onValueChange={(presetName) => onChange({ ...action, presetName, filters: presets[presetName] })}
+        >
+          <SelectTrigger className="h-7 text-xs px-2">
+            <SelectValue placeholder="Choose a preset" />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.keys(presets).map(name => (
+              <SelectItem key={name} value={name}>{name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Header button for actions that run at session boundaries, and the scanner snapshots they took
+ */
+export function SessionSchedule() {
+  const [state, setState] = useState<SessionSchedulerState>(() => sessionScheduler.getState());
+  const [savedPresets] = useKV<Record<string, ScannerFilters>>('scanner-presets', {});
+  const [next, setNext] = useState(() => sessionScheduler.getNextEvent());
+  const presets = { ...SCANNER_PRESETS, ...savedPresets };
+
+  useEffect(() => sessionScheduler.onUpdate(setState), []);
+  useEffect(() => sessionScheduler.onEvent(() => setNext(sessionScheduler.getNextEvent())), []);
+
+  const updateAction = (id: string, action: SessionAction) => {
+    sessionScheduler.setActions(state.actions.map(entry => (entry.id === id ? action : entry)));
+  };
+
+  const downloadSnapshot = (id: string, takenAt: number) => {
+    const text = sessionScheduler.exportSnapshot(id, 'csv');
+    if (!text) return;
+
+    const url = URL.createObjectURL(new Blob([text], { type: 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `sfti-snapshot-${new Date(takenAt).toISOString().slice(0, 16).replace(':', '')}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Popover onOpenChange={(open) => open && setNext(sessionScheduler.getNextEvent())}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="Session schedule">
+          <Clock />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-3 space-y-3 max-h-[80vh] overflow-y-auto" align="end">
+        <div>
+          <h4 className="text-sm font-semibold">Session Schedule</h4>
+          <p className="text-xs text-muted-foreground">
+            {next
+              ? `Next: ${SESSION_EVENT_LABELS[next.event]}, ${formatTime(next.at)} ET`
+              : 'No upcoming sessions found'}
+          </p>
+        </div>
+
+        {state.actions.length === 0 && (
+          <p className="text-xs text-muted-foreground">
+            No actions yet. Switch presets, snapshot the scanner, run an AI scan or clear triggered alerts when a session starts or ends.
+          </p>
+        )}
+
+        {state.actions.map(action => (
+          <ActionRow
+            key={action.id}
+            action={action}
+            presets={presets}
+            onChange={(updated) => updateAction(action.id, updated)}
+            onRemove={() => sessionScheduler.setActions(state.actions.filter(entry => entry.id !== action.id))}
+          />
+        ))}
+
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full h-8 text-xs"
+          onClick={() => sessionScheduler.setActions([...state.actions, createSessionAction('regular_open', 'snapshot_scanner')])}
+        >
+          Add Action
+        </Button>
+
+        {state.snapshots.length > 0 && (
+          <div className="space-y-1">
+            <h5 className="text-xs font-semibold">Snapshots</h5>
+            {state.snapshots.map(snapshot => (
+              <div key={snapshot.id} className="flex items-center justify-between gap-2 text-xs">
+                <span className="truncate">
+                  {formatTime(snapshot.takenAt)} · {SESSION_EVENT_LABELS[snapshot.event]} · {snapshot.rows.length} rows
+                </span>
+                <div className="flex items-center gap-1">
+                  <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => downloadSnapshot(snapshot.id, snapshot.takenAt)}>
+                    CSV
+                  </Button>
+                  <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => sessionScheduler.deleteSnapshot(snapshot.id)} title="Delete snapshot">
+                    <Close />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,4 +1,5 @@
 import { IBKRChart } from './IBKRChart';
+import { OrderTicket } from './OrderTicket';
 
 interface StockChartProps {
   symbol: string;
@@ -9,11 +10,18 @@ interface StockChartProps {
 
 export function StockChart({ symbol, currentPrice, change, changePercent }: StockChartProps) {
   return (
-    <IBKRChart 
-      symbol={symbol}
-      currentPrice={currentPrice}
-      change={change}
-      changePercent={changePercent}
-    />
+    <div className="flex flex-col lg:flex-row gap-4">
+      <div className="flex-1 min-w-0">
+        <IBKRChart 
+          symbol={symbol}
+          currentPrice={currentPrice}
+          change={change}
+          changePercent={changePercent}
+        />
+      </div>
+      <div className="lg:w-80 shrink-0">
+        <OrderTicket symbol={symbol} lastPrice={currentPrice} />
+      </div>
+    </div>
   );
-}
\ No newline at end of file
+}
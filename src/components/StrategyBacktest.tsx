@@ -0,0 +1,330 @@
+import { useEffect, useRef, useState } from 'react';
+import { createChart, ColorType, LineSeries } from 'lightweight-charts';
+import type { IChartApi, ISeriesApi, Time } from 'lightweight-charts';
+import { ScannerFilters, Stock, StrategyBacktestResult, StrategyRules } from '@/types';
+import { SCANNER_PRESETS } from '@/lib/scanner';
+import { DEFAULT_STRATEGY_RULES, strategyBacktestService } from '@/lib/strategy-backtest';
+import { formatPrice, formatVolume } from '@/lib/market';
+import { useKV } from '@github/spark/hooks';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+// Custom SVG Icons
+const ChartLine = () => (
+  <svg width="14" height="14" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+    <path d="M3 3V21H21" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+    <path d="M7 14L11 10L15 14L20 9" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+  </svg>
+);
+
+const CURRENT_FILTERS = 'Current filters';
+
+const EXIT_LABELS: Record<StrategyBacktestResult['trades'][number]['exitReason'], string> = {
+  target: 'Target',
+  stop: 'Stop',
+  time: 'Time stop',
+  close: 'Close'
+};
+
+const formatReturn = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+const returnClass = (value: number) =>
+  value === 0 ? 'text-muted-foreground' : value > 0 ? 'text-success' : 'text-destructive';
+
+const formatTime = (time: number) =>
+  new Date(time * 1000).toLocaleTimeString('en-US', { timeZone: 'America/New_York', hour: '2-digit', minute: '2-digit' });
+
+const openChart = (symbol: string) => {
+  window.dispatchEvent(new CustomEvent('openChart', { detail: { symbol } }));
+};
+
+/**
+ * Cumulative return after each trade
+ */
+function EquityCurve({ equity }: { equity: StrategyBacktestResult['equity'] }) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const chartRef = useRef<IChartApi | null>(null);
+  const seriesRef = useRef<ISeriesApi<'Line'> | null>(null);
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const chart = createChart(containerRef.current, {
+      autoSize: true,
+      layout: {
+        background: { type: ColorType.Solid, color: 'transparent' },
+        textColor: '#9CA3AF'
+      },
+      grid: {
+        vertLines: { color: 'rgba(75, 85, 99, 0.2)' },
+        horzLines: { color: 'rgba(75, 85, 99, 0.2)' }
+      },
+      timeScale: { timeVisible: true, borderColor: '#374151' },
+      rightPriceScale: { borderColor: '#374151' }
+    });
+    seriesRef.current = chart.addSeries(LineSeries, {
+      color: '#3B82F6',
+      lineWidth: 2,
+      priceFormat: { type: 'custom', formatter: (value: number) => formatReturn(value) }
+    });
+    chartRef.current = chart;
+
+    return () => {
+      chart.remove();
+      chartRef.current = null;
+      seriesRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    // Trades closing on the same bar share a point; the last one carries the total
+    const points = new Map<number, number>();
+    equity.forEach(point => points.set(point.time, point.value));
+    seriesRef.current?.setData(Array.from(points, ([time, value]) => ({ time: time as Time, value })));
+    chartRef.current?.timeScale().fitContent();
+  }, [equity]);
+
+  return <div ref={containerRef} className="h-48 w-full" />;
+}
+
+interface StrategyBacktestProps {
+  /** Scanner rows; their symbols are the universe replayed */
+  stocks: Stock[];
+  filters: ScannerFilters;
+}
+
+/**
+ * Backtest tab: replay stored bars through a scanner preset with entry/exit rules
+ */
+export function StrategyBacktest({ stocks, filters }: StrategyBacktestProps) {
+  const [savedPresets] = useKV<Record<string, ScannerFilters>>('scanner-presets', {});
+  const [savedRules, setRules] = useKV<StrategyRules>('backtest-rules', DEFAULT_STRATEGY_RULES);
+  const rules = savedRules ?? DEFAULT_STRATEGY_RULES;
+  const [presetName, setPresetName] = useState(() => strategyBacktestService.getLastResult()?.presetName ?? Object.keys(SCANNER_PRESETS)[0]);
+  const [result, setResult] = useState<StrategyBacktestResult | null>(() => strategyBacktestService.getLastResult());
+  const [progress, setProgress] = useState<number | null>(null);
+
+  const presets: Record<string, ScannerFilters> = { ...SCANNER_PRESETS, ...savedPresets, [CURRENT_FILTERS]: filters };
+
+  const updateRule = <K extends keyof StrategyRules>(key: K, value: StrategyRules[K]) => {
+    setRules(current => ({ ...(current ?? DEFAULT_STRATEGY_RULES), [key]: value }));
+  };
+
+  const runBacktest = async () => {
+    const preset = presets[presetName];
+    if (!preset || stocks.length === 0) return;
+
+    setProgress(0);
+    try {
+      const next = await strategyBacktestService.run(presetName, preset, rules, stocks, (done, total) => {
+        setProgress(Math.round((done / total) * 100));
+      });
+      setResult(next);
+      if (next.trades.length === 0) {
+        toast.info(`${presetName} matched nothing in ${next.sessions} stored sessions`);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Backtest failed');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="h-full flex flex-col gap-3 p-3 overflow-y-auto">
+      <Card>
+        <CardContent className="p-3 space-y-3">
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs">Preset</Label>
+              <Select value={presetName} onValueChange={setPresetName}>
+                <SelectTrigger className="h-8 w-48 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.keys(presets).map(name => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Entries from</Label>
+              <Input
+                type="time"
+                value={rules.entryFrom}
+                onChange={(e) => updateRule('entryFrom', e.target.value)}
+                className="h-8 w-28 text-xs"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Until</Label>
+              <Input
+                type="time"
+                value={rules.entryUntil}
+                onChange={(e) => updateRule('entryUntil', e.target.value)}
+                className="h-8 w-28 text-xs"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Stop %</Label>
+              <Input
+                type="number"
+                min={0}
+                step={0.5}
+                value={rules.stopPercent}
+                onChange={(e) => updateRule('stopPercent', Math.max(0, Number(e.target.value)))}
+                className="h-8 w-20 text-xs"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Target %</Label>
+              <Input
+                type="number"
+                min={0}
+                step={0.5}
+                value={rules.targetPercent}
+                onChange={(e) => updateRule('targetPercent', Math.max(0, Number(e.target.value)))}
+                className="h-8 w-20 text-xs"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Time stop (min)</Label>
+              <Input
+                type="number"
+                min={0}
+                step={5}
+                value={rules.timeStopMinutes}
+                onChange={(e) => updateRule('timeStopMinutes', Math.max(0, Math.round(Number(e.target.value))))}
+                className="h-8 w-24 text-xs"
+              />
+            </div>
+            <Button
+              size="sm"
+              onClick={runBacktest}
+              disabled={progress !== null || stocks.length === 0}
+              className="h-8 text-xs"
+            >
+              {progress !== null ? `Replaying ${progress}%` : 'Run Backtest'}
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Replays the stored daily and 5-minute bars of the {stocks.length} symbols on the scanner. One entry per symbol per session, at the close
+            of the first bar that matches; 0 disables a stop, target or time stop. Float and news come from the recorder's rows for each session;
+            sessions it didn't record skip the float and news filters.
+          </p>
+          <p className="text-xs text-warning">
+            The universe is today's scanner rows: symbols that aren't moving today are left out, so win rate and expectancy lean optimistic.
+          </p>
+        </CardContent>
+      </Card>
+
+      {result && (
+        <>
+          <div className="grid grid-cols-2 lg:grid-cols-6 gap-2">
+            {[
+              { label: 'Trades', value: `${result.trades.length}`, className: '' },
+              { label: 'Win Rate', value: `${result.winRate.toFixed(1)}%`, className: '' },
+              { label: 'Expectancy', value: formatReturn(result.expectancy), className: returnClass(result.expectancy) },
+              { label: 'Avg Win / Loss', value: `${formatReturn(result.avgWin)} / ${formatReturn(result.avgLoss)}`, className: '' },
+              { label: 'Total Return', value: formatReturn(result.totalReturn), className: returnClass(result.totalReturn) },
+              { label: 'Max Drawdown', value: `-${result.maxDrawdown.toFixed(2)}%`, className: result.maxDrawdown > 0 ? 'text-destructive' : '' }
+            ].map(item => (
+              <Card key={item.label}>
+                <CardContent className="p-3">
+                  <div className="text-xs text-muted-foreground">{item.label}</div>
+                  <div className={cn('text-lg font-mono font-semibold', item.className)}>{item.value}</div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card>
+            <CardContent className="p-3">
+              <div className="flex items-center justify-between mb-2 text-xs text-muted-foreground">
+                <span className="font-medium text-foreground">{result.presetName} · equity (sum of trade returns)</span>
+                <span>
+                  {result.sessions} sessions · {result.symbols} symbols traded
+                  {result.unrecordedSessions > 0 && ` · float/news filters skipped in ${result.unrecordedSessions} unrecorded symbol sessions`}
+                </span>
+              </div>
+              <EquityCurve equity={result.equity} />
+            </CardContent>
+          </Card>
+
+          <div className="border border-border rounded-lg overflow-auto">
+            <table className="w-full min-w-[760px]">
+              <thead className="border-b border-border sticky top-0 bg-background">
+                <tr>
+                  {['Date', 'Ticker', 'Entry', 'Change', 'Volume', 'Exit', 'Reason', 'Return', ''].map(header => (
+                    <th key={header} className="px-3 py-2 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                      {header}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {[...result.trades].reverse().map(trade => (
+                  <tr
+                    key={trade.id}
+                    className="hover:bg-muted/50 transition-colors cursor-pointer"
+                    onClick={() => openChart(trade.symbol)}
+                  >
+                    <td className="px-3 py-2 font-mono text-sm text-muted-foreground">{trade.date}</td>
+                    <td className="px-3 py-2 font-mono font-semibold">{trade.symbol}</td>
+                    <td className="px-3 py-2 font-mono text-sm">
+                      {formatPrice(trade.entryPrice)} <span className="text-xs text-muted-foreground">{formatTime(trade.entryTime)}</span>
+                    </td>
+                    <td className={cn('px-3 py-2 font-mono text-sm', returnClass(trade.changePercent))}>{formatReturn(trade.changePercent)}</td>
+                    <td className="px-3 py-2 font-mono text-sm text-muted-foreground">{formatVolume(trade.volume)}</td>
+                    <td className="px-3 py-2 font-mono text-sm">
+                      {formatPrice(trade.exitPrice)} <span className="text-xs text-muted-foreground">{formatTime(trade.exitTime)}</span>
+                    </td>
+                    <td className="px-3 py-2">
+                      <Badge variant="outline" className="text-xs">{EXIT_LABELS[trade.exitReason]}</Badge>
+                    </td>
+                    <td className={cn('px-3 py-2 font-mono text-sm font-semibold', returnClass(trade.returnPercent))}>
+                      {formatReturn(trade.returnPercent)}
+                    </td>
+                    <td className="px-3 py-2">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-7 w-7 p-0"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          openChart(trade.symbol);
+                        }}
+                        title="Open chart"
+                      >
+                        <ChartLine />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {result.trades.length === 0 && (
+              <div className="text-center text-sm text-muted-foreground py-12">
+                No trades: {result.presetName} never matched in the stored bars
+              </div>
+            )}
+          </div>
+        </>
+      )}
+
+      {!result && (
+        <div className="flex-1 flex items-center justify-center text-sm text-muted-foreground">
+          {stocks.length === 0 ? 'Waiting for scanner rows to backtest' : 'Pick a preset and run the backtest'}
+        </div>
+      )}
+    </div>
+  );
+}
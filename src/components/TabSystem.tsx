@@ -12,6 +12,7 @@ interface TabSystemProps {
   onTabClose: (tabId: string) => void;
   onAddTab: (symbol: string) => void;
   onAddEmptyTab?: () => void;
+  onOpenTab?: (type: 'orders' | 'portfolio' | 'backtest') => void;
   stocks: Stock[];
   maxTabs?: number;
 }
@@ -23,6 +24,7 @@ export function TabSystem({
   onTabClose, 
   onAddTab,
   onAddEmptyTab,
+  onOpenTab,
   stocks,
   maxTabs = 6 
 }: TabSystemProps) {
@@ -103,6 +105,53 @@ export function TabSystem({
                     <path d="M21 16V8a2 2 0 0 0-1-1.73l-7-4a2 2 0 0 0-2 0l-7 4A2 2 0 0 0 3 8v8a2 2 0 0 0 1 1.73l7 4a2 2 0 0 0 2 0l7-4A2 2 0 0 0 21 16z" />
                     <circle cx="12" cy="12" r="4" />
                   </svg>
+                ) : tab.type === 'orders' ? (
+                  <svg
+                    width="16"
+                    height="16"
+                    viewBox="0 0 24 24"
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth="2"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    className="text-muted-foreground flex-shrink-0"
+                  >
+                    <path d="M9 5H7a2 2 0 0 0-2 2v12a2 2 0 0 0 2 2h10a2 2 0 0 0 2-2V7a2 2 0 0 0-2-2h-2" />
+                    <rect x="9" y="3" width="6" height="4" rx="1" />
+                    <path d="M9 12h6M9 16h4" />
+                  </svg>
+                ) : tab.type === 'portfolio' ? (
+                  <svg
+                    width="16"
+                    height="16"
+                    viewBox="0 0 24 24"
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth="2"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    className="text-muted-foreground flex-shrink-0"
+                  >
+                    <rect x="2" y="7" width="20" height="14" rx="2" />
+                    <path d="M16 7V5a2 2 0 0 0-2-2h-4a2 2 0 0 0-2 2v2" />
+                  </svg>
+                ) : tab.type === 'backtest' ? (
+                  <svg
+                    width="16"
+                    height="16"
+                    viewBox="0 0 24 24"
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth="2"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    className="text-muted-foreground flex-shrink-0"
+                  >
+                    <path d="M3 3v18h18" />
+                    <path d="M7 15l4-4 3 3 6-6" />
+                    <path d="M16 8h4v4" />
+                  </svg>
                 ) : (
                   <div className="w-2 h-2 bg-accent rounded-full flex-shrink-0" />
                 )}
@@ -111,7 +160,7 @@ export function TabSystem({
                 </span>
               </div>
               
-              {tab.type !== 'scanner' && tab.type !== 'sfti_top10' && (
+              {tab.id !== 'scanner' && tab.id !== 'sfti_top10' && (
                 <Button
                   size="sm"
                   variant="ghost"
@@ -138,6 +187,76 @@ export function TabSystem({
         </div>
       </ScrollArea>
 
+      {onOpenTab && (
+        <>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="px-3 py-2 border-l border-border rounded-none hover:bg-muted/50 flex-shrink-0"
+            onClick={() => onOpenTab('backtest')}
+            title="Backtest"
+          >
+            <svg
+              width="16"
+              height="16"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            >
+              <path d="M3 3v18h18" />
+              <path d="M7 15l4-4 3 3 6-6" />
+              <path d="M16 8h4v4" />
+            </svg>
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="px-3 py-2 border-l border-border rounded-none hover:bg-muted/50 flex-shrink-0"
+            onClick={() => onOpenTab('portfolio')}
+            title="Portfolio"
+          >
+            <svg
+              width="16"
+              height="16"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            >
+              <rect x="2" y="7" width="20" height="14" rx="2" />
+              <path d="M16 7V5a2 2 0 0 0-2-2h-4a2 2 0 0 0-2 2v2" />
+            </svg>
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="px-3 py-2 border-l border-border rounded-none hover:bg-muted/50 flex-shrink-0"
+            onClick={() => onOpenTab('orders')}
+            title="Orders"
+          >
+            <svg
+              width="16"
+              height="16"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            >
+              <path d="M9 5H7a2 2 0 0 0-2 2v12a2 2 0 0 0 2 2h10a2 2 0 0 0 2-2V7a2 2 0 0 0-2-2h-2" />
+              <rect x="9" y="3" width="6" height="4" rx="1" />
+              <path d="M9 12h6M9 16h4" />
+            </svg>
+          </Button>
+        </>
+      )}
+
       {canAddTab && (
         <div className="flex-shrink-0">
           <TabSelector 
@@ -1,7 +1,7 @@
 import { useEffect, useRef, useState } from 'react';
 import { createChart, ColorType, IChartApi, ISeriesApi, CandlestickData, Time } from 'lightweight-charts';
 import { ChartData, TechnicalIndicator, ChartTimeframe } from '@/types';
-import { ibkrService } from '@/lib/ibkr';
+import { marketData } from '@/lib/market-data';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -172,28 +172,19 @@ export function TradingViewChart({ symbol, currentPrice, change, changePercent }
     if (!symbol) return;
 
     setIsLoading(true);
-    
-    try {
-      // Request historical data from IBKR
-      ibkrService.requestHistoricalData(
-        symbol,
-        '', // Current time
-        '1 D', // 1 day of data
-        timeframe === '1d' ? '1 day' : `${timeframe.replace('m', ' mins').replace('h', ' hour')}`,
-        (data: ChartData[]) => {
-          if (data && data.length > 0) {
-            setChartData(data);
-            updateChart(data);
-          } else {
-            console.warn('No chart data received for', symbol);
-          }
-          setIsLoading(false);
+
+    // Request historical data from the active provider
+    marketData.getProvider().getBars(symbol, timeframe)
+      .then(data => {
+        if (data.length > 0) {
+          setChartData(data);
+          updateChart(data);
+        } else {
+          console.warn('No chart data received for', symbol);
         }
-      );
-    } catch (error) {
-      console.error('Failed to load historical data:', error);
-      setIsLoading(false);
-    }
+      })
+      .catch(error => console.error('Failed to load historical data:', error))
+      .finally(() => setIsLoading(false));
   }, [symbol, timeframe]);
 
   // Update chart with data
@@ -0,0 +1,292 @@
+import { useCallback, useEffect, useState } from 'react';
+import { WebhookDelivery, WebhookDestination, WebhookKind } from '@/types';
+import {
+  DEFAULT_WEBHOOK_TEMPLATES,
+  WEBHOOK_KIND_LABELS,
+  buildWebhookBody,
+  createTestPayload,
+  createWebhookDestination,
+  validateWebhookDestination,
+  webhookService
+} from '@/lib/webhooks';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+// Custom SVG Icons
+const Close = () => (
+  <svg width="12" height="12" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+    <path d="M18 6L6 18M6 6L18 18" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+  </svg>
+);
+
+const KINDS = Object.keys(WEBHOOK_KIND_LABELS) as WebhookKind[];
+
+const STATUS_VARIANTS: Record<WebhookDelivery['status'], 'secondary' | 'outline' | 'destructive'> = {
+  pending: 'outline',
+  delivered: 'secondary',
+  failed: 'destructive'
+};
+
+/**
+ * What the destination would send for a sample alert
+ */
+function previewBody(destination: WebhookDestination): string {
+  try {
+    return JSON.stringify(buildWebhookBody(destination, createTestPayload()), null, 2);
+  } catch {
+    return 'Template does not produce valid JSON';
+  }
+}
+
+interface DestinationEditorProps {
+  destination: WebhookDestination;
+  onChange: (destination: WebhookDestination) => void;
+  onRemove: () => void;
+  onTest: () => void;
+}
+
+function DestinationEditor({ destination, onChange, onRemove, onTest }: DestinationEditorProps) {
+  const [showTemplate, setShowTemplate] = useState(false);
+  const error = validateWebhookDestination(destination);
+
+  return (
+    <div className="space-y-2 py-3 px-3 rounded border bg-card/50">
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          value={destination.name}
+          placeholder="Name"
+          onChange={(e) => onChange({ ...destination, name: e.target.value })}
+          className="h-8 w-36 text-xs px-2"
+        />
+        <Select value={destination.kind} onValueChange={(kind: WebhookKind) => onChange({ ...destination, kind })}>
+          <SelectTrigger className="h-8 w-32 text-xs px-2">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {KINDS.map(kind => (
+              <SelectItem key={kind} value={kind}>{WEBHOOK_KIND_LABELS[kind]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          value={destination.url}
+          placeholder="https://discord.com/api/webhooks/..."
+          onChange={(e) => onChange({ ...destination, url: e.target.value.trim() })}
+          className="h-8 flex-1 min-w-48 font-mono text-xs px-2"
+        />
+        <Switch
+          checked={destination.enabled}
+          onCheckedChange={(enabled) => onChange({ ...destination, enabled })}
+          title="Enabled"
+        />
+        <Button variant="outline" size="sm" onClick={onRemove} className="h-8 w-8 p-0" title="Remove webhook">
+          <Close />
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex items-center gap-2">
+          <Switch
+            id={`${destination.id}-all`}
+            checked={destination.allAlerts}
+            onCheckedChange={(allAlerts) => onChange({ ...destination, allAlerts })}
+          />
+          <Label htmlFor={`${destination.id}-all`} className="text-xs">
+            {destination.allAlerts ? 'Every alert' : 'Only alerts routed here'}
+          </Label>
+        </div>
+        <Button variant="ghost" size="sm" onClick={() => setShowTemplate(!showTemplate)} className="h-7 px-2 text-xs">
+          {showTemplate ? 'Hide template' : 'Edit template'}
+        </Button>
+        <Button variant="outline" size="sm" onClick={onTest} disabled={error !== null} className="h-7 px-2 text-xs">
+          Send Test
+        </Button>
+        {error && <span className="text-xs text-destructive">{error}</span>}
+      </div>
+
+      {showTemplate && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Textarea
+              value={destination.template ?? ''}
+              placeholder={DEFAULT_WEBHOOK_TEMPLATES[destination.kind] || 'Empty sends the full alert payload as JSON'}
+              onChange={(e) => onChange({ ...destination, template: e.target.value || undefined })}
+              className="min-h-24 font-mono text-xs"
+            />
+            <p className="text-xs text-muted-foreground">
+              Placeholders: {'{{message}}'}, {'{{alert.symbol}}'}, {'{{alert.type}}'}, {'{{stock.price}}'}, {'{{stock.changePercent}}'}, {'{{stock.volume}}'}, {'{{pattern.pattern}}'}, {'{{pattern.confidence}}'}
+            </p>
+          </div>
+          <pre className="max-h-40 overflow-auto rounded border bg-muted/30 p-2 text-xs custom-scrollbar">
+            {previewBody(destination)}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface WebhookSettingsProps {
+  destinations: WebhookDestination[];
+  onChange: (destinations: WebhookDestination[]) => void;
+}
+
+/**
+ * Webhook destinations and the server's delivery log
+ */
+export function WebhookSettings({ destinations, onChange }: WebhookSettingsProps) {
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [logError, setLogError] = useState<string | null>(null);
+
+  const refreshLog = useCallback(() => {
+    webhookService.getLog()
+      .then(log => {
+        setDeliveries(log);
+        setLogError(null);
+      })
+      .catch(error => setLogError(error instanceof Error ? error.message : 'Failed to load delivery log'));
+  }, []);
+
+  useEffect(() => {
+    refreshLog();
+  }, [refreshLog]);
+
+  const updateDestination = (id: string, next: WebhookDestination) => {
+    onChange(destinations.map(destination => (destination.id === id ? next : destination)));
+  };
+
+  const handleTest = (destination: WebhookDestination) => {
+    webhookService.sendTest(destination)
+      .then(() => {
+        toast.success(`Test sent to ${destination.name}`);
+        // Give the first attempt a moment before showing the log
+        setTimeout(refreshLog, 1500);
+      })
+      .catch(error => toast.error(error instanceof Error ? error.message : 'Test webhook failed'));
+  };
+
+  const handleClearLog = () => {
+    webhookService.clearLog()
+      .then(() => setDeliveries([]))
+      .catch(error => toast.error(error instanceof Error ? error.message : 'Failed to clear delivery log'));
+  };
+
+  return (
+    <div className="space-y-3">
+      {destinations.length === 0 && (
+        <p className="text-xs text-muted-foreground">
+          No webhooks yet. Add a Discord or Slack incoming webhook, or any URL that accepts JSON.
+        </p>
+      )}
+
+      {destinations.map(destination => (
+        <DestinationEditor
+          key={destination.id}
+          destination={destination}
+          onChange={(next) => updateDestination(destination.id, next)}
+          onRemove={() => onChange(destinations.filter(current => current.id !== destination.id))}
+          onTest={() => handleTest(destination)}
+        />
+      ))}
+
+      <Button variant="outline" size="sm" onClick={() => onChange([...destinations, createWebhookDestination()])} className="h-8 px-3 text-xs">
+        Add Webhook
+      </Button>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h5 className="text-xs font-semibold">Delivery Log</h5>
+          <div className="flex gap-2">
+            <Button variant="ghost" size="sm" onClick={refreshLog} className="h-7 px-2 text-xs">Refresh</Button>
+            {deliveries.length > 0 && (
+              <Button variant="ghost" size="sm" onClick={handleClearLog} className="h-7 px-2 text-xs">Clear</Button>
+            )}
+          </div>
+        </div>
+        {logError ? (
+          <p className="text-xs text-muted-foreground">Delivery log unavailable: {logError}</p>
+        ) : deliveries.length === 0 ? (
+          <p className="text-xs text-muted-foreground">Nothing delivered yet</p>
+        ) : (
+          <div className="max-h-48 overflow-y-auto rounded border custom-scrollbar">
+            <table className="w-full">
+              <tbody className="divide-y divide-border">
+                {deliveries.map(delivery => (
+                  <tr key={delivery.id} className="text-xs">
+                    <td className="px-2 py-1 font-mono text-muted-foreground whitespace-nowrap">
+                      {new Date(delivery.createdAt).toLocaleTimeString()}
+                    </td>
+                    <td className="px-2 py-1">{delivery.destinationName}</td>
+                    <td className="px-2 py-1 font-mono font-bold">{delivery.symbol}</td>
+                    <td className="px-2 py-1">
+                      <Badge variant={STATUS_VARIANTS[delivery.status]} className="text-xs h-5 px-2 py-0">
+                        {delivery.status}
+                      </Badge>
+                    </td>
+                    <td className={cn('px-2 py-1 text-muted-foreground', delivery.status === 'failed' && 'text-destructive')}>
+                      {delivery.attempts} attempt{delivery.attempts === 1 ? '' : 's'}
+                      {delivery.statusCode && ` · HTTP ${delivery.statusCode}`}
+                      {delivery.status !== 'delivered' && delivery.error && ` · ${delivery.error}`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface WebhookRoutingProps {
+  destinations: WebhookDestination[];
+  value: string[] | undefined;
+  onChange: (webhookIds: string[]) => void;
+}
+
+/**
+ * Per-alert webhook routing: toggle the destinations that only receive routed alerts.
+ * Destinations that take every alert are shown as always on.
+ */
+export function WebhookRouting({ destinations, value, onChange }: WebhookRoutingProps) {
+  const enabled = destinations.filter(destination => destination.enabled);
+  if (enabled.length === 0) return null;
+
+  const selected = value ?? [];
+  const toggle = (id: string) => {
+    onChange(selected.includes(id) ? selected.filter(current => current !== id) : [...selected, id]);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      <span className="text-xs text-muted-foreground mr-1">Webhooks</span>
+      {enabled.map(destination => {
+        const active = destination.allAlerts || selected.includes(destination.id);
+        return (
+          <button
+            key={destination.id}
+            type="button"
+            disabled={destination.allAlerts}
+            onClick={() => toggle(destination.id)}
+            title={destination.allAlerts ? 'Receives every alert' : active ? 'Stop sending this alert here' : 'Send this alert here'}
+            className={cn(
+              'rounded-full border px-2 py-0.5 text-xs transition-colors',
+              active ? 'border-primary bg-primary/15 text-primary' : 'border-border text-muted-foreground hover:bg-muted',
+              destination.allAlerts && 'opacity-70 cursor-default'
+            )}
+          >
+            {destination.name}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
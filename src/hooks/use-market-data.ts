@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react';
+import { ProviderStatus } from '@/types';
+import { marketData, MarketDataProvider } from '@/lib/market-data';
+
+/**
+ * Active market data provider and its connection status, re-rendering on source switches
+ */
+export function useMarketData(): { provider: MarketDataProvider; status: ProviderStatus } {
+  const [provider, setProvider] = useState<MarketDataProvider>(() => marketData.getProvider());
+  const [status, setStatus] = useState<ProviderStatus>(() => marketData.getStatus());
+
+  useEffect(() => {
+    setProvider(marketData.getProvider());
+    setStatus(marketData.getStatus());
+
+    const unsubscribeProvider = marketData.onProviderChange(setProvider);
+    const unsubscribeStatus = marketData.onStatusChange(setStatus);
+
+    return () => {
+      unsubscribeProvider();
+      unsubscribeStatus();
+    };
+  }, []);
+
+  return { provider, status };
+}
@@ -1,245 +1,97 @@
 import { Stock, PatternAnalysis, RealTimePattern, AIRecommendation, AIMarketScan } from '@/types';
-import { ChartData } from '@/types';
+import { ChartData, ChartTimeframe } from '@/types';
+import { PATTERN_DETECTORS, detectPatterns } from '@/lib/patterns';
+import { historyService } from '@/lib/history';
+import { marketData } from '@/lib/market-data';
+import { aiSearchService } from '@/lib/aiSearch';
+
+// Stocks analyzed per pattern scan, taken from the front of the list
+const MAX_PATTERN_SYMBOLS = 20;
+
+// Bars are reloaded at most once per bar length, and never more than once a minute
+const MIN_BAR_REFRESH = 60_000;
+const BAR_MS: Record<ChartTimeframe['value'], number> = {
+  '1m': 60_000,
+  '5m': 300_000,
+  '15m': 900_000,
+  '30m': 1_800_000,
+  '1h': 3_600_000,
+  '1d': 86_400_000
+};
 
 export class AIPatternService {
   private patternHistory: Map<string, PatternAnalysis[]> = new Map();
   private activePatterns: Map<string, RealTimePattern[]> = new Map();
-
-  // Pattern recognition algorithms
-  private detectBullishPatterns(chartData: ChartData[], stock: Stock): PatternAnalysis[] {
-    const patterns: PatternAnalysis[] = [];
-    
-    if (chartData.length < 20) return patterns;
-
-    // Bull Flag Pattern
-    if (this.detectBullFlag(chartData)) {
-      patterns.push({
-        pattern: 'Bull Flag',
-        confidence: 0.78,
-        description: 'Strong uptrend followed by consolidation, indicating potential continuation',
-        timeframe: '15m',
-        signals: ['Volume confirmation', 'Price above key moving averages', 'RSI bullish divergence']
-      });
+  private latestRecommendations: Map<string, AIRecommendation> = new Map();
+  private bars: Map<string, { bars: ChartData[]; loadedAt: number }> = new Map();
+
+  /**
+   * Chart history for a symbol and timeframe, reloaded once per bar at most
+   */
+  private async getBars(symbol: string, timeframe: ChartTimeframe['value']): Promise<ChartData[]> {
+    const key = `${symbol}:${timeframe}`;
+    const cached = this.bars.get(key);
+    if (cached && Date.now() - cached.loadedAt < Math.max(MIN_BAR_REFRESH, BAR_MS[timeframe])) {
+      return cached.bars;
     }
 
-    // Ascending Triangle
-    if (this.detectAscendingTriangle(chartData)) {
-      patterns.push({
-        pattern: 'Ascending Triangle',
-        confidence: 0.72,
-        description: 'Higher lows with resistance at same level, bullish breakout expected',
-        timeframe: '30m',
-        signals: ['Higher lows trend', 'Resistance test', 'Volume building']
-      });
-    }
-
-    // Cup and Handle
-    if (this.detectCupAndHandle(chartData)) {
-      patterns.push({
-        pattern: 'Cup and Handle',
-        confidence: 0.85,
-        description: 'Classic bullish continuation pattern with high success rate',
-        timeframe: '1h',
-        signals: ['U-shaped recovery', 'Handle formation', 'Volume spike on breakout']
-      });
-    }
-
-    // Volume Spike with Price Momentum
-    if (this.detectVolumeMomentum(chartData, stock)) {
-      patterns.push({
-        pattern: 'Volume Breakout',
-        confidence: 0.68,
-        description: 'Unusual volume spike with price momentum indicating institutional interest',
-        timeframe: '5m',
-        signals: ['3x average volume', 'Price above VWAP', 'Level 2 buying pressure']
-      });
-    }
-
-    return patterns;
+    const bars = await historyService.load(marketData.getProvider(), symbol, timeframe);
+    this.bars.set(key, { bars, loadedAt: Date.now() });
+    return bars;
   }
 
-  private detectBearishPatterns(chartData: ChartData[], stock: Stock): PatternAnalysis[] {
-    const patterns: PatternAnalysis[] = [];
-    
-    if (chartData.length < 20) return patterns;
-
-    // Head and Shoulders
-    if (this.detectHeadAndShoulders(chartData)) {
-      patterns.push({
-        pattern: 'Head and Shoulders',
-        confidence: 0.82,
-        description: 'Classic reversal pattern indicating potential downtrend',
-        timeframe: '30m',
-        signals: ['Three peaks formation', 'Neckline break', 'Volume confirmation']
-      });
-    }
+  /**
+   * Real-time pattern analysis: run each detector on the symbol's bars for that detector's timeframe. Only the first
+   * `MAX_PATTERN_SYMBOLS` stocks (in the order given) are analyzed per pass.
+   */
+  public async analyzeRealTimePatterns(stocks: Stock[]): Promise<RealTimePattern[]> {
+    const patterns: RealTimePattern[] = [];
+    const timeframes = Array.from(new Set(PATTERN_DETECTORS.map(detector => detector.timeframe)));
+
+    // One symbol at a time keeps history requests within provider limits
+    for (const stock of stocks.slice(0, MAX_PATTERN_SYMBOLS)) {
+      for (const timeframe of timeframes) {
+        let bars: ChartData[];
+        try {
+          bars = await this.getBars(stock.symbol, timeframe);
+        } catch (error) {
+          console.warn(`Pattern scan: failed to load ${stock.symbol} ${timeframe} bars:`, error);
+          continue;
+        }
 
-    // Descending Triangle
-    if (this.detectDescendingTriangle(chartData)) {
-      patterns.push({
-        pattern: 'Descending Triangle',
-        confidence: 0.75,
-        description: 'Lower highs with support at same level, bearish breakdown likely',
-        timeframe: '15m',
-        signals: ['Lower highs trend', 'Support test', 'Decreasing volume']
-      });
+        const detectors = PATTERN_DETECTORS.filter(detector => detector.timeframe === timeframe);
+        detectPatterns(bars, timeframe, detectors).map(detected => this.calibrate(detected)).forEach(pattern => {
+          patterns.push({
+            symbol: stock.symbol,
+            pattern,
+            timestamp: new Date(),
+            price: stock.price,
+            volume: stock.volume,
+            strength: pattern.confidence,
+            actionable: pattern.confidence > 0.7
+          });
+        });
+      }
     }
 
-    return patterns;
-  }
-
-  // Individual pattern detection methods
-  private detectBullFlag(chartData: ChartData[]): boolean {
-    if (chartData.length < 15) return false;
-    
-    const recent = chartData.slice(-15);
-    const trend = chartData.slice(-30, -15);
-    
-    // Check for strong uptrend before flag
-    const trendUp = trend.every((candle, i) => i === 0 || candle.close > trend[i-1].close * 0.98);
-    
-    // Check for sideways/slight down movement (flag)
-    const flagRange = recent.reduce((acc, candle) => {
-      acc.high = Math.max(acc.high, candle.high);
-      acc.low = Math.min(acc.low, candle.low);
-      return acc;
-    }, { high: 0, low: Infinity });
-    
-    const flagConsolidation = (flagRange.high - flagRange.low) / flagRange.low < 0.05;
-    
-    return trendUp && flagConsolidation;
-  }
-
-  private detectAscendingTriangle(chartData: ChartData[]): boolean {
-    if (chartData.length < 20) return false;
-    
-    const recent = chartData.slice(-20);
-    const highs = recent.map(c => c.high);
-    const lows = recent.map(c => c.low);
-    
-    // Check for consistent resistance level
-    const resistanceLevel = Math.max(...highs);
-    const resistanceTests = highs.filter(h => Math.abs(h - resistanceLevel) / resistanceLevel < 0.02).length;
-    
-    // Check for higher lows
-    const recentLows = lows.slice(-10);
-    const higherLows = recentLows.slice(1).every((low, i) => low >= recentLows[i] * 0.98);
-    
-    return resistanceTests >= 3 && higherLows;
-  }
-
-  private detectCupAndHandle(chartData: ChartData[]): boolean {
-    if (chartData.length < 50) return false;
-    
-    const data = chartData.slice(-50);
-    const prices = data.map(c => c.close);
-    
-    // Simplified cup detection - U-shaped recovery
-    const midPoint = Math.floor(prices.length / 2);
-    const leftSide = prices.slice(0, midPoint);
-    const rightSide = prices.slice(midPoint);
-    
-    const leftHigh = Math.max(...leftSide);
-    const bottom = Math.min(...prices);
-    const rightHigh = Math.max(...rightSide);
-    
-    const cupDepth = (leftHigh - bottom) / leftHigh;
-    const cupSymmetry = Math.abs(leftHigh - rightHigh) / leftHigh;
-    
-    return cupDepth > 0.12 && cupDepth < 0.35 && cupSymmetry < 0.05;
-  }
-
-  private detectHeadAndShoulders(chartData: ChartData[]): boolean {
-    if (chartData.length < 30) return false;
-    
-    const data = chartData.slice(-30);
-    const highs = data.map(c => c.high);
-    
-    // Find three peaks
-    const peaks = this.findPeaks(highs);
-    if (peaks.length < 3) return false;
-    
-    const [leftShoulder, head, rightShoulder] = peaks.slice(-3);
-    
-    // Head should be higher than shoulders
-    const headHigher = highs[head] > highs[leftShoulder] && highs[head] > highs[rightShoulder];
-    
-    // Shoulders should be approximately equal
-    const shouldersEqual = Math.abs(highs[leftShoulder] - highs[rightShoulder]) / highs[leftShoulder] < 0.05;
-    
-    return headHigher && shouldersEqual;
-  }
-
-  private detectDescendingTriangle(chartData: ChartData[]): boolean {
-    if (chartData.length < 20) return false;
-    
-    const recent = chartData.slice(-20);
-    const highs = recent.map(c => c.high);
-    const lows = recent.map(c => c.low);
-    
-    // Check for consistent support level
-    const supportLevel = Math.min(...lows);
-    const supportTests = lows.filter(l => Math.abs(l - supportLevel) / supportLevel < 0.02).length;
-    
-    // Check for lower highs
-    const recentHighs = highs.slice(-10);
-    const lowerHighs = recentHighs.slice(1).every((high, i) => high <= recentHighs[i] * 1.02);
-    
-    return supportTests >= 3 && lowerHighs;
-  }
-
-  private detectVolumeMomentum(chartData: ChartData[], stock: Stock): boolean {
-    if (chartData.length < 10) return false;
-    
-    const recent = chartData.slice(-10);
-    const avgVolume = recent.slice(0, -1).reduce((sum, c) => sum + c.volume, 0) / (recent.length - 1);
-    const currentVolume = recent[recent.length - 1].volume;
-    
-    const volumeSpike = currentVolume > avgVolume * 2;
-    const priceUp = stock.changePercent > 2;
-    
-    return volumeSpike && priceUp;
+    return patterns.sort((a, b) => b.strength - a.strength);
   }
 
-  private findPeaks(data: number[]): number[] {
-    const peaks: number[] = [];
-    
-    for (let i = 1; i < data.length - 1; i++) {
-      if (data[i] > data[i - 1] && data[i] > data[i + 1]) {
-        peaks.push(i);
-      }
-    }
-    
-    return peaks;
-  }
+  /**
+   * Replace the fit score with the backtest-calibrated confidence and say what it's based on
+   */
+  private calibrate(pattern: PatternAnalysis): PatternAnalysis {
+    const registered = aiSearchService.getPattern(pattern.pattern, pattern.timeframe);
+    if (!registered?.samples) return pattern;
 
-  // Real-time pattern analysis
-  public analyzeRealTimePatterns(stocks: Stock[]): RealTimePattern[] {
-    const patterns: RealTimePattern[] = [];
-    
-    stocks.forEach(stock => {
-      // Generate mock chart data for pattern analysis
-      const chartData = this.generateMockChartData(stock);
-      
-      const bullishPatterns = this.detectBullishPatterns(chartData, stock);
-      const bearishPatterns = this.detectBearishPatterns(chartData, stock);
-      
-      [...bullishPatterns, ...bearishPatterns].forEach(pattern => {
-        const realTimePattern: RealTimePattern = {
-          symbol: stock.symbol,
-          pattern,
-          timestamp: new Date(),
-          price: stock.price,
-          volume: stock.volume,
-          strength: pattern.confidence,
-          actionable: pattern.confidence > 0.7
-        };
-        
-        patterns.push(realTimePattern);
-      });
-    });
-    
-    return patterns.sort((a, b) => b.strength - a.strength);
+    return {
+      ...pattern,
+      confidence: aiSearchService.calibrateConfidence(pattern),
+      signals: [
+        ...pattern.signals,
+        `Backtest: ${(registered.accuracy * 100).toFixed(0)}% hit target over ${registered.samples} signals`
+      ]
+    };
   }
 
   // AI-powered market recommendations
@@ -247,7 +99,7 @@ export class AIPatternService {
     const recommendations: AIRecommendation[] = [];
     
     // Get real-time patterns
-    const patterns = this.analyzeRealTimePatterns(stocks);
+    const patterns = await this.analyzeRealTimePatterns(stocks);
     
     // Group patterns by symbol
     const patternsBySymbol = patterns.reduce((acc, pattern) => {
@@ -295,13 +147,21 @@ export class AIPatternService {
       }
     });
     
+    recommendations.forEach(recommendation => this.latestRecommendations.set(recommendation.symbol, recommendation));
     return recommendations.sort((a, b) => b.confidence - a.confidence).slice(0, 20);
   }
 
+  /**
+   * Most recent recommendation generated for a symbol (used to prefill order tickets)
+   */
+  public getLatestRecommendation(symbol: string): AIRecommendation | undefined {
+    return this.latestRecommendations.get(symbol.toUpperCase());
+  }
+
   // Generate full market scan
   public async performAIMarketScan(stocks: Stock[]): Promise<AIMarketScan> {
     const recommendations = await this.generateAIRecommendations(stocks);
-    const patterns = this.analyzeRealTimePatterns(stocks);
+    const patterns = await this.analyzeRealTimePatterns(stocks);
     
     // Analyze unusual volume
     const avgVolumes = stocks.map(s => s.volume);
@@ -352,35 +212,6 @@ export class AIPatternService {
       patternMatches: patternMatches.slice(0, 15)
     };
   }
-
-  private generateMockChartData(stock: Stock): ChartData[] {
-    const data: ChartData[] = [];
-    const basePrice = stock.price / (1 + stock.changePercent / 100);
-    
-    for (let i = 0; i < 50; i++) {
-      const time = Date.now() - (50 - i) * 60 * 1000; // 1 minute intervals
-      const volatility = 0.02;
-      const trend = stock.changePercent > 0 ? 0.001 : -0.001;
-      
-      const open = i === 0 ? basePrice : data[i - 1].close;
-      const change = (Math.random() - 0.5) * volatility + trend;
-      const close = open * (1 + change);
-      const high = Math.max(open, close) * (1 + Math.random() * 0.01);
-      const low = Math.min(open, close) * (1 - Math.random() * 0.01);
-      const volume = stock.volume * (0.8 + Math.random() * 0.4) / 50;
-      
-      data.push({
-        time,
-        open,
-        high,
-        low,
-        close,
-        volume: Math.floor(volume)
-      });
-    }
-    
-    return data;
-  }
 }
 
 export const aiPatternService = new AIPatternService();
\ No newline at end of file
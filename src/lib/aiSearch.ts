@@ -1,4 +1,13 @@
-import { Stock, AISearchResult, PatternAnalysis, SearchMemory, MarketPattern } from '@/types';
+import { Stock, AISearchResult, PatternAnalysis, SearchMemory, MarketPattern, PatternBacktestStats } from '@/types';
+import { PATTERN_DETECTORS } from '@/lib/patterns';
+
+const ACCURACY_STORAGE_KEY = 'sfti-pattern-accuracy';
+
+// Backtest signals at which measured accuracy and fit score weigh the same
+const PRIOR_SAMPLES = 30;
+
+const patternId = (name: string, timeframe: string) =>
+  `${name.toLowerCase().replace(/[^a-z0-9]+/g, '_')}_${timeframe}`;
 
 /**
  * AI-Powered Stock Search and Pattern Recognition Service
@@ -13,47 +22,84 @@ export class AISearchService {
   }
 
   /**
-   * Initialize known market patterns for recognition
+   * Pattern registry: one entry per detector, at 50% accuracy until a backtest measures it
    */
   private initializePatterns(): void {
-    this.patterns = [
-      {
-        id: 'cup_and_handle',
-        name: 'Cup and Handle',
-        type: 'bullish',
-        timeframe: '1d',
-        indicators: ['volume', 'price_action'],
-        conditions: { volume_increase: 1.5, price_consolidation: 0.1 },
-        accuracy: 0.75
-      },
-      {
-        id: 'breakout',
-        name: 'Breakout Pattern',
-        type: 'bullish',
-        timeframe: '5m',
-        indicators: ['volume', 'resistance'],
-        conditions: { volume_spike: 2.0, resistance_break: true },
-        accuracy: 0.68
-      },
-      {
-        id: 'oversold_bounce',
-        name: 'Oversold Bounce',
-        type: 'bullish',
-        timeframe: '1h',
-        indicators: ['rsi', 'price_action'],
-        conditions: { rsi_below: 30, price_decline: 0.15 },
-        accuracy: 0.60
-      },
-      {
-        id: 'volume_spike',
-        name: 'Volume Spike',
-        type: 'neutral',
-        timeframe: '1m',
-        indicators: ['volume'],
-        conditions: { volume_multiple: 3.0 },
-        accuracy: 0.55
+    this.patterns = PATTERN_DETECTORS.map(detector => ({
+      id: patternId(detector.pattern, detector.timeframe),
+      name: detector.pattern,
+      type: detector.type,
+      timeframe: detector.timeframe,
+      indicators: ['price_action', 'volume'],
+      conditions: { minBars: detector.minBars },
+      accuracy: 0.5,
+      samples: 0
+    }));
+    this.loadAccuracy();
+  }
+
+  /**
+   * Registered patterns with their measured accuracy
+   */
+  getPatterns(): MarketPattern[] {
+    return this.patterns.map(pattern => ({ ...pattern }));
+  }
+
+  getPattern(name: string, timeframe: string): MarketPattern | undefined {
+    return this.patterns.find(pattern => pattern.id === patternId(name, timeframe));
+  }
+
+  /**
+   * Store backtest results as the registry's accuracy. Patterns without signals keep
+   * their previous numbers.
+   */
+  applyBacktest(stats: PatternBacktestStats[]): void {
+    stats.forEach(result => {
+      const pattern = this.getPattern(result.pattern, result.timeframe);
+      if (!pattern || result.signals === 0) return;
+
+      pattern.accuracy = result.hitRate;
+      pattern.samples = result.signals;
+      pattern.backtest = result;
+    });
+    this.saveAccuracy();
+  }
+
+  /**
+   * Confidence for a detected pattern: its fit score, pulled toward the pattern's measured
+   * accuracy as backtest samples accumulate
+   */
+  calibrateConfidence(analysis: PatternAnalysis): number {
+    const pattern = this.getPattern(analysis.pattern, analysis.timeframe);
+    const samples = pattern?.samples ?? 0;
+    if (!pattern || samples === 0) return analysis.confidence;
+
+    const weight = samples / (samples + PRIOR_SAMPLES);
+    return Math.round((weight * pattern.accuracy + (1 - weight) * analysis.confidence) * 100) / 100;
+  }
+
+  private loadAccuracy(): void {
+    if (typeof localStorage === 'undefined') return;
+
+    try {
+      const stored = localStorage.getItem(ACCURACY_STORAGE_KEY);
+      if (stored) {
+        this.applyBacktest(JSON.parse(stored));
       }
-    ];
+    } catch (error) {
+      console.warn('Failed to load pattern accuracy:', error);
+    }
+  }
+
+  private saveAccuracy(): void {
+    if (typeof localStorage === 'undefined') return;
+
+    try {
+      const stats = this.patterns.flatMap(pattern => (pattern.backtest ? [pattern.backtest] : []));
+      localStorage.setItem(ACCURACY_STORAGE_KEY, JSON.stringify(stats));
+    } catch (error) {
+      console.warn('Failed to save pattern accuracy:', error);
+    }
   }
 
   /**
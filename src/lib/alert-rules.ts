@@ -0,0 +1,202 @@
+import {
+  AlertCondition,
+  AlertField,
+  AlertIndicatorField,
+  AlertOperator,
+  AlertRuleGroup,
+  AlertRuleNode,
+  MarketHours,
+  PriceAlert,
+  Stock
+} from '@/types';
+
+/**
+ * Alert rule engine
+ * Evaluates AND/OR rule trees over quote fields, chart indicators and the market
+ * session. Pure functions; `alerts.ts` supplies the context on every quote.
+ */
+
+export interface AlertContext {
+  stock: Stock;
+  session: MarketHours['status'];
+  /** Indicators loaded so far; conditions on a missing one are false */
+  indicators: Partial<Record<AlertIndicatorField, number>>;
+}
+
+export interface AlertFieldInfo {
+  label: string;
+  indicator: boolean;
+}
+
+export const ALERT_FIELDS: Record<AlertField, AlertFieldInfo> = {
+  price: { label: 'Price', indicator: false },
+  change: { label: 'Change', indicator: false },
+  changePercent: { label: 'Change %', indicator: false },
+  volume: { label: 'Volume', indicator: false },
+  marketCap: { label: 'Market Cap', indicator: false },
+  float: { label: 'Float', indicator: false },
+  news: { label: 'News Count', indicator: false },
+  vwap: { label: 'VWAP', indicator: true },
+  ema9: { label: 'EMA 9', indicator: true },
+  ema20: { label: 'EMA 20', indicator: true },
+  ema50: { label: 'EMA 50', indicator: true },
+  rsi: { label: 'RSI (14)', indicator: true },
+  relativeVolume: { label: 'Relative Volume', indicator: true }
+};
+
+export const ALERT_OPERATORS: Record<AlertOperator, string> = {
+  '>': '>',
+  '>=': '≥',
+  '<': '<',
+  '<=': '≤',
+  crosses_above: 'crosses above',
+  crosses_below: 'crosses below'
+};
+
+export const SESSION_LABELS: Record<MarketHours['status'], string> = {
+  premarket: 'Premarket',
+  regular: 'Regular',
+  afterhours: 'After Hours',
+  closed: 'Closed'
+};
+
+export function isIndicatorField(field: AlertField): field is AlertIndicatorField {
+  return ALERT_FIELDS[field].indicator;
+}
+
+export function getFieldValue(field: AlertField, context: AlertContext): number | null {
+  if (isIndicatorField(field)) {
+    return context.indicators[field] ?? null;
+  }
+
+  const value = context.stock[field];
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+function compare(condition: AlertCondition, context: AlertContext): [number, number] | null {
+  const left = getFieldValue(condition.field, context);
+  const right = typeof condition.target === 'number' ? condition.target : getFieldValue(condition.target, context);
+  return left === null || right === null ? null : [left, right];
+}
+
+/**
+ * Evaluate a rule tree. Crossing operators need the previous context for the same
+ * symbol and are false without it.
+ */
+export function evaluateRule(node: AlertRuleNode, context: AlertContext, previous?: AlertContext): boolean {
+  switch (node.kind) {
+    case 'group':
+      if (node.rules.length === 0) return false;
+      return node.combinator === 'and'
+        ? node.rules.every(rule => evaluateRule(rule, context, previous))
+        : node.rules.some(rule => evaluateRule(rule, context, previous));
+
+    case 'session':
+      return node.sessions.includes(context.session);
+
+    case 'condition': {
+      const values = compare(node, context);
+      if (!values) return false;
+      const [left, right] = values;
+
+      switch (node.operator) {
+        case '>': return left > right;
+        case '>=': return left >= right;
+        case '<': return left < right;
+        case '<=': return left <= right;
+        case 'crosses_above':
+        case 'crosses_below': {
+          const before = previous ? compare(node, previous) : null;
+          if (!before) return false;
+          return node.operator === 'crosses_above'
+            ? before[0] <= before[1] && left > right
+            : before[0] >= before[1] && left < right;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Indicators a rule needs, so only those are loaded
+ */
+export function getRuleIndicators(node: AlertRuleNode): AlertIndicatorField[] {
+  const fields = new Set<AlertIndicatorField>();
+
+  const visit = (current: AlertRuleNode) => {
+    if (current.kind === 'group') {
+      current.rules.forEach(visit);
+    } else if (current.kind === 'condition') {
+      if (isIndicatorField(current.field)) fields.add(current.field);
+      if (typeof current.target !== 'number' && isIndicatorField(current.target)) fields.add(current.target);
+    }
+  };
+  visit(node);
+
+  return Array.from(fields);
+}
+
+export function describeRule(node: AlertRuleNode, nested = false): string {
+  switch (node.kind) {
+    case 'group': {
+      const text = node.rules.map(rule => describeRule(rule, true)).join(node.combinator === 'and' ? ' AND ' : ' OR ');
+      return nested && node.rules.length > 1 ? `(${text})` : text;
+    }
+    case 'session':
+      return `session is ${node.sessions.map(session => SESSION_LABELS[session]).join('/')}`;
+    case 'condition': {
+      const target = typeof node.target === 'number' ? node.target.toLocaleString() : ALERT_FIELDS[node.target].label;
+      return `${ALERT_FIELDS[node.field].label} ${ALERT_OPERATORS[node.operator]} ${target}`;
+    }
+  }
+}
+
+/**
+ * Reason a rule can't be saved, or null when it is valid
+ */
+export function validateRule(node: AlertRuleNode): string | null {
+  switch (node.kind) {
+    case 'group': {
+      if (node.rules.length === 0) return 'Every group needs at least one condition';
+      for (const rule of node.rules) {
+        const invalid = validateRule(rule);
+        if (invalid) return invalid;
+      }
+      return null;
+    }
+    case 'session':
+      return node.sessions.length === 0 ? 'Pick at least one session' : null;
+    case 'condition':
+      if (typeof node.target === 'number' && !Number.isFinite(node.target)) {
+        return `Enter a value for ${ALERT_FIELDS[node.field].label}`;
+      }
+      return node.target === node.field ? `${ALERT_FIELDS[node.field].label} can't be compared with itself` : null;
+  }
+}
+
+export function createCondition(): AlertCondition {
+  return { kind: 'condition', field: 'price', operator: '>', target: 0 };
+}
+
+export function createRuleGroup(combinator: AlertRuleGroup['combinator'] = 'and'): AlertRuleGroup {
+  return { kind: 'group', combinator, rules: [createCondition()] };
+}
+
+/**
+ * Rule equivalent of a simple alert. Breakout, pattern and AI alerts have no rule form.
+ */
+export function toAlertRule(alert: Pick<PriceAlert, 'type' | 'value'>): AlertRuleGroup | undefined {
+  const condition = (operator: AlertOperator, field: AlertField, target: number): AlertRuleGroup => ({
+    kind: 'group',
+    combinator: 'and',
+    rules: [{ kind: 'condition', field, operator, target }]
+  });
+
+  switch (alert.type) {
+    case 'price_above': return condition('>=', 'price', alert.value);
+    case 'price_below': return condition('<=', 'price', alert.value);
+    // The value is the average volume; a spike is twice that
+    case 'volume_spike': return condition('>=', 'volume', alert.value * 2);
+    default: return undefined;
+  }
+}
@@ -0,0 +1,180 @@
+import { AlertTrigger, PriceAlert } from '@/types';
+import { toAlertRule } from '@/lib/alert-rules';
+
+/**
+ * Alert store
+ * Persists alert definitions and the triggered-alert history in IndexedDB so the
+ * checker has its alerts (and their triggered state) right after a reload. Falls back
+ * to memory when IndexedDB is unavailable (private mode, tests).
+ */
+
+const DB_NAME = 'sfti-alerts';
+const DB_VERSION = 1;
+const ALERTS_STORE = 'alerts';
+const HISTORY_STORE = 'history';
+
+// Oldest triggers are dropped past this many
+export const MAX_TRIGGER_HISTORY = 500;
+
+/**
+ * Bring an alert saved by an older version (or round-tripped through JSON) into shape.
+ * Simple price/volume alerts gain their rule form.
+ */
+export function normalizeStoredAlert(raw: Partial<PriceAlert> | null | undefined): PriceAlert | null {
+  if (!raw || typeof raw.id !== 'string' || typeof raw.symbol !== 'string' || !raw.type) {
+    return null;
+  }
+
+  const createdAt = raw.createdAt ? new Date(raw.createdAt) : new Date();
+  const value = Number(raw.value) || 0;
+
+  return {
+    ...raw,
+    id: raw.id,
+    symbol: raw.symbol.toUpperCase(),
+    type: raw.type,
+    value,
+    rule: raw.rule ?? toAlertRule({ type: raw.type, value }),
+    enabled: raw.enabled !== false,
+    triggered: raw.triggered === true,
+    createdAt: isNaN(createdAt.getTime()) ? new Date() : createdAt
+  };
+}
+
+export class AlertStore {
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  private memoryAlerts: Map<string, PriceAlert> = new Map();
+  private memoryHistory: AlertTrigger[] = [];
+
+  async getAlerts(): Promise<PriceAlert[]> {
+    const db = await this.open();
+    if (!db) return Array.from(this.memoryAlerts.values());
+
+    try {
+      const alerts = await this.request<Partial<PriceAlert>[]>(
+        db.transaction(ALERTS_STORE, 'readonly').objectStore(ALERTS_STORE).getAll()
+      );
+      return alerts.map(normalizeStoredAlert).filter((alert): alert is PriceAlert => alert !== null);
+    } catch (error) {
+      console.warn('Failed to read saved alerts:', error);
+      return [];
+    }
+  }
+
+  async putAlert(alert: PriceAlert): Promise<void> {
+    this.memoryAlerts.set(alert.id, alert);
+
+    const db = await this.open();
+    if (!db) return;
+
+    try {
+      await this.request(db.transaction(ALERTS_STORE, 'readwrite').objectStore(ALERTS_STORE).put(alert));
+    } catch (error) {
+      console.warn(`Failed to save alert ${alert.id}:`, error);
+    }
+  }
+
+  async deleteAlerts(ids: string[]): Promise<void> {
+    ids.forEach(id => this.memoryAlerts.delete(id));
+
+    const db = await this.open();
+    if (!db || ids.length === 0) return;
+
+    try {
+      const store = db.transaction(ALERTS_STORE, 'readwrite').objectStore(ALERTS_STORE);
+      await Promise.all(ids.map(id => this.request(store.delete(id))));
+    } catch (error) {
+      console.warn('Failed to delete alerts:', error);
+    }
+  }
+
+  /**
+   * Triggered alerts, newest first
+   */
+  async getHistory(): Promise<AlertTrigger[]> {
+    const db = await this.open();
+    if (!db) return [...this.memoryHistory];
+
+    try {
+      const history = await this.request<AlertTrigger[]>(
+        db.transaction(HISTORY_STORE, 'readonly').objectStore(HISTORY_STORE).getAll()
+      );
+      return history.sort((a, b) => b.triggeredAt - a.triggeredAt);
+    } catch (error) {
+      console.warn('Failed to read alert history:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Record a trigger, trimming the history to MAX_TRIGGER_HISTORY entries
+   */
+  async addTrigger(trigger: AlertTrigger): Promise<void> {
+    this.memoryHistory = [trigger, ...this.memoryHistory].slice(0, MAX_TRIGGER_HISTORY);
+
+    const db = await this.open();
+    if (!db) return;
+
+    try {
+      const store = db.transaction(HISTORY_STORE, 'readwrite').objectStore(HISTORY_STORE);
+      await this.request(store.put(trigger));
+
+      const keys = await this.request<IDBValidKey[]>(store.index('triggeredAt').getAllKeys());
+      const excess = keys.slice(0, Math.max(0, keys.length - MAX_TRIGGER_HISTORY));
+      await Promise.all(excess.map(key => this.request(store.delete(key))));
+    } catch (error) {
+      console.warn('Failed to record alert trigger:', error);
+    }
+  }
+
+  async clearHistory(): Promise<void> {
+    this.memoryHistory = [];
+
+    const db = await this.open();
+    if (!db) return;
+
+    try {
+      await this.request(db.transaction(HISTORY_STORE, 'readwrite').objectStore(HISTORY_STORE).clear());
+    } catch (error) {
+      console.warn('Failed to clear alert history:', error);
+    }
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    if (this.dbPromise) return this.dbPromise;
+
+    this.dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ALERTS_STORE)) {
+          db.createObjectStore(ALERTS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+          db.createObjectStore(HISTORY_STORE, { keyPath: 'id' }).createIndex('triggeredAt', 'triggeredAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('IndexedDB unavailable, keeping alerts in memory:', request.error);
+        resolve(null);
+      };
+    });
+
+    return this.dbPromise;
+  }
+
+  private request<T>(request: IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+export const alertStore = new AlertStore();
@@ -0,0 +1,153 @@
+import { AlertTriggerMode, ChartTimeframe, PriceAlert } from '@/types';
+import { getMarketHours } from '@/lib/market';
+import { toSessionDate } from '@/lib/indicators';
+import { clock } from '@/lib/clock';
+
+/**
+ * Alert timing
+ * Re-arm modes, daily time windows and expiry for alerts. Pure functions of the alert
+ * and the current time; `alerts.ts` applies them on every check.
+ */
+
+export type AlertTiming = Pick<PriceAlert, 'triggerMode' | 'barTimeframe' | 'repeatMinutes' | 'activeFrom' | 'activeUntil' | 'expiresAt'>;
+
+export const TRIGGER_MODE_LABELS: Record<AlertTriggerMode, string> = {
+  once: 'Once',
+  once_per_bar: 'Once per bar',
+  once_per_session: 'Once per session',
+  every_n_minutes: 'Every N minutes'
+};
+
+const BAR_SECONDS: Record<ChartTimeframe['value'], number> = {
+  '1m': 60,
+  '5m': 300,
+  '15m': 900,
+  '30m': 1800,
+  '1h': 3600,
+  '1d': 86400
+};
+
+const DEFAULT_REPEAT_MINUTES = 5;
+
+/**
+ * Minutes since midnight in New York
+ */
+function toNewYorkMinutes(now: number): number {
+  const [hours, minutes] = new Date(now)
+    .toLocaleTimeString('en-GB', { timeZone: 'America/New_York', hour12: false, hour: '2-digit', minute: '2-digit' })
+    .split(':')
+    .map(Number);
+  return (hours % 24) * 60 + minutes;
+}
+
+/**
+ * "HH:MM" to minutes since midnight, or null when blank or malformed
+ */
+export function parseTimeOfDay(value: string | undefined): number | null {
+  const match = value?.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+}
+
+export function isExpired(alert: AlertTiming, now: number = clock.now()): boolean {
+  return alert.expiresAt !== undefined && now >= alert.expiresAt;
+}
+
+/**
+ * Whether `now` falls in the alert's daily window. A window whose end is before its
+ * start runs overnight; a missing bound leaves that side open.
+ */
+export function isInWindow(alert: AlertTiming, now: number = clock.now()): boolean {
+  const from = parseTimeOfDay(alert.activeFrom);
+  const until = parseTimeOfDay(alert.activeUntil);
+  if (from === null && until === null) return true;
+
+  const minutes = toNewYorkMinutes(now);
+  if (from === null) return minutes < until!;
+  if (until === null) return minutes >= from;
+
+  return from <= until
+    ? minutes >= from && minutes < until
+    : minutes >= from || minutes < until;
+}
+
+/**
+ * Bar a moment falls in, for comparing two moments. Daily bars follow the New York date.
+ */
+function toBarKey(time: number, timeframe: ChartTimeframe['value']): string {
+  const seconds = Math.floor(time / 1000);
+  return timeframe === '1d'
+    ? toSessionDate(seconds)
+    : String(Math.floor(seconds / BAR_SECONDS[timeframe]));
+}
+
+/**
+ * Trading session (premarket, regular, after hours) and date of a moment
+ */
+function toSessionKey(time: number): string {
+  return `${toSessionDate(time / 1000)}:${getMarketHours(new Date(time)).status}`;
+}
+
+/**
+ * Whether a triggered alert should arm again at `now`
+ */
+export function shouldRearm(alert: PriceAlert, now: number = clock.now()): boolean {
+  if (!alert.triggered || alert.triggeredAt === undefined) return false;
+
+  switch (alert.triggerMode ?? 'once') {
+    case 'once':
+      return false;
+    case 'once_per_bar': {
+      const timeframe = alert.barTimeframe ?? '1m';
+      return toBarKey(alert.triggeredAt, timeframe) !== toBarKey(now, timeframe);
+    }
+    case 'once_per_session':
+      return toSessionKey(alert.triggeredAt) !== toSessionKey(now);
+    case 'every_n_minutes':
+      return now - alert.triggeredAt >= (alert.repeatMinutes || DEFAULT_REPEAT_MINUTES) * 60_000;
+  }
+}
+
+/**
+ * Short summary of an alert's timing for lists, e.g. "Every 5 min · 09:30–11:00"
+ */
+export function describeTiming(alert: AlertTiming): string {
+  const parts: string[] = [];
+
+  switch (alert.triggerMode ?? 'once') {
+    case 'once_per_bar':
+      parts.push(`Once per ${alert.barTimeframe ?? '1m'} bar`);
+      break;
+    case 'once_per_session':
+      parts.push('Once per session');
+      break;
+    case 'every_n_minutes':
+      parts.push(`Every ${alert.repeatMinutes || DEFAULT_REPEAT_MINUTES} min`);
+      break;
+  }
+
+  if (alert.activeFrom || alert.activeUntil) {
+    parts.push(`${alert.activeFrom || '00:00'}–${alert.activeUntil || '24:00'} ET`);
+  }
+  if (alert.expiresAt !== undefined) {
+    parts.push(`${isExpired(alert) ? 'Expired' : 'Expires'} ${new Date(alert.expiresAt).toLocaleString()}`);
+  }
+
+  return parts.join(' · ');
+}
+
+/**
+ * Reason timing settings can't be saved, or null when they are valid
+ */
+export function validateTiming(alert: AlertTiming, now: number = Date.now()): string | null {
+  if (alert.activeFrom && parseTimeOfDay(alert.activeFrom) === null) return 'Window start must be HH:MM';
+  if (alert.activeUntil && parseTimeOfDay(alert.activeUntil) === null) return 'Window end must be HH:MM';
+  if (alert.triggerMode === 'every_n_minutes' && !(alert.repeatMinutes && alert.repeatMinutes > 0)) {
+    return 'Repeat interval must be at least one minute';
+  }
+  if (alert.expiresAt !== undefined && alert.expiresAt <= now) return 'Expiry must be in the future';
+  return null;
+}
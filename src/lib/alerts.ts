@@ -1,16 +1,54 @@
-import { PriceAlert, Stock, NotificationSettings, PatternAnalysis, RealTimePattern } from '@/types';
+import { PriceAlert, AlertTrigger, AlertIndicatorField, ChartData, Stock, NotificationSettings, PatternAnalysis, RealTimePattern, OrderFill } from '@/types';
 import { aiPatternService } from '@/lib/aiPatterns';
+import { alertStore, normalizeStoredAlert, MAX_TRIGGER_HISTORY } from '@/lib/alert-store';
+import { AlertContext, describeRule, evaluateRule, getRuleIndicators, toAlertRule } from '@/lib/alert-rules';
+import { isExpired, isInWindow, shouldRearm } from '@/lib/alert-timing';
+import { calculateEMA, calculateRelativeVolume, calculateRSI, calculateSessionVWAP } from '@/lib/indicators';
+import { getMarketHours } from '@/lib/market';
+import { clock } from '@/lib/clock';
+import { marketData } from '@/lib/market-data';
+import { historyService } from '@/lib/history';
+import { getAlertDestinations, webhookService } from '@/lib/webhooks';
 import { toast } from 'sonner';
 
+interface IndicatorData {
+  /** Indicators from intraday bars; relative volume is computed per quote */
+  values: Partial<Record<AlertIndicatorField, number>>;
+  daily: ChartData[];
+  loadedAt: number;
+}
+
+// Rule indicators are recomputed from chart history at most this often per symbol
+const INDICATOR_REFRESH_INTERVAL = 60_000;
+
+export interface AlertsState {
+  alerts: PriceAlert[];
+  /** Triggered alerts, newest first */
+  history: AlertTrigger[];
+  /** False until the saved alerts have been loaded */
+  hydrated: boolean;
+}
+
 /**
  * Price Alert and Notification Service
- * Monitors stock prices and triggers alerts based on user-defined conditions
+ * Monitors stock prices and triggers alerts based on user-defined conditions.
+ * Owns the alert list: every change is written to the alert store and pushed to listeners.
+ * During a session replay alerts fire against the replayed clock, but triggers and re-arms
+ * are kept in memory only and the saved alerts come back when the replay ends.
  */
 export class AlertService {
   private alerts: Map<string, PriceAlert> = new Map();
+  private history: AlertTrigger[] = [];
+  private hydrated = false;
+  private listeners: Set<(state: AlertsState) => void> = new Set();
+  private ready: Promise<void>;
   private priceHistory: Map<string, number[]> = new Map();
+  private lastContext: Map<string, AlertContext> = new Map();
+  private indicatorData: Map<string, IndicatorData> = new Map();
+  private indicatorLoads: Set<string> = new Set();
   private patternHistory: Map<string, RealTimePattern[]> = new Map();
   private lastPatternCheck: Date = new Date();
+  private patternCheckRunning = false;
   private settings: NotificationSettings = {
     enabled: true,
     sound: true,
@@ -22,6 +60,106 @@ export class AlertService {
 
   constructor() {
     this.requestNotificationPermission();
+    this.ready = this.hydrate();
+    clock.onChange((_now, jumped) => {
+      if (jumped) this.handleClockJump();
+    });
+  }
+
+  /**
+   * Load saved alerts and trigger history. Alerts changed before this finishes win.
+   */
+  private async hydrate(): Promise<void> {
+    const [alerts, history] = await Promise.all([alertStore.getAlerts(), alertStore.getHistory()]);
+
+    alerts.forEach(alert => {
+      if (!this.alerts.has(alert.id)) {
+        this.alerts.set(alert.id, alert);
+      }
+    });
+    this.history = [...this.history, ...history]
+      .sort((a, b) => b.triggeredAt - a.triggeredAt)
+      .slice(0, MAX_TRIGGER_HISTORY);
+    this.hydrated = true;
+
+    console.log(`🔔 Loaded ${alerts.length} saved alerts`);
+    this.notify();
+  }
+
+  /**
+   * Price history and indicators don't carry across a replay seek. Returning to live
+   * discards what the replay triggered by reloading the saved alerts and history.
+   */
+  private handleClockJump(): void {
+    this.priceHistory.clear();
+    this.lastContext.clear();
+    this.indicatorData.clear();
+    this.lastPatternCheck = new Date(clock.now());
+
+    if (!clock.isLive()) return;
+
+    Promise.all([alertStore.getAlerts(), alertStore.getHistory()])
+      .then(([alerts, history]) => {
+        this.alerts = new Map(alerts.map(alert => [alert.id, alert]));
+        this.history = history.sort((a, b) => b.triggeredAt - a.triggeredAt).slice(0, MAX_TRIGGER_HISTORY);
+        this.notify();
+      })
+      .catch(error => console.warn('Failed to reload saved alerts after replay:', error));
+  }
+
+  /**
+   * Resolves once saved alerts have been loaded
+   */
+  whenReady(): Promise<void> {
+    return this.ready;
+  }
+
+  /**
+   * Import alerts saved by an older version (the `price-alerts` KV list), keeping
+   * their ids and triggered state. Alerts already in the store are skipped.
+   */
+  async importAlerts(saved: Partial<PriceAlert>[]): Promise<number> {
+    await this.ready;
+
+    const imported = saved
+      .map(normalizeStoredAlert)
+      .filter((alert): alert is PriceAlert => alert !== null && !this.alerts.has(alert.id));
+
+    imported.forEach(alert => {
+      this.alerts.set(alert.id, alert);
+      alertStore.putAlert(alert);
+    });
+
+    if (imported.length > 0) {
+      console.log(`🔔 Migrated ${imported.length} saved alerts`);
+      this.notify();
+    }
+    return imported.length;
+  }
+
+  getState(): AlertsState {
+    return {
+      alerts: this.getAlerts(),
+      history: [...this.history],
+      hydrated: this.hydrated
+    };
+  }
+
+  /**
+   * Listen for alert list and history changes. Returns an unsubscribe function.
+   */
+  onUpdate(callback: (state: AlertsState) => void): () => void {
+    this.listeners.add(callback);
+    callback(this.getState());
+
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  private notify(): void {
+    const state = this.getState();
+    this.listeners.forEach(callback => callback(state));
   }
 
   /**
@@ -40,12 +178,15 @@ export class AlertService {
     const id = `alert_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     const newAlert: PriceAlert = {
       ...alert,
+      rule: alert.rule ?? toAlertRule(alert),
       id,
       createdAt: new Date(),
       triggered: false
     };
     
     this.alerts.set(id, newAlert);
+    alertStore.putAlert(newAlert);
+    this.notify();
     return id;
   }
 
@@ -53,7 +194,25 @@ export class AlertService {
    * Remove an alert
    */
   removeAlert(id: string): boolean {
-    return this.alerts.delete(id);
+    if (!this.alerts.delete(id)) return false;
+
+    alertStore.deleteAlerts([id]);
+    this.notify();
+    return true;
+  }
+
+  /**
+   * Change an alert's fields (enable/disable, target value)
+   */
+  updateAlert(id: string, changes: Partial<Omit<PriceAlert, 'id' | 'createdAt'>>): PriceAlert | null {
+    const alert = this.alerts.get(id);
+    if (!alert) return null;
+
+    const updated: PriceAlert = { ...alert, ...changes };
+    this.alerts.set(id, updated);
+    alertStore.putAlert(updated);
+    this.notify();
+    return updated;
   }
 
   /**
@@ -88,23 +247,61 @@ export class AlertService {
    * Check alerts against current stock data
    */
   checkAlerts(stocks: Stock[]): void {
+    this.applyTiming(clock.now());
+
     if (!this.settings.enabled) return;
 
     stocks.forEach(stock => {
       this.updatePriceHistory(stock.symbol, stock.price);
-      this.checkPriceAlerts(stock);
-      this.checkVolumeAlerts(stock);
+      this.checkRuleAlerts(stock);
       this.checkBreakoutAlerts(stock);
     });
 
     // Check for pattern recognition alerts every 30 seconds
-    const now = new Date();
+    const now = new Date(clock.now());
     if (now.getTime() - this.lastPatternCheck.getTime() > 30000) {
       this.checkPatternAlerts(stocks);
       this.lastPatternCheck = now;
     }
   }
 
+  /**
+   * Re-arm triggered alerts whose trigger mode allows it and disable expired ones
+   */
+  private applyTiming(now: number): void {
+    const changed: PriceAlert[] = [];
+
+    this.alerts.forEach((alert, id) => {
+      let next = alert;
+      if (alert.enabled && isExpired(alert, now)) {
+        console.log(`⌛ Alert expired: ${alert.symbol} ${alert.type}`);
+        next = { ...next, enabled: false };
+      }
+      if (shouldRearm(alert, now)) {
+        next = { ...next, triggered: false, message: undefined };
+      }
+
+      if (next !== alert) {
+        this.alerts.set(id, next);
+        changed.push(next);
+      }
+    });
+
+    if (changed.length > 0) {
+      if (clock.isLive()) {
+        changed.forEach(alert => alertStore.putAlert(alert));
+      }
+      this.notify();
+    }
+  }
+
+  /**
+   * Enabled, not yet triggered and inside its time window
+   */
+  private isArmed(alert: PriceAlert, now: number): boolean {
+    return alert.enabled && !alert.triggered && !isExpired(alert, now) && isInWindow(alert, now);
+  }
+
   /**
    * Update price history for breakout detection
    */
@@ -123,60 +320,101 @@ export class AlertService {
   }
 
   /**
-   * Check price-based alerts
+   * Check rule alerts, including simple price and volume alerts converted into rules
    */
-  private checkPriceAlerts(stock: Stock): void {
-    if (!this.settings.priceAlerts) return;
+  private checkRuleAlerts(stock: Stock): void {
+    const now = clock.now();
+    const context: AlertContext = {
+      stock,
+      session: getMarketHours().status,
+      indicators: this.getIndicators(stock)
+    };
+    const previous = this.lastContext.get(stock.symbol);
+    this.lastContext.set(stock.symbol, context);
 
-    const symbolAlerts = this.getAlertsForSymbol(stock.symbol).filter(
-      alert => alert.enabled && !alert.triggered && 
-      (alert.type === 'price_above' || alert.type === 'price_below')
+    const ruleAlerts = this.getAlertsForSymbol(stock.symbol).filter(alert =>
+      this.isArmed(alert, now) && alert.rule &&
+      (alert.type !== 'price_above' && alert.type !== 'price_below' || this.settings.priceAlerts) &&
+      (alert.type !== 'volume_spike' || this.settings.volumeAlerts)
     );
+    if (ruleAlerts.length === 0) return;
 
-    symbolAlerts.forEach(alert => {
-      let triggered = false;
-      let message = '';
-
-      switch (alert.type) {
-        case 'price_above':
-          if (stock.price >= alert.value) {
-            triggered = true;
-            message = `${stock.symbol} hit target price $${alert.value.toFixed(4)} (Current: $${stock.price.toFixed(4)})`;
-          }
-          break;
-        case 'price_below':
-          if (stock.price <= alert.value) {
-            triggered = true;
-            message = `${stock.symbol} dropped below $${alert.value.toFixed(4)} (Current: $${stock.price.toFixed(4)})`;
-          }
-          break;
-      }
+    const indicators = new Set(ruleAlerts.flatMap(alert => getRuleIndicators(alert.rule!)));
+    if (indicators.size > 0) {
+      this.refreshIndicators(stock.symbol, Array.from(indicators));
+    }
 
-      if (triggered) {
-        this.triggerAlert(alert, message);
+    ruleAlerts.forEach(alert => {
+      if (evaluateRule(alert.rule!, context, previous)) {
+        this.triggerAlert(alert, this.getRuleMessage(alert, stock), stock.price, stock);
       }
     });
   }
 
+  private getRuleMessage(alert: PriceAlert, stock: Stock): string {
+    switch (alert.type) {
+      case 'price_above':
+        return `${stock.symbol} hit target price $${alert.value.toFixed(4)} (Current: $${stock.price.toFixed(4)})`;
+      case 'price_below':
+        return `${stock.symbol} dropped below $${alert.value.toFixed(4)} (Current: $${stock.price.toFixed(4)})`;
+      case 'volume_spike':
+        return `${stock.symbol} volume spike! Current: ${this.formatVolume(stock.volume)} (${(stock.volume / alert.value).toFixed(1)}x average)`;
+      default:
+        return `${stock.symbol}: ${describeRule(alert.rule!)} (Current: $${stock.price.toFixed(4)})`;
+    }
+  }
+
+  private getIndicators(stock: Stock): AlertContext['indicators'] {
+    const data = this.indicatorData.get(stock.symbol);
+    if (!data) return {};
+
+    const relativeVolume = calculateRelativeVolume(data.daily, stock.volume, clock.now());
+    return relativeVolume === null ? data.values : { ...data.values, relativeVolume };
+  }
+
   /**
-   * Check volume spike alerts
+   * Load chart history for a symbol's rule indicators in the background. Until it
+   * arrives, conditions on those indicators are false.
    */
-  private checkVolumeAlerts(stock: Stock): void {
-    if (!this.settings.volumeAlerts) return;
+  private async refreshIndicators(symbol: string, fields: AlertIndicatorField[]): Promise<void> {
+    const current = this.indicatorData.get(symbol);
+    if (this.indicatorLoads.has(symbol) || (current && Math.abs(clock.now() - current.loadedAt) < INDICATOR_REFRESH_INTERVAL)) {
+      return;
+    }
 
-    const volumeAlerts = this.getAlertsForSymbol(stock.symbol).filter(
-      alert => alert.enabled && !alert.triggered && alert.type === 'volume_spike'
-    );
+    this.indicatorLoads.add(symbol);
+    const provider = marketData.getProvider();
+    const needsIntraday = fields.some(field => field !== 'relativeVolume');
+    const needsDaily = fields.includes('relativeVolume');
 
-    volumeAlerts.forEach(alert => {
-      // Check if volume is X times higher than alert value (representing average volume)
-      const volumeMultiplier = stock.volume / alert.value;
-      
-      if (volumeMultiplier >= 2) { // 2x volume spike
-        const message = `${stock.symbol} volume spike! Current: ${this.formatVolume(stock.volume)} (${volumeMultiplier.toFixed(1)}x average)`;
-        this.triggerAlert(alert, message);
+    try {
+      const [intraday, daily] = await Promise.all([
+        needsIntraday ? historyService.load(provider, symbol, '1m') : Promise.resolve(null),
+        needsDaily ? historyService.load(provider, symbol, '1d') : Promise.resolve(current?.daily ?? [])
+      ]);
+
+      const values: Partial<Record<AlertIndicatorField, number>> = intraday ? {} : { ...current?.values };
+      if (intraday && intraday.length > 0) {
+        const vwap = calculateSessionVWAP(intraday);
+        if (vwap !== null) values.vwap = vwap;
+
+        ([9, 20, 50] as const).forEach(period => {
+          const ema = calculateEMA(intraday, period);
+          if (ema.length > 0) values[`ema${period}`] = ema[ema.length - 1].value;
+        });
+
+        const rsi = calculateRSI(intraday);
+        if (rsi.length > 0) values.rsi = rsi[rsi.length - 1].value;
       }
-    });
+
+      this.indicatorData.set(symbol, { values, daily, loadedAt: clock.now() });
+    } catch (error) {
+      console.warn(`Failed to load alert indicators for ${symbol}:`, error);
+      // Back off for one interval instead of retrying on every quote
+      this.indicatorData.set(symbol, { values: current?.values ?? {}, daily: current?.daily ?? [], loadedAt: clock.now() });
+    } finally {
+      this.indicatorLoads.delete(symbol);
+    }
   }
 
   /**
@@ -184,7 +422,7 @@ export class AlertService {
    */
   private checkBreakoutAlerts(stock: Stock): void {
     const breakoutAlerts = this.getAlertsForSymbol(stock.symbol).filter(
-      alert => alert.enabled && !alert.triggered && alert.type === 'breakout'
+      alert => this.isArmed(alert, clock.now()) && alert.type === 'breakout'
     );
 
     if (breakoutAlerts.length === 0) return;
@@ -197,7 +435,7 @@ export class AlertService {
     if (breakout) {
       breakoutAlerts.forEach(alert => {
         const message = `${stock.symbol} breakout detected! ${breakout.direction === 'up' ? '🚀' : '📉'} Breaking ${breakout.direction} from $${breakout.level.toFixed(4)}`;
-        this.triggerAlert(alert, message);
+        this.triggerAlert(alert, message, stock.price, stock);
       });
     }
   }
@@ -227,19 +465,38 @@ export class AlertService {
   }
 
   /**
-   * Trigger an alert notification
+   * Trigger an alert notification and record it in the history
    */
-  private triggerAlert(alert: PriceAlert, message: string): void {
-    // Mark alert as triggered
-    alert.triggered = true;
-    alert.message = message;
+  private triggerAlert(source: PriceAlert, message: string, price: number, stock?: Stock): void {
+    const triggeredAt = clock.now();
+    const live = clock.isLive();
+    const alert: PriceAlert = { ...source, triggered: true, message, triggeredAt, triggerPrice: price };
+
+    // Detected patterns are not saved alerts; they only go to the history
+    if (this.alerts.has(alert.id)) {
+      this.alerts.set(alert.id, alert);
+      if (live) alertStore.putAlert(alert);
+    }
+
+    const trigger: AlertTrigger = {
+      id: `${alert.id}_${triggeredAt}`,
+      alertId: alert.id,
+      symbol: alert.symbol,
+      type: alert.type,
+      message,
+      price,
+      triggeredAt
+    };
+    this.history = [trigger, ...this.history].slice(0, MAX_TRIGGER_HISTORY);
+    if (live) alertStore.addTrigger(trigger);
+    this.notify();
 
     // Emit event for UI updates
     window.dispatchEvent(new CustomEvent('alertTriggered', { detail: { alert } }));
 
     // Show toast notification
     const toastType = alert.type === 'price_below' || alert.type === 'breakout' ? 'warning' : 'success';
-    toast[toastType](message, {
+    toast[toastType](live ? message : `Replay ${new Date(triggeredAt).toLocaleTimeString()}: ${message}`, {
       duration: 6000,
       action: {
         label: 'View Chart',
@@ -255,6 +512,12 @@ export class AlertService {
       this.playAlertSound();
     }
 
+    // Replayed triggers stay in the app: no desktop notifications or webhooks
+    if (!live) {
+      console.log(`Replayed alert triggered: ${message}`);
+      return;
+    }
+
     // Show desktop notification if enabled and permitted
     if (this.settings.desktop && 'Notification' in window && Notification.permission === 'granted') {
       new Notification(`Penny Stock Alert: ${alert.symbol}`, {
@@ -264,9 +527,48 @@ export class AlertService {
       });
     }
 
+    const destinations = getAlertDestinations(alert, this.settings.webhooks ?? []);
+    if (destinations.length > 0) {
+      webhookService.deliver(destinations, { event: 'alert.triggered', message, triggeredAt, alert, stock, pattern: alert.pattern })
+        .catch(error => console.warn('Failed to queue alert webhooks:', error));
+    }
+
     console.log(`Alert triggered: ${message}`);
   }
 
+  /**
+   * Announce an order fill through the same channels as triggered alerts
+   */
+  notifyOrderFill(fill: OrderFill): void {
+    if (!this.settings.enabled) return;
+
+    const message = `${fill.side === 'BUY' ? 'Bought' : 'Sold'} ${fill.quantity} ${fill.symbol} @ $${fill.price.toFixed(4)}`;
+
+    toast.success(`Order filled: ${message}`, {
+      duration: 6000,
+      action: {
+        label: 'View Chart',
+        onClick: () => {
+          window.dispatchEvent(new CustomEvent('openChart', { detail: { symbol: fill.symbol } }));
+        }
+      }
+    });
+
+    if (this.settings.sound) {
+      this.playAlertSound();
+    }
+
+    if (this.settings.desktop && 'Notification' in window && Notification.permission === 'granted') {
+      new Notification(`Order Filled: ${fill.symbol}`, {
+        body: message,
+        icon: '/favicon.ico',
+        tag: `fill-${fill.orderId}-${fill.time}`
+      });
+    }
+
+    console.log(`Order filled: ${message}`);
+  }
+
   /**
    * Play alert sound
    */
@@ -307,41 +609,56 @@ export class AlertService {
    * Clear all triggered alerts
    */
   clearTriggeredAlerts(): void {
-    this.alerts.forEach((alert, id) => {
-      if (alert.triggered) {
-        this.alerts.delete(id);
-      }
-    });
+    const ids = this.getAlerts().filter(alert => alert.triggered).map(alert => alert.id);
+    if (ids.length === 0) return;
+
+    ids.forEach(id => this.alerts.delete(id));
+    alertStore.deleteAlerts(ids);
+    this.notify();
+  }
+
+  /**
+   * Triggered alerts, newest first
+   */
+  getHistory(): AlertTrigger[] {
+    return [...this.history];
+  }
+
+  clearHistory(): void {
+    this.history = [];
+    alertStore.clearHistory();
+    this.notify();
   }
 
   /**
    * Reset alert (mark as not triggered)
    */
   resetAlert(id: string): boolean {
-    const alert = this.alerts.get(id);
-    if (alert) {
-      alert.triggered = false;
-      alert.message = undefined;
-      return true;
-    }
-    return false;
+    return this.updateAlert(id, { triggered: false, message: undefined }) !== null;
   }
 
   /**
    * Check for pattern recognition alerts
    */
   private async checkPatternAlerts(stocks: Stock[]): Promise<void> {
+    // A scan loads chart history and can outlast the check interval
+    if (this.patternCheckRunning) return;
+    this.patternCheckRunning = true;
+
     try {
-      const patterns = aiPatternService.analyzeRealTimePatterns(stocks);
+      const patterns = await aiPatternService.analyzeRealTimePatterns(stocks);
       
       patterns.forEach(pattern => {
         if (!pattern.actionable || pattern.strength < 0.7) return;
 
-        // Check if we already alerted for this pattern recently
+        // Check if we already alerted for this pattern recently, or for the same formation
         const symbolPatterns = this.patternHistory.get(pattern.symbol) || [];
+        const formationStart = pattern.pattern.points?.[0]?.time;
         const recentPattern = symbolPatterns.find(p => 
-          p.pattern.pattern === pattern.pattern.pattern && 
-          new Date().getTime() - p.timestamp.getTime() < 300000 // 5 minutes
+          p.pattern.pattern === pattern.pattern.pattern && (
+            new Date().getTime() - p.timestamp.getTime() < 300000 || // 5 minutes
+            (formationStart !== undefined && p.pattern.points?.[0]?.time === formationStart)
+          )
         );
 
         if (recentPattern) return;
@@ -350,24 +667,26 @@ export class AlertService {
         symbolPatterns.push(pattern);
         this.patternHistory.set(pattern.symbol, symbolPatterns.slice(-5)); // Keep last 5
 
-        // Create pattern alert
-        const alertId = this.addAlert({
+        // One-off pattern alert; recorded in the history rather than the alert list
+        const alert: PriceAlert = {
+          id: `pattern_${pattern.symbol}_${Date.now()}`,
           symbol: pattern.symbol,
           type: 'pattern_recognition',
           value: pattern.price,
           enabled: true,
+          triggered: false,
+          createdAt: new Date(),
           pattern: pattern.pattern,
           confidence: pattern.strength
-        });
+        };
 
-        const alert = this.alerts.get(alertId);
-        if (alert) {
-          const message = `${pattern.symbol}: ${pattern.pattern.pattern} pattern detected! Confidence: ${(pattern.strength * 100).toFixed(0)}%`;
-          this.triggerAlert(alert, message);
-        }
+        const message = `${pattern.symbol}: ${pattern.pattern.pattern} pattern detected on ${pattern.pattern.timeframe}! Confidence: ${(pattern.strength * 100).toFixed(0)}%`;
+        this.triggerAlert(alert, message, pattern.price, stocks.find(stock => stock.symbol === pattern.symbol));
       });
     } catch (error) {
       console.warn('Pattern alert check failed:', error);
+    } finally {
+      this.patternCheckRunning = false;
     }
   }
 
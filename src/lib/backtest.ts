@@ -0,0 +1,250 @@
+import {
+  ChartData,
+  ChartTimeframe,
+  PatternBacktestOptions,
+  PatternBacktestReport,
+  PatternBacktestStats,
+  PatternBacktestTrade
+} from '@/types';
+import { PATTERN_DETECTORS, PatternDetector, detectPatterns } from '@/lib/patterns';
+import { historyService } from '@/lib/history';
+import { marketData } from '@/lib/market-data';
+import { aiSearchService } from '@/lib/aiSearch';
+
+/**
+ * Pattern backtesting
+ * Replays stored bars through each detector in `patterns.ts` one bar at a time, enters at
+ * the close of the signal bar and measures what followed: forward returns, whether the
+ * target or the stop was hit first, and the best/worst excursion while the trade was open.
+ * The summary is written back to the pattern registry in `aiSearch.ts`.
+ */
+
+export const DEFAULT_BACKTEST_OPTIONS: PatternBacktestOptions = {
+  horizons: [1, 5, 10, 20],
+  targetPct: 0.05,
+  stopPct: 0.03,
+  maxBars: 20
+};
+
+// Bars handed to a detector at each step; covers the longest lookback (cup and handle)
+const DETECT_WINDOW = 150;
+
+export interface BacktestSeries {
+  symbol: string;
+  timeframe: ChartTimeframe['value'];
+  bars: ChartData[];
+}
+
+const average = (values: number[]) => (values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0);
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+/**
+ * Walk one detector through ascending bars. Only signals with `maxBars` of data after
+ * them are traded, trades don't overlap, and each formation (by its first pivot) is
+ * traded once even though it stays detectable for several bars.
+ */
+export function backtestDetector(
+  detector: PatternDetector,
+  symbol: string,
+  bars: ChartData[],
+  options: PatternBacktestOptions = DEFAULT_BACKTEST_OPTIONS
+): PatternBacktestTrade[] {
+  const trades: PatternBacktestTrade[] = [];
+  const formations = new Set<number>();
+  const direction = detector.type === 'bearish' ? -1 : 1;
+  let nextSignal = 0;
+
+  for (let i = detector.minBars - 1; i < bars.length - options.maxBars; i++) {
+    if (i < nextSignal) continue;
+
+    const window = bars.slice(Math.max(0, i + 1 - DETECT_WINDOW), i + 1);
+    const [pattern] = detectPatterns(window, detector.timeframe, [detector]);
+    if (!pattern) continue;
+
+    const formation = pattern.points?.[0]?.time ?? bars[i].time;
+    const entry = bars[i].close;
+    if (formations.has(formation) || entry <= 0) continue;
+    formations.add(formation);
+
+    let outcome: PatternBacktestTrade['outcome'] = 'timeout';
+    let barsHeld = options.maxBars;
+    let mfe = 0;
+    let mae = 0;
+
+    for (let j = i + 1; j <= i + options.maxBars; j++) {
+      const favorable = direction > 0 ? (bars[j].high - entry) / entry : (entry - bars[j].low) / entry;
+      const adverse = direction > 0 ? (entry - bars[j].low) / entry : (bars[j].high - entry) / entry;
+      mfe = Math.max(mfe, favorable);
+      mae = Math.max(mae, adverse);
+
+      // When one bar reaches both, assume the stop came first
+      if (adverse >= options.stopPct) {
+        outcome = 'stop';
+      } else if (favorable >= options.targetPct) {
+        outcome = 'target';
+      }
+      if (outcome !== 'timeout') {
+        barsHeld = j - i;
+        break;
+      }
+    }
+
+    trades.push({
+      symbol,
+      pattern: detector.pattern,
+      timeframe: detector.timeframe,
+      time: bars[i].time,
+      entry,
+      confidence: pattern.confidence,
+      outcome,
+      barsHeld,
+      returns: options.horizons.map(horizon =>
+        i + horizon < bars.length ? round((direction * (bars[i + horizon].close - entry)) / entry) : null
+      ),
+      mfe: round(mfe),
+      mae: round(mae)
+    });
+    nextSignal = i + barsHeld;
+  }
+
+  return trades;
+}
+
+/**
+ * Hit rate, forward returns and excursions for one detector's trades
+ */
+export function summarizeTrades(
+  detector: PatternDetector,
+  trades: PatternBacktestTrade[],
+  options: PatternBacktestOptions = DEFAULT_BACKTEST_OPTIONS
+): PatternBacktestStats {
+  const count = (outcome: PatternBacktestTrade['outcome']) => trades.filter(trade => trade.outcome === outcome).length;
+  const targets = count('target');
+
+  return {
+    pattern: detector.pattern,
+    type: detector.type,
+    timeframe: detector.timeframe,
+    signals: trades.length,
+    targets,
+    stops: count('stop'),
+    timeouts: count('timeout'),
+    hitRate: trades.length > 0 ? round(targets / trades.length) : 0,
+    horizons: options.horizons.map((bars, index) => {
+      const returns = trades.map(trade => trade.returns[index]).filter((value): value is number => value !== null);
+      return {
+        bars,
+        avgReturn: round(average(returns)),
+        winRate: returns.length > 0 ? round(returns.filter(value => value > 0).length / returns.length) : 0,
+        samples: returns.length
+      };
+    }),
+    avgMFE: round(average(trades.map(trade => trade.mfe))),
+    avgMAE: round(average(trades.map(trade => trade.mae))),
+    symbols: new Set(trades.map(trade => trade.symbol)).size,
+    testedAt: Date.now()
+  };
+}
+
+/**
+ * Run every detector over the series of its timeframe
+ */
+export function backtestPatterns(
+  series: BacktestSeries[],
+  options: PatternBacktestOptions = DEFAULT_BACKTEST_OPTIONS,
+  detectors: PatternDetector[] = PATTERN_DETECTORS
+): { stats: PatternBacktestStats[]; trades: PatternBacktestTrade[] } {
+  const byDetector = detectors.map(detector =>
+    series
+      .filter(entry => entry.timeframe === detector.timeframe)
+      .flatMap(entry => backtestDetector(detector, entry.symbol, entry.bars, options))
+  );
+
+  return {
+    stats: detectors.map((detector, index) => summarizeTrades(detector, byDetector[index], options)),
+    trades: byDetector.flat().sort((a, b) => a.time - b.time)
+  };
+}
+
+export class PatternBacktestService {
+  private running: Promise<PatternBacktestReport> | null = null;
+  private lastReport: PatternBacktestReport | null = null;
+
+  isRunning(): boolean {
+    return this.running !== null;
+  }
+
+  getLastReport(): PatternBacktestReport | null {
+    return this.lastReport;
+  }
+
+  /**
+   * Backtest the detectors on the bars stored for these symbols (loading history when
+   * too few are cached) and update the pattern registry's accuracy.
+   * A run already in progress is returned instead of starting another.
+   */
+  run(
+    symbols: string[],
+    options: PatternBacktestOptions = DEFAULT_BACKTEST_OPTIONS,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<PatternBacktestReport> {
+    if (!this.running) {
+      this.running = this.execute(symbols, options, onProgress).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async execute(
+    symbols: string[],
+    options: PatternBacktestOptions,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<PatternBacktestReport> {
+    const startedAt = Date.now();
+    const provider = marketData.getProvider();
+    const timeframes = Array.from(new Set(PATTERN_DETECTORS.map(detector => detector.timeframe)));
+    const total = symbols.length * timeframes.length;
+    const tradesByDetector = PATTERN_DETECTORS.map((): PatternBacktestTrade[] => []);
+    let bars = 0;
+    let done = 0;
+
+    for (const symbol of symbols) {
+      for (const timeframe of timeframes) {
+        try {
+          const series = await historyService.getStored(provider, symbol, timeframe, DETECT_WINDOW);
+          bars += series.length;
+
+          PATTERN_DETECTORS.forEach((detector, index) => {
+            if (detector.timeframe !== timeframe) return;
+            tradesByDetector[index].push(...backtestDetector(detector, symbol, series, options));
+          });
+        } catch (error) {
+          console.warn(`Backtest: failed to load ${symbol} ${timeframe} bars:`, error);
+        }
+        onProgress?.(++done, total);
+
+        // Replaying a series takes a while; let the UI paint between them
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+    }
+
+    const stats = PATTERN_DETECTORS.map((detector, index) => summarizeTrades(detector, tradesByDetector[index], options));
+    const trades = tradesByDetector.flat().sort((a, b) => a.time - b.time);
+    aiSearchService.applyBacktest(stats);
+
+    this.lastReport = {
+      options,
+      stats,
+      trades,
+      symbols,
+      bars,
+      startedAt,
+      finishedAt: Date.now()
+    };
+    console.log(`🧪 Pattern backtest: ${trades.length} signals across ${symbols.length} symbols in ${Date.now() - startedAt}ms`);
+    return this.lastReport;
+  }
+}
+
+export const patternBacktestService = new PatternBacktestService();
@@ -0,0 +1,153 @@
+import { ChartData } from '@/types';
+
+/**
+ * Historical bar cache
+ * Persists bars per source/symbol/timeframe in IndexedDB so charts open instantly
+ * and only the missing range is requested. Falls back to memory when IndexedDB is
+ * unavailable (private mode, tests).
+ */
+
+export interface CachedSeries {
+  key: string;
+  bars: ChartData[];
+  updatedAt: number;
+}
+
+const DB_NAME = 'sfti-bar-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'series';
+
+// Keeps each series small enough to load in one read
+export const MAX_CACHED_BARS = 5000;
+
+/**
+ * Merge two ascending bar series; bars in `incoming` replace bars with the same time
+ */
+export function mergeBars(existing: ChartData[], incoming: ChartData[]): ChartData[] {
+  if (existing.length === 0) return incoming;
+  if (incoming.length === 0) return existing;
+
+  const byTime = new Map<number, ChartData>();
+  existing.forEach(bar => byTime.set(bar.time, bar));
+  incoming.forEach(bar => byTime.set(bar.time, bar));
+
+  return Array.from(byTime.values()).sort((a, b) => a.time - b.time);
+}
+
+export class BarCache {
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  private memory: Map<string, CachedSeries> = new Map();
+
+  static key(source: string, symbol: string, timeframe: string): string {
+    return `${source}:${symbol.toUpperCase()}:${timeframe}`;
+  }
+
+  async get(key: string): Promise<CachedSeries | null> {
+    const memoryHit = this.memory.get(key);
+    if (memoryHit) return memoryHit;
+
+    const db = await this.open();
+    if (!db) return null;
+
+    try {
+      const series = await this.request<CachedSeries | undefined>(
+        db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key)
+      );
+      if (series) {
+        this.memory.set(key, series);
+      }
+      return series || null;
+    } catch (error) {
+      console.warn(`Failed to read cached bars for ${key}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Store a series, keeping only the newest MAX_CACHED_BARS
+   */
+  async put(key: string, bars: ChartData[]): Promise<void> {
+    const series: CachedSeries = {
+      key,
+      bars: bars.slice(-MAX_CACHED_BARS),
+      updatedAt: Date.now()
+    };
+    this.memory.set(key, series);
+
+    const db = await this.open();
+    if (!db) return;
+
+    try {
+      await this.request(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(series));
+    } catch (error) {
+      console.warn(`Failed to cache bars for ${key}:`, error);
+    }
+  }
+
+  /**
+   * Drop every series of one data source
+   */
+  async clearSource(source: string): Promise<void> {
+    const prefix = `${source}:`;
+    Array.from(this.memory.keys())
+      .filter(key => key.startsWith(prefix))
+      .forEach(key => this.memory.delete(key));
+
+    const db = await this.open();
+    if (!db) return;
+
+    try {
+      const range = IDBKeyRange.bound(prefix, `${prefix}\uffff`);
+      await this.request(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).delete(range));
+    } catch (error) {
+      console.warn(`Failed to clear cached ${source} bars:`, error);
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.memory.clear();
+
+    const db = await this.open();
+    if (!db) return;
+
+    try {
+      await this.request(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).clear());
+    } catch (error) {
+      console.warn('Failed to clear bar cache:', error);
+    }
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    if (this.dbPromise) return this.dbPromise;
+
+    this.dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('IndexedDB unavailable, caching bars in memory:', request.error);
+        resolve(null);
+      };
+    });
+
+    return this.dbPromise;
+  }
+
+  private request<T>(request: IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+export const barCache = new BarCache();
@@ -0,0 +1,60 @@
+/**
+ * Application clock
+ * Wall-clock time while live; during a session replay it reports the replayed moment
+ * instead, so market hours, alert timing and bar times follow the replay.
+ */
+
+export type ClockListener = (now: number, jumped: boolean) => void;
+
+export class Clock {
+  private replayTime: number | null = null;
+  private listeners: Set<ClockListener> = new Set();
+
+  /**
+   * Current time in epoch milliseconds
+   */
+  now(): number {
+    return this.replayTime ?? Date.now();
+  }
+
+  isLive(): boolean {
+    return this.replayTime === null;
+  }
+
+  /**
+   * Move the replay clock. `jumped` marks a discontinuity (start, seek, step back) that
+   * time-dependent state like price history and loaded bars should not carry across.
+   */
+  set(time: number, jumped = false): void {
+    this.replayTime = time;
+    this.notify(jumped);
+  }
+
+  /**
+   * Return to wall-clock time
+   */
+  reset(): void {
+    if (this.replayTime === null) return;
+
+    this.replayTime = null;
+    this.notify(true);
+  }
+
+  /**
+   * Listen for replay time changes and switches back to live. Returns an unsubscribe function.
+   */
+  onChange(callback: ClockListener): () => void {
+    this.listeners.add(callback);
+
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  private notify(jumped: boolean): void {
+    const now = this.now();
+    this.listeners.forEach(callback => callback(now, jumped));
+  }
+}
+
+export const clock = new Clock();
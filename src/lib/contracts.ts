@@ -0,0 +1,248 @@
+import { ContractInfo } from '@/types';
+
+/**
+ * IBKR Contract Registry
+ * Resolves ticker symbols to IBKR contract IDs (conids) through the Client Portal
+ * `/iserver/secdef/search` endpoint, caches them persistently and provides the
+ * reverse conid -> symbol lookup needed to route streaming market data.
+ */
+
+export interface ContractLookupOptions {
+  secType?: string;
+  exchange?: string;
+  baseUrl?: string;
+}
+
+interface ContractCacheEntry extends ContractInfo {
+  key: string;
+}
+
+const STORAGE_KEY = 'ibkr-contract-cache-v1';
+const CACHE_TTL = 30 * 24 * 60 * 60 * 1000; // Conids are stable, refresh monthly
+
+// Primary US listing venues, preferred when a symbol trades in several places
+const PREFERRED_EXCHANGES = ['NASDAQ', 'NYSE', 'AMEX', 'ARCA', 'BATS', 'PINK', 'OTC'];
+
+export class ContractRegistry {
+  private baseUrl: string;
+  private contracts: Map<string, ContractCacheEntry> = new Map();
+  private contractsByConid: Map<number, ContractCacheEntry> = new Map();
+  private pending: Map<string, Promise<ContractInfo | null>> = new Map();
+
+  constructor(baseUrl: string = 'https://localhost:5000/v1/api') {
+    this.baseUrl = baseUrl;
+    this.loadCache();
+  }
+
+  /**
+   * Point lookups at a different gateway (local gateway or portal proxy)
+   */
+  setBaseUrl(baseUrl: string): void {
+    this.baseUrl = baseUrl;
+  }
+
+  /**
+   * Resolve a single symbol to its contract, hitting the gateway only on a cache miss
+   */
+  async resolve(symbol: string, options: ContractLookupOptions = {}): Promise<ContractInfo | null> {
+    const key = this.getKey(symbol, options);
+    const cached = this.contracts.get(key);
+
+    if (cached && Date.now() - cached.resolvedAt < CACHE_TTL) {
+      return cached;
+    }
+
+    // Share in-flight lookups so concurrent callers don't duplicate searches
+    const inFlight = this.pending.get(key);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const lookup = this.searchContract(symbol, options)
+      .then(contract => {
+        if (contract) {
+          this.register(contract, options);
+        }
+        return contract;
+      })
+      .finally(() => {
+        this.pending.delete(key);
+      });
+
+    this.pending.set(key, lookup);
+    return lookup;
+  }
+
+  /**
+   * Resolve several symbols, dropping those that could not be found
+   */
+  async resolveMany(symbols: string[], options: ContractLookupOptions = {}): Promise<ContractInfo[]> {
+    const results = await Promise.all(symbols.map(symbol => this.resolve(symbol, options)));
+    return results.filter((contract): contract is ContractInfo => contract !== null);
+  }
+
+  /**
+   * Resolve a symbol to its conid, throwing if the contract cannot be found
+   */
+  async getConid(symbol: string, options: ContractLookupOptions = {}): Promise<number> {
+    const contract = await this.resolve(symbol, options);
+    if (!contract) {
+      throw new Error(`Could not find contract for symbol: ${symbol}`);
+    }
+    return contract.conid;
+  }
+
+  /**
+   * Get a cached contract without touching the network
+   */
+  getCached(symbol: string, options: ContractLookupOptions = {}): ContractInfo | null {
+    return this.contracts.get(this.getKey(symbol, options)) || null;
+  }
+
+  /**
+   * Reverse lookup used to route conid-keyed market data to symbols
+   */
+  getSymbol(conid: number | string): string | undefined {
+    return this.contractsByConid.get(Number(conid))?.symbol;
+  }
+
+  /**
+   * Get the full contract for a conid
+   */
+  getContract(conid: number | string): ContractInfo | null {
+    return this.contractsByConid.get(Number(conid)) || null;
+  }
+
+  /**
+   * Add a known contract to the registry (e.g. from scanner results)
+   */
+  register(contract: ContractInfo, options: ContractLookupOptions = {}): void {
+    const key = this.getKey(contract.symbol, { secType: contract.secType, ...options });
+    const entry = { ...contract, key };
+    this.contracts.set(key, entry);
+    this.contractsByConid.set(contract.conid, entry);
+    this.saveCache();
+  }
+
+  /**
+   * Clear all cached contracts
+   */
+  clear(): void {
+    this.contracts.clear();
+    this.contractsByConid.clear();
+    this.pending.clear();
+
+    if (typeof localStorage !== 'undefined') {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  }
+
+  private async searchContract(symbol: string, options: ContractLookupOptions): Promise<ContractInfo | null> {
+    const secType = options.secType || 'STK';
+    const baseUrl = options.baseUrl || this.baseUrl;
+
+    try {
+      const response = await fetch(
+        `${baseUrl}/iserver/secdef/search?symbol=${encodeURIComponent(symbol.toUpperCase())}&secType=${secType}`,
+        {
+          credentials: 'include',
+          headers: {
+            'Content-Type': 'application/json',
+          }
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error(`Contract search failed: ${response.status}`);
+      }
+
+      const data = await response.json();
+      if (!Array.isArray(data) || data.length === 0) {
+        return null;
+      }
+
+      return this.selectContract(symbol, data, secType, options.exchange);
+    } catch (error) {
+      console.warn(`Failed to resolve contract for ${symbol}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Pick the best match from secdef search results by symbol, security type and exchange
+   */
+  private selectContract(symbol: string, results: any[], secType: string, exchange?: string): ContractInfo | null {
+    const upperSymbol = symbol.toUpperCase();
+
+    const candidates = results
+      .filter(item => item.conid && (!item.symbol || item.symbol.toUpperCase() === upperSymbol))
+      .filter(item => {
+        const sections: any[] = item.sections || [];
+        return sections.length === 0 ||
+          sections.some(section => section.secType === secType) ||
+          item.instrument_type === secType;
+      });
+
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    const getExchange = (item: any): string => (item.description || item.exchange || '').toUpperCase();
+
+    const match = (exchange && candidates.find(item => {
+      const sections: any[] = item.sections || [];
+      return getExchange(item) === exchange.toUpperCase() ||
+        sections.some(section => (section.exchange || '').toUpperCase().split(';').includes(exchange.toUpperCase()));
+    })) || [...candidates].sort((a, b) => {
+      const rank = (item: any) => {
+        const index = PREFERRED_EXCHANGES.indexOf(getExchange(item));
+        return index === -1 ? PREFERRED_EXCHANGES.length : index;
+      };
+      return rank(a) - rank(b);
+    })[0];
+
+    return {
+      conid: Number(match.conid),
+      symbol: upperSymbol,
+      name: match.companyName || match.companyHeader || match.name || upperSymbol,
+      secType,
+      exchange: getExchange(match) || exchange?.toUpperCase() || 'SMART',
+      currency: match.currency,
+      resolvedAt: Date.now()
+    };
+  }
+
+  private getKey(symbol: string, options: ContractLookupOptions): string {
+    return [symbol.toUpperCase(), options.secType || 'STK', options.exchange?.toUpperCase() || '*'].join(':');
+  }
+
+  private loadCache(): void {
+    if (typeof localStorage === 'undefined') return;
+
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (!stored) return;
+
+      const entries: ContractCacheEntry[] = JSON.parse(stored);
+      entries.forEach(entry => {
+        this.contracts.set(entry.key, entry);
+        this.contractsByConid.set(entry.conid, entry);
+      });
+    } catch (error) {
+      console.warn('Failed to load contract cache:', error);
+    }
+  }
+
+  private saveCache(): void {
+    if (typeof localStorage === 'undefined') return;
+
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(Array.from(this.contracts.values())));
+    } catch (error) {
+      console.warn('Failed to save contract cache:', error);
+    }
+  }
+}
+
+// Shared registry used by every IBKR service
+export const contractRegistry = new ContractRegistry();
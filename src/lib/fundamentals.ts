@@ -0,0 +1,46 @@
+import type { ScannerFundamentals } from '@/lib/scanner';
+
+/**
+ * Scanner fundamentals
+ * Float and today's news count from the Node server (`GET /api/fundamentals`), the
+ * scanner's fundamentals source for providers whose quotes carry neither (IBKR).
+ */
+
+// Most symbols the server looks up per request
+const MAX_SYMBOLS_PER_REQUEST = 100;
+
+export class FundamentalsService {
+  /** Server origin; empty means the app's own origin (production build served by server.js) */
+  private serverUrl = '';
+
+  setServerUrl(url: string | undefined): void {
+    this.serverUrl = (url || '').replace(/\/+$/, '');
+  }
+
+  /**
+   * Float and news count per symbol, requested in batches the server accepts; symbols the
+   * server knows nothing about are left out
+   */
+  async fetch(symbols: string[]): Promise<Record<string, ScannerFundamentals>> {
+    const results: Record<string, ScannerFundamentals> = {};
+
+    for (let start = 0; start < symbols.length; start += MAX_SYMBOLS_PER_REQUEST) {
+      const batch = symbols.slice(start, start + MAX_SYMBOLS_PER_REQUEST);
+      Object.assign(results, await this.fetchBatch(batch));
+    }
+    return results;
+  }
+
+  private async fetchBatch(symbols: string[]): Promise<Record<string, ScannerFundamentals>> {
+    const path = `/api/fundamentals?symbols=${encodeURIComponent(symbols.join(','))}`;
+    const response = await fetch(`${this.serverUrl}${path}`);
+    if (!response.ok) {
+      throw new Error(`GET /api/fundamentals failed: ${response.status}`);
+    }
+
+    const { fundamentals } = await response.json() as { fundamentals: Record<string, ScannerFundamentals> };
+    return fundamentals ?? {};
+  }
+}
+
+export const fundamentalsService = new FundamentalsService();
@@ -0,0 +1,168 @@
+import { ChartData, ChartTimeframe, DataSource } from '@/types';
+import type { MarketDataProvider } from '@/lib/market-data';
+import { BarCache, barCache, mergeBars } from '@/lib/bar-cache';
+import { marketRecorder } from '@/lib/recorder';
+
+/**
+ * Chart history loader
+ * Combines the IndexedDB bar cache with provider history pages: the latest page is
+ * merged over cached bars, gaps between them are filled page by page, and older
+ * pages are loaded on demand when the chart is scrolled back.
+ */
+
+// Give up on filling a gap after this many pages and start the series fresh
+const MAX_GAP_PAGES = 5;
+
+export class HistoryService {
+  private series: Map<string, ChartData[]> = new Map();
+  private exhausted: Set<string> = new Set();
+  private pending: Map<string, Promise<ChartData[]>> = new Map();
+  // Bumped per source by clearSource so loads already in flight don't store their bars
+  private generations: Map<DataSource, number> = new Map();
+
+  /**
+   * Bars already on this device, for painting the chart before the network answers
+   */
+  async getCached(provider: MarketDataProvider, symbol: string, timeframe: ChartTimeframe['value']): Promise<ChartData[]> {
+    const key = BarCache.key(provider.source, symbol, timeframe);
+    const loaded = this.series.get(key);
+    if (loaded) return loaded;
+
+    return (await barCache.get(key))?.bars || [];
+  }
+
+  /**
+   * Bars stored on this device, loading the latest history when fewer than `minBars` are
+   * cached. For replaying history (backtests) without a network round trip per series.
+   * Recorded bars the cache no longer holds are merged underneath.
+   */
+  async getStored(
+    provider: MarketDataProvider,
+    symbol: string,
+    timeframe: ChartTimeframe['value'],
+    minBars: number
+  ): Promise<ChartData[]> {
+    const cached = await this.getCached(provider, symbol, timeframe);
+    const [bars, recorded] = await Promise.all([
+      cached.length >= minBars ? cached : this.load(provider, symbol, timeframe),
+      marketRecorder.getBars(provider.source, symbol, timeframe)
+    ]);
+    return mergeBars(recorded, bars);
+  }
+
+  /**
+   * Latest bars merged over the cache. When the newest page doesn't reach the cached
+   * bars, earlier pages are requested until the two overlap.
+   */
+  load(provider: MarketDataProvider, symbol: string, timeframe: ChartTimeframe['value']): Promise<ChartData[]> {
+    const key = BarCache.key(provider.source, symbol, timeframe);
+
+    return this.dedupe(`${key}:latest`, async () => {
+      const generation = this.generations.get(provider.source);
+      const cached = this.series.get(key) || (await barCache.get(key))?.bars || [];
+      const latest = await provider.getBars(symbol, timeframe);
+      if (latest.length === 0) {
+        return cached;
+      }
+      marketRecorder.recordBars(provider.source, symbol, timeframe, latest);
+
+      let merged = mergeBars(cached, latest);
+
+      if (cached.length > 0) {
+        const newestCached = cached[cached.length - 1].time;
+        let oldestFetched = latest[0].time;
+        let pages = 0;
+
+        while (oldestFetched > newestCached && pages < MAX_GAP_PAGES) {
+          const page = await provider.getBars(symbol, timeframe, { before: oldestFetched });
+          if (page.length === 0) break;
+
+          marketRecorder.recordBars(provider.source, symbol, timeframe, page);
+          merged = mergeBars(merged, page);
+          oldestFetched = page[0].time;
+          pages++;
+        }
+
+        // Never show a hole: drop cached bars the gap fill couldn't reach
+        if (oldestFetched > newestCached) {
+          console.warn(`📉 ${symbol} ${timeframe}: history gap too large, discarding cached bars`);
+          merged = merged.filter(bar => bar.time >= oldestFetched);
+        }
+      }
+
+      if (generation === this.generations.get(provider.source)) this.store(key, merged);
+      return merged;
+    });
+  }
+
+  /**
+   * Extend the loaded series one page further back. Returns the whole series;
+   * it is unchanged once the source has no older bars.
+   */
+  loadOlder(provider: MarketDataProvider, symbol: string, timeframe: ChartTimeframe['value']): Promise<ChartData[]> {
+    const key = BarCache.key(provider.source, symbol, timeframe);
+
+    return this.dedupe(`${key}:older`, async () => {
+      const generation = this.generations.get(provider.source);
+      const loaded = this.series.get(key) || [];
+      if (loaded.length === 0 || this.exhausted.has(key)) {
+        return loaded;
+      }
+
+      const page = await provider.getBars(symbol, timeframe, { before: loaded[0].time });
+      if (page.length === 0) {
+        this.exhausted.add(key);
+        return loaded;
+      }
+      marketRecorder.recordBars(provider.source, symbol, timeframe, page);
+
+      const merged = mergeBars(page, loaded);
+      if (generation === this.generations.get(provider.source)) this.store(key, merged);
+      return merged;
+    });
+  }
+
+  /**
+   * Whether older pages have run out for this series
+   */
+  isExhausted(provider: MarketDataProvider, symbol: string, timeframe: ChartTimeframe['value']): boolean {
+    return this.exhausted.has(BarCache.key(provider.source, symbol, timeframe));
+  }
+
+  /**
+   * Forget every series loaded from a source, in memory and in the bar cache. A replay's
+   * bars stop at the replayed time, so they are discarded whenever that time jumps.
+   */
+  clearSource(source: DataSource): Promise<void> {
+    const prefix = `${source}:`;
+    this.generations.set(source, (this.generations.get(source) ?? 0) + 1);
+    [this.series, this.pending].forEach(map => {
+      Array.from(map.keys())
+        .filter(key => key.startsWith(prefix))
+        .forEach(key => map.delete(key));
+    });
+    Array.from(this.exhausted)
+      .filter(key => key.startsWith(prefix))
+      .forEach(key => this.exhausted.delete(key));
+
+    return barCache.clearSource(source);
+  }
+
+  private store(key: string, bars: ChartData[]): void {
+    this.series.set(key, bars);
+    barCache.put(key, bars);
+  }
+
+  private dedupe(key: string, run: () => Promise<ChartData[]>): Promise<ChartData[]> {
+    const inFlight = this.pending.get(key);
+    if (inFlight) return inFlight;
+
+    const promise = run().finally(() => {
+      if (this.pending.get(key) === promise) this.pending.delete(key);
+    });
+    this.pending.set(key, promise);
+    return promise;
+  }
+}
+
+export const historyService = new HistoryService();
@@ -3,6 +3,8 @@
  * This replaces the server-based IBKR integration to enable offline operation
  */
 
+import { contractRegistry } from '@/lib/contracts';
+
 class EventEmitter {
   private events: Map<string, ((...args: any[]) => void)[]> = new Map();
 
@@ -202,8 +204,8 @@ export class IBKRBrowserService extends EventEmitter {
     }
 
     try {
-      // First search for contracts
-      const contracts = await this.searchContracts(symbols);
+      // First resolve contracts
+      const contracts = await contractRegistry.resolveMany(symbols, { baseUrl: this.baseUrl });
       
       if (contracts.length === 0) {
         return [];
@@ -233,39 +235,6 @@ export class IBKRBrowserService extends EventEmitter {
     }
   }
 
-  private async searchContracts(symbols: string[]): Promise<any[]> {
-    const contracts = [];
-    
-    for (const symbol of symbols) {
-      try {
-        const response = await fetch(
-          `${this.baseUrl}/iserver/secdef/search?symbol=${symbol}`,
-          {
-            credentials: 'include',
-            headers: {
-              'Content-Type': 'application/json',
-            }
-          }
-        );
-
-        if (response.ok) {
-          const data = await response.json();
-          if (Array.isArray(data) && data.length > 0) {
-            // Get the first equity match
-            const equity = data.find(item => item.instrument_type === 'STK');
-            if (equity) {
-              contracts.push(equity);
-            }
-          }
-        }
-      } catch (error) {
-        console.error(`Failed to search for ${symbol}:`, error);
-      }
-    }
-    
-    return contracts;
-  }
-
   async getPositions(accountId: string): Promise<any[]> {
     if (!this.isAuthenticated) {
       throw new Error('Not authenticated with IBKR');
@@ -328,6 +297,20 @@ export class IBKRBrowserService extends EventEmitter {
     };
   }
 
+  /**
+   * Last known session state, without a network round trip
+   */
+  isConnected(): boolean {
+    return this.isAuthenticated;
+  }
+
+  /**
+   * Client Portal API base URL of the portal proxy
+   */
+  getApiUrl(): string {
+    return this.baseUrl;
+  }
+
   async logout(): Promise<void> {
     try {
       await fetch(`${this.baseUrl}/logout`, {
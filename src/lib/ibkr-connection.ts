@@ -0,0 +1,331 @@
+import { parseSocketMessage } from '@/lib/ibkr-stream';
+
+/**
+ * IBKR Gateway connection supervisor
+ * Keeps the Client Portal WebSocket and session alive: periodic `ech+hb` heartbeats,
+ * `/tickle` keep-alive calls, stale-socket detection and exponential-backoff reconnects.
+ * Consumers re-subscribe in `onOpen`, which runs after every (re)connect.
+ */
+
+export type SocketState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
+
+export interface SupervisorStatus {
+  state: SocketState;
+  attempt: number;
+  lastMessageAt: number | null;
+  nextRetryAt: number | null;
+}
+
+export interface ConnectionSupervisorOptions {
+  getSocketUrl: () => string;
+  getTickleUrl: () => string;
+  onOpen?: (socket: WebSocket) => void;
+  onMessage?: (message: any) => void;
+  onClose?: () => void;
+  onSessionStatus?: (authenticated: boolean) => void;
+  heartbeatInterval?: number;
+  tickleInterval?: number;
+  connectTimeout?: number;
+  baseReconnectDelay?: number;
+  maxReconnectDelay?: number;
+}
+
+export class ConnectionSupervisor {
+  private options: Required<Omit<ConnectionSupervisorOptions, 'onOpen' | 'onMessage' | 'onClose' | 'onSessionStatus'>> &
+    ConnectionSupervisorOptions;
+  private socket: WebSocket | null = null;
+  private running = false;
+  private status: SupervisorStatus = {
+    state: 'disconnected',
+    attempt: 0,
+    lastMessageAt: null,
+    nextRetryAt: null
+  };
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private tickleTimer: ReturnType<typeof setInterval> | null = null;
+  private listeners: Set<(status: SupervisorStatus) => void> = new Set();
+  // Shared by every start() made while a connect or retry is already under way
+  private pendingConnect: Promise<void> | null = null;
+
+  constructor(options: ConnectionSupervisorOptions) {
+    this.options = {
+      heartbeatInterval: 10_000,
+      tickleInterval: 55_000, // Gateway sessions time out after ~5 minutes without a tickle
+      connectTimeout: 10_000,
+      baseReconnectDelay: 1_000,
+      maxReconnectDelay: 60_000,
+      ...options
+    };
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => {
+        if (this.running && this.status.state === 'reconnecting') {
+          this.reconnectNow();
+        }
+      });
+    }
+  }
+
+  /**
+   * Start supervising. Resolves once the first connection opens; if it fails,
+   * the promise rejects but reconnect attempts continue in the background. Called
+   * again mid-connect, it waits for that connection. Either way it rejects if `stop()`
+   * ends the connection first.
+   */
+  start(): Promise<void> {
+    this.running = true;
+    this.startTickle();
+
+    if (this.socket && this.socket.readyState === WebSocket.OPEN) {
+      return Promise.resolve();
+    }
+
+    // Already connecting or waiting to retry: wait for that attempt instead of opening another socket
+    if (this.socket || this.reconnectTimer) {
+      return this.waitForConnection();
+    }
+
+    const connected = this.waitForConnection();
+    return new Promise((resolve, reject) => {
+      // stop() closes the socket without running its close handler, so the shared promise settles this one
+      connected.then(resolve, reject);
+      this.open(resolve, reject);
+    });
+  }
+
+  /**
+   * Stop supervising and close the socket without reconnecting
+   */
+  stop(): void {
+    this.running = false;
+    this.clearTimers();
+
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.close();
+    }
+
+    this.setStatus({ state: 'disconnected', attempt: 0, nextRetryAt: null });
+  }
+
+  /**
+   * Skip the backoff delay and reconnect immediately
+   */
+  reconnectNow(): void {
+    if (!this.running || this.socket) return;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.open();
+  }
+
+  /**
+   * Send a raw frame if the socket is open
+   */
+  send(message: string): boolean {
+    if (this.socket && this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(message);
+      return true;
+    }
+    return false;
+  }
+
+  isOpen(): boolean {
+    return this.status.state === 'connected';
+  }
+
+  getStatus(): SupervisorStatus {
+    return { ...this.status };
+  }
+
+  /**
+   * Listen for connection state changes. Returns an unsubscribe function.
+   */
+  onStateChange(callback: (status: SupervisorStatus) => void): () => void {
+    this.listeners.add(callback);
+
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  private waitForConnection(): Promise<void> {
+    if (!this.pendingConnect) {
+      this.pendingConnect = new Promise<void>((resolve, reject) => {
+        const unsubscribe = this.onStateChange(status => {
+          if (status.state !== 'connected' && status.state !== 'disconnected') return;
+
+          unsubscribe();
+          this.pendingConnect = null;
+          if (status.state === 'connected') {
+            resolve();
+          } else {
+            reject(new Error('IBKR connection stopped'));
+          }
+        });
+      });
+    }
+    return this.pendingConnect;
+  }
+
+  private open(onFirstOpen?: () => void, onFirstFailure?: (error: Error) => void): void {
+    this.setStatus({ state: this.status.attempt > 0 ? 'reconnecting' : 'connecting', nextRetryAt: null });
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.options.getSocketUrl());
+      socket.binaryType = 'arraybuffer';
+    } catch (error) {
+      onFirstFailure?.(error instanceof Error ? error : new Error('WebSocket creation failed'));
+      this.scheduleReconnect();
+      return;
+    }
+
+    this.socket = socket;
+
+    const timeout = setTimeout(() => {
+      if (socket.readyState !== WebSocket.OPEN) {
+        console.warn('IBKR WebSocket connection timeout');
+        socket.close();
+      }
+    }, this.options.connectTimeout);
+
+    socket.onopen = () => {
+      clearTimeout(timeout);
+      console.log('🔄 IBKR WebSocket connected');
+
+      this.setStatus({ state: 'connected', attempt: 0, lastMessageAt: Date.now(), nextRetryAt: null });
+      this.startHeartbeat();
+      this.options.onOpen?.(socket);
+      onFirstOpen?.();
+    };
+
+    socket.onmessage = (event) => {
+      this.status.lastMessageAt = Date.now();
+
+      const message = parseSocketMessage(event.data);
+      if (message) {
+        this.options.onMessage?.(message);
+      }
+    };
+
+    socket.onerror = (error) => {
+      console.warn('IBKR WebSocket error:', error);
+    };
+
+    socket.onclose = () => {
+      clearTimeout(timeout);
+      this.stopHeartbeat();
+
+      // Ignore sockets that were replaced or closed by stop()
+      if (this.socket !== socket) return;
+
+      this.socket = null;
+      this.options.onClose?.();
+      onFirstFailure?.(new Error('WebSocket connection closed'));
+
+      if (this.running) {
+        this.scheduleReconnect();
+      } else {
+        this.setStatus({ state: 'disconnected' });
+      }
+    };
+  }
+
+  private scheduleReconnect(): void {
+    const attempt = this.status.attempt + 1;
+    const backoff = Math.min(
+      this.options.baseReconnectDelay * Math.pow(2, attempt - 1),
+      this.options.maxReconnectDelay
+    );
+    // Jitter so several tabs don't hammer the gateway in lockstep
+    const delay = Math.round(backoff * (0.8 + Math.random() * 0.4));
+
+    console.log(`⏳ Reconnecting to IBKR WebSocket in ${(delay / 1000).toFixed(1)}s (attempt ${attempt})`);
+    this.setStatus({ state: 'reconnecting', attempt, nextRetryAt: Date.now() + delay });
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.running) {
+        this.open();
+      }
+    }, delay);
+  }
+
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+
+    this.heartbeatTimer = setInterval(() => {
+      const silentFor = Date.now() - (this.status.lastMessageAt || 0);
+
+      // No traffic (not even heartbeat echoes) for three intervals: assume the socket is dead
+      if (silentFor > this.options.heartbeatInterval * 3) {
+        console.warn('IBKR WebSocket stale, forcing reconnect');
+        this.socket?.close();
+        return;
+      }
+
+      this.send('ech+hb');
+    }, this.options.heartbeatInterval);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  private startTickle(): void {
+    if (this.tickleTimer) return;
+
+    const tickle = async () => {
+      try {
+        const response = await fetch(this.options.getTickleUrl(), {
+          method: 'POST',
+          credentials: 'include',
+          headers: {
+            'Content-Type': 'application/json',
+          }
+        });
+
+        if (!response.ok) {
+          throw new Error(`Tickle failed: ${response.status}`);
+        }
+
+        const data = await response.json();
+        const authenticated = data?.iserver?.authStatus?.authenticated;
+        if (typeof authenticated === 'boolean') {
+          this.options.onSessionStatus?.(authenticated);
+        }
+      } catch (error) {
+        console.warn('IBKR session keep-alive failed:', error);
+      }
+    };
+
+    this.tickleTimer = setInterval(tickle, this.options.tickleInterval);
+  }
+
+  private clearTimers(): void {
+    this.stopHeartbeat();
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.tickleTimer) {
+      clearInterval(this.tickleTimer);
+      this.tickleTimer = null;
+    }
+  }
+
+  private setStatus(update: Partial<SupervisorStatus>): void {
+    this.status = { ...this.status, ...update };
+    const snapshot = this.getStatus();
+    this.listeners.forEach(callback => callback(snapshot));
+  }
+}
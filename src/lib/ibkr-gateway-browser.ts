@@ -4,6 +4,12 @@
  * Based on IBKR's official Client Portal Web API
  */
 
+import { BrokerOrder, OrderModification, OrderRequest } from '@/types';
+import { contractRegistry } from '@/lib/contracts';
+import { MarketDataStream, MarketDataListener } from '@/lib/ibkr-stream';
+import { ConnectionSupervisor, SupervisorStatus } from '@/lib/ibkr-connection';
+import { buildModifyPayload, buildOrderPayload } from '@/lib/ibkr-orders';
+
 export class IBKRGatewayBrowser {
   private baseUrl = 'https://localhost:5000/v1/api';
   private sessionId: string | null = null;
@@ -11,8 +17,30 @@ export class IBKRGatewayBrowser {
   private accounts: any[] = [];
   private retryCount = 0;
   private maxRetries = 3;
+  private marketDataStream = new MarketDataStream(() => ({ baseUrl: this.baseUrl }));
+  private supervisor = new ConnectionSupervisor({
+    getSocketUrl: () => `${this.baseUrl.replace(/^http/, 'ws')}/ws`,
+    getTickleUrl: () => `${this.baseUrl}/tickle`,
+    onOpen: socket => {
+      this.marketDataStream.attach(socket);
+      if (this.orderListeners.size > 0) {
+        this.supervisor.send('sor+{}');
+      }
+    },
+    onMessage: message => this.handleSocketMessage(message),
+    onClose: () => this.marketDataStream.detach(),
+    onSessionStatus: authenticated => {
+      if (this.isAuthenticated && !authenticated) {
+        console.warn('⚠️ IBKR session expired - please log in again');
+      }
+      this.setAuthenticated(authenticated);
+    }
+  });
+  private connectionListeners: Set<() => void> = new Set();
+  private orderListeners: Set<(orders: any[]) => void> = new Set();
 
   constructor() {
+    this.supervisor.onStateChange(() => this.notifyConnectionListeners());
     this.initializeGateway();
   }
 
@@ -86,7 +114,7 @@ export class IBKRGatewayBrowser {
   private async checkExistingAuth(): Promise<boolean> {
     try {
       const status = await this.checkGatewayStatus();
-      this.isAuthenticated = status.authenticated;
+      this.setAuthenticated(status.authenticated);
       
       if (this.isAuthenticated) {
         console.log('✅ Found existing IBKR session');
@@ -109,7 +137,7 @@ export class IBKRGatewayBrowser {
       const status = await this.checkGatewayStatus();
       
       if (status.authenticated) {
-        this.isAuthenticated = true;
+        this.setAuthenticated(true);
         await this.loadAccounts();
         return { success: true };
       }
@@ -144,7 +172,7 @@ export class IBKRGatewayBrowser {
         const reauthData = await reauthResponse.json();
         
         if (reauthData.authenticated) {
-          this.isAuthenticated = true;
+          this.setAuthenticated(true);
           await this.loadAccounts();
           return { success: true };
         }
@@ -208,7 +236,7 @@ export class IBKRGatewayBrowser {
           if (status.authenticated) {
             clearInterval(checkInterval);
             popup.close();
-            this.isAuthenticated = true;
+            this.setAuthenticated(true);
             await this.loadAccounts();
             resolve({ success: true });
           }
@@ -259,7 +287,7 @@ export class IBKRGatewayBrowser {
 
     try {
       // First get contract IDs
-      const contracts = await this.searchContracts(symbols);
+      const contracts = await contractRegistry.resolveMany(symbols, { baseUrl: this.baseUrl });
       
       if (contracts.length === 0) {
         return [];
@@ -291,42 +319,6 @@ export class IBKRGatewayBrowser {
     }
   }
 
-  /**
-   * Search for contracts by symbol
-   */
-  private async searchContracts(symbols: string[]): Promise<any[]> {
-    const contracts = [];
-    
-    for (const symbol of symbols) {
-      try {
-        const response = await fetch(
-          `${this.baseUrl}/iserver/secdef/search?symbol=${encodeURIComponent(symbol)}`,
-          {
-            credentials: 'include',
-            headers: {
-              'Content-Type': 'application/json',
-            }
-          }
-        );
-
-        if (response.ok) {
-          const data = await response.json();
-          if (Array.isArray(data) && data.length > 0) {
-            contracts.push({
-              symbol,
-              conid: data[0].conid,
-              name: data[0].name || symbol
-            });
-          }
-        }
-      } catch (error) {
-        console.warn(`Failed to resolve contract for ${symbol}:`, error);
-      }
-    }
-
-    return contracts;
-  }
-
   /**
    * Get portfolio positions
    */
@@ -364,39 +356,18 @@ export class IBKRGatewayBrowser {
   }
 
   /**
-   * Place a stock order
+   * Place a stock order; brackets are sent as one parent/child order list
    */
-  async placeOrder(orderData: {
-    symbol: string;
-    quantity: number;
-    side: 'BUY' | 'SELL';
-    orderType: 'MKT' | 'LMT';
-    price?: number;
-    accountId?: string;
-  }): Promise<any> {
+  async placeOrder(orderData: OrderRequest): Promise<any> {
     if (!this.isAuthenticated) {
       throw new Error('Not authenticated with IBKR');
     }
 
     try {
       // First get contract ID
-      const contracts = await this.searchContracts([orderData.symbol]);
-      if (contracts.length === 0) {
-        throw new Error(`Could not find contract for symbol: ${orderData.symbol}`);
-      }
-
-      const conid = contracts[0].conid;
+      const conid = await contractRegistry.getConid(orderData.symbol, { baseUrl: this.baseUrl });
       const account = orderData.accountId || this.accounts[0]?.id;
 
-      const order = {
-        conid,
-        orderType: orderData.orderType,
-        side: orderData.side,
-        quantity: orderData.quantity,
-        price: orderData.price,
-        tif: 'DAY'
-      };
-
       const response = await fetch(
         `${this.baseUrl}/iserver/account/${account}/orders`,
         {
@@ -405,21 +376,113 @@ export class IBKRGatewayBrowser {
           headers: {
             'Content-Type': 'application/json',
           },
-          body: JSON.stringify({ orders: [order] })
+          body: JSON.stringify({ orders: buildOrderPayload(orderData, conid, account) })
         }
       );
 
-      if (response.ok) {
-        return await response.json();
-      }
-      
-      throw new Error(`Order placement failed: ${response.status}`);
+      return await this.readOrderResponse(response, 'Order placement');
     } catch (error) {
       console.error('Order placement error:', error);
       throw error;
     }
   }
 
+  /**
+   * Answer an order confirmation prompt (e.g. price or size warnings)
+   */
+  async replyToOrder(replyId: string, confirmed: boolean): Promise<any> {
+    if (!this.isAuthenticated) {
+      throw new Error('Not authenticated with IBKR');
+    }
+
+    const response = await fetch(`${this.baseUrl}/iserver/reply/${replyId}`, {
+      method: 'POST',
+      credentials: 'include',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ confirmed })
+    });
+
+    return this.readOrderResponse(response, 'Order reply');
+  }
+
+  /**
+   * Change the price or size of a working order
+   */
+  async modifyOrder(order: BrokerOrder, changes: OrderModification): Promise<any> {
+    if (!this.isAuthenticated) {
+      throw new Error('Not authenticated with IBKR');
+    }
+
+    const account = order.accountId || this.accounts[0]?.id;
+    const response = await fetch(`${this.baseUrl}/iserver/account/${account}/order/${order.id}`, {
+      method: 'POST',
+      credentials: 'include',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(buildModifyPayload({ ...order, accountId: account }, changes))
+    });
+
+    return this.readOrderResponse(response, 'Order modification');
+  }
+
+  /**
+   * Cancel a working order
+   */
+  async cancelOrder(order: BrokerOrder): Promise<any> {
+    if (!this.isAuthenticated) {
+      throw new Error('Not authenticated with IBKR');
+    }
+
+    const account = order.accountId || this.accounts[0]?.id;
+    const response = await fetch(`${this.baseUrl}/iserver/account/${account}/order/${order.id}`, {
+      method: 'DELETE',
+      credentials: 'include',
+      headers: {
+        'Content-Type': 'application/json',
+      }
+    });
+
+    return this.readOrderResponse(response, 'Order cancellation');
+  }
+
+  /**
+   * Listen for live order updates (`sor` topic). Returns an unsubscribe function.
+   */
+  onOrderUpdate(callback: (orders: any[]) => void): () => void {
+    this.orderListeners.add(callback);
+
+    if (this.isAuthenticated) {
+      if (this.supervisor.isOpen()) {
+        this.supervisor.send('sor+{}');
+      } else {
+        this.supervisor.start().catch(error => {
+          console.warn('Order WebSocket unavailable, retrying in background:', error);
+        });
+      }
+    }
+
+    return () => {
+      this.orderListeners.delete(callback);
+      if (this.orderListeners.size === 0) {
+        this.supervisor.send('uor+{}');
+      }
+    };
+  }
+
+  /**
+   * Order endpoints report rejections as JSON error bodies; pass those through for normalizing
+   */
+  private async readOrderResponse(response: Response, action: string): Promise<any> {
+    const data = await response.json().catch(() => null);
+    if (response.ok || data?.error) {
+      return data;
+    }
+    throw new Error(`${action} failed: ${response.status}`);
+  }
+
   /**
    * Get connection status
    */
@@ -451,48 +514,91 @@ export class IBKRGatewayBrowser {
       console.warn('Logout request failed:', error);
     }
 
-    this.isAuthenticated = false;
+    this.unsubscribeFromMarketData();
+    this.supervisor.stop();
+    this.setAuthenticated(false);
     this.sessionId = null;
     this.accounts = [];
     console.log('🔓 Logged out of IBKR');
   }
 
   /**
-   * Subscribe to real-time market data
+   * Stream ticks for a symbol over the gateway WebSocket. Returns a function that removes this listener.
    */
-  async subscribeToMarketData(symbols: string[], callback: (data: any) => void): Promise<void> {
+  async subscribeToMarketData(symbol: string, callback: MarketDataListener): Promise<() => void> {
     if (!this.isAuthenticated) {
       throw new Error('Not authenticated with IBKR');
     }
 
-    // Start polling for updates
-    const poll = async () => {
-      try {
-        const data = await this.getMarketData(symbols);
-        callback(data);
-      } catch (error) {
-        console.warn('Market data polling error:', error);
-      }
-    };
+    this.supervisor.start().catch(error => {
+      console.warn('Market data WebSocket unavailable, retrying in background:', error);
+    });
+
+    return this.marketDataStream.subscribe(symbol, callback);
+  }
+
+  /**
+   * Remove one listener for a symbol, every listener for it, or all subscriptions
+   */
+  unsubscribeFromMarketData(symbol?: string, callback?: MarketDataListener): void {
+    if (symbol) {
+      this.marketDataStream.unsubscribe(symbol, callback);
+    } else {
+      this.marketDataStream.clear();
+    }
+  }
 
-    // Initial call
-    await poll();
+  /**
+   * Listen for streaming connection state changes. Returns an unsubscribe function.
+   */
+  onStreamStatusChange(callback: (status: SupervisorStatus) => void): () => void {
+    return this.supervisor.onStateChange(callback);
+  }
+
+  /**
+   * Current streaming socket status
+   */
+  getStreamStatus(): SupervisorStatus {
+    return this.supervisor.getStatus();
+  }
 
-    // Set up polling interval (every 5 seconds)
-    const interval = setInterval(poll, 5000);
+  /**
+   * Listen for authentication or stream changes. Returns an unsubscribe function.
+   */
+  onConnectionChange(callback: () => void): () => void {
+    this.connectionListeners.add(callback);
 
-    // Store interval for cleanup (you might want to add a cleanup method)
-    (this as any)._marketDataInterval = interval;
+    return () => {
+      this.connectionListeners.delete(callback);
+    };
   }
 
   /**
-   * Stop market data subscription
+   * Client Portal API base URL in use (local gateway or portal proxy)
    */
-  unsubscribeFromMarketData(): void {
-    if ((this as any)._marketDataInterval) {
-      clearInterval((this as any)._marketDataInterval);
-      delete (this as any)._marketDataInterval;
+  getApiUrl(): string {
+    return this.baseUrl;
+  }
+
+  private handleSocketMessage(message: any): void {
+    if (typeof message?.topic === 'string' && message.topic.startsWith('sor')) {
+      const orders = Array.isArray(message.args) ? message.args : [];
+      this.orderListeners.forEach(callback => callback(orders));
+      return;
     }
+
+    this.marketDataStream.handleMessage(message);
+  }
+
+  private setAuthenticated(authenticated: boolean): void {
+    if (this.isAuthenticated === authenticated) return;
+
+    this.isAuthenticated = authenticated;
+    this.notifyConnectionListeners();
+  }
+
+  private notifyConnectionListeners(): void {
+    this.connectionListeners.forEach(callback => callback());
   }
 }
 
@@ -0,0 +1,92 @@
+import { ChartData, ChartTimeframe } from '@/types';
+import { contractRegistry } from '@/lib/contracts';
+
+/**
+ * IBKR Client Portal historical bars
+ * Maps chart timeframes to `/iserver/marketdata/history` period/bar parameters and
+ * normalizes the response into `ChartData` (time in seconds).
+ */
+
+export interface HistoryParams {
+  period: string;
+  bar: string;
+}
+
+// Default lookback per timeframe, sized to fill a chart without paging
+export const HISTORY_PARAMS: Record<ChartTimeframe['value'], HistoryParams> = {
+  '1m': { period: '1d', bar: '1min' },
+  '5m': { period: '1d', bar: '5min' },
+  '15m': { period: '2d', bar: '15min' },
+  '30m': { period: '2d', bar: '30min' },
+  '1h': { period: '1w', bar: '1h' },
+  '1d': { period: '1m', bar: '1d' }
+};
+
+export interface HistoryRequestOptions {
+  baseUrl: string;
+  period?: string;
+  outsideRth?: boolean;
+  startTime?: string;
+}
+
+/**
+ * Format epoch seconds as the `startTime` parameter (UTC `YYYYMMDD-HH:mm:ss`).
+ * The gateway counts the requested period back from this point.
+ */
+export function toHistoryStartTime(seconds: number): string {
+  const iso = new Date(seconds * 1000).toISOString();
+  return `${iso.slice(0, 10).replace(/-/g, '')}-${iso.slice(11, 19)}`;
+}
+
+/**
+ * Normalize a history response body into ascending ChartData bars
+ */
+export function normalizeHistoryBars(data: any): ChartData[] {
+  const bars: any[] = Array.isArray(data?.data) ? data.data : [];
+
+  return bars
+    .filter(bar => typeof bar?.t === 'number')
+    .map(bar => ({
+      time: Math.floor(bar.t / 1000),
+      open: Number(bar.o),
+      high: Number(bar.h),
+      low: Number(bar.l),
+      close: Number(bar.c),
+      volume: Number(bar.v) || 0
+    }))
+    .sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Fetch historical bars for a symbol from a Client Portal API base URL
+ */
+export async function fetchHistory(
+  symbol: string,
+  timeframe: ChartTimeframe['value'],
+  options: HistoryRequestOptions
+): Promise<ChartData[]> {
+  const conid = await contractRegistry.getConid(symbol, { baseUrl: options.baseUrl });
+  const defaults = HISTORY_PARAMS[timeframe];
+  const params = new URLSearchParams({
+    conid: String(conid),
+    period: options.period || defaults.period,
+    bar: defaults.bar,
+    outsideRth: String(options.outsideRth ?? true)
+  });
+  if (options.startTime) {
+    params.set('startTime', options.startTime);
+  }
+
+  const response = await fetch(`${options.baseUrl}/iserver/marketdata/history?${params}`, {
+    credentials: 'include',
+    headers: {
+      'Content-Type': 'application/json',
+    }
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch historical data: ${response.status}`);
+  }
+
+  return normalizeHistoryBars(await response.json());
+}
@@ -0,0 +1,416 @@
+import { BrokerOrder, OrderAck, OrderDelta, OrderModification, OrderRequest, OrderStatus, OrderType } from '@/types';
+import { contractRegistry } from '@/lib/contracts';
+
+/**
+ * IBKR Client Portal order entry
+ * Builds `/iserver/account/{accountId}/orders` payloads (including bracket legs),
+ * validates tickets before they are sent, normalizes order and `/iserver/reply`
+ * responses into `OrderAck` and live orders (`/iserver/account/orders`, `sor` topic)
+ * into `BrokerOrder`s.
+ */
+
+export interface IBKROrderPayload {
+  acctId: string;
+  conid: number;
+  cOID: string;
+  parentId?: string;
+  orderType: string;
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  price?: number;
+  auxPrice?: number;
+  trailingAmt?: number;
+  trailingType?: 'amt' | '%';
+  tif: string;
+  outsideRTH: boolean;
+}
+
+export const ORDER_TYPE_LABELS: Record<OrderRequest['orderType'], string> = {
+  MKT: 'Market',
+  LMT: 'Limit',
+  STP: 'Stop',
+  STOP_LIMIT: 'Stop Limit',
+  TRAIL: 'Trailing Stop'
+};
+
+// Outside regular hours IBKR won't trigger a plain stop, so a bracket's stop-loss is sent
+// as a stop limit whose limit sits this far past the stop
+export const STOP_LIMIT_OFFSET_PERCENT = 1;
+
+/**
+ * Price the ticket is expected to fill around, used for bracket sanity checks
+ */
+export function getEntryReference(order: OrderRequest, lastPrice?: number): number | undefined {
+  switch (order.orderType) {
+    case 'LMT':
+    case 'STOP_LIMIT':
+      return order.price;
+    case 'STP':
+      return order.auxPrice;
+    default:
+      return lastPrice;
+  }
+}
+
+/**
+ * Limit price of an outside-RTH stop-loss: below the stop when selling, above when buying
+ */
+export function getStopLimitPrice(side: OrderRequest['side'], stop: number): number {
+  const limit = stop * (1 + (side === 'SELL' ? -1 : 1) * STOP_LIMIT_OFFSET_PERCENT / 100);
+  const decimals = limit < 1 ? 4 : 2;
+  return Number(limit.toFixed(decimals));
+}
+
+/**
+ * A bracket's exits as tickets of their own: a take-profit limit and a stop-loss, which
+ * is a stop limit when the bracket may trade outside regular hours
+ */
+export function getBracketLegs(order: OrderRequest): OrderRequest[] {
+  if (!order.bracket) return [];
+
+  const { takeProfit, stopLoss } = order.bracket;
+  const base = {
+    symbol: order.symbol,
+    quantity: order.quantity,
+    side: order.side === 'BUY' ? 'SELL' : 'BUY',
+    tif: order.tif,
+    outsideRth: order.outsideRth,
+    accountId: order.accountId
+  } as const;
+  const legs: OrderRequest[] = [];
+
+  if (takeProfit) {
+    legs.push({ ...base, orderType: 'LMT', price: takeProfit });
+  }
+  if (stopLoss) {
+    legs.push(order.outsideRth
+      ? { ...base, orderType: 'STOP_LIMIT', auxPrice: stopLoss, price: getStopLimitPrice(base.side, stopLoss) }
+      : { ...base, orderType: 'STP', auxPrice: stopLoss });
+  }
+  return legs;
+}
+
+/**
+ * Check a ticket before submission. Returns a message describing the first problem, or null.
+ */
+export function validateOrder(order: OrderRequest, lastPrice?: number): string | null {
+  const positive = (value?: number) => value !== undefined && Number.isFinite(value) && value > 0;
+
+  if (!order.symbol) return 'Symbol is required';
+  if (!Number.isInteger(order.quantity) || order.quantity <= 0) return 'Quantity must be a whole number above zero';
+
+  if ((order.orderType === 'LMT' || order.orderType === 'STOP_LIMIT') && !positive(order.price)) {
+    return 'Limit price is required';
+  }
+  if ((order.orderType === 'STP' || order.orderType === 'STOP_LIMIT') && !positive(order.auxPrice)) {
+    return 'Stop price is required';
+  }
+  if (order.orderType === 'TRAIL') {
+    if (!positive(order.trailingAmount)) return 'Trailing amount is required';
+    if (order.trailingType === '%' && (order.trailingAmount ?? 0) >= 100) return 'Trailing percent must be below 100';
+  }
+
+  if ((order.orderType === 'STP' || order.orderType === 'STOP_LIMIT') && lastPrice && order.auxPrice) {
+    if (order.side === 'BUY' && order.auxPrice <= lastPrice) return 'Buy stop must be above the last price';
+    if (order.side === 'SELL' && order.auxPrice >= lastPrice) return 'Sell stop must be below the last price';
+  }
+
+  // IBKR only routes limit-type orders outside regular trading hours
+  if (order.outsideRth && (order.orderType === 'MKT' || order.orderType === 'STP' || order.orderType === 'TRAIL')) {
+    return `${ORDER_TYPE_LABELS[order.orderType]} orders can't execute outside regular hours; use a limit order`;
+  }
+
+  if (order.bracket) {
+    const { takeProfit, stopLoss } = order.bracket;
+    if (!positive(takeProfit) && !positive(stopLoss)) return 'Bracket needs a take-profit or a stop-loss';
+
+    const entry = getEntryReference(order, lastPrice);
+    if (entry) {
+      const long = order.side === 'BUY';
+      if (takeProfit && (long ? takeProfit <= entry : takeProfit >= entry)) {
+        return `Take-profit must be ${long ? 'above' : 'below'} the entry`;
+      }
+      if (stopLoss && (long ? stopLoss >= entry : stopLoss <= entry)) {
+        return `Stop-loss must be ${long ? 'below' : 'above'} the entry`;
+      }
+    }
+
+    // Exits are checked against the entry above, not the last price
+    for (const leg of getBracketLegs(order)) {
+      const problem = validateOrder(leg);
+      if (problem) return `${leg.orderType === 'LMT' ? 'Take-profit' : 'Stop-loss'}: ${problem}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Build the order list for a ticket: the entry plus take-profit/stop-loss children
+ * for brackets. Children are linked to the entry through its client order id.
+ */
+export function buildOrderPayload(order: OrderRequest, conid: number, accountId: string): IBKROrderPayload[] {
+  const cOID = `sfti-${Date.now()}`;
+  const entry = toOrderPayload(order, conid, accountId, cOID);
+  const children = getBracketLegs(order).map(leg => ({
+    ...toOrderPayload(leg, conid, accountId, `${cOID}-${leg.orderType === 'LMT' ? 'tp' : 'sl'}`),
+    parentId: cOID
+  }));
+
+  return [entry, ...children];
+}
+
+function toOrderPayload(order: OrderRequest, conid: number, accountId: string, cOID: string): IBKROrderPayload {
+  const payload: IBKROrderPayload = {
+    acctId: accountId,
+    conid,
+    cOID,
+    orderType: order.orderType,
+    side: order.side,
+    quantity: order.quantity,
+    tif: order.tif || 'DAY',
+    outsideRTH: order.outsideRth ?? false
+  };
+
+  switch (order.orderType) {
+    case 'LMT':
+      payload.price = order.price;
+      break;
+    case 'STP':
+      // The gateway takes a plain stop's trigger in `price`
+      payload.price = order.auxPrice;
+      break;
+    case 'STOP_LIMIT':
+      payload.price = order.price;
+      payload.auxPrice = order.auxPrice;
+      break;
+    case 'TRAIL':
+      payload.trailingAmt = order.trailingAmount;
+      payload.trailingType = order.trailingType || 'amt';
+      break;
+  }
+
+  return payload;
+}
+
+/**
+ * Order submission and replies answer with either [{ order_id, order_status }, ...]
+ * (one entry per leg) or a confirmation prompt [{ id, message: [...] }] that must be
+ * answered through `/iserver/reply/{id}`
+ */
+export function normalizeOrderAck(raw: any): OrderAck {
+  const items: any[] = Array.isArray(raw) ? raw : [raw];
+  const placed = items.filter(item => item?.order_id);
+
+  if (placed.length > 0) {
+    return {
+      orderId: String(placed[0].order_id),
+      orderIds: placed.map(item => String(item.order_id)),
+      status: /filled/i.test(placed[0].order_status || '') ? 'filled' : 'submitted',
+      message: placed[0].order_status || placed[0].msg
+    };
+  }
+
+  const prompt = items.find(item => item?.id && item?.message);
+  if (prompt) {
+    return {
+      status: 'confirmation_required',
+      replyId: String(prompt.id),
+      message: [].concat(prompt.message).join(' ')
+    };
+  }
+
+  const item = items[0];
+  return { status: 'rejected', message: item?.error || raw?.error || 'Order was not accepted' };
+}
+
+/**
+ * Map IBKR order states onto the blotter's states
+ */
+export function toOrderStatus(status: string): OrderStatus {
+  switch (status.replace(/\s+/g, '').toLowerCase()) {
+    case 'filled':
+      return 'filled';
+    case 'cancelled':
+    case 'pendingcancel':
+    case 'apicancelled':
+      return 'cancelled';
+    case 'inactive':
+    case 'rejected':
+      return 'rejected';
+    case 'pendingsubmit':
+      return 'pending';
+    default:
+      return 'working';
+  }
+}
+
+const ORDER_TYPE_ALIASES: Record<string, OrderType> = {
+  MKT: 'MKT',
+  MARKET: 'MKT',
+  LMT: 'LMT',
+  LIMIT: 'LMT',
+  STP: 'STP',
+  STOP: 'STP',
+  STOP_LIMIT: 'STOP_LIMIT',
+  STPLMT: 'STOP_LIMIT',
+  TRAIL: 'TRAIL',
+  TRAILING: 'TRAIL'
+};
+
+/**
+ * Normalize one `/iserver/account/orders` or `sor` entry. Streamed entries only carry
+ * the fields that changed, so every field is optional except the order id.
+ */
+export function normalizeOrder(raw: any): OrderDelta | null {
+  const id = raw?.orderId ?? raw?.order_id;
+  if (id === undefined || id === null) return null;
+
+  const number = (value: any) => (value === undefined || value === null || value === '' ? undefined : Number(value));
+  const delta: OrderDelta = { id: String(id), updatedAt: number(raw.lastExecutionTime_r) };
+
+  const conid = number(raw.conid);
+  const symbol = raw.ticker || (conid ? contractRegistry.getSymbol(conid) : undefined);
+  const filled = number(raw.filledQuantity);
+  const remaining = number(raw.remainingQuantity);
+  const total = number(raw.totalSize) ?? (filled !== undefined && remaining !== undefined ? filled + remaining : undefined);
+
+  if (raw.acct) delta.accountId = String(raw.acct);
+  if (conid) delta.conid = conid;
+  if (symbol) delta.symbol = String(symbol).toUpperCase();
+  if (raw.side) delta.side = /^b/i.test(raw.side) ? 'BUY' : 'SELL';
+  if (raw.orderType) delta.orderType = ORDER_TYPE_ALIASES[String(raw.orderType).toUpperCase().replace(/\s+/g, '_')] || 'LMT';
+  if (total !== undefined) delta.quantity = total;
+  if (filled !== undefined) delta.filledQuantity = filled;
+  if (number(raw.price) !== undefined) delta.price = number(raw.price);
+  if (number(raw.auxPrice) !== undefined) delta.auxPrice = number(raw.auxPrice);
+  if (number(raw.avgPrice) !== undefined) delta.avgFillPrice = number(raw.avgPrice);
+  if (raw.timeInForce) delta.tif = String(raw.timeInForce).toUpperCase() as BrokerOrder['tif'];
+  const outsideRth = raw.outsideRTH ?? raw.outside_rth;
+  if (typeof outsideRth === 'boolean' || outsideRth === 'true' || outsideRth === 'false') {
+    delta.outsideRth = outsideRth === true || outsideRth === 'true';
+  }
+  if (number(raw.trailingAmt ?? raw.trailing_amount) !== undefined) delta.trailingAmount = number(raw.trailingAmt ?? raw.trailing_amount);
+  const trailingType = raw.trailingType ?? raw.trailing_type;
+  if (trailingType === 'amt' || trailingType === '%') delta.trailingType = trailingType;
+  if (raw.status) delta.status = toOrderStatus(String(raw.status));
+  if (raw.parentId) delta.parentId = String(raw.parentId);
+  if (raw.orderDesc) delta.description = String(raw.orderDesc);
+
+  return delta;
+}
+
+/**
+ * Apply a partial update to a known order, or build a new one from it
+ */
+export function applyOrderDelta(order: BrokerOrder | undefined, delta: OrderDelta): BrokerOrder {
+  const base: BrokerOrder = order || {
+    id: delta.id,
+    symbol: '',
+    side: 'BUY',
+    orderType: 'LMT',
+    quantity: 0,
+    filledQuantity: 0,
+    status: 'working',
+    updatedAt: Date.now()
+  };
+  const defined = Object.fromEntries(Object.entries(delta).filter(([, value]) => value !== undefined));
+
+  return { ...base, ...defined };
+}
+
+/**
+ * Fetch the session's live and recently completed orders
+ */
+export async function fetchOrders(options: { baseUrl: string }): Promise<BrokerOrder[]> {
+  const response = await fetch(`${options.baseUrl}/iserver/account/orders`, {
+    method: 'GET',
+    credentials: 'include',
+    headers: {
+      'Content-Type': 'application/json',
+    }
+  });
+
+  if (!response.ok) {
+    throw new Error(`Orders request failed: ${response.status}`);
+  }
+
+  const data = await response.json();
+  const items: any[] = Array.isArray(data?.orders) ? data.orders : Array.isArray(data) ? data : [];
+
+  return items.flatMap(item => {
+    const delta = normalizeOrder(item);
+    return delta ? [applyOrderDelta(undefined, delta)] : [];
+  });
+}
+
+/**
+ * Build the `/iserver/account/{accountId}/order/{orderId}` body for a price or size change.
+ * IBKR expects the full order definition, not only the changed fields.
+ */
+export function buildModifyPayload(order: BrokerOrder, changes: OrderModification): Omit<IBKROrderPayload, 'cOID'> {
+  const payload: Omit<IBKROrderPayload, 'cOID'> = {
+    acctId: order.accountId || '',
+    conid: order.conid || 0,
+    orderType: order.orderType,
+    side: order.side,
+    quantity: changes.quantity ?? order.quantity,
+    tif: order.tif || 'DAY',
+    outsideRTH: order.outsideRth ?? false
+  };
+
+  const price = changes.price ?? order.price;
+  const auxPrice = changes.auxPrice ?? order.auxPrice;
+
+  switch (order.orderType) {
+    case 'LMT':
+      payload.price = price;
+      break;
+    case 'STP':
+      payload.price = auxPrice ?? price;
+      break;
+    case 'STOP_LIMIT':
+      payload.price = price;
+      payload.auxPrice = auxPrice;
+      break;
+    case 'TRAIL':
+      payload.trailingAmt = order.trailingAmount;
+      payload.trailingType = order.trailingType || 'amt';
+      break;
+  }
+
+  return payload;
+}
+
+/**
+ * Why an order can't be modified from the app, or null. A modification resends the whole
+ * order, so settings the broker didn't report would be lost.
+ */
+export function getModifyBlock(order: BrokerOrder): string | null {
+  if (order.outsideRth === undefined) {
+    return "IBKR didn't report whether this order trades outside regular hours; cancel and re-enter it instead";
+  }
+  if (order.orderType === 'TRAIL' && !(order.trailingAmount && order.trailingAmount > 0)) {
+    return "IBKR didn't report this order's trailing amount; cancel and re-enter it instead";
+  }
+  return null;
+}
+
+/**
+ * Check a modification before it is sent
+ */
+export function validateModification(order: BrokerOrder, changes: OrderModification): string | null {
+  if (order.status !== 'working' && order.status !== 'pending') return `Order ${order.id} is no longer working`;
+
+  const blocked = getModifyBlock(order);
+  if (blocked) return blocked;
+
+  if (changes.quantity !== undefined) {
+    if (!Number.isInteger(changes.quantity) || changes.quantity <= 0) return 'Quantity must be a whole number above zero';
+    if (changes.quantity < order.filledQuantity) return `Quantity can't be below the ${order.filledQuantity} already filled`;
+  }
+  if (changes.price !== undefined && !(changes.price > 0)) return 'Price must be above zero';
+  if (changes.auxPrice !== undefined && !(changes.auxPrice > 0)) return 'Stop price must be above zero';
+
+  return null;
+}
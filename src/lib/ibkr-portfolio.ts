@@ -0,0 +1,36 @@
+import { AccountSummary } from '@/types';
+
+/**
+ * IBKR Client Portal account summary
+ * Reads `/portfolio/{accountId}/summary`, whose values arrive as
+ * `{ netliquidation: { amount, currency }, totalcashvalue: { amount }, ... }`.
+ */
+
+export function normalizeAccountSummary(raw: any, accountId: string): AccountSummary {
+  const amount = (key: string) => {
+    const value = raw?.[key]?.amount ?? raw?.[key];
+    return value === undefined || value === null ? undefined : Number(value);
+  };
+
+  return {
+    accountId,
+    netLiquidation: amount('netliquidation') ?? 0,
+    cash: amount('totalcashvalue'),
+    currency: raw?.netliquidation?.currency || undefined
+  };
+}
+
+export async function fetchAccountSummary(accountId: string, options: { baseUrl: string }): Promise<AccountSummary> {
+  const response = await fetch(`${options.baseUrl}/portfolio/${accountId}/summary`, {
+    credentials: 'include',
+    headers: {
+      'Content-Type': 'application/json',
+    }
+  });
+
+  if (!response.ok) {
+    throw new Error(`Account summary request failed: ${response.status}`);
+  }
+
+  return normalizeAccountSummary(await response.json(), accountId);
+}
@@ -0,0 +1,161 @@
+import { ScannerFilters, Stock } from '@/types';
+import { contractRegistry } from '@/lib/contracts';
+
+/**
+ * IBKR Client Portal market scanner
+ * Translates `ScannerFilters` into `/iserver/scanner/run` parameters and normalizes
+ * the scanner response into ranked contracts. Filters the scanner cannot express
+ * (float, news) are left for the caller to apply on enriched rows.
+ */
+
+export interface ScannerFilterParam {
+  code: string;
+  value: number;
+}
+
+export interface ScannerParams {
+  instrument: string;
+  type: string;
+  location: string;
+  filter: ScannerFilterParam[];
+}
+
+export interface ScannerContract {
+  symbol: string;
+  conid: number;
+  name?: string;
+  exchange?: string;
+  rank: number;
+}
+
+export interface ScannerRequestOptions {
+  baseUrl: string;
+}
+
+export const SCAN_CODES = {
+  GAINERS: 'TOP_PERC_GAIN',
+  LOSERS: 'TOP_PERC_LOSE',
+  MOST_ACTIVE: 'MOST_ACTIVE'
+} as const;
+
+export const SCANNER_LOCATION = 'STK.US.MAJOR';
+
+// The gateway returns at most 50 rows per scan
+export const SCANNER_MAX_ROWS = 50;
+
+/**
+ * Pick the scan code whose ranking matches the change window:
+ * gainers when only up moves pass, losers when only down moves pass, otherwise volume
+ */
+export function selectScanCode(filters: ScannerFilters): string {
+  if (filters.changeMin >= 0) return SCAN_CODES.GAINERS;
+  if (filters.changeMax <= 0) return SCAN_CODES.LOSERS;
+  return SCAN_CODES.MOST_ACTIVE;
+}
+
+/**
+ * Build scanner run parameters from the scanner filters.
+ * Market cap is expressed in millions; bounds that cannot exclude anything are omitted.
+ */
+export function buildScannerParams(filters: ScannerFilters): ScannerParams {
+  const filter: ScannerFilterParam[] = [];
+  const add = (code: string, value: number, applies: boolean) => {
+    if (applies && Number.isFinite(value)) {
+      filter.push({ code, value });
+    }
+  };
+
+  add('priceAbove', filters.priceMin, filters.priceMin > 0);
+  add('priceBelow', filters.priceMax, filters.priceMax > 0);
+  add('volumeAbove', filters.volumeMin, filters.volumeMin > 0);
+  add('marketCapAbove1e6', filters.marketCapMin / 1_000_000, filters.marketCapMin > 0);
+  add('marketCapBelow1e6', filters.marketCapMax / 1_000_000, filters.marketCapMax > 0);
+  add('changePercAbove', filters.changeMin, filters.changeMin > -100);
+  add('changePercBelow', filters.changeMax, filters.changeMax < 100);
+
+  return {
+    instrument: 'STK',
+    type: selectScanCode(filters),
+    location: SCANNER_LOCATION,
+    filter
+  };
+}
+
+/**
+ * Normalize a scanner response ({ contracts: [...] } or a bare array) into ranked contracts
+ */
+export function normalizeScannerResults(data: any): ScannerContract[] {
+  const contracts: any[] = Array.isArray(data?.contracts) ? data.contracts : Array.isArray(data) ? data : [];
+
+  return contracts
+    .map((item, index) => ({
+      symbol: String(item.symbol || item.contract_description_1 || '').toUpperCase(),
+      conid: Number(item.con_id ?? item.conid ?? item.conidex),
+      name: item.company_name || undefined,
+      exchange: item.listing_exchange?.split('.')[0] || undefined,
+      rank: index + 1
+    }))
+    .filter(contract => contract.symbol && Number.isFinite(contract.conid) && contract.conid > 0)
+    .slice(0, SCANNER_MAX_ROWS);
+}
+
+/**
+ * Rank snapshot rows the way the gateway would for these parameters.
+ * Used by sources without a server-side scanner.
+ */
+export function applyScannerParams(rows: Stock[], params: ScannerParams): Stock[] {
+  const bounds: Record<string, (stock: Stock, value: number) => boolean> = {
+    priceAbove: (stock, value) => stock.price >= value,
+    priceBelow: (stock, value) => stock.price <= value,
+    volumeAbove: (stock, value) => stock.volume >= value,
+    marketCapAbove1e6: (stock, value) => stock.marketCap >= value * 1_000_000,
+    marketCapBelow1e6: (stock, value) => stock.marketCap <= value * 1_000_000,
+    changePercAbove: (stock, value) => stock.changePercent >= value,
+    changePercBelow: (stock, value) => stock.changePercent <= value
+  };
+
+  const ranking: Record<string, (a: Stock, b: Stock) => number> = {
+    [SCAN_CODES.GAINERS]: (a, b) => b.changePercent - a.changePercent,
+    [SCAN_CODES.LOSERS]: (a, b) => a.changePercent - b.changePercent,
+    [SCAN_CODES.MOST_ACTIVE]: (a, b) => b.volume - a.volume
+  };
+
+  return rows
+    .filter(stock => params.filter.every(({ code, value }) => bounds[code]?.(stock, value) ?? true))
+    .sort(ranking[params.type] || ranking[SCAN_CODES.MOST_ACTIVE])
+    .slice(0, SCANNER_MAX_ROWS);
+}
+
+/**
+ * Run a market scan against a Client Portal API base URL.
+ * Result contracts are registered so snapshots and streams can route them by conid.
+ */
+export async function runScanner(params: ScannerParams, options: ScannerRequestOptions): Promise<ScannerContract[]> {
+  const response = await fetch(`${options.baseUrl}/iserver/scanner/run`, {
+    method: 'POST',
+    credentials: 'include',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(params)
+  });
+
+  if (!response.ok) {
+    throw new Error(`Scanner request failed: ${response.status}`);
+  }
+
+  const contracts = normalizeScannerResults(await response.json());
+
+  contracts.forEach(contract => {
+    contractRegistry.register({
+      conid: contract.conid,
+      symbol: contract.symbol,
+      name: contract.name || contract.symbol,
+      secType: 'STK',
+      exchange: contract.exchange || 'SMART',
+      resolvedAt: Date.now()
+    });
+  });
+
+  return contracts;
+}
@@ -0,0 +1,298 @@
+import { Stock, StockDelta } from '@/types';
+import { contractRegistry, ContractLookupOptions } from '@/lib/contracts';
+
+/**
+ * IBKR Client Portal market data streaming
+ * Manages `smd+<conid>` / `umd+<conid>` subscriptions over the gateway WebSocket,
+ * decodes numeric field codes into typed `StockDelta` updates and dispatches
+ * them to listeners per symbol.
+ */
+
+export type MarketDataListener = (delta: StockDelta) => void;
+
+// Client Portal market data field codes
+export const MARKET_DATA_FIELDS = {
+  LAST: '31',
+  SYMBOL: '55',
+  HIGH: '70',
+  LOW: '71',
+  CHANGE: '82',
+  CHANGE_PERCENT: '83',
+  BID: '84',
+  ASK: '86',
+  VOLUME: '87',
+  COMPANY_NAME: '7051',
+  MARKET_CAP: '7289',
+  OPEN: '7295',
+  PRIOR_CLOSE: '7741',
+  VOLUME_LONG: '7762'
+} as const;
+
+const SUBSCRIBED_FIELDS = Object.values(MARKET_DATA_FIELDS);
+const SNAPSHOT_PREFLIGHT_DELAY = 500;
+
+const SUFFIX_MULTIPLIERS: Record<string, number> = {
+  K: 1_000,
+  M: 1_000_000,
+  B: 1_000_000_000
+};
+
+/**
+ * Parse a raw field value such as "1.23", "C1.23" (prior close), "H1.23" (halted),
+ * "+4.5%", "1,234" or "12.5M" into a number
+ */
+export function parseFieldValue(raw: unknown): number | undefined {
+  if (typeof raw === 'number') {
+    return Number.isFinite(raw) ? raw : undefined;
+  }
+  if (typeof raw !== 'string' || raw.trim() === '') {
+    return undefined;
+  }
+
+  const cleaned = raw.trim().replace(/^[CH]/, '').replace(/[%,]/g, '');
+  const suffix = cleaned.slice(-1).toUpperCase();
+  const multiplier = SUFFIX_MULTIPLIERS[suffix];
+  const value = parseFloat(multiplier ? cleaned.slice(0, -1) : cleaned);
+
+  if (Number.isNaN(value)) {
+    return undefined;
+  }
+  return multiplier ? value * multiplier : value;
+}
+
+/**
+ * Decode a Client Portal market data message into a typed delta.
+ * Only the fields present in the message are set.
+ */
+export function decodeMarketData(symbol: string, item: Record<string, any>): StockDelta {
+  const delta: StockDelta = {
+    symbol,
+    conid: Number(item.conid),
+    lastUpdate: new Date(item._updated || Date.now())
+  };
+
+  const assign = (key: keyof StockDelta, field: string) => {
+    const value = parseFieldValue(item[field]);
+    if (value !== undefined) {
+      (delta as any)[key] = value;
+    }
+  };
+
+  assign('price', MARKET_DATA_FIELDS.LAST);
+  assign('change', MARKET_DATA_FIELDS.CHANGE);
+  assign('changePercent', MARKET_DATA_FIELDS.CHANGE_PERCENT);
+  assign('bid', MARKET_DATA_FIELDS.BID);
+  assign('ask', MARKET_DATA_FIELDS.ASK);
+  assign('high', MARKET_DATA_FIELDS.HIGH);
+  assign('low', MARKET_DATA_FIELDS.LOW);
+  assign('open', MARKET_DATA_FIELDS.OPEN);
+  assign('previousClose', MARKET_DATA_FIELDS.PRIOR_CLOSE);
+  assign('marketCap', MARKET_DATA_FIELDS.MARKET_CAP);
+
+  // Prefer the raw long volume over the formatted one
+  const volume = parseFieldValue(item[MARKET_DATA_FIELDS.VOLUME_LONG]) ?? parseFieldValue(item[MARKET_DATA_FIELDS.VOLUME]);
+  if (volume !== undefined) {
+    delta.volume = volume;
+  }
+
+  if (typeof item[MARKET_DATA_FIELDS.COMPANY_NAME] === 'string') {
+    delta.name = item[MARKET_DATA_FIELDS.COMPANY_NAME];
+  }
+
+  return delta;
+}
+
+/**
+ * Merge a streamed delta into an existing stock row
+ */
+export function applyStockDelta(stock: Stock, delta: StockDelta): Stock {
+  return {
+    ...stock,
+    name: delta.name ?? stock.name,
+    price: delta.price ?? stock.price,
+    change: delta.change ?? stock.change,
+    changePercent: delta.changePercent ?? stock.changePercent,
+    volume: delta.volume ?? stock.volume,
+    marketCap: delta.marketCap ?? stock.marketCap,
+    float: delta.float ?? stock.float,
+    news: delta.news ?? stock.news,
+    lastUpdate: delta.lastUpdate ?? stock.lastUpdate
+  };
+}
+
+/**
+ * Fetch one snapshot per symbol with every streamed field.
+ * The gateway answers the first request for a conid without values, so rows
+ * missing a last price are requested once more after a short pause.
+ */
+export async function fetchSnapshots(symbols: string[], options: { baseUrl: string }): Promise<StockDelta[]> {
+  const contracts = await contractRegistry.resolveMany(symbols, { baseUrl: options.baseUrl });
+  if (contracts.length === 0) {
+    return [];
+  }
+
+  const request = async (): Promise<any[]> => {
+    const conids = contracts.map(contract => contract.conid).join(',');
+    const response = await fetch(
+      `${options.baseUrl}/iserver/marketdata/snapshot?conids=${conids}&fields=${SUBSCRIBED_FIELDS.join(',')}`,
+      {
+        credentials: 'include',
+        headers: {
+          'Content-Type': 'application/json',
+        }
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Market data snapshot failed: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return Array.isArray(data) ? data : [data];
+  };
+
+  let items = await request();
+  if (items.some(item => item?.[MARKET_DATA_FIELDS.LAST] === undefined)) {
+    await new Promise(resolve => setTimeout(resolve, SNAPSHOT_PREFLIGHT_DELAY));
+    items = await request();
+  }
+
+  return items.flatMap(item => {
+    const symbol = contractRegistry.getSymbol(item?.conid);
+    return symbol ? [decodeMarketData(symbol, item)] : [];
+  });
+}
+
+/**
+ * Parse a WebSocket frame from the gateway, which may arrive as text or binary
+ */
+export function parseSocketMessage(data: unknown): any | null {
+  try {
+    if (typeof data === 'string') {
+      return JSON.parse(data);
+    }
+    if (data instanceof ArrayBuffer) {
+      return JSON.parse(new TextDecoder().decode(data));
+    }
+  } catch {
+    // Non-JSON frames (e.g. heartbeat echoes)
+  }
+  return null;
+}
+
+export class MarketDataStream {
+  private socket: WebSocket | null = null;
+  private listeners: Map<string, Set<MarketDataListener>> = new Map();
+  private conids: Map<string, number> = new Map();
+  private lookupOptions: () => ContractLookupOptions;
+
+  constructor(lookupOptions: () => ContractLookupOptions = () => ({})) {
+    this.lookupOptions = lookupOptions;
+  }
+
+  /**
+   * Use an open gateway socket and (re)send all active subscriptions on it
+   */
+  attach(socket: WebSocket): void {
+    this.socket = socket;
+    this.conids.forEach(conid => this.send(`smd+${conid}+${JSON.stringify({ fields: SUBSCRIBED_FIELDS })}`));
+  }
+
+  /**
+   * Stop using the current socket; subscriptions are kept for the next attach
+   */
+  detach(): void {
+    this.socket = null;
+  }
+
+  /**
+   * Subscribe a listener to a symbol's ticks. Returns a function that removes it.
+   */
+  async subscribe(symbol: string, listener: MarketDataListener): Promise<() => void> {
+    const key = symbol.toUpperCase();
+    const listeners = this.listeners.get(key) || new Set<MarketDataListener>();
+    listeners.add(listener);
+    this.listeners.set(key, listeners);
+
+    if (!this.conids.has(key)) {
+      const contract = await contractRegistry.resolve(key, this.lookupOptions());
+      if (!contract) {
+        console.warn(`No IBKR contract found for ${key}`);
+      } else if (this.listeners.has(key) && !this.conids.has(key)) {
+        this.conids.set(key, contract.conid);
+        this.send(`smd+${contract.conid}+${JSON.stringify({ fields: SUBSCRIBED_FIELDS })}`);
+      }
+    }
+
+    return () => this.unsubscribe(key, listener);
+  }
+
+  /**
+   * Remove one listener, or every listener when none is given.
+   * The gateway subscription is cancelled once a symbol has no listeners left.
+   */
+  unsubscribe(symbol: string, listener?: MarketDataListener): void {
+    const key = symbol.toUpperCase();
+    const listeners = this.listeners.get(key);
+    if (!listeners) return;
+
+    if (listener) {
+      listeners.delete(listener);
+    } else {
+      listeners.clear();
+    }
+
+    if (listeners.size === 0) {
+      this.listeners.delete(key);
+      const conid = this.conids.get(key);
+      if (conid !== undefined) {
+        this.send(`umd+${conid}+{}`);
+        this.conids.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Remove all subscriptions
+   */
+  clear(): void {
+    Array.from(this.listeners.keys()).forEach(symbol => this.unsubscribe(symbol));
+  }
+
+  /**
+   * Symbols with at least one listener
+   */
+  getSubscribedSymbols(): string[] {
+    return Array.from(this.listeners.keys());
+  }
+
+  /**
+   * Handle a parsed gateway message. Returns true if it was market data.
+   */
+  handleMessage(message: any): boolean {
+    if (typeof message?.topic !== 'string' || !message.topic.startsWith('smd+')) {
+      return false;
+    }
+
+    const conid = message.conid ?? message.topic.split('+')[1];
+    const symbol = contractRegistry.getSymbol(conid);
+    if (!symbol) return true;
+
+    const delta = decodeMarketData(symbol, { ...message, conid });
+    this.listeners.get(symbol)?.forEach(listener => {
+      try {
+        listener(delta);
+      } catch (error) {
+        console.error(`Market data listener for ${symbol} failed:`, error);
+      }
+    });
+
+    return true;
+  }
+
+  private send(message: string): void {
+    if (this.socket && this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(message);
+    }
+  }
+}
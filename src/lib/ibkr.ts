@@ -1,4 +1,29 @@
-import { IBKRConnection, IBKRMessage, ChartData } from '@/types';
+import { IBKRConnection, IBKRMessage, ChartData, ChartTimeframe } from '@/types';
+import { contractRegistry } from '@/lib/contracts';
+import { MarketDataStream, MarketDataListener } from '@/lib/ibkr-stream';
+import { ConnectionSupervisor, SupervisorStatus } from '@/lib/ibkr-connection';
+import { normalizeHistoryBars, HISTORY_PARAMS } from '@/lib/ibkr-history';
+import { marketSimulator } from '@/lib/market-sim';
+
+/**
+ * Convert TWS-style bar sizes ("5 mins", "1 hour") to Client Portal history bars ("5min", "1h")
+ */
+function toHistoryBar(barSize: string): string {
+  const [count, unit = 'min'] = barSize.trim().split(/\s+/);
+  if (unit.startsWith('hour')) return `${count}h`;
+  if (unit.startsWith('day')) return `${count}d`;
+  if (unit.startsWith('week')) return `${count}w`;
+  return `${count}min`;
+}
+
+/**
+ * Chart timeframe matching a TWS-style bar size, used for simulated fallback bars
+ */
+function toTimeframe(barSize: string): ChartTimeframe['value'] {
+  const bar = toHistoryBar(barSize);
+  const timeframes = Object.keys(HISTORY_PARAMS) as ChartTimeframe['value'][];
+  return timeframes.find(timeframe => HISTORY_PARAMS[timeframe].bar === bar) || '1m';
+}
 
 /**
  * IBKR Service with Embedded Client Portal Gateway for Mobile Deployment
@@ -9,10 +34,25 @@ export class IBKRService {
   private isAuthenticated = false;
   private sessionId: string | null = null;
   private gatewayUrl = 'https://localhost:5000';
-  private websocket: WebSocket | null = null;
+  private connectionListeners: Set<(connection: IBKRConnection) => void> = new Set();
+  private orderListeners: Set<(orders: any[]) => void> = new Set();
   private credentials: { username: string; password: string } | null = null;
   private connection: IBKRConnection;
-  private subscribers: Map<string, (data: any) => void> = new Map();
+  private marketDataStream = new MarketDataStream(() => ({ baseUrl: this.getApiUrl() }));
+  private supervisor = new ConnectionSupervisor({
+    getSocketUrl: () => `${this.gatewayUrl.replace(/^http/, 'ws')}${this.gatewayConfig.routes.websocket}`,
+    getTickleUrl: () => `${this.gatewayUrl}${this.gatewayConfig.routes.tickle}`,
+    // Re-sends every active smd/sor subscription after each (re)connect
+    onOpen: socket => {
+      this.marketDataStream.attach(socket);
+      if (this.orderListeners.size > 0) {
+        this.supervisor.send('sor+{}');
+      }
+    },
+    onMessage: message => this.handleWebSocketMessage(message),
+    onClose: () => this.marketDataStream.detach(),
+    onSessionStatus: authenticated => this.handleSessionStatus(authenticated)
+  });
 
   // Mobile-optimized Client Portal Gateway configuration
   private gatewayConfig = {
@@ -28,8 +68,10 @@ export class IBKRService {
       accounts: '/v1/api/iserver/accounts',
       positions: '/v1/api/portfolio/{accountId}/positions/0',
       marketData: '/v1/api/iserver/marketdata/snapshot',
+      history: '/v1/api/iserver/marketdata/history',
       orders: '/v1/api/iserver/account/orders',
-      websocket: '/v1/api/ws'
+      websocket: '/v1/api/ws',
+      tickle: '/v1/api/tickle'
     }
   };
 
@@ -47,6 +89,8 @@ export class IBKRService {
     this.gatewayConfig.username = process.env.IBKR_USERNAME || '';
     this.gatewayConfig.password = process.env.IBKR_PASSWORD || '';
     this.gatewayConfig.paper = process.env.IBKR_PAPER !== 'false';
+
+    this.supervisor.onStateChange(status => this.handleSupervisorStatus(status));
   }
 
   async setCredentials(username: string, password: string, usePaper: boolean = true): Promise<void> {
@@ -97,7 +141,7 @@ export class IBKRService {
         await this.establishWebSocketConnection();
         console.log('🔄 WebSocket connection established');
       } catch (wsError) {
-        console.warn('⚠️ WebSocket connection failed, using polling mode');
+        console.warn('⚠️ WebSocket connection failed, retrying in background');
       }
 
       return this.connection;
@@ -107,6 +151,8 @@ export class IBKRService {
       this.connection.status = 'error';
       this.connection.connected = false;
       return this.connection;
+    } finally {
+      this.notifyConnectionListeners();
     }
   }
 
@@ -195,60 +241,40 @@ export class IBKRService {
   }
 
   private async establishWebSocketConnection(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      try {
-        // WebSocket URL for IBKR Client Portal Gateway
-        const wsUrl = `wss://localhost:5000${this.gatewayConfig.routes.websocket}`;
-        
-        this.websocket = new WebSocket(wsUrl);
-
-        this.websocket.onopen = () => {
-          console.log('WebSocket connected to IBKR Gateway');
-          
-          // Send initial heartbeat
-          this.websocket?.send('ech+hb');
-          
-          resolve();
-        };
-
-        this.websocket.onmessage = (event) => {
-          try {
-            const data = JSON.parse(event.data);
-            this.handleWebSocketMessage(data);
-          } catch (error) {
-            // Handle non-JSON messages (like heartbeat responses)
-            if (event.data === 'ech+hb') {
-              console.log('Heartbeat response received');
-            }
-          }
-        };
-
-        this.websocket.onerror = (error) => {
-          console.error('WebSocket error:', error);
-          reject(error);
-        };
-
-        this.websocket.onclose = () => {
-          console.log('WebSocket disconnected from IBKR Gateway');
-          this.websocket = null;
-        };
+    // The supervisor keeps reconnecting in the background even if this first attempt fails
+    return this.supervisor.start();
+  }
 
-        // Timeout after 10 seconds
-        setTimeout(() => {
-          if (this.websocket?.readyState !== WebSocket.OPEN) {
-            reject(new Error('WebSocket connection timeout'));
-          }
-        }, 10000);
+  /**
+   * Mirror socket supervisor state into the public connection status
+   */
+  private handleSupervisorStatus(status: SupervisorStatus): void {
+    if (this.isAuthenticated) {
+      this.connection.status = status.state === 'reconnecting' ? 'reconnecting' : 'connected';
+    }
+    this.connection.reconnectAttempt = status.attempt;
+    this.notifyConnectionListeners();
+  }
 
-      } catch (error) {
-        reject(error);
-      }
-    });
+  /**
+   * Session keep-alive result from /tickle
+   */
+  private handleSessionStatus(authenticated: boolean): void {
+    if (authenticated === this.isAuthenticated) return;
+
+    this.isAuthenticated = authenticated;
+    this.connection.connected = authenticated;
+    this.connection.status = authenticated ? 'connected' : 'authentication_required';
+    if (!authenticated) {
+      console.warn('⚠️ IBKR Gateway session expired - reauthentication required');
+    }
+    this.notifyConnectionListeners();
   }
 
   private handleWebSocketMessage(data: any): void {
     if (data.topic) {
-      switch (data.topic) {
+      // Subscription topics carry the conid, e.g. "smd+265598"
+      switch (data.topic.split('+')[0]) {
         case 'system':
           console.log('System message:', data);
           break;
@@ -258,6 +284,7 @@ export class IBKRService {
             this.isAuthenticated = data.args.authenticated;
             this.connection.connected = this.isAuthenticated;
             this.connection.status = this.isAuthenticated ? 'connected' : 'disconnected';
+            this.notifyConnectionListeners();
           }
           break;
         case 'smd':
@@ -281,25 +308,8 @@ export class IBKRService {
   }
 
   private handleMarketDataUpdate(data: any): void {
-    // Process market data and notify subscribers
-    if (data.args && Array.isArray(data.args)) {
-      data.args.forEach((item: any) => {
-        if (item.conid) {
-          // Find subscribers for this contract
-          this.subscribers.forEach((callback, symbol) => {
-            // In a real implementation, you'd map conid to symbol
-            callback({
-              symbol: symbol,
-              price: item['31'] || item.price,
-              change: item['82'] || 0,
-              changePercent: item['83'] || 0,
-              volume: item['7295'] || 0,
-              timestamp: Date.now()
-            });
-          });
-        }
-      });
-    }
+    // Decode field codes and notify the listeners for this contract
+    this.marketDataStream.handleMessage(data);
 
     // Emit custom event for UI components
     if (typeof window !== 'undefined') {
@@ -308,10 +318,24 @@ export class IBKRService {
   }
 
   private handleOrderUpdate(data: any): void {
-    // Emit order updates for the UI to consume
-    if (typeof window !== 'undefined') {
-      window.dispatchEvent(new CustomEvent('ibkr-order-update', { detail: data }));
-    }
+    // `sor` frames carry an array of changed orders in args
+    const orders = Array.isArray(data.args) ? data.args : [];
+    this.orderListeners.forEach(callback => callback(orders));
+  }
+
+  /**
+   * Listen for live order updates (`sor` topic). Returns an unsubscribe function.
+   */
+  onOrderUpdate(callback: (orders: any[]) => void): () => void {
+    this.orderListeners.add(callback);
+    this.supervisor.send('sor+{}');
+
+    return () => {
+      this.orderListeners.delete(callback);
+      if (this.orderListeners.size === 0) {
+        this.supervisor.send('uor+{}');
+      }
+    };
   }
 
   async getMarketData(symbols: string[]): Promise<any[]> {
@@ -321,10 +345,38 @@ export class IBKRService {
     }
 
     try {
-      // In a real implementation, you'd convert symbols to contract IDs (conids)
-      // For now, we'll return demo data with a note
-      console.warn('Market data integration ready - using demo data');
-      return this.getDemoData(symbols);
+      const contracts = await contractRegistry.resolveMany(symbols, { baseUrl: this.getApiUrl() });
+      if (contracts.length === 0) {
+        return [];
+      }
+
+      const conids = contracts.map(c => c.conid).join(',');
+      const response = await fetch(
+        `${this.gatewayUrl}${this.gatewayConfig.routes.marketData}?conids=${conids}&fields=31,82,83,7295`,
+        {
+          method: 'GET',
+          headers: {
+            'Accept': 'application/json',
+          }
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch market data: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      return (Array.isArray(data) ? data : [data])
+        .filter((item: any) => contractRegistry.getSymbol(item.conid))
+        .map((item: any) => ({
+          symbol: contractRegistry.getSymbol(item.conid),
+          conid: item.conid,
+          price: parseFloat(item['31']) || 0,
+          change: parseFloat(item['82']) || 0,
+          changePercent: parseFloat(item['83']) || 0,
+          volume: parseFloat(item['7295']) || 0,
+          timestamp: Date.now()
+        }));
     } catch (error) {
       console.error('Error fetching market data:', error);
       return this.getDemoData(symbols);
@@ -332,17 +384,20 @@ export class IBKRService {
   }
 
   /**
-   * Demo data for development/testing
+   * Demo data from the shared market simulator, consistent with simulated charts and ticks
    */
   private getDemoData(symbols: string[]): any[] {
-    return symbols.map(symbol => ({
-      symbol,
-      price: Math.random() * 100 + 50,
-      change: (Math.random() - 0.5) * 10,
-      changePercent: (Math.random() - 0.5) * 10,
-      volume: Math.floor(Math.random() * 1000000),
-      timestamp: Date.now()
-    }));
+    return symbols.map(symbol => {
+      const stock = marketSimulator.getStock(symbol);
+      return {
+        symbol: stock.symbol,
+        price: stock.price,
+        change: stock.change,
+        changePercent: stock.changePercent,
+        volume: stock.volume,
+        timestamp: stock.lastUpdate.getTime()
+      };
+    });
   }
 
   async getAccountInfo(): Promise<any> {
@@ -394,24 +449,24 @@ export class IBKRService {
     }
   }
 
-  async subscribeToMarketData(symbol: string, callback: (data: any) => void): Promise<void> {
-    this.subscribers.set(symbol, callback);
-    
-    if (this.websocket && this.websocket.readyState === WebSocket.OPEN) {
-      // In a real implementation, you'd convert symbol to conid
-      // For now, we'll just store the subscription
+  /**
+   * Stream ticks for a symbol. Returns a function that removes this listener.
+   */
+  async subscribeToMarketData(symbol: string, callback: MarketDataListener): Promise<() => void> {
+    const unsubscribe = await this.marketDataStream.subscribe(symbol, callback);
+
+    if (this.supervisor.isOpen()) {
       console.log(`Subscribed to ${symbol} market data via WebSocket`);
     } else {
-      console.log(`Subscribed to ${symbol} market data via polling`);
+      console.log(`Subscribed to ${symbol} market data - streaming starts when the WebSocket connects`);
     }
+
+    return unsubscribe;
   }
 
-  async unsubscribeFromMarketData(symbol: string): Promise<void> {
-    this.subscribers.delete(symbol);
-    
-    if (this.websocket && this.websocket.readyState === WebSocket.OPEN) {
-      console.log(`Unsubscribed from ${symbol} market data`);
-    }
+  async unsubscribeFromMarketData(symbol: string, callback?: MarketDataListener): Promise<void> {
+    this.marketDataStream.unsubscribe(symbol, callback);
+    console.log(`Unsubscribed from ${symbol} market data`);
   }
 
   async requestHistoricalData(
@@ -421,48 +476,45 @@ export class IBKRService {
     barSize: string,
     callback: (data: ChartData[]) => void
   ): Promise<void> {
-    console.warn('Using mock historical data - IBKR Gateway integration ready');
-    callback(this.generateMockHistoricalData(symbol));
-  }
+    if (!this.isAuthenticated) {
+      console.warn('Not authenticated with IBKR - using simulated historical data');
+      callback(marketSimulator.getBars(symbol, toTimeframe(barSize)));
+      return;
+    }
 
-  /**
-   * Generate mock historical data
-   */
-  private generateMockHistoricalData(symbol: string): ChartData[] {
-    const data: ChartData[] = [];
-    const now = Date.now();
-    const basePrice = Math.random() * 5 + 0.5;
-    
-    for (let i = 99; i >= 0; i--) {
-      const time = now - (i * 60 * 1000);
-      const volatility = 0.02;
-      const change = (Math.random() - 0.5) * volatility;
-      
-      const open = basePrice * (1 + change);
-      const close = open * (1 + (Math.random() - 0.5) * volatility);
-      const high = Math.max(open, close) * (1 + Math.random() * volatility * 0.5);
-      const low = Math.min(open, close) * (1 - Math.random() * volatility * 0.5);
-      const volume = Math.floor(Math.random() * 1000000 + 10000);
-      
-      data.push({
-        time: Math.floor(time / 1000),
-        open: Number(open.toFixed(4)),
-        high: Number(high.toFixed(4)),
-        low: Number(low.toFixed(4)),
-        close: Number(close.toFixed(4)),
-        volume
+    try {
+      const conid = await contractRegistry.getConid(symbol, { baseUrl: this.getApiUrl() });
+      const params = new URLSearchParams({
+        conid: String(conid),
+        period: duration.replace(/\s+/g, '').toLowerCase(),
+        bar: toHistoryBar(barSize),
+        outsideRth: 'true'
+      });
+      if (endDate) {
+        params.set('startTime', endDate);
+      }
+
+      const response = await fetch(`${this.gatewayUrl}${this.gatewayConfig.routes.history}?${params}`, {
+        method: 'GET',
+        headers: {
+          'Accept': 'application/json',
+        }
       });
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch historical data: ${response.statusText}`);
+      }
+
+      callback(normalizeHistoryBars(await response.json()));
+    } catch (error) {
+      console.error('Error fetching historical data:', error);
+      callback(marketSimulator.getBars(symbol, toTimeframe(barSize)));
     }
-    
-    return data;
   }
 
   disconnect(): void {
-    // Close WebSocket connection
-    if (this.websocket) {
-      this.websocket.close();
-      this.websocket = null;
-    }
+    // Stop the WebSocket supervisor (no reconnects after an explicit disconnect)
+    this.supervisor.stop();
 
     // Clear authentication state
     this.isAuthenticated = false;
@@ -470,15 +522,39 @@ export class IBKRService {
     this.credentials = null;
     this.connection.connected = false;
     this.connection.status = 'disconnected';
-    this.subscribers.clear();
+    this.marketDataStream.clear();
+    this.notifyConnectionListeners();
 
     console.log('Disconnected from IBKR Gateway');
   }
 
+  /**
+   * Client Portal API base URL of the local gateway
+   */
+  getApiUrl(): string {
+    return `${this.gatewayUrl}/v1/api`;
+  }
+
   getConnection(): IBKRConnection {
     return { ...this.connection };
   }
 
+  /**
+   * Listen for connection changes (auth, socket reconnects). Returns an unsubscribe function.
+   */
+  onConnectionChange(callback: (connection: IBKRConnection) => void): () => void {
+    this.connectionListeners.add(callback);
+
+    return () => {
+      this.connectionListeners.delete(callback);
+    };
+  }
+
+  private notifyConnectionListeners(): void {
+    const snapshot = this.getConnection();
+    this.connectionListeners.forEach(callback => callback(snapshot));
+  }
+
   isConnected(): boolean {
     return this.isAuthenticated && this.connection.connected;
   }
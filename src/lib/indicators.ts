@@ -0,0 +1,107 @@
+import { ChartData } from '@/types';
+
+/**
+ * Technical indicators
+ * Pure calculations over ascending bar series, shared by the chart overlays and the
+ * alert rule engine.
+ */
+
+export interface IndicatorPoint {
+  time: number;
+  value: number;
+}
+
+/**
+ * Exponential moving average of closes, seeded with the first close
+ */
+export function calculateEMA(data: ChartData[], period: number): IndicatorPoint[] {
+  if (data.length < period) return [];
+
+  const multiplier = 2 / (period + 1);
+  let emaValue = data[0].close;
+
+  return data.map((bar, i) => {
+    if (i > 0) {
+      emaValue = (bar.close * multiplier) + (emaValue * (1 - multiplier));
+    }
+    return { time: bar.time, value: Number(emaValue.toFixed(4)) };
+  });
+}
+
+/**
+ * Wilder's RSI of closes; the first `period` bars produce no points
+ */
+export function calculateRSI(data: ChartData[], period: number = 14): IndicatorPoint[] {
+  if (data.length <= period) return [];
+
+  let avgGain = 0;
+  let avgLoss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = data[i].close - data[i - 1].close;
+    avgGain += Math.max(change, 0);
+    avgLoss += Math.max(-change, 0);
+  }
+  avgGain /= period;
+  avgLoss /= period;
+
+  const toRSI = () => (avgLoss === 0 ? 100 : 100 - 100 / (1 + avgGain / avgLoss));
+  const points: IndicatorPoint[] = [{ time: data[period].time, value: toRSI() }];
+
+  for (let i = period + 1; i < data.length; i++) {
+    const change = data[i].close - data[i - 1].close;
+    avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period;
+    avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period;
+    points.push({ time: data[i].time, value: toRSI() });
+  }
+
+  return points;
+}
+
+/**
+ * New York calendar date of a bar time (epoch seconds), e.g. "2024-03-15"
+ */
+export function toSessionDate(time: number): string {
+  return new Date(time * 1000).toLocaleDateString('en-CA', { timeZone: 'America/New_York' });
+}
+
+/**
+ * Calendar date of a daily bar (epoch seconds). Daily bars are stamped at (UTC) midnight
+ * of their date rather than a New York time, so the UTC date is the session date.
+ */
+export function toDailyDate(time: number): string {
+  return new Date(time * 1000).toISOString().slice(0, 10);
+}
+
+/**
+ * Volume-weighted average price of the latest session's bars (typical price),
+ * including premarket bars when the series has them
+ */
+export function calculateSessionVWAP(data: ChartData[]): number | null {
+  if (data.length === 0) return null;
+
+  const session = toSessionDate(data[data.length - 1].time);
+  let volume = 0;
+  let value = 0;
+
+  for (let i = data.length - 1; i >= 0 && toSessionDate(data[i].time) === session; i--) {
+    const bar = data[i];
+    volume += bar.volume;
+    value += ((bar.high + bar.low + bar.close) / 3) * bar.volume;
+  }
+
+  return volume > 0 ? value / volume : null;
+}
+
+/**
+ * Today's volume against the average of the previous `period` daily bars. Bars on or
+ * after `now`'s New York date (epoch milliseconds; the app clock during a replay) are
+ * left out of the average.
+ */
+export function calculateRelativeVolume(dailyBars: ChartData[], todayVolume: number, now: number, period: number = 20): number | null {
+  const today = toSessionDate(now / 1000);
+  const previous = dailyBars.filter(bar => toDailyDate(bar.time) < today).slice(-period);
+  if (previous.length === 0) return null;
+
+  const average = previous.reduce((sum, bar) => sum + bar.volume, 0) / previous.length;
+  return average > 0 ? todayVolume / average : null;
+}
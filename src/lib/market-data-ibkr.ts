@@ -0,0 +1,394 @@
+import {
+  AccountSummary,
+  BrokerAccount,
+  BrokerOrder,
+  ChartData,
+  ChartTimeframe,
+  ContractInfo,
+  DataSource,
+  OrderAck,
+  OrderDelta,
+  OrderModification,
+  OrderRequest,
+  Position,
+  ProviderStatus,
+  StockDelta
+} from '@/types';
+import type { BarQuery, MarketDataProvider, ProviderCapabilities } from '@/lib/market-data';
+import { contractRegistry } from '@/lib/contracts';
+import { fetchSnapshots, MarketDataListener } from '@/lib/ibkr-stream';
+import { fetchHistory, toHistoryStartTime } from '@/lib/ibkr-history';
+import { runScanner, ScannerContract, ScannerParams } from '@/lib/ibkr-scanner';
+import { fetchOrders, normalizeOrder, normalizeOrderAck } from '@/lib/ibkr-orders';
+import { fetchAccountSummary } from '@/lib/ibkr-portfolio';
+import { ibkrGateway } from '@/lib/ibkr-gateway-browser';
+import { ibkrBrowserService } from '@/lib/ibkr-browser';
+import { ibkrService } from '@/lib/ibkr';
+
+/**
+ * IBKR market data providers
+ * Adapters that expose the three IBKR clients (browser gateway, portal proxy and
+ * local Client Portal Gateway) through the common MarketDataProvider contract.
+ */
+
+const PORTAL_POLL_INTERVAL = 2000;
+
+/**
+ * Normalize either `/iserver/accounts` ({ accounts, aliases }) or `/portfolio/accounts` (array) responses
+ */
+function normalizeAccounts(raw: any): BrokerAccount[] {
+  if (Array.isArray(raw?.accounts)) {
+    return raw.accounts.map((id: string) => ({ id: String(id), alias: raw.aliases?.[id] }));
+  }
+
+  return (Array.isArray(raw) ? raw : [])
+    .filter(account => account?.id || account?.accountId)
+    .map(account => ({
+      id: String(account.id || account.accountId),
+      alias: account.accountAlias || account.alias || undefined,
+      currency: account.currency,
+      type: account.type
+    }));
+}
+
+/**
+ * Normalize a `/portfolio/{accountId}/positions` entry
+ */
+function normalizePosition(item: any, accountId: string): Position {
+  const symbol = item.ticker || contractRegistry.getSymbol(item.conid) || item.contractDesc || String(item.conid);
+
+  return {
+    accountId: item.acctId || accountId,
+    conid: Number(item.conid),
+    symbol: String(symbol).toUpperCase(),
+    quantity: Number(item.position) || 0,
+    // avgCost includes the contract multiplier; avgPrice is per share
+    avgCost: Number(item.avgPrice ?? item.avgCost) || 0,
+    marketPrice: Number(item.mktPrice) || 0,
+    marketValue: Number(item.mktValue) || 0,
+    unrealizedPnl: Number(item.unrealizedPnl) || 0,
+    realizedPnl: Number(item.realizedPnl) || 0,
+    currency: item.currency
+  };
+}
+
+/**
+ * Normalize a `sor` frame's order list, dropping entries without an order id
+ */
+function normalizeOrderUpdates(raw: any[]): OrderDelta[] {
+  return raw.flatMap(item => {
+    const delta = normalizeOrder(item);
+    return delta ? [delta] : [];
+  });
+}
+
+/**
+ * Shared plumbing for the IBKR adapters: status listeners, contracts, snapshots, scans, history, orders and account summaries
+ */
+abstract class IBKRProvider implements MarketDataProvider {
+  abstract readonly source: DataSource;
+  abstract readonly label: string;
+  abstract readonly capabilities: ProviderCapabilities;
+
+  private statusListeners: Set<(status: ProviderStatus) => void> = new Set();
+
+  abstract getStatus(): ProviderStatus;
+  abstract subscribe(symbol: string, listener: MarketDataListener): Promise<() => void>;
+  abstract getAccounts(): Promise<BrokerAccount[]>;
+  abstract getPositions(accountId?: string): Promise<Position[]>;
+  abstract onOrderUpdate(callback: (updates: OrderDelta[]) => void): () => void;
+  protected abstract getApiUrl(): string;
+
+  async getQuotes(symbols: string[]): Promise<StockDelta[]> {
+    this.requireAuthenticated();
+    return fetchSnapshots(symbols, { baseUrl: this.getApiUrl() });
+  }
+
+  async scan(params: ScannerParams): Promise<ScannerContract[]> {
+    this.requireAuthenticated();
+    return runScanner(params, { baseUrl: this.getApiUrl() });
+  }
+
+  async getBars(symbol: string, timeframe: ChartTimeframe['value'], { before }: BarQuery = {}): Promise<ChartData[]> {
+    this.requireAuthenticated();
+
+    if (before === undefined) {
+      return fetchHistory(symbol, timeframe, { baseUrl: this.getApiUrl() });
+    }
+
+    const bars = await fetchHistory(symbol, timeframe, {
+      baseUrl: this.getApiUrl(),
+      startTime: toHistoryStartTime(before - 1)
+    });
+    return bars.filter(bar => bar.time < before);
+  }
+
+  resolveContract(symbol: string): Promise<ContractInfo | null> {
+    return contractRegistry.resolve(symbol, { baseUrl: this.getApiUrl() });
+  }
+
+  async getAccountSummary(accountId?: string): Promise<AccountSummary> {
+    this.requireAuthenticated();
+    const account = await this.resolveAccountId(accountId);
+    return fetchAccountSummary(account, { baseUrl: this.getApiUrl() });
+  }
+
+  async placeOrder(order: OrderRequest): Promise<OrderAck> {
+    throw new Error(`Cannot place ${order.side} ${order.symbol}: order entry is not available through ${this.label}`);
+  }
+
+  async confirmOrder(replyId: string): Promise<OrderAck> {
+    throw new Error(`Cannot answer order prompt ${replyId}: order entry is not available through ${this.label}`);
+  }
+
+  async getOrders(): Promise<BrokerOrder[]> {
+    this.requireAuthenticated();
+    return fetchOrders({ baseUrl: this.getApiUrl() });
+  }
+
+  async modifyOrder(order: BrokerOrder, changes: OrderModification): Promise<OrderAck> {
+    throw new Error(`Cannot change ${Object.keys(changes).join(', ')} of order ${order.id}: order entry is not available through ${this.label}`);
+  }
+
+  async cancelOrder(order: BrokerOrder): Promise<OrderAck> {
+    throw new Error(`Cannot cancel order ${order.id}: order entry is not available through ${this.label}`);
+  }
+
+  onStatusChange(callback: (status: ProviderStatus) => void): () => void {
+    this.statusListeners.add(callback);
+
+    return () => {
+      this.statusListeners.delete(callback);
+    };
+  }
+
+  protected notifyStatus(): void {
+    const status = this.getStatus();
+    this.statusListeners.forEach(callback => callback(status));
+  }
+
+  protected requireAuthenticated(): void {
+    if (!this.getStatus().authenticated) {
+      throw new Error('Not authenticated with IBKR');
+    }
+  }
+
+  protected async resolveAccountId(accountId?: string): Promise<string> {
+    const account = accountId || (await this.getAccounts())[0]?.id;
+    if (!account) {
+      throw new Error('No account available');
+    }
+    return account;
+  }
+}
+
+/**
+ * In-browser Client Portal Gateway client with WebSocket streaming
+ */
+class IBKRGatewayProvider extends IBKRProvider {
+  readonly source = 'ibkr-gateway' as const;
+  readonly label = 'IBKR Gateway';
+  readonly capabilities = { streaming: true, orders: true, accounts: true, fundamentals: false };
+
+  constructor() {
+    super();
+    ibkrGateway.onConnectionChange(() => this.notifyStatus());
+  }
+
+  getStatus(): ProviderStatus {
+    const { authenticated } = ibkrGateway.getConnectionStatus();
+    const stream = ibkrGateway.getStreamStatus();
+
+    return {
+      source: this.source,
+      connected: authenticated,
+      authenticated,
+      streaming: stream.state === 'connected',
+      status: !authenticated ? 'disconnected' : stream.state === 'reconnecting' ? 'reconnecting' : 'connected',
+      reconnectAttempt: stream.attempt
+    };
+  }
+
+  subscribe(symbol: string, listener: MarketDataListener): Promise<() => void> {
+    return ibkrGateway.subscribeToMarketData(symbol, listener);
+  }
+
+  async getAccounts(): Promise<BrokerAccount[]> {
+    return normalizeAccounts(ibkrGateway.getAccounts());
+  }
+
+  async getPositions(accountId?: string): Promise<Position[]> {
+    const account = await this.resolveAccountId(accountId);
+    const positions = await ibkrGateway.getPositions(account);
+    return positions.map(item => normalizePosition(item, account));
+  }
+
+  async placeOrder(order: OrderRequest): Promise<OrderAck> {
+    const accountId = await this.resolveAccountId(order.accountId);
+    return normalizeOrderAck(await ibkrGateway.placeOrder({ ...order, accountId }));
+  }
+
+  async confirmOrder(replyId: string, confirmed: boolean = true): Promise<OrderAck> {
+    return normalizeOrderAck(await ibkrGateway.replyToOrder(replyId, confirmed));
+  }
+
+  async modifyOrder(order: BrokerOrder, changes: OrderModification): Promise<OrderAck> {
+    return normalizeOrderAck(await ibkrGateway.modifyOrder(order, changes));
+  }
+
+  async cancelOrder(order: BrokerOrder): Promise<OrderAck> {
+    return normalizeOrderAck(await ibkrGateway.cancelOrder(order));
+  }
+
+  onOrderUpdate(callback: (updates: OrderDelta[]) => void): () => void {
+    return ibkrGateway.onOrderUpdate(orders => callback(normalizeOrderUpdates(orders)));
+  }
+
+  protected getApiUrl(): string {
+    return ibkrGateway.getApiUrl();
+  }
+}
+
+/**
+ * IBKR portal proxy client. It has no socket, so subscriptions are served by
+ * polling snapshots for every subscribed symbol in one request.
+ */
+class IBKRPortalProvider extends IBKRProvider {
+  readonly source = 'ibkr-portal' as const;
+  readonly label = 'IBKR Web Portal';
+  readonly capabilities = { streaming: false, orders: false, accounts: true, fundamentals: false };
+
+  private pollListeners: Map<string, Set<MarketDataListener>> = new Map();
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor() {
+    super();
+    ibkrBrowserService.on('authenticated', () => this.notifyStatus());
+    ibkrBrowserService.on('disconnected', () => this.notifyStatus());
+  }
+
+  getStatus(): ProviderStatus {
+    const authenticated = ibkrBrowserService.isConnected();
+
+    return {
+      source: this.source,
+      connected: authenticated,
+      authenticated,
+      streaming: false,
+      status: authenticated ? 'connected' : 'disconnected'
+    };
+  }
+
+  async subscribe(symbol: string, listener: MarketDataListener): Promise<() => void> {
+    this.requireAuthenticated();
+
+    const key = symbol.toUpperCase();
+    const listeners = this.pollListeners.get(key) || new Set<MarketDataListener>();
+    listeners.add(listener);
+    this.pollListeners.set(key, listeners);
+
+    if (!this.pollTimer) {
+      this.pollTimer = setInterval(() => this.poll(), PORTAL_POLL_INTERVAL);
+    }
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        this.pollListeners.delete(key);
+      }
+      if (this.pollListeners.size === 0 && this.pollTimer) {
+        clearInterval(this.pollTimer);
+        this.pollTimer = null;
+      }
+    };
+  }
+
+  async getAccounts(): Promise<BrokerAccount[]> {
+    return normalizeAccounts(await ibkrBrowserService.getAccounts());
+  }
+
+  async getPositions(accountId?: string): Promise<Position[]> {
+    const account = await this.resolveAccountId(accountId);
+    const positions = await ibkrBrowserService.getPositions(account);
+    return positions.map(item => normalizePosition(item, account));
+  }
+
+  /**
+   * No order stream without a socket; the blotter polls `getOrders()` instead
+   */
+  onOrderUpdate(): () => void {
+    return () => {};
+  }
+
+  protected getApiUrl(): string {
+    return ibkrBrowserService.getApiUrl();
+  }
+
+  private async poll(): Promise<void> {
+    const symbols = Array.from(this.pollListeners.keys());
+    if (symbols.length === 0 || !ibkrBrowserService.isConnected()) return;
+
+    try {
+      const quotes = await this.getQuotes(symbols);
+      quotes.forEach(quote => {
+        this.pollListeners.get(quote.symbol)?.forEach(listener => listener(quote));
+      });
+    } catch (error) {
+      console.error('Market data polling error:', error);
+    }
+  }
+}
+
+/**
+ * Client Portal Gateway running on localhost:5000 (desktop / self-hosted setups)
+ */
+class IBKRLocalProvider extends IBKRProvider {
+  readonly source = 'ibkr-local' as const;
+  readonly label = 'Local Client Portal Gateway';
+  readonly capabilities = { streaming: true, orders: false, accounts: true, fundamentals: false };
+
+  constructor() {
+    super();
+    ibkrService.onConnectionChange(() => this.notifyStatus());
+  }
+
+  getStatus(): ProviderStatus {
+    const connection = ibkrService.getConnection();
+
+    return {
+      source: this.source,
+      connected: connection.connected,
+      authenticated: ibkrService.isConnected(),
+      streaming: connection.connected && connection.status === 'connected',
+      status: connection.status,
+      reconnectAttempt: connection.reconnectAttempt,
+      error: connection.error
+    };
+  }
+
+  subscribe(symbol: string, listener: MarketDataListener): Promise<() => void> {
+    return ibkrService.subscribeToMarketData(symbol, listener);
+  }
+
+  async getAccounts(): Promise<BrokerAccount[]> {
+    return normalizeAccounts(await ibkrService.getAccountInfo());
+  }
+
+  async getPositions(accountId?: string): Promise<Position[]> {
+    const account = await this.resolveAccountId(accountId);
+    const positions = await ibkrService.getPositions(account);
+    return (Array.isArray(positions) ? positions : []).map(item => normalizePosition(item, account));
+  }
+
+  onOrderUpdate(callback: (updates: OrderDelta[]) => void): () => void {
+    return ibkrService.onOrderUpdate(orders => callback(normalizeOrderUpdates(orders)));
+  }
+
+  protected getApiUrl(): string {
+    return ibkrService.getApiUrl();
+  }
+}
+
+export const ibkrGatewayProvider = new IBKRGatewayProvider();
+export const ibkrPortalProvider = new IBKRPortalProvider();
+export const ibkrLocalProvider = new IBKRLocalProvider();
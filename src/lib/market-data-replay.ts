@@ -0,0 +1,497 @@
+import {
+  AccountSummary,
+  BrokerAccount,
+  BrokerOrder,
+  ChartData,
+  ChartTimeframe,
+  ContractInfo,
+  OrderAck,
+  OrderModification,
+  OrderRequest,
+  Position,
+  ProviderStatus,
+  Stock,
+  StockDelta
+} from '@/types';
+import type { BarQuery, MarketDataProvider } from '@/lib/market-data';
+import type { MarketDataListener } from '@/lib/ibkr-stream';
+import { applyScannerParams, ScannerContract, ScannerParams } from '@/lib/ibkr-scanner';
+import { toDailyDate, toSessionDate } from '@/lib/indicators';
+import { clock } from '@/lib/clock';
+
+/**
+ * Session replay provider
+ * Plays stored 1-minute bars back at the app clock's time: quotes, streamed ticks, scans
+ * and chart history all stop at the replayed moment, so the scanner, charts and alerts run
+ * on a past session through the same interface as live data. Each bar is replayed as four
+ * ticks: the open, the extreme away from the close, the other extreme, then the close.
+ */
+
+export interface ReplaySeries {
+  /** Scanner row when the replay was loaded; name, float, news and shares outstanding come from it */
+  stock: Stock;
+  conid: number;
+  /** Ascending 1-minute bars; bars after the replayed session are dropped */
+  bars: ChartData[];
+  daily: ChartData[];
+}
+
+interface ReplayTape {
+  stock: Stock;
+  conid: number;
+  shares: number;
+  bars: ChartData[];
+  /** Daily bars before the replayed session */
+  daily: ChartData[];
+  /** Index of the session's first bar */
+  sessionIndex: number;
+  previousClose: number;
+  /** Session volume, high and low through each session bar */
+  sessionVolume: number[];
+  sessionHigh: number[];
+  sessionLow: number[];
+}
+
+interface TapePosition {
+  index: number;
+  /** Ticks of the bar played so far, 0-3 */
+  tick: number;
+}
+
+// Seconds into a bar at which each of its four ticks is played
+const TICK_OFFSETS = [0, 20, 40, 59];
+const PAGE_SIZE = 1000;
+const REGULAR_OPEN = 9 * 60 + 30;
+const REGULAR_CLOSE = 16 * 60;
+
+const TIMEFRAME_SECONDS: Record<ChartTimeframe['value'], number> = {
+  '1m': 60,
+  '5m': 300,
+  '15m': 900,
+  '30m': 1800,
+  '1h': 3600,
+  '1d': 86400
+};
+
+const NEW_YORK_TIME = new Intl.DateTimeFormat('en-GB', {
+  timeZone: 'America/New_York',
+  hour: '2-digit',
+  minute: '2-digit',
+  hourCycle: 'h23'
+});
+
+/**
+ * Minutes after midnight in New York for a bar time (epoch seconds)
+ */
+function toNewYorkMinutes(time: number): number {
+  const [hours, minutes] = NEW_YORK_TIME.format(time * 1000).split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function tickPrices(bar: ChartData): number[] {
+  return bar.close >= bar.open
+    ? [bar.open, bar.low, bar.high, bar.close]
+    : [bar.open, bar.high, bar.low, bar.close];
+}
+
+/**
+ * A bar as far as its first `tick + 1` ticks
+ */
+function partialBar(bar: ChartData, tick: number): ChartData {
+  if (tick >= TICK_OFFSETS.length - 1) return bar;
+
+  const prices = tickPrices(bar).slice(0, tick + 1);
+  return {
+    time: bar.time,
+    open: bar.open,
+    high: Math.max(...prices),
+    low: Math.min(...prices),
+    close: prices[prices.length - 1],
+    volume: Math.round((bar.volume * (tick + 1)) / TICK_OFFSETS.length)
+  };
+}
+
+/**
+ * Index of the first bar for which `test` holds, for a test that stays true once it does
+ */
+function firstIndex(bars: ChartData[], test: (bar: ChartData) => boolean): number {
+  let low = 0;
+  let high = bars.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (test(bars[mid])) {
+      high = mid;
+    } else {
+      low = mid + 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * Combine ascending bars that share a bucket time
+ */
+function aggregateBars(bars: ChartData[], bucketTime: (bar: ChartData) => number): ChartData[] {
+  const result: ChartData[] = [];
+
+  bars.forEach(bar => {
+    const bucket = bucketTime(bar);
+    const current = result[result.length - 1];
+    if (current && current.time === bucket) {
+      current.high = Math.max(current.high, bar.high);
+      current.low = Math.min(current.low, bar.low);
+      current.close = bar.close;
+      current.volume += bar.volume;
+    } else {
+      result.push({ ...bar, time: bucket });
+    }
+  });
+
+  return result;
+}
+
+export class ReplayProvider implements MarketDataProvider {
+  readonly source = 'replay' as const;
+  readonly label = 'Session Replay';
+  readonly capabilities = { streaming: true, orders: false, accounts: false, fundamentals: true };
+
+  private session: string | null = null;
+  private tapes: Map<string, ReplayTape> = new Map();
+  private listeners: Map<string, Set<MarketDataListener>> = new Map();
+  // Tape position last streamed per symbol, as index * 4 + tick
+  private streamed: Map<string, number> = new Map();
+  private statusListeners: Set<(status: ProviderStatus) => void> = new Set();
+  private detachClock: (() => void) | null = null;
+
+  /**
+   * Replay `session` (New York date) from these series. Replaces any loaded session.
+   */
+  load(session: string, series: ReplaySeries[]): void {
+    this.session = session;
+    this.tapes = new Map(series.flatMap(entry => {
+      const tape = this.createTape(session, entry);
+      return tape ? [[entry.stock.symbol.toUpperCase(), tape] as const] : [];
+    }));
+    this.streamed.clear();
+
+    this.detachClock?.();
+    this.detachClock = clock.onChange((_now, jumped) => this.stream(jumped));
+
+    console.log(`⏪ Replay loaded: ${session}, ${this.tapes.size} symbols`);
+    this.notifyStatus();
+  }
+
+  unload(): void {
+    this.detachClock?.();
+    this.detachClock = null;
+    this.session = null;
+    this.tapes.clear();
+    this.streamed.clear();
+    this.notifyStatus();
+  }
+
+  getSession(): string | null {
+    return this.session;
+  }
+
+  /**
+   * First and last bar time of the session across every symbol, epoch milliseconds
+   */
+  getRange(): { start: number; end: number } | null {
+    let start = Infinity;
+    let end = -Infinity;
+
+    this.tapes.forEach(tape => {
+      const first = tape.bars[tape.sessionIndex];
+      const last = tape.bars[tape.bars.length - 1];
+      if (!first) return;
+      start = Math.min(start, first.time * 1000);
+      end = Math.max(end, (last.time + 60) * 1000);
+    });
+
+    return start < end ? { start, end } : null;
+  }
+
+  /**
+   * Regular-session open of the replayed session, epoch milliseconds, or null before it loads
+   */
+  getRegularOpen(): number | null {
+    const range = this.getRange();
+    if (!range) return null;
+
+    const startSeconds = range.start / 1000;
+    return (startSeconds + (REGULAR_OPEN - toNewYorkMinutes(startSeconds)) * 60) * 1000;
+  }
+
+  async getQuotes(symbols: string[]): Promise<StockDelta[]> {
+    const now = clock.now();
+    return symbols.flatMap(symbol => {
+      const quote = this.getQuote(symbol.toUpperCase(), now);
+      return quote ? [quote] : [];
+    });
+  }
+
+  async getBars(symbol: string, timeframe: ChartTimeframe['value'], { before }: BarQuery = {}): Promise<ChartData[]> {
+    const tape = this.tapes.get(symbol.toUpperCase());
+    if (!tape) return [];
+
+    const bars = timeframe === '1d' ? this.getDailyBars(tape) : this.getIntradayBars(tape, TIMEFRAME_SECONDS[timeframe]);
+    const page = before === undefined ? bars : bars.filter(bar => bar.time < before);
+    return page.slice(-PAGE_SIZE);
+  }
+
+  async subscribe(symbol: string, listener: MarketDataListener): Promise<() => void> {
+    const key = symbol.toUpperCase();
+    const listeners = this.listeners.get(key) || new Set<MarketDataListener>();
+    listeners.add(listener);
+    this.listeners.set(key, listeners);
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        this.listeners.delete(key);
+        this.streamed.delete(key);
+      }
+    };
+  }
+
+  /**
+   * Rank the replayed symbols as they stood at the replay time, with the gateway's scanner semantics
+   */
+  async scan(params: ScannerParams): Promise<ScannerContract[]> {
+    const now = clock.now();
+    const rows = Array.from(this.tapes.entries()).flatMap(([symbol, tape]) => {
+      const quote = this.getQuote(symbol, now);
+      return quote ? [{ ...tape.stock, ...quote, lastUpdate: new Date(now) } as Stock] : [];
+    });
+
+    return applyScannerParams(rows, params).map((stock, index) => ({
+      symbol: stock.symbol,
+      conid: this.tapes.get(stock.symbol)?.conid ?? 0,
+      name: stock.name,
+      exchange: 'REPLAY',
+      rank: index + 1
+    }));
+  }
+
+  async resolveContract(symbol: string): Promise<ContractInfo | null> {
+    const tape = this.tapes.get(symbol.toUpperCase());
+    if (!tape) return null;
+
+    return {
+      conid: tape.conid,
+      symbol: tape.stock.symbol,
+      name: tape.stock.name,
+      secType: 'STK',
+      exchange: 'REPLAY',
+      currency: 'USD',
+      resolvedAt: Date.now()
+    };
+  }
+
+  async getAccounts(): Promise<BrokerAccount[]> {
+    return [];
+  }
+
+  async getPositions(): Promise<Position[]> {
+    return [];
+  }
+
+  async getAccountSummary(): Promise<AccountSummary> {
+    throw new Error(`Account data is not available through ${this.label}`);
+  }
+
+  async placeOrder(order: OrderRequest): Promise<OrderAck> {
+    throw new Error(`Cannot place ${order.side} ${order.symbol}: order entry is not available through ${this.label}`);
+  }
+
+  async confirmOrder(replyId: string): Promise<OrderAck> {
+    throw new Error(`Cannot answer order prompt ${replyId}: order entry is not available through ${this.label}`);
+  }
+
+  async getOrders(): Promise<BrokerOrder[]> {
+    return [];
+  }
+
+  async modifyOrder(order: BrokerOrder, changes: OrderModification): Promise<OrderAck> {
+    throw new Error(`Cannot change ${Object.keys(changes).join(', ')} of order ${order.id}: order entry is not available through ${this.label}`);
+  }
+
+  async cancelOrder(order: BrokerOrder): Promise<OrderAck> {
+    throw new Error(`Cannot cancel order ${order.id}: order entry is not available through ${this.label}`);
+  }
+
+  onOrderUpdate(): () => void {
+    return () => {};
+  }
+
+  getStatus(): ProviderStatus {
+    const loaded = this.session !== null;
+    return {
+      source: this.source,
+      connected: loaded,
+      authenticated: loaded,
+      streaming: loaded,
+      status: loaded ? 'connected' : 'disconnected'
+    };
+  }
+
+  onStatusChange(callback: (status: ProviderStatus) => void): () => void {
+    this.statusListeners.add(callback);
+
+    return () => {
+      this.statusListeners.delete(callback);
+    };
+  }
+
+  private notifyStatus(): void {
+    const status = this.getStatus();
+    this.statusListeners.forEach(callback => callback(status));
+  }
+
+  private createTape(session: string, { stock, conid, bars, daily }: ReplaySeries): ReplayTape | null {
+    const sessionIndex = firstIndex(bars, bar => toSessionDate(bar.time) >= session);
+    const endIndex = firstIndex(bars, bar => toSessionDate(bar.time) > session);
+    if (sessionIndex === endIndex) return null;
+    const tapeBars = bars.slice(0, endIndex);
+    const dailyBefore = daily.filter(bar => toDailyDate(bar.time) < session);
+
+    // Regular close of the previous intraday session, else the last daily close
+    let previousClose = dailyBefore[dailyBefore.length - 1]?.close ?? tapeBars[sessionIndex].open;
+    for (let i = sessionIndex - 1; i >= 0; i--) {
+      const minutes = toNewYorkMinutes(tapeBars[i].time);
+      if (minutes >= REGULAR_OPEN && minutes < REGULAR_CLOSE) {
+        previousClose = tapeBars[i].close;
+        break;
+      }
+    }
+
+    const sessionVolume: number[] = [];
+    const sessionHigh: number[] = [];
+    const sessionLow: number[] = [];
+    for (let i = sessionIndex; i < endIndex; i++) {
+      const j = i - sessionIndex;
+      sessionVolume.push((sessionVolume[j - 1] ?? 0) + tapeBars[i].volume);
+      sessionHigh.push(Math.max(sessionHigh[j - 1] ?? -Infinity, tapeBars[i].high));
+      sessionLow.push(Math.min(sessionLow[j - 1] ?? Infinity, tapeBars[i].low));
+    }
+
+    return {
+      stock,
+      conid,
+      shares: stock.price > 0 ? stock.marketCap / stock.price : 0,
+      bars: tapeBars,
+      daily: dailyBefore,
+      sessionIndex,
+      previousClose,
+      sessionVolume,
+      sessionHigh,
+      sessionLow
+    };
+  }
+
+  /**
+   * Bar and tick being played at `now`, or null before the symbol's first bar
+   */
+  private getPosition(tape: ReplayTape, now: number): TapePosition | null {
+    const seconds = now / 1000;
+    const index = firstIndex(tape.bars, bar => bar.time > seconds) - 1;
+    if (index < 0) return null;
+
+    const elapsed = seconds - tape.bars[index].time;
+    const tick = TICK_OFFSETS.filter(offset => offset <= elapsed).length - 1;
+    return { index, tick: Math.max(0, tick) };
+  }
+
+  private getQuote(symbol: string, now: number): StockDelta | null {
+    const tape = this.tapes.get(symbol);
+    const position = tape && this.getPosition(tape, now);
+    if (!tape || !position) return null;
+
+    const bar = partialBar(tape.bars[position.index], position.tick);
+    const sessionBar = position.index - tape.sessionIndex;
+    const price = bar.close;
+    const change = price - tape.previousClose;
+
+    // Before the session's first bar the day has no volume or range yet
+    const inSession = sessionBar >= 0;
+    const volume = inSession ? (tape.sessionVolume[sessionBar - 1] ?? 0) + bar.volume : 0;
+    const high = inSession ? Math.max(tape.sessionHigh[sessionBar - 1] ?? -Infinity, bar.high) : price;
+    const low = inSession ? Math.min(tape.sessionLow[sessionBar - 1] ?? Infinity, bar.low) : price;
+
+    return {
+      symbol: tape.stock.symbol,
+      conid: tape.conid,
+      name: tape.stock.name,
+      price,
+      change,
+      changePercent: tape.previousClose > 0 ? (change / tape.previousClose) * 100 : 0,
+      volume,
+      high,
+      low,
+      open: tape.bars[tape.sessionIndex].open,
+      previousClose: tape.previousClose,
+      marketCap: tape.shares * price,
+      float: tape.stock.float,
+      news: tape.stock.news,
+      lastUpdate: new Date(now)
+    };
+  }
+
+  /**
+   * 1-minute bars up to the replay time, the last one partial
+   */
+  private getMinuteBars(tape: ReplayTape): ChartData[] {
+    const position = this.getPosition(tape, clock.now());
+    if (!position) return [];
+
+    return [...tape.bars.slice(0, position.index), partialBar(tape.bars[position.index], position.tick)];
+  }
+
+  private getIntradayBars(tape: ReplayTape, seconds: number): ChartData[] {
+    const bars = this.getMinuteBars(tape);
+    return seconds <= 60 ? bars : aggregateBars(bars, bar => Math.floor(bar.time / seconds) * seconds);
+  }
+
+  /**
+   * Daily bars before the session plus the session so far (its regular hours once they start)
+   */
+  private getDailyBars(tape: ReplayTape): ChartData[] {
+    const session = this.getMinuteBars(tape).slice(tape.sessionIndex);
+    if (session.length === 0 || !this.session) return tape.daily;
+
+    const regular = session.filter(bar => {
+      const minutes = toNewYorkMinutes(bar.time);
+      return minutes >= REGULAR_OPEN && minutes < REGULAR_CLOSE;
+    });
+    const dayTime = Date.parse(`${this.session}T00:00:00Z`) / 1000;
+    const [today] = aggregateBars(regular.length > 0 ? regular : session, () => dayTime);
+    return [...tape.daily, { ...today, volume: session.reduce((sum, bar) => sum + bar.volume, 0) }];
+  }
+
+  /**
+   * Push quotes to subscribers whose tape moved to a new tick. After a jump every
+   * subscriber gets the quote at the new time.
+   */
+  private stream(jumped: boolean): void {
+    if (clock.isLive()) return;
+
+    const now = clock.now();
+    if (jumped) this.streamed.clear();
+
+    this.listeners.forEach((listeners, symbol) => {
+      const tape = this.tapes.get(symbol);
+      const position = tape && this.getPosition(tape, now);
+      if (!position) return;
+
+      const key = position.index * TICK_OFFSETS.length + position.tick;
+      if (this.streamed.get(symbol) === key) return;
+      this.streamed.set(symbol, key);
+
+      const quote = this.getQuote(symbol, now);
+      if (quote) listeners.forEach(listener => listener(quote));
+    });
+  }
+}
+
+export const replayProvider = new ReplayProvider();
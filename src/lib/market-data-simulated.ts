@@ -0,0 +1,474 @@
+import {
+  AccountSummary,
+  BrokerAccount,
+  BrokerOrder,
+  ChartData,
+  ChartTimeframe,
+  ContractInfo,
+  OrderAck,
+  OrderDelta,
+  OrderModification,
+  OrderRequest,
+  Position,
+  ProviderStatus,
+  Stock,
+  StockDelta
+} from '@/types';
+import type { BarQuery, MarketDataProvider } from '@/lib/market-data';
+import type { MarketDataListener } from '@/lib/ibkr-stream';
+import { applyScannerParams, ScannerContract, ScannerParams } from '@/lib/ibkr-scanner';
+import { getBracketLegs, validateModification, validateOrder } from '@/lib/ibkr-orders';
+import { getMarketHours } from '@/lib/market';
+import { MarketSimulator, marketSimulator } from '@/lib/market-sim';
+
+/**
+ * Simulated market data provider
+ * Serves quotes, bars and ticks from the seeded MarketSimulator, so charts, scanner
+ * rows and alerts all see the same prices. Paper orders, fills and positions are kept in memory.
+ */
+
+const TICK_INTERVAL = 1000;
+const ORDER_CHECK_INTERVAL = 1000;
+const SIM_ACCOUNT: BrokerAccount = { id: 'SIM-PAPER', alias: 'Simulated Paper', currency: 'USD', type: 'paper' };
+const SIM_STARTING_CASH = 100_000;
+
+interface SimulatedOrder {
+  id: string;
+  request: OrderRequest;
+  parentId?: string;
+  // Bracket children wait in `pending` until their parent fills
+  status: 'pending' | 'working' | 'filled' | 'cancelled';
+  triggered: boolean;
+  trailStop?: number;
+  fillPrice?: number;
+  updatedAt: number;
+}
+
+export class SimulatedProvider implements MarketDataProvider {
+  readonly source = 'simulated' as const;
+  readonly label = 'Simulated Market';
+  readonly capabilities = { streaming: true, orders: true, accounts: true, fundamentals: true };
+
+  private simulator: MarketSimulator;
+  private listeners: Map<string, Set<MarketDataListener>> = new Map();
+  private positions: Map<string, Position> = new Map();
+  private cash = SIM_STARTING_CASH;
+  private statusListeners: Set<(status: ProviderStatus) => void> = new Set();
+  private orders: Map<string, SimulatedOrder> = new Map();
+  private orderListeners: Set<(updates: OrderDelta[]) => void> = new Set();
+  private tickTimer: ReturnType<typeof setInterval> | null = null;
+  private orderTimer: ReturnType<typeof setInterval> | null = null;
+  private orderSequence = 0;
+
+  constructor(simulator: MarketSimulator = marketSimulator) {
+    this.simulator = simulator;
+  }
+
+  /**
+   * Reseed the simulator; paper orders and positions are discarded and cash is reset
+   */
+  setSeed(seed: number): void {
+    this.simulator = new MarketSimulator({ seed });
+    this.positions.clear();
+    this.orders.clear();
+    this.cash = SIM_STARTING_CASH;
+  }
+
+  getSeed(): number {
+    return this.simulator.seed;
+  }
+
+  /**
+   * Scanner rows for the whole simulated universe
+   */
+  getSnapshots(at: number = Date.now()): Stock[] {
+    return this.simulator.getSnapshots(at);
+  }
+
+  async getQuotes(symbols: string[]): Promise<StockDelta[]> {
+    const now = Date.now();
+    return symbols.map(symbol => this.simulator.getQuote(symbol, now));
+  }
+
+  async getBars(symbol: string, timeframe: ChartTimeframe['value'], { before }: BarQuery = {}): Promise<ChartData[]> {
+    if (before === undefined) {
+      return this.simulator.getBars(symbol, timeframe);
+    }
+    return this.simulator
+      .getBars(symbol, timeframe, { end: before * 1000 })
+      .filter(bar => bar.time < before);
+  }
+
+  async subscribe(symbol: string, listener: MarketDataListener): Promise<() => void> {
+    const key = symbol.toUpperCase();
+    const listeners = this.listeners.get(key) || new Set<MarketDataListener>();
+    listeners.add(listener);
+    this.listeners.set(key, listeners);
+
+    if (!this.tickTimer) {
+      this.tickTimer = setInterval(() => this.tick(), TICK_INTERVAL);
+    }
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        this.listeners.delete(key);
+      }
+      if (this.listeners.size === 0 && this.tickTimer) {
+        clearInterval(this.tickTimer);
+        this.tickTimer = null;
+      }
+    };
+  }
+
+  /**
+   * Rank the simulated universe with the gateway's scanner semantics
+   */
+  async scan(params: ScannerParams): Promise<ScannerContract[]> {
+    return applyScannerParams(this.getSnapshots(), params).map((stock, index) => ({
+      symbol: stock.symbol,
+      conid: this.simulator.getProfile(stock.symbol).conid,
+      name: stock.name,
+      exchange: 'SIM',
+      rank: index + 1
+    }));
+  }
+
+  async resolveContract(symbol: string): Promise<ContractInfo | null> {
+    const profile = this.simulator.getProfile(symbol);
+
+    return {
+      conid: profile.conid,
+      symbol: profile.symbol,
+      name: profile.name,
+      secType: 'STK',
+      exchange: 'SIM',
+      currency: 'USD',
+      resolvedAt: Date.now()
+    };
+  }
+
+  async getAccounts(): Promise<BrokerAccount[]> {
+    return [SIM_ACCOUNT];
+  }
+
+  async getPositions(): Promise<Position[]> {
+    return Array.from(this.positions.values())
+      .filter(position => position.quantity !== 0 || position.realizedPnl !== 0)
+      .map(position => {
+        const marketPrice = this.simulator.getTick(position.symbol).price;
+        return {
+          ...position,
+          marketPrice,
+          marketValue: position.quantity * marketPrice,
+          unrealizedPnl: position.quantity * (marketPrice - position.avgCost)
+        };
+      });
+  }
+
+  async getAccountSummary(): Promise<AccountSummary> {
+    const positions = await this.getPositions();
+    const marketValue = positions.reduce((sum, position) => sum + position.marketValue, 0);
+
+    return {
+      accountId: SIM_ACCOUNT.id,
+      netLiquidation: this.cash + marketValue,
+      cash: this.cash,
+      currency: SIM_ACCOUNT.currency
+    };
+  }
+
+  /**
+   * Paper orders: marketable orders fill at once, the rest work against the simulated tape.
+   * Bracket children activate when the entry fills and cancel each other.
+   */
+  async placeOrder(order: OrderRequest): Promise<OrderAck> {
+    const key = order.symbol.toUpperCase();
+    const tick = this.simulator.getTick(key);
+    if (tick.halted) {
+      return { status: 'rejected', message: `${key} is halted` };
+    }
+
+    const invalid = validateOrder({ ...order, symbol: key }, tick.price);
+    if (invalid) {
+      return { status: 'rejected', message: invalid };
+    }
+
+    const entry = this.addOrder({ ...order, symbol: key, bracket: undefined });
+    const legs = [entry, ...getBracketLegs({ ...order, symbol: key }).map(leg => this.addOrder(leg, entry.id))];
+
+    this.emitOrders(legs);
+    this.checkOrders();
+
+    return {
+      orderId: entry.id,
+      orderIds: legs.map(leg => leg.id),
+      status: entry.status === 'filled' ? 'filled' : 'submitted',
+      message: entry.status === 'filled'
+        ? `${order.side} ${order.quantity} ${key} @ ${entry.fillPrice?.toFixed(4)}`
+        : `${order.side} ${order.quantity} ${key} working`
+    };
+  }
+
+  async confirmOrder(replyId: string): Promise<OrderAck> {
+    return { status: 'rejected', message: `No pending order prompt ${replyId}` };
+  }
+
+  async getOrders(): Promise<BrokerOrder[]> {
+    return Array.from(this.orders.values()).map(order => this.toBrokerOrder(order));
+  }
+
+  async modifyOrder(order: BrokerOrder, changes: OrderModification): Promise<OrderAck> {
+    const simulated = this.orders.get(order.id);
+    if (!simulated) {
+      return { status: 'rejected', message: `Unknown order ${order.id}` };
+    }
+
+    const invalid = validateModification(this.toBrokerOrder(simulated), changes);
+    if (invalid) {
+      return { status: 'rejected', message: invalid };
+    }
+
+    const request = { ...simulated.request, ...changes };
+    // Exits are checked on their own; the entry's bracket no longer applies
+    const invalidRequest = validateOrder({ ...request, bracket: undefined }, this.simulator.getTick(request.symbol).price);
+    if (invalidRequest) {
+      return { status: 'rejected', message: invalidRequest };
+    }
+
+    simulated.request = request;
+    simulated.updatedAt = Date.now();
+    this.emitOrders([simulated]);
+    this.checkOrders();
+
+    return { orderId: simulated.id, status: simulated.status === 'filled' ? 'filled' : 'submitted', message: 'Order modified' };
+  }
+
+  async cancelOrder(order: BrokerOrder): Promise<OrderAck> {
+    const simulated = this.orders.get(order.id);
+    if (!simulated || (simulated.status !== 'working' && simulated.status !== 'pending')) {
+      return { status: 'rejected', message: `Order ${order.id} is no longer working` };
+    }
+
+    const now = Date.now();
+    // Cancelling an entry also cancels the exits waiting on it
+    const cancelled = Array.from(this.orders.values()).filter(other =>
+      other.id === simulated.id || (other.parentId === simulated.id && other.status === 'pending')
+    );
+    cancelled.forEach(other => {
+      other.status = 'cancelled';
+      other.updatedAt = now;
+    });
+    this.emitOrders(cancelled);
+    this.checkOrders();
+
+    return { orderId: simulated.id, status: 'submitted', message: 'Order cancelled' };
+  }
+
+  onOrderUpdate(callback: (updates: OrderDelta[]) => void): () => void {
+    this.orderListeners.add(callback);
+
+    return () => {
+      this.orderListeners.delete(callback);
+    };
+  }
+  getStatus(): ProviderStatus {
+    return {
+      source: this.source,
+      connected: true,
+      authenticated: true,
+      streaming: true,
+      status: 'connected'
+    };
+  }
+
+  onStatusChange(callback: (status: ProviderStatus) => void): () => void {
+    this.statusListeners.add(callback);
+
+    return () => {
+      this.statusListeners.delete(callback);
+    };
+  }
+
+  private tick(): void {
+    const now = Date.now();
+
+    this.listeners.forEach((listeners, symbol) => {
+      const quote = this.simulator.getQuote(symbol, now);
+      listeners.forEach(listener => listener(quote));
+    });
+  }
+
+  private addOrder(request: OrderRequest, parentId?: string): SimulatedOrder {
+    this.orderSequence += 1;
+    const order: SimulatedOrder = {
+      id: `SIM-${this.orderSequence}`,
+      request,
+      parentId,
+      status: parentId ? 'pending' : 'working',
+      triggered: false,
+      updatedAt: Date.now()
+    };
+    this.orders.set(order.id, order);
+    return order;
+  }
+
+  /**
+   * Evaluate every working order against the current tick, then keep checking while any remain
+   */
+  private checkOrders(): void {
+    const regularHours = getMarketHours().status === 'regular';
+    const changed = new Set<SimulatedOrder>();
+    const now = Date.now();
+
+    this.orders.forEach(order => {
+      if (order.status !== 'working') return;
+      if (!order.request.outsideRth && !regularHours) return;
+
+      const tick = this.simulator.getTick(order.request.symbol);
+      if (tick.halted) return;
+
+      const fillPrice = this.getFillPrice(order, tick.price);
+      if (fillPrice === null) return;
+
+      const { request } = order;
+      order.status = 'filled';
+      order.fillPrice = fillPrice;
+      order.updatedAt = now;
+      changed.add(order);
+      this.applyFill(request.symbol, request.side === 'BUY' ? request.quantity : -request.quantity, fillPrice);
+
+      this.orders.forEach(other => {
+        // Entry filled: activate its exits. Exit filled: cancel the other exit (OCA).
+        if (other.parentId === order.id && other.status === 'pending') {
+          other.status = 'working';
+        } else if (order.parentId && other.parentId === order.parentId && other.id !== order.id && other.status === 'working') {
+          other.status = 'cancelled';
+        } else {
+          return;
+        }
+        other.updatedAt = now;
+        changed.add(other);
+      });
+    });
+
+    if (changed.size > 0) {
+      this.emitOrders(Array.from(changed));
+    }
+
+    const working = Array.from(this.orders.values()).some(order => order.status === 'working');
+    if (working && !this.orderTimer) {
+      this.orderTimer = setInterval(() => this.checkOrders(), ORDER_CHECK_INTERVAL);
+    } else if (!working && this.orderTimer) {
+      clearInterval(this.orderTimer);
+      this.orderTimer = null;
+    }
+  }
+
+  private toBrokerOrder(order: SimulatedOrder): BrokerOrder {
+    const { request } = order;
+
+    return {
+      id: order.id,
+      accountId: SIM_ACCOUNT.id,
+      symbol: request.symbol,
+      conid: this.simulator.getProfile(request.symbol).conid,
+      side: request.side,
+      orderType: request.orderType,
+      quantity: request.quantity,
+      filledQuantity: order.status === 'filled' ? request.quantity : 0,
+      price: request.price,
+      // Trailing stops report their current trigger
+      auxPrice: request.orderType === 'TRAIL' ? order.trailStop : request.auxPrice,
+      avgFillPrice: order.fillPrice,
+      tif: request.tif || 'DAY',
+      outsideRth: request.outsideRth ?? false,
+      trailingAmount: request.trailingAmount,
+      trailingType: request.trailingType,
+      status: order.status,
+      parentId: order.parentId,
+      updatedAt: order.updatedAt
+    };
+  }
+
+  private emitOrders(orders: SimulatedOrder[]): void {
+    if (this.orderListeners.size === 0) return;
+
+    const updates = orders.map(order => this.toBrokerOrder(order));
+    this.orderListeners.forEach(callback => callback(updates));
+  }
+
+  /**
+   * Fill price for an order at the given last price, or null if it doesn't execute yet.
+   * Stops trigger on the last price; triggered stop-limits then rest as limits.
+   */
+  private getFillPrice(order: SimulatedOrder, last: number): number | null {
+    const { request } = order;
+    const buy = request.side === 'BUY';
+    const limitReached = (limit = 0) => (buy ? last <= limit : last >= limit);
+    const stopReached = (stop = 0) => (buy ? last >= stop : last <= stop);
+
+    switch (request.orderType) {
+      case 'MKT':
+        return last;
+      case 'LMT':
+        // Limits fill at the last price or better
+        return limitReached(request.price) ? last : null;
+      case 'STP':
+        order.triggered = order.triggered || stopReached(request.auxPrice);
+        return order.triggered ? last : null;
+      case 'STOP_LIMIT':
+        order.triggered = order.triggered || stopReached(request.auxPrice);
+        return order.triggered && limitReached(request.price) ? last : null;
+      case 'TRAIL': {
+        const amount = request.trailingAmount ?? 0;
+        const offset = request.trailingType === '%' ? last * amount / 100 : amount;
+        const candidate = buy ? last + offset : last - offset;
+        order.trailStop = order.trailStop === undefined
+          ? candidate
+          : buy ? Math.min(order.trailStop, candidate) : Math.max(order.trailStop, candidate);
+        return stopReached(order.trailStop) ? last : null;
+      }
+      default:
+        return null;
+    }
+  }
+
+  private applyFill(symbol: string, signedQuantity: number, price: number): void {
+    this.cash -= signedQuantity * price;
+    const position = this.positions.get(symbol) || {
+      accountId: SIM_ACCOUNT.id,
+      conid: this.simulator.getProfile(symbol).conid,
+      symbol,
+      quantity: 0,
+      avgCost: 0,
+      marketPrice: price,
+      marketValue: 0,
+      unrealizedPnl: 0,
+      realizedPnl: 0,
+      currency: 'USD'
+    };
+
+    const quantity = position.quantity + signedQuantity;
+    const increasing = position.quantity === 0 || Math.sign(signedQuantity) === Math.sign(position.quantity);
+
+    if (increasing) {
+      position.avgCost = (position.avgCost * position.quantity + price * signedQuantity) / quantity;
+    } else {
+      const closed = Math.min(Math.abs(signedQuantity), Math.abs(position.quantity));
+      position.realizedPnl += closed * (price - position.avgCost) * Math.sign(position.quantity);
+      // Flipping through zero opens the remainder at the fill price
+      if (Math.sign(quantity) !== Math.sign(position.quantity) && quantity !== 0) {
+        position.avgCost = price;
+      }
+    }
+
+    position.quantity = quantity;
+    if (quantity === 0) {
+      position.avgCost = 0;
+    }
+    this.positions.set(symbol, position);
+  }
+}
+
+export const simulatedProvider = new SimulatedProvider();
@@ -0,0 +1,171 @@
+import {
+  AccountSummary,
+  BrokerAccount,
+  BrokerOrder,
+  ChartData,
+  ChartTimeframe,
+  ContractInfo,
+  DataSource,
+  OrderAck,
+  OrderDelta,
+  OrderModification,
+  OrderRequest,
+  Position,
+  ProviderStatus,
+  StockDelta
+} from '@/types';
+import type { MarketDataListener } from '@/lib/ibkr-stream';
+import type { ScannerContract, ScannerParams } from '@/lib/ibkr-scanner';
+import { ibkrGatewayProvider, ibkrPortalProvider, ibkrLocalProvider } from '@/lib/market-data-ibkr';
+import { simulatedProvider } from '@/lib/market-data-simulated';
+import { replayProvider } from '@/lib/market-data-replay';
+
+/**
+ * Market data provider contract
+ * Every data source (IBKR gateway, portal proxy, local gateway, simulator, session replay) is exposed
+ * through this interface so components never depend on a specific client.
+ */
+
+export interface ProviderCapabilities {
+  streaming: boolean;
+  orders: boolean;
+  accounts: boolean;
+  /** Quotes carry float and news counts; without them the scanner asks the server */
+  fundamentals: boolean;
+}
+
+export interface BarQuery {
+  /** Only bars that open before this time (epoch seconds); omit for the latest page */
+  before?: number;
+}
+
+export interface MarketDataProvider {
+  readonly source: DataSource;
+  readonly label: string;
+  readonly capabilities: ProviderCapabilities;
+
+  /** Latest snapshot for each symbol; symbols without a contract are dropped */
+  getQuotes(symbols: string[]): Promise<StockDelta[]>;
+  /** One page of historical bars in ascending time order */
+  getBars(symbol: string, timeframe: ChartTimeframe['value'], query?: BarQuery): Promise<ChartData[]>;
+  /** Stream ticks for a symbol. Resolves to a function that removes this listener. */
+  subscribe(symbol: string, listener: MarketDataListener): Promise<() => void>;
+  /** Run a market scan, returning ranked contracts (best match first) */
+  scan(params: ScannerParams): Promise<ScannerContract[]>;
+  resolveContract(symbol: string): Promise<ContractInfo | null>;
+  getAccounts(): Promise<BrokerAccount[]>;
+  getPositions(accountId?: string): Promise<Position[]>;
+  /** Account value used to size positions as a percent of the account */
+  getAccountSummary(accountId?: string): Promise<AccountSummary>;
+  placeOrder(order: OrderRequest): Promise<OrderAck>;
+  /** Answer a `confirmation_required` prompt; declining cancels the order */
+  confirmOrder(replyId: string, confirmed?: boolean): Promise<OrderAck>;
+  /** Working and recently completed orders for the session */
+  getOrders(): Promise<BrokerOrder[]>;
+  modifyOrder(order: BrokerOrder, changes: OrderModification): Promise<OrderAck>;
+  cancelOrder(order: BrokerOrder): Promise<OrderAck>;
+  /** Listen for live order changes (partial updates). Returns an unsubscribe function. */
+  onOrderUpdate(callback: (updates: OrderDelta[]) => void): () => void;
+  getStatus(): ProviderStatus;
+  /** Listen for connection/auth changes. Returns an unsubscribe function. */
+  onStatusChange(callback: (status: ProviderStatus) => void): () => void;
+}
+
+export const DEFAULT_DATA_SOURCE: DataSource = 'ibkr-gateway';
+
+/**
+ * Holds the registered providers and the one currently selected in settings
+ */
+export class MarketDataManager {
+  private providers: Map<DataSource, MarketDataProvider> = new Map();
+  private source: DataSource = DEFAULT_DATA_SOURCE;
+  private providerListeners: Set<(provider: MarketDataProvider) => void> = new Set();
+  private statusListeners: Set<(status: ProviderStatus) => void> = new Set();
+  private detachStatus: (() => void) | null = null;
+
+  constructor(providers: MarketDataProvider[]) {
+    providers.forEach(provider => this.providers.set(provider.source, provider));
+    this.watchStatus();
+  }
+
+  getProviders(): MarketDataProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  /**
+   * Get the active provider, or a specific one
+   */
+  getProvider(source: DataSource = this.source): MarketDataProvider {
+    const provider = this.providers.get(source);
+    if (!provider) {
+      throw new Error(`Unknown market data source: ${source}`);
+    }
+    return provider;
+  }
+
+  getSource(): DataSource {
+    return this.source;
+  }
+
+  /**
+   * Switch the active data source. Listeners re-subscribe through onProviderChange.
+   */
+  setSource(source: DataSource): void {
+    if (!this.providers.has(source)) {
+      console.warn(`Unknown market data source: ${source}`);
+      return;
+    }
+    if (source === this.source) return;
+
+    this.source = source;
+    console.log(`📡 Market data source: ${this.getProvider().label}`);
+
+    this.watchStatus();
+    const provider = this.getProvider();
+    this.providerListeners.forEach(callback => callback(provider));
+    this.notifyStatus(provider.getStatus());
+  }
+
+  getStatus(): ProviderStatus {
+    return this.getProvider().getStatus();
+  }
+
+  /**
+   * Listen for data source switches. Returns an unsubscribe function.
+   */
+  onProviderChange(callback: (provider: MarketDataProvider) => void): () => void {
+    this.providerListeners.add(callback);
+
+    return () => {
+      this.providerListeners.delete(callback);
+    };
+  }
+
+  /**
+   * Listen for status changes of whichever provider is active. Returns an unsubscribe function.
+   */
+  onStatusChange(callback: (status: ProviderStatus) => void): () => void {
+    this.statusListeners.add(callback);
+
+    return () => {
+      this.statusListeners.delete(callback);
+    };
+  }
+
+  private watchStatus(): void {
+    this.detachStatus?.();
+    this.detachStatus = this.getProvider().onStatusChange(status => this.notifyStatus(status));
+  }
+
+  private notifyStatus(status: ProviderStatus): void {
+    this.statusListeners.forEach(callback => callback(status));
+  }
+}
+
+export const marketData = new MarketDataManager([
+  ibkrGatewayProvider,
+  ibkrPortalProvider,
+  ibkrLocalProvider,
+  simulatedProvider,
+  replayProvider
+]);
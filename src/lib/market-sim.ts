@@ -0,0 +1,667 @@
+import { ChartData, ChartTimeframe, Stock, StockDelta } from '@/types';
+
+/**
+ * Deterministic market simulator
+ * Generates a seeded universe of penny stocks whose snapshots, bars on every
+ * timeframe and ticks all come from one underlying price path per symbol and day:
+ *
+ * - Daily chain: gaps (occasionally large), news days and a mean-reverting
+ *   geometric random walk fix each day's open and regular-session close.
+ * - Intraday path: 10-second steps from 4:00 to 20:00 ET, a Brownian bridge between
+ *   those anchors, scaled by time of day and Markov volume/volatility regimes, with
+ *   news jumps, decaying volume bursts and 5-minute LULD-style halts.
+ *
+ * Everything is a pure function of (seed, symbol, time), so two simulators with the
+ * same seed agree exactly and tests can pin `at` instead of using the wall clock.
+ */
+
+export const TIMEFRAME_SECONDS: Record<ChartTimeframe['value'], number> = {
+  '1m': 60,
+  '5m': 300,
+  '15m': 900,
+  '30m': 1800,
+  '1h': 3600,
+  '1d': 86400
+};
+
+// Minutes after midnight ET
+const SESSION_START_MINUTE = 240; // 4:00 premarket
+const REGULAR_OPEN_MINUTE = 570; // 9:30
+const REGULAR_CLOSE_MINUTE = 960; // 16:00
+const SESSION_END_MINUTE = 1200; // 20:00 after-hours close
+const SESSION_MINUTES = SESSION_END_MINUTE - SESSION_START_MINUTE;
+
+const SUBSTEPS = 6; // 10-second ticks per minute
+const STEP_MS = 60_000 / SUBSTEPS;
+const SESSION_STEPS = SESSION_MINUTES * SUBSTEPS;
+const REGULAR_OPEN_STEP = (REGULAR_OPEN_MINUTE - SESSION_START_MINUTE) * SUBSTEPS;
+const REGULAR_CLOSE_STEP = (REGULAR_CLOSE_MINUTE - SESSION_START_MINUTE) * SUBSTEPS;
+
+const DAY_MS = 86_400_000;
+const ANCHOR_DAY = Math.floor(Date.UTC(2020, 0, 2) / DAY_MS); // Price chains start here
+const PATH_CACHE_SIZE = 48;
+const HALT_THRESHOLD = 0.1; // 10% move within 5 minutes
+const HALT_MINUTES = 5;
+
+// Low / normal / active regimes
+const REGIMES = [
+  { volume: 0.4, volatility: 0.6 },
+  { volume: 1, volatility: 1 },
+  { volume: 2.5, volatility: 1.8 }
+];
+
+const NAME_PREFIXES = ['Apex', 'Nova', 'Blue', 'Quantum', 'Vertex', 'Helix', 'Titan', 'Lumen', 'Orion', 'Zenith', 'Atlas', 'Cobalt', 'Summit', 'Pioneer', 'Aurora', 'Vector'];
+const NAME_SECTORS = ['Bio', 'Therapeutics', 'Energy', 'Mining', 'Robotics', 'Genomics', 'Solar', 'Pharma', 'Networks', 'Metals', 'Medical', 'Fintech'];
+const NAME_SUFFIXES = ['Inc', 'Corp', 'Holdings', 'Ltd', 'Group'];
+
+export interface SymbolProfile {
+  symbol: string;
+  name: string;
+  conid: number;
+  basePrice: number;
+  sharesOutstanding: number;
+  float: number;
+  dailyVolatility: number;
+  averageVolume: number;
+  newsRate: number;
+  gapRate: number;
+}
+
+export interface SimulatedDay {
+  dayNumber: number;
+  date: string;
+  sessionStart: number;
+  previousClose: number;
+  open: number;
+  close: number;
+  extendedClose: number;
+  gapPercent: number;
+  newsMinute: number | null;
+  newsImpact: number;
+  volumeMultiplier: number;
+}
+
+export interface SimulatedTick {
+  symbol: string;
+  time: number;
+  price: number;
+  volume: number;
+  halted: boolean;
+}
+
+export interface SimulatorOptions {
+  seed?: number;
+  universeSize?: number;
+}
+
+export interface BarRequestOptions {
+  end?: number;
+  count?: number;
+}
+
+interface IntradayPath {
+  prices: Float64Array;
+  volumes: Float64Array;
+  halted: Uint8Array;
+}
+
+/**
+ * FNV-1a hash used to derive per-symbol seeds
+ */
+export function hashSeed(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Combine several integers into one seed
+ */
+export function mixSeed(...values: number[]): number {
+  let hash = 0x811c9dc5;
+  values.forEach(value => {
+    hash ^= value >>> 0;
+    hash = Math.imul(hash, 0x01000193);
+    hash ^= hash >>> 13;
+  });
+  return hash >>> 0;
+}
+
+/**
+ * Mulberry32 PRNG: small, fast and reproducible across browsers
+ */
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Standard normal draw (Box-Muller)
+ */
+export function gaussian(rng: () => number): number {
+  const u = rng() || Number.EPSILON;
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rng());
+}
+
+const round = (value: number) => Number(value.toFixed(4));
+
+function isWeekday(dayNumber: number): boolean {
+  const weekday = (dayNumber + 4) % 7; // 1970-01-01 was a Thursday
+  return weekday !== 0 && weekday !== 6;
+}
+
+function nthSunday(year: number, month: number, n: number): number {
+  const firstWeekday = new Date(Date.UTC(year, month, 1)).getUTCDay();
+  return 1 + ((7 - firstWeekday) % 7) + (n - 1) * 7;
+}
+
+/**
+ * UTC offset of US Eastern time in hours for a calendar day (DST rules since 2007)
+ */
+function easternOffset(dayNumber: number): number {
+  const year = new Date(dayNumber * DAY_MS).getUTCFullYear();
+  const time = dayNumber * DAY_MS;
+  const dstStart = Date.UTC(year, 2, nthSunday(year, 2, 2));
+  const dstEnd = Date.UTC(year, 10, nthSunday(year, 10, 1));
+  return time >= dstStart && time < dstEnd ? -4 : -5;
+}
+
+/**
+ * Calendar day (days since epoch) in New York for a timestamp
+ */
+function easternDayNumber(at: number): number {
+  const guess = Math.floor((at - 5 * 3_600_000) / DAY_MS);
+  return Math.floor((at + easternOffset(guess) * 3_600_000) / DAY_MS);
+}
+
+function sessionStartMs(dayNumber: number): number {
+  return dayNumber * DAY_MS + (SESSION_START_MINUTE / 60 - easternOffset(dayNumber)) * 3_600_000;
+}
+
+// Intraday volatility is highest around the open, volume follows the usual U shape
+function volatilityWeight(minute: number): number {
+  const clock = SESSION_START_MINUTE + minute;
+  if (clock < REGULAR_OPEN_MINUTE) return 0.5;
+  if (clock < REGULAR_OPEN_MINUTE + 30) return 2;
+  if (clock >= REGULAR_CLOSE_MINUTE) return 0.4;
+  if (clock >= REGULAR_CLOSE_MINUTE - 30) return 1.4;
+  return 1;
+}
+
+function volumeWeight(minute: number): number {
+  const clock = SESSION_START_MINUTE + minute;
+  if (clock < REGULAR_OPEN_MINUTE) return 0.12;
+  if (clock >= REGULAR_CLOSE_MINUTE) return 0.08;
+  const midday = (REGULAR_OPEN_MINUTE + REGULAR_CLOSE_MINUTE) / 2;
+  const distance = (clock - midday) / (midday - REGULAR_OPEN_MINUTE);
+  return 0.8 + 2.2 * distance * distance;
+}
+
+export class MarketSimulator {
+  readonly seed: number;
+  private universe: string[];
+  private profiles: Map<string, SymbolProfile> = new Map();
+  private chains: Map<string, SimulatedDay[]> = new Map();
+  private paths: Map<string, IntradayPath> = new Map();
+  private dailyBars: Map<string, ChartData> = new Map();
+
+  constructor(options: SimulatorOptions = {}) {
+    this.seed = options.seed ?? 42;
+    this.universe = this.createUniverse(options.universeSize ?? 40);
+  }
+
+  /**
+   * Symbols of the simulated penny-stock universe
+   */
+  getUniverse(): string[] {
+    return [...this.universe];
+  }
+
+  /**
+   * Static characteristics of a symbol. Any ticker works, not only universe members.
+   */
+  getProfile(symbol: string): SymbolProfile {
+    const key = symbol.toUpperCase();
+    const cached = this.profiles.get(key);
+    if (cached) return cached;
+
+    const rng = createRng(mixSeed(this.seed, hashSeed(key), 0x51));
+    const pick = <T>(items: T[]) => items[Math.floor(rng() * items.length)];
+    const sharesOutstanding = Math.round(5_000_000 * Math.exp(rng() * Math.log(100))); // 5M - 500M
+    const float = Math.round(sharesOutstanding * (0.35 + rng() * 0.6));
+
+    const profile: SymbolProfile = {
+      symbol: key,
+      name: `${pick(NAME_PREFIXES)} ${pick(NAME_SECTORS)} ${pick(NAME_SUFFIXES)}`,
+      conid: 900_000_000 + (hashSeed(key) % 100_000_000),
+      // Log-uniform between $0.20 and $5.00
+      basePrice: round(Math.exp(Math.log(0.2) + rng() * Math.log(25))),
+      sharesOutstanding,
+      float,
+      dailyVolatility: 0.05 + rng() * 0.15,
+      averageVolume: Math.round(float * (0.01 + rng() * 0.15)),
+      newsRate: 0.03 + rng() * 0.12,
+      gapRate: 0.02 + rng() * 0.08
+    };
+
+    this.profiles.set(key, profile);
+    return profile;
+  }
+
+  /**
+   * The trading day in effect at a time: today once premarket opens, otherwise the previous session
+   */
+  getDay(symbol: string, at: number = Date.now()): SimulatedDay {
+    let dayNumber = easternDayNumber(at);
+    if (at < sessionStartMs(dayNumber)) {
+      dayNumber -= 1;
+    }
+    while (!isWeekday(dayNumber)) {
+      dayNumber -= 1;
+    }
+    return this.getChainDay(symbol, Math.max(dayNumber, ANCHOR_DAY));
+  }
+
+  /**
+   * Last trade at a time; prices are frozen outside 4:00-20:00 ET and during halts
+   */
+  getTick(symbol: string, at: number = Date.now()): SimulatedTick {
+    const day = this.getDay(symbol, at);
+    const path = this.getPath(symbol, day);
+    const step = this.getStep(day, at);
+    const minute = Math.min(Math.floor(step / SUBSTEPS), SESSION_MINUTES - 1);
+
+    let volume = 0;
+    for (let m = 0; m < minute; m++) {
+      volume += path.volumes[m];
+    }
+    volume += step >= SESSION_STEPS ? path.volumes[minute] : path.volumes[minute] * (step % SUBSTEPS) / SUBSTEPS;
+
+    return {
+      symbol: symbol.toUpperCase(),
+      time: at,
+      price: round(path.prices[step]),
+      volume: Math.floor(volume),
+      halted: step < SESSION_STEPS && path.halted[minute] === 1
+    };
+  }
+
+  /**
+   * Quote with session open/high/low, prior close and a penny-stock spread
+   */
+  getQuote(symbol: string, at: number = Date.now()): StockDelta {
+    const profile = this.getProfile(symbol);
+    const day = this.getDay(symbol, at);
+    const path = this.getPath(symbol, day);
+    const step = this.getStep(day, at);
+    const tick = this.getTick(symbol, at);
+
+    let high = path.prices[0];
+    let low = path.prices[0];
+    for (let i = 1; i <= step; i++) {
+      high = Math.max(high, path.prices[i]);
+      low = Math.min(low, path.prices[i]);
+    }
+
+    const change = tick.price - day.previousClose;
+    const spread = Math.max(0.0001, tick.price * (tick.halted ? 0.01 : 0.002));
+
+    return {
+      symbol: profile.symbol,
+      conid: profile.conid,
+      name: profile.name,
+      price: tick.price,
+      change: round(change),
+      changePercent: Number(((change / day.previousClose) * 100).toFixed(2)),
+      bid: round(Math.max(0.0001, tick.price - spread / 2)),
+      ask: round(tick.price + spread / 2),
+      open: round(step >= REGULAR_OPEN_STEP ? path.prices[REGULAR_OPEN_STEP] : day.open),
+      high: round(high),
+      low: round(low),
+      previousClose: round(day.previousClose),
+      volume: tick.volume,
+      marketCap: Math.round(tick.price * profile.sharesOutstanding),
+      float: profile.float,
+      news: this.getNewsCount(day, step),
+      halted: tick.halted,
+      lastUpdate: new Date(at)
+    };
+  }
+
+  /**
+   * Full scanner row for a symbol
+   */
+  getStock(symbol: string, at: number = Date.now()): Stock {
+    const quote = this.getQuote(symbol, at);
+
+    return {
+      symbol: quote.symbol,
+      name: quote.name ?? quote.symbol,
+      price: quote.price ?? 0,
+      change: quote.change ?? 0,
+      changePercent: quote.changePercent ?? 0,
+      volume: quote.volume ?? 0,
+      marketCap: quote.marketCap ?? 0,
+      float: quote.float ?? 0,
+      news: quote.news ?? 0,
+      lastUpdate: new Date(at)
+    };
+  }
+
+  /**
+   * Snapshot of the whole universe
+   */
+  getSnapshots(at: number = Date.now()): Stock[] {
+    return this.universe.map(symbol => this.getStock(symbol, at));
+  }
+
+  /**
+   * Bars ending at `end` (default now), newest last. Intraday bars cover 4:00-20:00 ET;
+   * daily bars use the regular session range with full-day volume.
+   */
+  getBars(symbol: string, timeframe: ChartTimeframe['value'], options: BarRequestOptions = {}): ChartData[] {
+    const end = options.end ?? Date.now();
+    const count = options.count ?? 200;
+    const bars: ChartData[] = [];
+    let day = this.getDay(symbol, end);
+
+    while (bars.length < count) {
+      const dayBars = timeframe === '1d'
+        ? [this.getDailyBar(symbol, day, end)]
+        : this.getIntradayBars(symbol, day, TIMEFRAME_SECONDS[timeframe], end);
+
+      bars.unshift(...dayBars);
+      if (day.dayNumber <= ANCHOR_DAY) break;
+      day = this.getDay(symbol, day.sessionStart - 1);
+    }
+
+    return bars.slice(-count);
+  }
+
+  private getStep(day: SimulatedDay, at: number): number {
+    return Math.max(0, Math.min(SESSION_STEPS, Math.floor((at - day.sessionStart) / STEP_MS)));
+  }
+
+  private getNewsCount(day: SimulatedDay, step: number): number {
+    return day.newsMinute !== null && step >= day.newsMinute * SUBSTEPS ? 1 : 0;
+  }
+
+  private getIntradayBars(symbol: string, day: SimulatedDay, intervalSeconds: number, end: number): ChartData[] {
+    const path = this.getPath(symbol, day);
+    const endStep = this.getStep(day, end);
+    const bars: ChartData[] = [];
+
+    for (let minute = 0; minute * SUBSTEPS < endStep; minute++) {
+      const first = minute * SUBSTEPS;
+      const last = Math.min(first + SUBSTEPS, endStep);
+      const minuteTime = Math.floor(day.sessionStart / 1000) + minute * 60;
+      const time = Math.floor(minuteTime / intervalSeconds) * intervalSeconds;
+
+      let high = path.prices[first];
+      let low = path.prices[first];
+      for (let i = first + 1; i <= last; i++) {
+        high = Math.max(high, path.prices[i]);
+        low = Math.min(low, path.prices[i]);
+      }
+      const volume = path.volumes[minute] * (last - first) / SUBSTEPS;
+
+      const current = bars[bars.length - 1];
+      if (current && current.time === time) {
+        current.high = Math.max(current.high, round(high));
+        current.low = Math.min(current.low, round(low));
+        current.close = round(path.prices[last]);
+        current.volume += Math.floor(volume);
+      } else {
+        bars.push({
+          time,
+          open: round(path.prices[first]),
+          high: round(high),
+          low: round(low),
+          close: round(path.prices[last]),
+          volume: Math.floor(volume)
+        });
+      }
+    }
+
+    return bars;
+  }
+
+  private getDailyBar(symbol: string, day: SimulatedDay, end: number): ChartData {
+    const key = `${symbol.toUpperCase()}:${day.dayNumber}`;
+    const endStep = this.getStep(day, end);
+    const complete = endStep >= SESSION_STEPS;
+
+    const cached = complete ? this.dailyBars.get(key) : undefined;
+    if (cached) return cached;
+
+    // Completed days far in the past are built without evicting recent intraday paths
+    const path = this.paths.get(key) ?? (complete ? this.buildPath(symbol, day) : this.getPath(symbol, day));
+    const first = endStep > REGULAR_OPEN_STEP ? REGULAR_OPEN_STEP : 0;
+    const last = Math.min(endStep, REGULAR_CLOSE_STEP);
+
+    let high = path.prices[first];
+    let low = path.prices[first];
+    for (let i = first + 1; i <= last; i++) {
+      high = Math.max(high, path.prices[i]);
+      low = Math.min(low, path.prices[i]);
+    }
+    let volume = 0;
+    for (let m = 0; m * SUBSTEPS < endStep; m++) {
+      volume += path.volumes[m] * (Math.min((m + 1) * SUBSTEPS, endStep) - m * SUBSTEPS) / SUBSTEPS;
+    }
+
+    const bar: ChartData = {
+      time: day.dayNumber * 86400,
+      open: round(path.prices[first]),
+      high: round(high),
+      low: round(low),
+      close: round(path.prices[last]),
+      volume: Math.floor(volume)
+    };
+
+    if (complete) {
+      this.dailyBars.set(key, bar);
+    }
+    return bar;
+  }
+
+  private createUniverse(size: number): string[] {
+    const rng = createRng(mixSeed(this.seed, 0x55));
+    const symbols = new Set<string>();
+
+    while (symbols.size < size) {
+      const length = rng() < 0.6 ? 4 : 3;
+      let symbol = '';
+      for (let i = 0; i < length; i++) {
+        symbol += String.fromCharCode(65 + Math.floor(rng() * 26));
+      }
+      symbols.add(symbol);
+    }
+
+    return Array.from(symbols);
+  }
+
+  private getChainDay(symbol: string, dayNumber: number): SimulatedDay {
+    const key = symbol.toUpperCase();
+    const chain = this.chains.get(key) || [];
+    this.chains.set(key, chain);
+
+    let last = chain[chain.length - 1];
+    while (!last || last.dayNumber < dayNumber) {
+      let next = last ? last.dayNumber + 1 : ANCHOR_DAY;
+      while (!isWeekday(next)) {
+        next += 1;
+      }
+      last = this.buildDay(this.getProfile(key), last || null, next);
+      chain.push(last);
+    }
+
+    // Days are pushed in order, so binary search the chain
+    let lo = 0;
+    let hi = chain.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (chain[mid].dayNumber <= dayNumber) {
+        lo = mid;
+      } else {
+        hi = mid - 1;
+      }
+    }
+    return chain[lo];
+  }
+
+  private buildDay(profile: SymbolProfile, previous: SimulatedDay | null, dayNumber: number): SimulatedDay {
+    const rng = createRng(mixSeed(this.seed, hashSeed(profile.symbol), dayNumber));
+    const sigma = profile.dailyVolatility;
+    const previousClose = previous ? previous.close : profile.basePrice;
+
+    const gap = rng() < profile.gapRate
+      ? (rng() < 0.65 ? 1 : -1) * (0.08 + rng() * 0.32)
+      : gaussian(rng) * sigma * 0.25;
+
+    const hasNews = rng() < profile.newsRate;
+    const newsMinute = hasNews ? Math.floor(rng() * SESSION_MINUTES) : null;
+    const newsImpact = hasNews ? (rng() < 0.6 ? 1 : -1) * (0.05 + rng() * 0.35) : 0;
+
+    // Mean reversion keeps years of history inside the penny-stock range
+    const reversion = 0.02 * Math.log(profile.basePrice / previousClose);
+    const open = Math.max(0.01, previousClose * (1 + gap));
+    const close = Math.max(0.01, open * Math.exp(reversion + gaussian(rng) * sigma + Math.log(1 + newsImpact) * 0.5));
+    const extendedClose = Math.max(0.01, close * Math.exp(gaussian(rng) * sigma * 0.15));
+    const volumeMultiplier = Math.exp(gaussian(rng) * 0.35) *
+      (hasNews ? 3 + rng() * 7 : 1) *
+      (Math.abs(gap) > 0.08 ? 2.5 : 1);
+
+    return {
+      dayNumber,
+      date: new Date(dayNumber * DAY_MS).toISOString().slice(0, 10),
+      sessionStart: sessionStartMs(dayNumber),
+      previousClose,
+      open,
+      close,
+      extendedClose,
+      gapPercent: gap * 100,
+      newsMinute,
+      newsImpact,
+      volumeMultiplier
+    };
+  }
+
+  private getPath(symbol: string, day: SimulatedDay): IntradayPath {
+    const key = `${symbol.toUpperCase()}:${day.dayNumber}`;
+    const cached = this.paths.get(key);
+
+    if (cached) {
+      // Refresh LRU position
+      this.paths.delete(key);
+      this.paths.set(key, cached);
+      return cached;
+    }
+
+    const path = this.buildPath(symbol, day);
+    this.paths.set(key, path);
+    if (this.paths.size > PATH_CACHE_SIZE) {
+      this.paths.delete(this.paths.keys().next().value as string);
+    }
+    return path;
+  }
+
+  private buildPath(symbol: string, day: SimulatedDay): IntradayPath {
+    const profile = this.getProfile(symbol);
+    const rng = createRng(mixSeed(this.seed, hashSeed(profile.symbol), day.dayNumber, 0x9e37));
+    const newsStep = day.newsMinute !== null ? day.newsMinute * SUBSTEPS : -1;
+
+    // Markov regime per minute; news switches into the active regime for half an hour
+    const regimes = new Uint8Array(SESSION_MINUTES);
+    let regime = 1;
+    for (let m = 0; m < SESSION_MINUTES; m++) {
+      if (rng() < 0.03) {
+        regime = Math.floor(rng() * REGIMES.length);
+      }
+      const newsActive = day.newsMinute !== null && m >= day.newsMinute && m < day.newsMinute + 30;
+      regimes[m] = newsActive ? 2 : regime;
+    }
+
+    // Shocks scaled so the day's intraday variance matches the daily volatility
+    const shocks = new Float64Array(SESSION_STEPS);
+    let sumSquares = 0;
+    for (let i = 0; i < SESSION_STEPS; i++) {
+      const minute = Math.floor(i / SUBSTEPS);
+      const weight = volatilityWeight(minute) * REGIMES[regimes[minute]].volatility;
+      shocks[i] = gaussian(rng) * weight;
+      sumSquares += weight * weight;
+    }
+    const scale = profile.dailyVolatility / Math.sqrt(sumSquares);
+
+    const walk = new Float64Array(SESSION_STEPS + 1);
+    for (let i = 0; i < SESSION_STEPS; i++) {
+      const jump = i === newsStep ? Math.log(1 + day.newsImpact) : 0;
+      walk[i + 1] = walk[i] + shocks[i] * scale + jump;
+    }
+
+    // Brownian bridges: open -> regular close, then regular close -> after-hours close
+    const prices = new Float64Array(SESSION_STEPS + 1);
+    const logOpen = Math.log(day.open);
+    const logClose = Math.log(day.close);
+    const logExtended = Math.log(day.extendedClose);
+    for (let i = 0; i <= SESSION_STEPS; i++) {
+      let logPrice: number;
+      if (i <= REGULAR_CLOSE_STEP) {
+        const t = i / REGULAR_CLOSE_STEP;
+        logPrice = logOpen + t * (logClose - logOpen) + walk[i] - t * walk[REGULAR_CLOSE_STEP];
+      } else {
+        const t = (i - REGULAR_CLOSE_STEP) / (SESSION_STEPS - REGULAR_CLOSE_STEP);
+        const drift = walk[i] - walk[REGULAR_CLOSE_STEP];
+        const total = walk[SESSION_STEPS] - walk[REGULAR_CLOSE_STEP];
+        logPrice = logClose + t * (logExtended - logClose) + drift - t * total;
+      }
+      prices[i] = Math.max(0.0001, Math.exp(logPrice));
+    }
+
+    // Volume: U-shaped profile x regime x noise, with a decaying burst after news
+    const volumes = new Float64Array(SESSION_MINUTES);
+    let totalWeight = 0;
+    for (let m = 0; m < SESSION_MINUTES; m++) {
+      totalWeight += volumeWeight(m);
+    }
+    const perWeight = (profile.averageVolume * day.volumeMultiplier) / totalWeight;
+    for (let m = 0; m < SESSION_MINUTES; m++) {
+      const burst = day.newsMinute !== null && m >= day.newsMinute ? 1 + 20 * Math.exp(-(m - day.newsMinute) / 15) : 1;
+      volumes[m] = perWeight * volumeWeight(m) * REGIMES[regimes[m]].volume * Math.exp(gaussian(rng) * 0.4) * burst;
+    }
+
+    // LULD-style halts: a 10% move within 5 minutes during regular hours pauses trading
+    const halted = new Uint8Array(SESSION_MINUTES);
+    const firstMinute = REGULAR_OPEN_MINUTE - SESSION_START_MINUTE + HALT_MINUTES;
+    const lastMinute = REGULAR_CLOSE_MINUTE - SESSION_START_MINUTE - HALT_MINUTES;
+    for (let m = firstMinute; m < lastMinute; m++) {
+      const now = prices[(m + 1) * SUBSTEPS];
+      const before = prices[(m + 1 - HALT_MINUTES) * SUBSTEPS];
+      if (Math.abs(now / before - 1) < HALT_THRESHOLD) continue;
+
+      for (let h = m + 1; h <= m + HALT_MINUTES; h++) {
+        halted[h] = 1;
+        volumes[h] = 0;
+        for (let s = h * SUBSTEPS + 1; s <= (h + 1) * SUBSTEPS && s < REGULAR_CLOSE_STEP; s++) {
+          prices[s] = now;
+        }
+      }
+      // Trading resumes at the underlying path price, gapping away from the halt price
+      m += HALT_MINUTES;
+    }
+
+    return { prices, volumes, halted };
+  }
+}
+
+// Shared simulator used by demo mode and the simulated data source
+export const marketSimulator = new MarketSimulator();
@@ -1,12 +1,23 @@
 import { MarketHours } from '@/types';
+import { clock } from '@/lib/clock';
+import {
+  AFTER_HOURS_CLOSE_MINUTE,
+  EARLY_AFTER_HOURS_CLOSE_MINUTE,
+  EARLY_CLOSE_MINUTE,
+  getEarlyClose,
+  getHoliday,
+  PREMARKET_OPEN_MINUTE,
+  REGULAR_CLOSE_MINUTE,
+  REGULAR_OPEN_MINUTE,
+  toNewYorkParts
+} from '@/lib/trading-calendar';
 
-export function getMarketHours(): MarketHours {
-  const now = new Date();
-  const timeEST = new Date(now.toLocaleString("en-US", {timeZone: "America/New_York"}));
-  const hours = timeEST.getHours();
-  const minutes = timeEST.getMinutes();
-  const currentTime = hours * 60 + minutes;
-  const day = timeEST.getDay();
+/**
+ * Session for a moment in time (defaults to the app clock, which follows a replay), in New York time.
+ * Exchange holidays are closed all day; early-close days end regular hours at 1:00 PM and after-hours at 5:00 PM.
+ */
+export function getMarketHours(now: Date = new Date(clock.now())): MarketHours {
+  const { date, minutes: currentTime, weekday: day } = toNewYorkParts(now.getTime());
   
   // Weekend
   if (day === 0 || day === 6) {
@@ -16,31 +27,49 @@ export function getMarketHours(): MarketHours {
       isOpen: false
     };
   }
+
+  // Exchange holiday
+  const holiday = getHoliday(date);
+  if (holiday) {
+    return {
+      status: 'closed',
+      label: `Market Closed - ${holiday}`,
+      isOpen: false,
+      holiday
+    };
+  }
+
+  const earlyClose = getEarlyClose(date) ?? undefined;
+  const close = earlyClose ? EARLY_CLOSE_MINUTE : REGULAR_CLOSE_MINUTE;
+  const afterHoursClose = earlyClose ? EARLY_AFTER_HOURS_CLOSE_MINUTE : AFTER_HOURS_CLOSE_MINUTE;
   
   // Pre-market: 4:00 AM - 9:30 AM EST
-  if (currentTime >= 240 && currentTime < 570) {
+  if (currentTime >= PREMARKET_OPEN_MINUTE && currentTime < REGULAR_OPEN_MINUTE) {
     return {
       status: 'premarket',
       label: 'Early Eyes',
-      isOpen: true
+      isOpen: true,
+      earlyClose
     };
   }
   
-  // Regular hours: 9:30 AM - 4:00 PM EST  
-  if (currentTime >= 570 && currentTime < 960) {
+  // Regular hours: 9:30 AM - 4:00 PM EST (1:00 PM on early-close days)
+  if (currentTime >= REGULAR_OPEN_MINUTE && currentTime < close) {
     return {
       status: 'regular',
       label: 'Intraday Trades',
-      isOpen: true
+      isOpen: true,
+      earlyClose
     };
   }
   
-  // After hours: 4:00 PM - 8:00 PM EST
-  if (currentTime >= 960 && currentTime < 1200) {
+  // After hours: until 8:00 PM EST (5:00 PM on early-close days)
+  if (currentTime >= close && currentTime < afterHoursClose) {
     return {
       status: 'afterhours', 
       label: 'After-Hours Activity',
-      isOpen: true
+      isOpen: true,
+      earlyClose
     };
   }
   
@@ -48,7 +77,8 @@ export function getMarketHours(): MarketHours {
   return {
     status: 'closed',
     label: 'Market Closed',
-    isOpen: false
+    isOpen: false,
+    earlyClose
   };
 }
 
@@ -0,0 +1,219 @@
+import { BrokerOrder, OrderAck, OrderDelta, OrderFill, OrderModification } from '@/types';
+import { marketData } from '@/lib/market-data';
+import { alertService } from '@/lib/alerts';
+import { applyOrderDelta, validateModification } from '@/lib/ibkr-orders';
+
+/**
+ * Order blotter service
+ * Keeps the active provider's orders current from `getOrders()` snapshots and live
+ * order updates, records fills for the session and announces them through AlertService.
+ */
+
+export interface OrdersState {
+  orders: BrokerOrder[];
+  fills: OrderFill[];
+  loading: boolean;
+  lastUpdate: Date | null;
+  error: string | null;
+}
+
+// IBKR throttles /iserver/account/orders to one request every 5 seconds
+const ORDERS_POLL_INTERVAL = 10_000;
+const MAX_FILLS = 200;
+
+/**
+ * Fill implied by an order update: the newly filled quantity, priced from the change
+ * in average fill price when both updates carry one
+ */
+export function getFill(previous: BrokerOrder | undefined, next: BrokerOrder): OrderFill | null {
+  const previousFilled = previous?.filledQuantity ?? 0;
+  const quantity = next.filledQuantity - previousFilled;
+  if (quantity <= 0) return null;
+
+  const price = previous?.avgFillPrice && previousFilled > 0 && next.avgFillPrice
+    ? (next.avgFillPrice * next.filledQuantity - previous.avgFillPrice * previousFilled) / quantity
+    : next.avgFillPrice ?? next.price ?? 0;
+
+  return {
+    orderId: next.id,
+    symbol: next.symbol,
+    side: next.side,
+    quantity,
+    price,
+    time: next.updatedAt
+  };
+}
+
+export class OrdersService {
+  private orders: Map<string, BrokerOrder> = new Map();
+  private state: OrdersState = { orders: [], fills: [], loading: false, lastUpdate: null, error: null };
+  private listeners: Set<(state: OrdersState) => void> = new Set();
+  // Fills are only announced once the first snapshot for a source is in
+  private loaded = false;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private inFlight: Promise<BrokerOrder[]> | null = null;
+  private detachOrders: (() => void) | null = null;
+  private detachProvider: (() => void) | null = null;
+  private detachStatus: (() => void) | null = null;
+
+  start(): void {
+    if (this.pollTimer !== null) return;
+
+    this.pollTimer = setInterval(() => this.refresh(), ORDERS_POLL_INTERVAL);
+
+    // Order ids belong to a source; the session's fills log is kept
+    this.detachProvider = marketData.onProviderChange(() => {
+      this.orders.clear();
+      this.loaded = false;
+      this.update({ orders: [], lastUpdate: null, error: null });
+      this.attach();
+      this.refresh();
+    });
+
+    let authenticated = marketData.getStatus().authenticated;
+    this.detachStatus = marketData.onStatusChange(status => {
+      if (status.authenticated && !authenticated) {
+        this.attach();
+        this.refresh();
+      }
+      authenticated = status.authenticated;
+    });
+
+    this.attach();
+    this.refresh();
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    this.detachOrders?.();
+    this.detachProvider?.();
+    this.detachStatus?.();
+    this.detachOrders = null;
+    this.detachProvider = null;
+    this.detachStatus = null;
+  }
+
+  getState(): OrdersState {
+    return this.state;
+  }
+
+  /**
+   * Reload orders now. Concurrent calls share the request in flight.
+   */
+  refresh(): Promise<BrokerOrder[]> {
+    if (this.inFlight) return this.inFlight;
+
+    this.inFlight = this.load().finally(() => {
+      this.inFlight = null;
+    });
+    return this.inFlight;
+  }
+
+  async modify(order: BrokerOrder, changes: OrderModification): Promise<OrderAck> {
+    const invalid = validateModification(order, changes);
+    if (invalid) {
+      return { status: 'rejected', message: invalid };
+    }
+
+    const ack = await marketData.getProvider().modifyOrder(order, changes);
+    this.refresh();
+    return ack;
+  }
+
+  async cancel(order: BrokerOrder): Promise<OrderAck> {
+    const ack = await marketData.getProvider().cancelOrder(order);
+    this.refresh();
+    return ack;
+  }
+
+  /**
+   * Listen for blotter changes. Returns an unsubscribe function.
+   */
+  onUpdate(callback: (state: OrdersState) => void): () => void {
+    this.listeners.add(callback);
+    callback(this.state);
+
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  private attach(): void {
+    this.detachOrders?.();
+    this.detachOrders = null;
+
+    const provider = marketData.getProvider();
+    if (!provider.getStatus().authenticated) return;
+
+    this.detachOrders = provider.onOrderUpdate(updates => {
+      if (provider === marketData.getProvider()) {
+        this.apply(updates);
+      }
+    });
+  }
+
+  private async load(): Promise<BrokerOrder[]> {
+    const provider = marketData.getProvider();
+    if (!provider.getStatus().authenticated) {
+      return this.state.orders;
+    }
+
+    this.update({ loading: true });
+
+    try {
+      const orders = await provider.getOrders();
+
+      // The source may have been switched while this request was running
+      if (provider !== marketData.getProvider()) {
+        return this.state.orders;
+      }
+
+      this.apply(orders);
+      this.loaded = true;
+      this.update({ loading: false, error: null });
+      return this.state.orders;
+    } catch (error) {
+      console.error('Orders error:', error);
+      this.update({ loading: false, error: error instanceof Error ? error.message : 'Orders request failed' });
+      return this.state.orders;
+    }
+  }
+
+  private apply(updates: OrderDelta[]): void {
+    if (updates.length === 0) return;
+
+    const fills: OrderFill[] = [];
+
+    updates.forEach(delta => {
+      const previous = this.orders.get(delta.id);
+      const next = applyOrderDelta(previous, delta);
+      this.orders.set(next.id, next);
+
+      const fill = this.loaded ? getFill(previous, next) : null;
+      if (fill) {
+        fills.push(fill);
+      }
+    });
+
+    fills.forEach(fill => {
+      console.log(`🧾 Fill: ${fill.side} ${fill.quantity} ${fill.symbol} @ ${fill.price.toFixed(4)}`);
+      alertService.notifyOrderFill(fill);
+    });
+
+    this.update({
+      orders: Array.from(this.orders.values()).sort((a, b) => b.updatedAt - a.updatedAt),
+      fills: fills.length > 0 ? [...fills.reverse(), ...this.state.fills].slice(0, MAX_FILLS) : this.state.fills,
+      lastUpdate: new Date()
+    });
+  }
+
+  private update(patch: Partial<OrdersState>): void {
+    this.state = { ...this.state, ...patch };
+    this.listeners.forEach(callback => callback(this.state));
+  }
+}
+
+export const ordersService = new OrdersService();
@@ -0,0 +1,435 @@
+import { ChartData, ChartTimeframe, PatternAnalysis, PatternLine, PatternPoint } from '@/types';
+
+/**
+ * Chart pattern detection
+ * Geometric detectors over real OHLCV bars. Each one works from swing pivots and returns
+ * the points and lines it used, so charts can draw the pattern and confidence reflects
+ * how well the bars fit rather than a fixed number.
+ */
+
+export interface PatternDetector {
+  pattern: string;
+  type: 'bullish' | 'bearish';
+  /** Timeframe the pattern scanner loads bars for */
+  timeframe: ChartTimeframe['value'];
+  description: string;
+  /** Bars needed before the detector runs */
+  minBars: number;
+  detect: (bars: ChartData[]) => PatternFit | null;
+}
+
+/** Swing high or low */
+export interface SwingPivot extends PatternPoint {
+  kind: 'high' | 'low';
+}
+
+/** What a detector found: geometry, a 0-1 fit score and the signals behind it */
+export interface PatternFit {
+  points: PatternPoint[];
+  lines: PatternLine[];
+  confidence: number;
+  signals: string[];
+}
+
+// Bars either side a swing high/low must exceed
+const PIVOT_SPAN = 2;
+const MAX_CONFIDENCE = 0.95;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+function toPoint(bars: ChartData[], index: number, price: number, label?: string): PatternPoint {
+  return { index, time: bars[index].time, price, ...(label && { label }) };
+}
+
+/**
+ * Price of the line through `from` and `to` at a bar index
+ */
+export function projectLine(from: PatternPoint, to: PatternPoint, index: number): number {
+  if (to.index === from.index) return to.price;
+  return from.price + ((to.price - from.price) * (index - from.index)) / (to.index - from.index);
+}
+
+function averageVolume(bars: ChartData[], from: number, to: number): number {
+  const slice = bars.slice(Math.max(0, from), to);
+  return slice.length > 0 ? slice.reduce((sum, bar) => sum + bar.volume, 0) / slice.length : 0;
+}
+
+function lowestLow(bars: ChartData[], from: number, to: number): number {
+  let index = from;
+  for (let i = from + 1; i < to; i++) {
+    if (bars[i].low < bars[index].low) index = i;
+  }
+  return index;
+}
+
+function highestHigh(bars: ChartData[], from: number, to: number): number {
+  let index = from;
+  for (let i = from + 1; i < to; i++) {
+    if (bars[i].high > bars[index].high) index = i;
+  }
+  return index;
+}
+
+/**
+ * Swing highs and lows: a bar whose high (low) is above (below) the `span` bars on
+ * either side. Equal highs count once, at the first bar. The last `span` bars can't
+ * be pivots yet.
+ */
+export function findPivots(bars: ChartData[], span: number = PIVOT_SPAN): SwingPivot[] {
+  const pivots: SwingPivot[] = [];
+
+  for (let i = span; i < bars.length - span; i++) {
+    let isHigh = true;
+    let isLow = true;
+    for (let j = 1; j <= span; j++) {
+      if (bars[i - j].high >= bars[i].high || bars[i + j].high > bars[i].high) isHigh = false;
+      if (bars[i - j].low <= bars[i].low || bars[i + j].low < bars[i].low) isLow = false;
+    }
+    if (isHigh) pivots.push({ ...toPoint(bars, i, bars[i].high), kind: 'high' });
+    if (isLow) pivots.push({ ...toPoint(bars, i, bars[i].low), kind: 'low' });
+  }
+
+  return pivots;
+}
+
+/**
+ * Sharp rise (the pole) to a recent high, then a shallow pullback that stays under it
+ */
+function detectBullFlag(bars: ChartData[]): PatternFit | null {
+  const last = bars.length - 1;
+
+  // Pole top: the highest high of the last 25 bars, at least 3 bars back
+  const top = highestHigh(bars, Math.max(0, last - 25), last + 1);
+  if (last - top < 3 || top < 3) return null;
+
+  const start = lowestLow(bars, Math.max(0, top - 15), top);
+  const poleHeight = bars[top].high - bars[start].low;
+  const poleGain = poleHeight / bars[start].low;
+  if (top - start < 2 || poleGain < 0.05) return null;
+
+  const flagLength = last - top;
+  if (flagLength > (top - start) * 3) return null;
+
+  const flagLow = lowestLow(bars, top + 1, last + 1);
+  const retrace = (bars[top].high - bars[flagLow].low) / poleHeight;
+  if (retrace > 0.5) return null;
+
+  const middle = top + Math.ceil(flagLength / 2);
+  const lowerHigh = highestHigh(bars, middle, last + 1);
+  const firstLow = lowestLow(bars, top + 1, middle);
+  const secondLow = lowestLow(bars, middle, last + 1);
+
+  const points = [
+    toPoint(bars, start, bars[start].low, 'Pole start'),
+    toPoint(bars, top, bars[top].high, 'Pole top'),
+    toPoint(bars, flagLow, bars[flagLow].low, 'Flag low')
+  ];
+  const upperStart = toPoint(bars, top, bars[top].high);
+  const upperEnd = toPoint(bars, lowerHigh, bars[lowerHigh].high);
+  const lines: PatternLine[] = [
+    { from: points[0], to: points[1], label: 'Pole' },
+    { from: upperStart, to: toPoint(bars, last, projectLine(upperStart, upperEnd, last)), label: 'Flag' },
+    { from: toPoint(bars, firstLow, bars[firstLow].low), to: toPoint(bars, secondLow, bars[secondLow].low) }
+  ];
+
+  const signals = [`Pole +${percent(poleGain)} in ${top - start} bars`, `Flag retraced ${percent(retrace)} of the pole`];
+  let confidence = 0.55 + 0.15 * (1 - retrace / 0.5) + Math.min(0.1, poleGain - 0.05);
+
+  if (averageVolume(bars, top + 1, last + 1) < averageVolume(bars, start, top + 1)) {
+    confidence += 0.1;
+    signals.push('Volume contracting in the flag');
+  }
+  if (bars[last].close > projectLine(upperStart, upperEnd, last)) {
+    confidence += 0.05;
+    signals.push('Closing above the flag');
+  }
+
+  return { points, lines, confidence, signals };
+}
+
+/**
+ * Flat highs with rising lows (ascending) or flat lows with falling highs (descending)
+ */
+function detectTriangle(bars: ChartData[], direction: 'ascending' | 'descending'): PatternFit | null {
+  const last = bars.length - 1;
+  const window = Math.max(0, bars.length - 60);
+  const pivots = findPivots(bars).filter(pivot => pivot.index >= window);
+  const ascending = direction === 'ascending';
+
+  const flatSide = pivots.filter(pivot => pivot.kind === (ascending ? 'high' : 'low'));
+  const slopedSide = pivots.filter(pivot => pivot.kind === (ascending ? 'low' : 'high'));
+  if (flatSide.length < 2 || slopedSide.length < 2) return null;
+
+  const level = ascending
+    ? Math.max(...flatSide.map(pivot => pivot.price))
+    : Math.min(...flatSide.map(pivot => pivot.price));
+  const touches = flatSide.filter(pivot => Math.abs(pivot.price - level) / level <= 0.015);
+  if (touches.length < 2 || touches[touches.length - 1].index - touches[0].index < 8) return null;
+
+  // The sloped side must step toward the flat side on every pivot since the first touch
+  const steps = slopedSide.filter(pivot => pivot.index > touches[0].index - PIVOT_SPAN * 2);
+  if (steps.length < 2) return null;
+  const converging = steps.every((pivot, i) => i === 0 || (ascending ? pivot.price > steps[i - 1].price : pivot.price < steps[i - 1].price));
+  if (!converging) return null;
+
+  const lastStep = steps[steps.length - 1];
+  if (Math.abs(level - lastStep.price) / level < 0.01) return null;
+
+  // Long past the breakout the pattern is spent
+  const close = bars[last].close;
+  if (ascending ? close > level * 1.03 : close < level * 0.97) return null;
+
+  const flatStart = toPoint(bars, touches[0].index, level);
+  const stepStart = toPoint(bars, steps[0].index, steps[0].price);
+  const lines: PatternLine[] = [
+    { from: flatStart, to: toPoint(bars, last, level), label: ascending ? 'Resistance' : 'Support' },
+    { from: stepStart, to: toPoint(bars, last, projectLine(stepStart, lastStep, last)) }
+  ];
+  const points = [...touches, ...steps]
+    .sort((a, b) => a.index - b.index)
+    .map(pivot => toPoint(bars, pivot.index, pivot.price, pivot.kind === 'high' ? 'Swing high' : 'Swing low'));
+
+  const signals = [
+    `${touches.length} tests of ${ascending ? 'resistance' : 'support'} at $${level.toFixed(4)}`,
+    `${steps.length} ${ascending ? 'higher lows' : 'lower highs'}`
+  ];
+  let confidence = 0.5 + 0.08 * Math.min(2, touches.length - 2) + 0.08 * Math.min(2, steps.length - 2);
+
+  if (ascending ? close > level : close < level) {
+    confidence += 0.1;
+    signals.push(ascending ? 'Breaking resistance' : 'Breaking support');
+  }
+
+  return { points, lines, confidence, signals };
+}
+
+/**
+ * Rounded base between two similar highs, then a small pullback (the handle)
+ */
+function detectCupAndHandle(bars: ChartData[]): PatternFit | null {
+  const last = bars.length - 1;
+  const window = Math.max(0, bars.length - 120);
+  const highs = findPivots(bars).filter(pivot => pivot.kind === 'high' && pivot.index >= window);
+
+  // Most recent right rim first
+  for (let r = highs.length - 1; r > 0; r--) {
+    const rightRim = highs[r];
+    const handleLength = last - rightRim.index;
+    if (handleLength < 2) continue;
+
+    for (let l = r - 1; l >= 0; l--) {
+      const leftRim = highs[l];
+      const cupLength = rightRim.index - leftRim.index;
+      if (cupLength < 10 || handleLength > cupLength / 2) continue;
+
+      const symmetry = Math.abs(leftRim.price - rightRim.price) / leftRim.price;
+      if (symmetry > 0.05) continue;
+
+      const bottom = lowestLow(bars, leftRim.index + 1, rightRim.index);
+      const depth = (leftRim.price - bars[bottom].low) / leftRim.price;
+      if (depth < 0.12 || depth > 0.4) continue;
+
+      // A U, not a V: the bottom sits in the middle half of the cup
+      const position = (bottom - leftRim.index) / cupLength;
+      if (position < 0.25 || position > 0.75) continue;
+
+      const handleLow = lowestLow(bars, rightRim.index + 1, last + 1);
+      const handleRetrace = (rightRim.price - bars[handleLow].low) / (rightRim.price - bars[bottom].low);
+      if (handleRetrace > 0.5) continue;
+
+      const rimHigh = Math.max(leftRim.price, rightRim.price);
+      if (bars.slice(rightRim.index + 1, last).some(bar => bar.high > rimHigh * 1.01)) continue;
+
+      const points = [
+        toPoint(bars, leftRim.index, leftRim.price, 'Left rim'),
+        toPoint(bars, bottom, bars[bottom].low, 'Cup bottom'),
+        toPoint(bars, rightRim.index, rightRim.price, 'Right rim'),
+        toPoint(bars, handleLow, bars[handleLow].low, 'Handle low')
+      ];
+      const signals = [
+        `Cup ${percent(depth)} deep over ${cupLength} bars`,
+        `Rims within ${percent(symmetry)}`,
+        `Handle retraced ${percent(handleRetrace)} of the cup`
+      ];
+      let confidence = 0.55 + 0.15 * (1 - symmetry / 0.05) + 0.1 * (1 - handleRetrace / 0.5) + 0.05 * (1 - Math.abs(position - 0.5) * 4);
+
+      if (bars[last].close > rimHigh) {
+        confidence += 0.05;
+        signals.push('Breaking out over the rim');
+      }
+
+      return {
+        points,
+        lines: [
+          { from: points[0], to: points[2], label: 'Rim' },
+          { from: points[2], to: points[3], label: 'Handle' }
+        ],
+        confidence,
+        signals
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Three swing highs with the middle one highest and similar shoulders
+ */
+function detectHeadAndShoulders(bars: ChartData[]): PatternFit | null {
+  const last = bars.length - 1;
+  const window = Math.max(0, bars.length - 80);
+  const highs = findPivots(bars).filter(pivot => pivot.kind === 'high' && pivot.index >= window);
+  if (highs.length < 3) return null;
+
+  const [left, head, right] = highs.slice(-3);
+  if (last - right.index > 20) return null;
+  if (head.price < left.price * 1.02 || head.price < right.price * 1.02) return null;
+
+  const symmetry = Math.abs(left.price - right.price) / left.price;
+  if (symmetry > 0.05) return null;
+
+  const firstTrough = lowestLow(bars, left.index + 1, head.index);
+  const secondTrough = lowestLow(bars, head.index + 1, right.index);
+  const neckStart = toPoint(bars, firstTrough, bars[firstTrough].low, 'Neckline');
+  const neckEnd = toPoint(bars, secondTrough, bars[secondTrough].low, 'Neckline');
+  const neckline = projectLine(neckStart, neckEnd, last);
+
+  const points = [
+    toPoint(bars, left.index, left.price, 'Left shoulder'),
+    neckStart,
+    toPoint(bars, head.index, head.price, 'Head'),
+    neckEnd,
+    toPoint(bars, right.index, right.price, 'Right shoulder')
+  ];
+  const signals = [
+    `Head ${percent(head.price / Math.max(left.price, right.price) - 1)} above the shoulders`,
+    `Shoulders within ${percent(symmetry)}`
+  ];
+  let confidence = 0.55 + 0.15 * (1 - symmetry / 0.05);
+
+  if (bars[last].close < neckline) {
+    confidence += 0.15;
+    signals.push('Closed below the neckline');
+  }
+
+  return {
+    points,
+    lines: [{ from: neckStart, to: toPoint(bars, last, neckline), label: 'Neckline' }],
+    confidence,
+    signals
+  };
+}
+
+/**
+ * Last bar closes above the prior range on at least twice the average volume
+ */
+function detectVolumeBreakout(bars: ChartData[]): PatternFit | null {
+  const last = bars.length - 1;
+  const from = Math.max(0, last - 20);
+  const average = averageVolume(bars, from, last);
+  const rangeHigh = highestHigh(bars, from, last);
+  const bar = bars[last];
+
+  if (average <= 0 || bar.volume < average * 2 || bar.close <= bars[rangeHigh].high) return null;
+
+  const ratio = bar.volume / average;
+  const closeStrength = bar.high > bar.low ? (bar.close - bar.low) / (bar.high - bar.low) : 1;
+  const level = bars[rangeHigh].high;
+
+  const signals = [`${ratio.toFixed(1)}x average volume`, `Closed above the ${last - from}-bar high of $${level.toFixed(4)}`];
+  let confidence = 0.5 + Math.min(0.3, (ratio - 2) * 0.1);
+  if (closeStrength > 0.7) {
+    confidence += 0.1;
+    signals.push('Closed near the high of the bar');
+  }
+
+  return {
+    points: [toPoint(bars, rangeHigh, level, 'Range high'), toPoint(bars, last, bar.close, 'Breakout')],
+    lines: [{ from: toPoint(bars, rangeHigh, level), to: toPoint(bars, last, level), label: 'Range high' }],
+    confidence,
+    signals
+  };
+}
+
+export const PATTERN_DETECTORS: PatternDetector[] = [
+  {
+    pattern: 'Bull Flag',
+    type: 'bullish',
+    timeframe: '15m',
+    description: 'Strong uptrend followed by consolidation, indicating potential continuation',
+    minBars: 20,
+    detect: detectBullFlag
+  },
+  {
+    pattern: 'Ascending Triangle',
+    type: 'bullish',
+    timeframe: '30m',
+    description: 'Higher lows with resistance at same level, bullish breakout expected',
+    minBars: 20,
+    detect: bars => detectTriangle(bars, 'ascending')
+  },
+  {
+    pattern: 'Cup and Handle',
+    type: 'bullish',
+    timeframe: '1h',
+    description: 'Classic bullish continuation pattern with high success rate',
+    minBars: 30,
+    detect: detectCupAndHandle
+  },
+  {
+    pattern: 'Volume Breakout',
+    type: 'bullish',
+    timeframe: '5m',
+    description: 'Unusual volume spike with price momentum indicating institutional interest',
+    minBars: 21,
+    detect: detectVolumeBreakout
+  },
+  {
+    pattern: 'Head and Shoulders',
+    type: 'bearish',
+    timeframe: '30m',
+    description: 'Classic reversal pattern indicating potential downtrend',
+    minBars: 30,
+    detect: detectHeadAndShoulders
+  },
+  {
+    pattern: 'Descending Triangle',
+    type: 'bearish',
+    timeframe: '15m',
+    description: 'Lower highs with support at same level, bearish breakdown likely',
+    minBars: 20,
+    detect: bars => detectTriangle(bars, 'descending')
+  }
+];
+
+/**
+ * Run detectors over ascending bars. Indices in the result refer to `bars`.
+ */
+export function detectPatterns(
+  bars: ChartData[],
+  timeframe: ChartTimeframe['value'],
+  detectors: PatternDetector[] = PATTERN_DETECTORS
+): PatternAnalysis[] {
+  return detectors.flatMap(detector => {
+    if (bars.length < detector.minBars) return [];
+
+    const fit = detector.detect(bars);
+    if (!fit) return [];
+
+    const indices = fit.points.map(point => point.index);
+    return [{
+      pattern: detector.pattern,
+      type: detector.type,
+      confidence: Math.round(clamp(fit.confidence, 0, MAX_CONFIDENCE) * 100) / 100,
+      description: detector.description,
+      timeframe,
+      signals: fit.signals,
+      points: fit.points,
+      lines: fit.lines,
+      startIndex: Math.min(...indices),
+      endIndex: bars.length - 1
+    }];
+  });
+}
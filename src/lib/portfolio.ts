@@ -0,0 +1,69 @@
+import { Position, StockDelta } from '@/types';
+
+/**
+ * Portfolio valuation
+ * Marks broker positions to live quotes and derives day P&L and account weights.
+ */
+
+export interface PositionMark {
+  price: number;
+  previousClose?: number;
+}
+
+export interface PortfolioRow extends Position {
+  /** Change since the previous close on the whole position; null without a previous close */
+  dayPnl: number | null;
+  /** Market value as a percent of net liquidation; null without an account value */
+  percentOfAccount: number | null;
+  unrealizedPercent: number;
+}
+
+export interface PortfolioTotals {
+  marketValue: number;
+  unrealizedPnl: number;
+  realizedPnl: number;
+  dayPnl: number;
+}
+
+/**
+ * Fold a streamed quote into the last known mark. A previous close missing from the
+ * tick is recovered from its change field.
+ */
+export function updateMark(mark: PositionMark | undefined, quote: StockDelta): PositionMark | undefined {
+  const price = quote.price ?? mark?.price;
+  if (price === undefined) return mark;
+
+  const previousClose = quote.previousClose
+    ?? (quote.price !== undefined && quote.change !== undefined ? quote.price - quote.change : mark?.previousClose);
+
+  return { price, previousClose };
+}
+
+/**
+ * Value a position at a live mark (falling back to the broker's mark)
+ */
+export function toPortfolioRow(position: Position, mark?: PositionMark, netLiquidation?: number): PortfolioRow {
+  const marketPrice = mark?.price ?? position.marketPrice;
+  const marketValue = position.quantity * marketPrice;
+  const costBasis = position.quantity * position.avgCost;
+  const unrealizedPnl = marketValue - costBasis;
+
+  return {
+    ...position,
+    marketPrice,
+    marketValue,
+    unrealizedPnl,
+    unrealizedPercent: costBasis !== 0 ? (unrealizedPnl / Math.abs(costBasis)) * 100 : 0,
+    dayPnl: mark?.previousClose ? position.quantity * (marketPrice - mark.previousClose) : null,
+    percentOfAccount: netLiquidation ? (marketValue / netLiquidation) * 100 : null
+  };
+}
+
+export function summarizePortfolio(rows: PortfolioRow[]): PortfolioTotals {
+  return rows.reduce<PortfolioTotals>((totals, row) => ({
+    marketValue: totals.marketValue + row.marketValue,
+    unrealizedPnl: totals.unrealizedPnl + row.unrealizedPnl,
+    realizedPnl: totals.realizedPnl + row.realizedPnl,
+    dayPnl: totals.dayPnl + (row.dayPnl ?? 0)
+  }), { marketValue: 0, unrealizedPnl: 0, realizedPnl: 0, dayPnl: 0 });
+}
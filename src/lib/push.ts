@@ -0,0 +1,149 @@
+import { PriceAlert } from '@/types';
+import { alertService } from '@/lib/alerts';
+import { clock } from '@/lib/clock';
+
+/**
+ * Background push
+ * Subscribes this device to Web Push through the Node server (`scripts/server.js`) and
+ * keeps the server's copy of the alert list in sync, so alerts still notify while the
+ * PWA is in the background or closed.
+ */
+
+// Coalesce bursts of alert edits into one upload
+const SYNC_DELAY = 1000;
+
+/**
+ * base64url VAPID key to the byte array `pushManager.subscribe()` expects
+ */
+function toApplicationServerKey(key: string): Uint8Array {
+  const base64 = (key + '='.repeat((4 - (key.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+}
+
+export class PushService {
+  /** Server origin; empty means the app's own origin (production build served by server.js) */
+  private serverUrl = '';
+  private syncTimer: ReturnType<typeof setTimeout> | null = null;
+  private detachAlerts: (() => void) | null = null;
+  private subscribed = false;
+
+  isSupported(): boolean {
+    return typeof navigator !== 'undefined' && 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+  }
+
+  setServerUrl(url: string | undefined): void {
+    this.serverUrl = (url || '').replace(/\/+$/, '');
+  }
+
+  /**
+   * Keep the server's alert list current while this device is subscribed
+   */
+  start(): void {
+    if (this.detachAlerts) return;
+
+    this.isSubscribed().then(subscribed => {
+      this.subscribed = subscribed;
+    });
+
+    // Replayed triggers are never sent; the saved alerts are synced again when the replay ends
+    this.detachAlerts = alertService.onUpdate(state => {
+      if (!this.subscribed || !state.hydrated || !clock.isLive()) return;
+      this.scheduleSync(state.alerts);
+    });
+  }
+
+  stop(): void {
+    this.detachAlerts?.();
+    this.detachAlerts = null;
+    if (this.syncTimer) {
+      clearTimeout(this.syncTimer);
+      this.syncTimer = null;
+    }
+  }
+
+  async isSubscribed(): Promise<boolean> {
+    if (!this.isSupported()) return false;
+
+    const registration = await navigator.serviceWorker.getRegistration();
+    return Boolean(await registration?.pushManager.getSubscription());
+  }
+
+  /**
+   * Ask for notification permission, subscribe through the service worker and register
+   * the subscription (and current alerts) with the server
+   */
+  async enable(): Promise<void> {
+    if (!this.isSupported()) {
+      throw new Error('Push notifications are not supported in this browser. On iPhone, add the app to the Home Screen first.');
+    }
+
+    const permission = await Notification.requestPermission();
+    if (permission !== 'granted') {
+      throw new Error('Notification permission was not granted');
+    }
+
+    const { publicKey } = await this.request<{ publicKey: string }>('GET', '/api/push/public-key');
+    const registration = await navigator.serviceWorker.ready;
+    const subscription = await registration.pushManager.getSubscription()
+      ?? await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: toApplicationServerKey(publicKey)
+      });
+
+    await this.request('POST', '/api/push/subscribe', { subscription: subscription.toJSON() });
+    this.subscribed = true;
+    await this.syncAlerts(alertService.getAlerts());
+    console.log('📲 Background push enabled');
+  }
+
+  async disable(): Promise<void> {
+    this.subscribed = false;
+    if (!this.isSupported()) return;
+
+    const registration = await navigator.serviceWorker.getRegistration();
+    const subscription = await registration?.pushManager.getSubscription();
+    if (!subscription) return;
+
+    await this.request('POST', '/api/push/unsubscribe', { endpoint: subscription.endpoint })
+      .catch(error => console.warn('Failed to remove push subscription from server:', error));
+    await subscription.unsubscribe();
+    console.log('📲 Background push disabled');
+  }
+
+  /**
+   * Ask the server to send a test notification to every subscribed device
+   */
+  async sendTest(symbol?: string): Promise<void> {
+    await this.request('POST', '/api/push/test', { symbol });
+  }
+
+  private scheduleSync(alerts: PriceAlert[]): void {
+    if (this.syncTimer) clearTimeout(this.syncTimer);
+
+    this.syncTimer = setTimeout(() => {
+      this.syncTimer = null;
+      this.syncAlerts(alerts).catch(error => console.warn('Failed to sync alerts to server:', error));
+    }, SYNC_DELAY);
+  }
+
+  private async syncAlerts(alerts: PriceAlert[]): Promise<void> {
+    await this.request('PUT', '/api/alerts', { alerts });
+  }
+
+  private async request<T = unknown>(method: string, path: string, body?: unknown): Promise<T> {
+    const response = await fetch(`${this.serverUrl}${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      ...(body !== undefined && { body: JSON.stringify(body) })
+    });
+
+    if (!response.ok) {
+      throw new Error(`${method} ${path} failed: ${response.status}`);
+    }
+    return response.json();
+  }
+}
+
+export const pushService = new PushService();
@@ -0,0 +1,211 @@
+import { DataSource, RecordedBar, RecordedTick, RecorderDataset, RecorderFormat } from '@/types';
+
+/**
+ * Recorder export formats
+ * Serializes recorded ticks and bars as CSV, JSON lines or a columnar JSON document
+ * (one array per column, Parquet-style) and parses any of the three back. The format
+ * and dataset of an import are detected from its content.
+ */
+
+export const TICK_COLUMNS = [
+  'source', 'symbol', 'time', 'price', 'change', 'changePercent', 'volume', 'marketCap', 'float', 'news'
+] as const;
+
+export const BAR_COLUMNS = [
+  'source', 'symbol', 'timeframe', 'time', 'open', 'high', 'low', 'close', 'volume', 'recordedAt'
+] as const;
+
+const TEXT_COLUMNS = new Set(['source', 'symbol', 'timeframe']);
+const SOURCES: DataSource[] = ['ibkr-gateway', 'ibkr-portal', 'ibkr-local', 'simulated', 'replay'];
+const TIMEFRAMES = ['1m', '5m', '15m', '30m', '1h', '1d'];
+
+export const RECORDER_FORMATS: { value: RecorderFormat; label: string; extension: string; mime: string }[] = [
+  { value: 'csv', label: 'CSV', extension: 'csv', mime: 'text/csv' },
+  { value: 'jsonl', label: 'JSON Lines', extension: 'jsonl', mime: 'application/x-ndjson' },
+  { value: 'columnar', label: 'Columnar JSON', extension: 'json', mime: 'application/json' }
+];
+
+export interface ColumnarDocument {
+  format: 'sfti-columnar';
+  version: 1;
+  dataset: RecorderDataset;
+  rows: number;
+  columns: string[];
+  data: Record<string, (string | number)[]>;
+}
+
+export type RecordedRows =
+  | { dataset: 'ticks'; rows: RecordedTick[] }
+  | { dataset: 'bars'; rows: RecordedBar[] };
+
+export interface ParsedImport {
+  format: RecorderFormat;
+  data: RecordedRows;
+  /** Rows that were missing fields or had invalid values */
+  skipped: number;
+}
+
+function columnsOf(dataset: RecorderDataset): readonly string[] {
+  return dataset === 'ticks' ? TICK_COLUMNS : BAR_COLUMNS;
+}
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Split CSV text into rows of cells, honouring quoted cells with commas, quotes and newlines
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      if (row.some(value => value !== '')) rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  row.push(cell);
+  if (row.some(value => value !== '')) rows.push(row);
+  return rows;
+}
+
+/**
+ * Turn one loose record into a typed row, or null when a column is missing or invalid
+ */
+function toRow(dataset: RecorderDataset, record: Record<string, unknown>): RecordedTick | RecordedBar | null {
+  const row: Record<string, string | number> = {};
+
+  for (const column of columnsOf(dataset)) {
+    const value = record[column];
+    if (TEXT_COLUMNS.has(column)) {
+      if (typeof value !== 'string' || value === '') return null;
+      row[column] = column === 'symbol' ? value.toUpperCase() : value;
+    } else {
+      const number = typeof value === 'number' ? value : typeof value === 'string' && value !== '' ? Number(value) : NaN;
+      if (!Number.isFinite(number)) return null;
+      row[column] = number;
+    }
+  }
+
+  if (!SOURCES.includes(row.source as DataSource)) return null;
+  if (dataset === 'bars' && !TIMEFRAMES.includes(row.timeframe as string)) return null;
+  return row as unknown as RecordedTick | RecordedBar;
+}
+
+function detectDataset(columns: string[]): RecorderDataset | null {
+  if (BAR_COLUMNS.every(column => columns.includes(column))) return 'bars';
+  if (TICK_COLUMNS.every(column => columns.includes(column))) return 'ticks';
+  return null;
+}
+
+function collect(dataset: RecorderDataset, records: Record<string, unknown>[], format: RecorderFormat): ParsedImport {
+  const rows = records.map(record => toRow(dataset, record)).filter(row => row !== null);
+  const data = { dataset, rows } as RecordedRows;
+  return { format, data, skipped: records.length - rows.length };
+}
+
+export function serializeRecorded(data: RecordedRows, format: RecorderFormat): string {
+  const columns = columnsOf(data.dataset);
+  const rows = data.rows as unknown as Record<string, string | number>[];
+
+  if (format === 'csv') {
+    return [columns.join(','), ...rows.map(row => columns.map(column => csvCell(row[column])).join(','))].join('\n') + '\n';
+  }
+
+  if (format === 'jsonl') {
+    return rows.map(row => JSON.stringify(Object.fromEntries(columns.map(column => [column, row[column]])))).join('\n') + '\n';
+  }
+
+  const document: ColumnarDocument = {
+    format: 'sfti-columnar',
+    version: 1,
+    dataset: data.dataset,
+    rows: rows.length,
+    columns: [...columns],
+    data: Object.fromEntries(columns.map(column => [column, rows.map(row => row[column])]))
+  };
+  return JSON.stringify(document);
+}
+
+/**
+ * Parse an export in any of the three formats. Throws when the text isn't a
+ * recognisable tick or bar export.
+ */
+export function parseRecorded(text: string): ParsedImport {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    throw new Error('File is empty');
+  }
+
+  if (trimmed.startsWith('{')) {
+    // A single JSON document is columnar; anything else starting with a brace is JSON lines
+    let document: Partial<ColumnarDocument> | null = null;
+    try {
+      document = JSON.parse(trimmed);
+    } catch {
+      document = null;
+    }
+
+    if (document && document.format === 'sfti-columnar') {
+      const data = document.data ?? {};
+      const dataset = detectDataset(Object.keys(data));
+      if (!dataset) throw new Error('Columnar file is missing tick or bar columns');
+
+      const count = Math.max(0, ...Object.values(data).map(values => (Array.isArray(values) ? values.length : 0)));
+      const records = Array.from({ length: count }, (_, index) =>
+        Object.fromEntries(Object.entries(data).map(([column, values]) => [column, values?.[index]]))
+      );
+      return collect(dataset, records, 'columnar');
+    }
+
+    const records: Record<string, unknown>[] = [];
+    let invalid = 0;
+    trimmed.split(/\r?\n/).forEach(line => {
+      if (!line.trim()) return;
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        invalid++;
+      }
+    });
+    const dataset = detectDataset(Object.keys(records[0] ?? {}));
+    if (!dataset) throw new Error('JSON lines are missing tick or bar fields');
+
+    const parsed = collect(dataset, records, 'jsonl');
+    return { ...parsed, skipped: parsed.skipped + invalid };
+  }
+
+  const [header, ...lines] = parseCsv(trimmed);
+  const columns = header.map(column => column.trim());
+  const dataset = detectDataset(columns);
+  if (!dataset) throw new Error('CSV header is missing tick or bar columns');
+
+  const records = lines.map(cells => Object.fromEntries(columns.map((column, index) => [column, cells[index]?.trim()])));
+  return collect(dataset, records, 'csv');
+}
@@ -0,0 +1,293 @@
+import { ChartTimeframe, DataSource, RecordedBar, RecordedTick } from '@/types';
+
+/**
+ * Recorder store
+ * Keeps recorded scanner ticks and bars in IndexedDB, indexed by time for retention
+ * pruning and by series for reading one symbol back. Falls back to memory when
+ * IndexedDB is unavailable (private mode, tests).
+ */
+
+const DB_NAME = 'sfti-recorder';
+const DB_VERSION = 1;
+const TICKS_STORE = 'ticks';
+const BARS_STORE = 'bars';
+
+export interface RecorderCounts {
+  ticks: number;
+  bars: number;
+  oldestTick: number | null;
+  newestTick: number | null;
+}
+
+export class RecorderStore {
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  private memoryTicks: RecordedTick[] = [];
+  private memoryBars: Map<string, RecordedBar> = new Map();
+
+  private static barKey(bar: RecordedBar): string {
+    return `${bar.source}:${bar.symbol}:${bar.timeframe}:${bar.time}`;
+  }
+
+  async addTicks(ticks: RecordedTick[]): Promise<void> {
+    if (ticks.length === 0) return;
+
+    const db = await this.open();
+    if (!db) {
+      this.memoryTicks.push(...ticks);
+      return;
+    }
+
+    try {
+      const transaction = db.transaction(TICKS_STORE, 'readwrite');
+      const store = transaction.objectStore(TICKS_STORE);
+      ticks.forEach(tick => store.add(tick));
+      await this.complete(transaction);
+    } catch (error) {
+      console.warn(`Failed to record ${ticks.length} ticks:`, error);
+    }
+  }
+
+  /**
+   * Write bars, replacing any recorded bar of the same series and time
+   */
+  async putBars(bars: RecordedBar[]): Promise<void> {
+    if (bars.length === 0) return;
+
+    const db = await this.open();
+    if (!db) {
+      bars.forEach(bar => this.memoryBars.set(RecorderStore.barKey(bar), bar));
+      return;
+    }
+
+    try {
+      const transaction = db.transaction(BARS_STORE, 'readwrite');
+      const store = transaction.objectStore(BARS_STORE);
+      bars.forEach(bar => store.put(bar));
+      await this.complete(transaction);
+    } catch (error) {
+      console.warn(`Failed to record ${bars.length} bars:`, error);
+    }
+  }
+
+  /**
+   * Ticks in time order, for one symbol of a source or for everything
+   */
+  async getTicks(filter?: { source: DataSource; symbol: string }): Promise<RecordedTick[]> {
+    const db = await this.open();
+    if (!db) {
+      return this.memoryTicks
+        .filter(tick => !filter || (tick.source === filter.source && tick.symbol === filter.symbol))
+        .sort((a, b) => a.time - b.time);
+    }
+
+    try {
+      const store = db.transaction(TICKS_STORE, 'readonly').objectStore(TICKS_STORE);
+      const request = filter
+        ? store.index('series').getAll(IDBKeyRange.bound([filter.source, filter.symbol, -Infinity], [filter.source, filter.symbol, Infinity]))
+        : store.index('time').getAll();
+      return await this.request<RecordedTick[]>(request);
+    } catch (error) {
+      console.warn('Failed to read recorded ticks:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Bars in time order, for one series or for everything
+   */
+  async getBars(filter?: { source: DataSource; symbol: string; timeframe: ChartTimeframe['value'] }): Promise<RecordedBar[]> {
+    const db = await this.open();
+    if (!db) {
+      return Array.from(this.memoryBars.values())
+        .filter(bar => !filter || (bar.source === filter.source && bar.symbol === filter.symbol && bar.timeframe === filter.timeframe))
+        .sort((a, b) => a.time - b.time);
+    }
+
+    try {
+      const store = db.transaction(BARS_STORE, 'readonly').objectStore(BARS_STORE);
+      const request = filter
+        ? store.getAll(IDBKeyRange.bound(
+            [filter.source, filter.symbol, filter.timeframe, -Infinity],
+            [filter.source, filter.symbol, filter.timeframe, Infinity]
+          ))
+        : store.getAll();
+      const bars = await this.request<RecordedBar[]>(request);
+      return filter ? bars : bars.sort((a, b) => a.time - b.time);
+    } catch (error) {
+      console.warn('Failed to read recorded bars:', error);
+      return [];
+    }
+  }
+
+  async getCounts(): Promise<RecorderCounts> {
+    const db = await this.open();
+    if (!db) {
+      const times = this.memoryTicks.map(tick => tick.time);
+      return {
+        ticks: this.memoryTicks.length,
+        bars: this.memoryBars.size,
+        oldestTick: times.length > 0 ? Math.min(...times) : null,
+        newestTick: times.length > 0 ? Math.max(...times) : null
+      };
+    }
+
+    try {
+      const transaction = db.transaction([TICKS_STORE, BARS_STORE], 'readonly');
+      const ticks = transaction.objectStore(TICKS_STORE);
+      const timeIndex = ticks.index('time');
+      const [tickCount, barCount, oldest, newest] = await Promise.all([
+        this.request<number>(ticks.count()),
+        this.request<number>(transaction.objectStore(BARS_STORE).count()),
+        this.request<IDBCursorWithValue | null>(timeIndex.openCursor(null, 'next')),
+        this.request<IDBCursorWithValue | null>(timeIndex.openCursor(null, 'prev'))
+      ]);
+
+      return {
+        ticks: tickCount,
+        bars: barCount,
+        oldestTick: oldest ? (oldest.value as RecordedTick).time : null,
+        newestTick: newest ? (newest.value as RecordedTick).time : null
+      };
+    } catch (error) {
+      console.warn('Failed to count recorded data:', error);
+      return { ticks: 0, bars: 0, oldestTick: null, newestTick: null };
+    }
+  }
+
+  /**
+   * Delete ticks older than `before` and the oldest ticks past `maxTicks`; bars recorded
+   * before `before` and the least recently recorded bars past `maxBars`. Returns how many
+   * records were deleted.
+   */
+  async prune(before: number, maxTicks: number, maxBars: number): Promise<number> {
+    const db = await this.open();
+    if (!db) {
+      const ticks = this.memoryTicks.filter(tick => tick.time >= before).sort((a, b) => a.time - b.time);
+      const keptTicks = ticks.slice(Math.max(0, ticks.length - maxTicks));
+      const bars = Array.from(this.memoryBars.entries())
+        .filter(([, bar]) => bar.recordedAt >= before)
+        .sort(([, a], [, b]) => a.recordedAt - b.recordedAt);
+      const keptBars = bars.slice(Math.max(0, bars.length - maxBars));
+      const removed = this.memoryTicks.length - keptTicks.length + this.memoryBars.size - keptBars.length;
+
+      this.memoryTicks = keptTicks;
+      this.memoryBars = new Map(keptBars);
+      return removed;
+    }
+
+    try {
+      const transaction = db.transaction([TICKS_STORE, BARS_STORE], 'readwrite');
+      const ticks = transaction.objectStore(TICKS_STORE);
+      const bars = transaction.objectStore(BARS_STORE);
+      const [ticksKept, barsKept] = await Promise.all([
+        this.request<number>(ticks.index('time').count(IDBKeyRange.lowerBound(before))),
+        this.request<number>(bars.index('recordedAt').count(IDBKeyRange.lowerBound(before)))
+      ]);
+
+      const [removedTicks, removedBars] = await Promise.all([
+        this.deleteOldest(ticks.index('time'), before, Math.max(0, ticksKept - maxTicks)),
+        this.deleteOldest(bars.index('recordedAt'), before, Math.max(0, barsKept - maxBars))
+      ]);
+      await this.complete(transaction);
+      return removedTicks + removedBars;
+    } catch (error) {
+      console.warn('Failed to prune recorded data:', error);
+      return 0;
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.memoryTicks = [];
+    this.memoryBars.clear();
+
+    const db = await this.open();
+    if (!db) return;
+
+    try {
+      const transaction = db.transaction([TICKS_STORE, BARS_STORE], 'readwrite');
+      transaction.objectStore(TICKS_STORE).clear();
+      transaction.objectStore(BARS_STORE).clear();
+      await this.complete(transaction);
+    } catch (error) {
+      console.warn('Failed to clear recorded data:', error);
+    }
+  }
+
+  /**
+   * Walk an index from its oldest entry, deleting everything before `before` and then
+   * `excess` more records
+   */
+  private deleteOldest(index: IDBIndex, before: number, excess: number): Promise<number> {
+    return new Promise((resolve, reject) => {
+      let removed = 0;
+      let extra = excess;
+      const request = index.openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve(removed);
+          return;
+        }
+        const expired = (cursor.key as number) < before;
+        if (!expired && extra <= 0) {
+          resolve(removed);
+          return;
+        }
+        if (!expired) extra--;
+        cursor.delete();
+        removed++;
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    if (this.dbPromise) return this.dbPromise;
+
+    this.dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(TICKS_STORE)) {
+          const ticks = db.createObjectStore(TICKS_STORE, { autoIncrement: true });
+          ticks.createIndex('time', 'time');
+          ticks.createIndex('series', ['source', 'symbol', 'time']);
+        }
+        if (!db.objectStoreNames.contains(BARS_STORE)) {
+          db.createObjectStore(BARS_STORE, { keyPath: ['source', 'symbol', 'timeframe', 'time'] })
+            .createIndex('recordedAt', 'recordedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('IndexedDB unavailable, keeping recorded data in memory:', request.error);
+        resolve(null);
+      };
+    });
+
+    return this.dbPromise;
+  }
+
+  private request<T>(request: IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private complete(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
+
+export const recorderStore = new RecorderStore();
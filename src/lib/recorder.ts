@@ -0,0 +1,301 @@
+import {
+  ChartData,
+  ChartTimeframe,
+  DataSource,
+  RecordedTick,
+  RecorderDataset,
+  RecorderFormat,
+  RecorderSettings,
+  RecorderStats,
+  Stock
+} from '@/types';
+import { clock } from '@/lib/clock';
+import { marketData } from '@/lib/market-data';
+import { scannerService } from '@/lib/scanner';
+import { mergeBars } from '@/lib/bar-cache';
+import { recorderStore } from '@/lib/recorder-store';
+import { parseRecorded, RECORDER_FORMATS, serializeRecorded } from '@/lib/recorder-formats';
+
+/**
+ * Market data recorder
+ * Writes every scanner row update and streamed quote as a tick, and every history page
+ * the charts load as bars, to IndexedDB with age and size limits. Recorded bars (and
+ * 1-minute bars rebuilt from ticks) feed session replay and backtests; everything can
+ * be exported and imported as CSV, JSON lines or columnar JSON.
+ */
+
+const SETTINGS_STORAGE_KEY = 'sfti-recorder-settings';
+const FLUSH_INTERVAL = 2000;
+const PRUNE_INTERVAL = 10 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_RECORDER_SETTINGS: RecorderSettings = {
+  enabled: true,
+  retentionDays: 30,
+  maxTicks: 250_000,
+  maxBars: 500_000
+};
+
+export interface RecorderExport {
+  filename: string;
+  mime: string;
+  text: string;
+  rows: number;
+}
+
+export interface RecorderImport {
+  dataset: RecorderDataset;
+  format: RecorderFormat;
+  imported: number;
+  skipped: number;
+}
+
+/**
+ * A scanner row as a recorded tick
+ */
+export function toRecordedTick(source: DataSource, stock: Stock, time: number): RecordedTick {
+  return {
+    source,
+    symbol: stock.symbol,
+    time,
+    price: stock.price,
+    change: stock.change,
+    changePercent: stock.changePercent,
+    volume: stock.volume,
+    marketCap: stock.marketCap,
+    float: stock.float,
+    news: stock.news
+  };
+}
+
+/**
+ * Build 1-minute bars from ticks of one symbol in time order. Tick volume is the
+ * session's running total, so a bar's volume is the increase since the previous bar.
+ */
+export function ticksToBars(ticks: RecordedTick[]): ChartData[] {
+  const bars: ChartData[] = [];
+  let previousVolume: number | null = null;
+
+  ticks.forEach(tick => {
+    if (tick.price <= 0) return;
+
+    const time = Math.floor(tick.time / 60_000) * 60;
+    const last = bars[bars.length - 1];
+    // A lower running total means a new session started
+    const added = previousVolume === null || tick.volume < previousVolume ? 0 : tick.volume - previousVolume;
+    previousVolume = tick.volume;
+
+    if (last && last.time === time) {
+      last.high = Math.max(last.high, tick.price);
+      last.low = Math.min(last.low, tick.price);
+      last.close = tick.price;
+      last.volume = (last.volume ?? 0) + added;
+    } else {
+      bars.push({ time, open: tick.price, high: tick.price, low: tick.price, close: tick.price, volume: added });
+    }
+  });
+
+  return bars;
+}
+
+export class MarketRecorder {
+  private settings: RecorderSettings = { ...DEFAULT_RECORDER_SETTINGS };
+  private buffer: RecordedTick[] = [];
+  // Last price and volume written per source and symbol; unchanged rows aren't recorded again
+  private lastSeen: Map<string, string> = new Map();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastPrune = 0;
+  private detachScanner: (() => void) | null = null;
+
+  constructor() {
+    this.loadSettings();
+  }
+
+  /**
+   * Record scanner rows as they refresh
+   */
+  start(): void {
+    if (this.detachScanner) return;
+    this.detachScanner = scannerService.onUpdate(state => this.recordStocks(state.rows));
+  }
+
+  stop(): void {
+    this.detachScanner?.();
+    this.detachScanner = null;
+    this.flush();
+  }
+
+  getSettings(): RecorderSettings {
+    return { ...this.settings };
+  }
+
+  updateSettings(settings: Partial<RecorderSettings>): void {
+    this.settings = { ...this.settings, ...settings };
+    this.saveSettings();
+    if (settings.retentionDays !== undefined || settings.maxTicks !== undefined || settings.maxBars !== undefined) {
+      this.lastPrune = 0;
+    }
+  }
+
+  /**
+   * Queue rows from the active source. Replayed data and rows whose price and volume
+   * haven't changed since the last write are skipped.
+   */
+  recordStocks(stocks: Stock[]): void {
+    const source = marketData.getSource();
+    if (!this.settings.enabled || source === 'replay' || !clock.isLive()) return;
+
+    const time = Date.now();
+    stocks.forEach(stock => {
+      if (!(stock.price > 0)) return;
+
+      const key = `${source}:${stock.symbol}`;
+      const seen = `${stock.price}|${stock.volume}`;
+      if (this.lastSeen.get(key) === seen) return;
+      this.lastSeen.set(key, seen);
+
+      this.buffer.push(toRecordedTick(source, stock, time));
+    });
+
+    if (this.buffer.length > 0 && !this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), FLUSH_INTERVAL);
+    }
+  }
+
+  /**
+   * Record a page of provider bars
+   */
+  recordBars(source: DataSource, symbol: string, timeframe: ChartTimeframe['value'], bars: ChartData[]): void {
+    if (!this.settings.enabled || source === 'replay' || bars.length === 0) return;
+
+    const recordedAt = Date.now();
+    const upper = symbol.toUpperCase();
+    recorderStore.putBars(bars.map(bar => ({ ...bar, source, symbol: upper, timeframe, recordedAt })));
+  }
+
+  /**
+   * Recorded bars of one series; 1-minute series also include bars rebuilt from ticks
+   * for minutes no provider bar covers
+   */
+  async getBars(source: DataSource, symbol: string, timeframe: ChartTimeframe['value']): Promise<ChartData[]> {
+    const upper = symbol.toUpperCase();
+    const recorded: ChartData[] = (await recorderStore.getBars({ source, symbol: upper, timeframe }))
+      .map(({ time, open, high, low, close, volume }) => ({ time, open, high, low, close, volume }));
+    if (timeframe !== '1m') return recorded;
+
+    const fromTicks = ticksToBars(await recorderStore.getTicks({ source, symbol: upper }));
+    return mergeBars(fromTicks, recorded);
+  }
+
+  /**
+   * Record counts and the browser's storage use for this origin
+   */
+  async getStats(): Promise<RecorderStats> {
+    await this.flush();
+    const counts = await recorderStore.getCounts();
+    let usage: number | null = null;
+    let quota: number | null = null;
+
+    try {
+      const estimate = typeof navigator !== 'undefined' ? await navigator.storage?.estimate() : undefined;
+      usage = estimate?.usage ?? null;
+      quota = estimate?.quota ?? null;
+    } catch (error) {
+      console.warn('Storage estimate unavailable:', error);
+    }
+
+    return { ...counts, usage, quota };
+  }
+
+  async exportData(dataset: RecorderDataset, format: RecorderFormat): Promise<RecorderExport> {
+    await this.flush();
+    const data = dataset === 'ticks'
+      ? { dataset, rows: await recorderStore.getTicks() } as const
+      : { dataset, rows: await recorderStore.getBars() } as const;
+    const info = RECORDER_FORMATS.find(entry => entry.value === format) ?? RECORDER_FORMATS[0];
+    const date = new Date().toISOString().slice(0, 10);
+
+    return {
+      filename: `sfti-${dataset}-${date}.${info.extension}`,
+      mime: info.mime,
+      text: serializeRecorded(data, format),
+      rows: data.rows.length
+    };
+  }
+
+  /**
+   * Import an export in any format. Imported bars replace recorded bars of the same
+   * series and time; ticks are added. Throws when the file can't be read as an export.
+   */
+  async importData(text: string): Promise<RecorderImport> {
+    const { format, data, skipped } = parseRecorded(text);
+
+    if (data.dataset === 'ticks') {
+      await recorderStore.addTicks(data.rows);
+    } else {
+      await recorderStore.putBars(data.rows);
+    }
+
+    console.log(`🎙️ Recorder: imported ${data.rows.length} ${data.dataset} from ${format}`);
+    return { dataset: data.dataset, format, imported: data.rows.length, skipped };
+  }
+
+  async clear(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.buffer = [];
+    this.lastSeen.clear();
+    await recorderStore.clear();
+  }
+
+  /**
+   * Write queued ticks, pruning by retention at most every PRUNE_INTERVAL
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    const ticks = this.buffer;
+    this.buffer = [];
+    await recorderStore.addTicks(ticks);
+
+    const now = Date.now();
+    if (now - this.lastPrune < PRUNE_INTERVAL) return;
+    this.lastPrune = now;
+
+    const { retentionDays, maxTicks, maxBars } = this.settings;
+    const removed = await recorderStore.prune(now - retentionDays * DAY_MS, maxTicks, maxBars);
+    if (removed > 0) {
+      console.log(`🎙️ Recorder: pruned ${removed} records`);
+    }
+  }
+
+  private loadSettings(): void {
+    if (typeof localStorage === 'undefined') return;
+
+    try {
+      const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+      if (stored) {
+        this.settings = { ...DEFAULT_RECORDER_SETTINGS, ...JSON.parse(stored) };
+      }
+    } catch (error) {
+      console.warn('Failed to load recorder settings:', error);
+    }
+  }
+
+  private saveSettings(): void {
+    if (typeof localStorage === 'undefined') return;
+
+    try {
+      localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(this.settings));
+    } catch (error) {
+      console.warn('Failed to save recorder settings:', error);
+    }
+  }
+}
+
+export const marketRecorder = new MarketRecorder();
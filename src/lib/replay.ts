@@ -0,0 +1,258 @@
+import { DataSource, ReplayState, Stock } from '@/types';
+import { clock } from '@/lib/clock';
+import { historyService } from '@/lib/history';
+import { mergeBars } from '@/lib/bar-cache';
+import { toSessionDate } from '@/lib/indicators';
+import { marketData } from '@/lib/market-data';
+import { replayProvider, ReplaySeries } from '@/lib/market-data-replay';
+
+/**
+ * Session replay controller
+ * Loads the stored 1-minute bars of the scanner's symbols, switches market data to the
+ * replay provider and drives the app clock through one past session at 1x-60x with pause,
+ * seek and step. Everything that reads the clock or the active provider follows along:
+ * scanner rows, charts, alert checks and the market-hours theme.
+ */
+
+export const REPLAY_SPEEDS = [1, 2, 5, 10, 30, 60];
+
+// Clock updates per wall-clock second while playing
+const FRAME_INTERVAL = 250;
+const STEP_MS = 60_000;
+// One full session of 1-minute bars (4:00-20:00 ET) before loading more from the provider
+const MIN_INTRADAY_BARS = 960;
+const MIN_DAILY_BARS = 2;
+const MAX_OLDER_PAGES = 5;
+
+const IDLE_STATE: ReplayState = {
+  status: 'idle',
+  sessions: [],
+  session: null,
+  start: 0,
+  end: 0,
+  time: 0,
+  speed: 1,
+  symbols: [],
+  progress: null,
+  error: null
+};
+
+export class ReplayService {
+  private state: ReplayState = IDLE_STATE;
+  private listeners: Set<(state: ReplayState) => void> = new Set();
+  private series: ReplaySeries[] = [];
+  private previousSource: DataSource | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private lastFrame = 0;
+  private detachProvider: (() => void) | null = null;
+
+  getState(): ReplayState {
+    return this.state;
+  }
+
+  /**
+   * Whether a session is loaded on the replay source (playing or paused)
+   */
+  isActive(): boolean {
+    return this.state.status === 'playing' || this.state.status === 'paused';
+  }
+
+  /**
+   * Listen for replay state changes. Returns an unsubscribe function.
+   */
+  onUpdate(callback: (state: ReplayState) => void): () => void {
+    this.listeners.add(callback);
+    callback(this.state);
+
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  /**
+   * Load the stored bars of these rows from the active source (fetching history when
+   * fewer are cached) and list the sessions they cover, newest first
+   */
+  async prepare(stocks: Stock[]): Promise<string[]> {
+    if (this.state.status === 'loading' || this.isActive()) return this.state.sessions;
+
+    const provider = marketData.getProvider();
+    const series: ReplaySeries[] = [];
+    let done = 0;
+    this.update({ ...IDLE_STATE, status: 'loading', speed: this.state.speed, progress: { done: 0, total: stocks.length } });
+
+    for (const stock of stocks) {
+      try {
+        const [stored, daily, contract] = await Promise.all([
+          historyService.getStored(provider, stock.symbol, '1m', MIN_INTRADAY_BARS),
+          historyService.getStored(provider, stock.symbol, '1d', MIN_DAILY_BARS),
+          provider.resolveContract(stock.symbol).catch(() => null)
+        ]);
+
+        // A history page can be shorter than a session; page back until one is covered
+        let bars = stored;
+        for (let page = 0; bars.length > 0 && bars.length < MIN_INTRADAY_BARS && page < MAX_OLDER_PAGES; page++) {
+          const older = mergeBars(bars, await historyService.loadOlder(provider, stock.symbol, '1m'));
+          if (older.length <= bars.length) break;
+          bars = older;
+        }
+        if (bars.length > 0) {
+          series.push({ stock, conid: contract?.conid ?? 0, bars, daily });
+        }
+      } catch (error) {
+        console.warn(`Replay: failed to load ${stock.symbol} bars:`, error);
+      }
+      this.update({ progress: { done: ++done, total: stocks.length } });
+    }
+
+    const sessions = new Set<string>();
+    series.forEach(entry => {
+      // New York dates only change on the hour
+      let hour = -1;
+      entry.bars.forEach(bar => {
+        const barHour = Math.floor(bar.time / 3600);
+        if (barHour === hour) return;
+        hour = barHour;
+        sessions.add(toSessionDate(bar.time));
+      });
+    });
+
+    this.series = series;
+    const dates = Array.from(sessions).sort().reverse();
+    this.update({
+      status: dates.length > 0 ? 'ready' : 'idle',
+      sessions: dates,
+      symbols: series.map(entry => entry.stock.symbol),
+      progress: null,
+      error: dates.length > 0 ? null : 'No stored 1-minute bars for these symbols'
+    });
+    console.log(`⏪ Replay: ${series.length} symbols, ${dates.length} sessions from ${provider.label}`);
+    return dates;
+  }
+
+  /**
+   * Switch to the replay source, paused at the session's regular open
+   */
+  start(session: string): void {
+    if (this.state.status === 'idle' || this.state.status === 'loading') return;
+
+    this.pause();
+    replayProvider.load(session, this.series);
+    const range = replayProvider.getRange();
+    if (!range) {
+      replayProvider.unload();
+      this.update({ error: `No bars stored for ${session}` });
+      return;
+    }
+
+    const open = replayProvider.getRegularOpen() ?? range.start;
+    const time = Math.min(Math.max(open, range.start), range.end);
+
+    if (marketData.getSource() !== 'replay') {
+      this.previousSource = marketData.getSource();
+    }
+    this.update({ status: 'paused', session, start: range.start, end: range.end, time, error: null });
+    marketData.setSource('replay');
+    this.moveTo(time, true);
+
+    // Picking another source in settings ends the replay
+    this.detachProvider?.();
+    this.detachProvider = marketData.onProviderChange(provider => {
+      if (provider.source !== 'replay') this.stop();
+    });
+  }
+
+  play(): void {
+    if (this.state.status !== 'paused') return;
+    if (this.state.time >= this.state.end) {
+      this.moveTo(this.state.start, true);
+    }
+
+    this.lastFrame = Date.now();
+    this.timer = setInterval(() => this.frame(), FRAME_INTERVAL);
+    this.update({ status: 'playing' });
+  }
+
+  pause(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (this.state.status === 'playing') {
+      this.update({ status: 'paused' });
+    }
+  }
+
+  setSpeed(speed: number): void {
+    this.update({ speed: Math.min(Math.max(speed, REPLAY_SPEEDS[0]), REPLAY_SPEEDS[REPLAY_SPEEDS.length - 1]) });
+  }
+
+  /**
+   * Jump to a time in the session (epoch milliseconds); charts and indicators reload from there
+   */
+  seek(time: number): void {
+    if (!this.isActive()) return;
+    this.moveTo(Math.min(Math.max(time, this.state.start), this.state.end), true);
+  }
+
+  /**
+   * Pause and move one minute forward or back
+   */
+  step(direction: 1 | -1): void {
+    if (!this.isActive()) return;
+    this.pause();
+    this.seek(this.state.time + direction * STEP_MS);
+  }
+
+  /**
+   * End the replay: restore the previous source and wall-clock time. The loaded bars
+   * are kept so another session can start without reloading.
+   */
+  stop(): void {
+    if (!this.isActive()) return;
+
+    this.pause();
+    this.detachProvider?.();
+    this.detachProvider = null;
+
+    const previous = this.previousSource;
+    this.previousSource = null;
+    this.update({ status: 'ready', session: null, time: 0 });
+
+    if (previous && marketData.getSource() === 'replay') {
+      marketData.setSource(previous);
+    }
+    clock.reset();
+    replayProvider.unload();
+    historyService.clearSource('replay').catch(error => console.warn('Failed to clear replay bars:', error));
+    console.log('⏪ Replay ended');
+  }
+
+  private frame(): void {
+    const now = Date.now();
+    const elapsed = now - this.lastFrame;
+    this.lastFrame = now;
+
+    const time = Math.min(this.state.time + elapsed * this.state.speed, this.state.end);
+    this.moveTo(time, false);
+    if (time >= this.state.end) {
+      this.pause();
+    }
+  }
+
+  private moveTo(time: number, jumped: boolean): void {
+    // Bars loaded for the old time would show the future after a seek back
+    if (jumped) {
+      historyService.clearSource('replay').catch(error => console.warn('Failed to clear replay bars:', error));
+    }
+    this.update({ time });
+    clock.set(time, jumped);
+  }
+
+  private update(patch: Partial<ReplayState>): void {
+    this.state = { ...this.state, ...patch };
+    this.listeners.forEach(callback => callback(this.state));
+  }
+}
+
+export const replayService = new ReplayService();
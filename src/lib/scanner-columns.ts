@@ -0,0 +1,217 @@
+import { ScannerColumnId, ScannerColumnLayout, ScannerColumnSetting, ScannerNumberFormat, ScannerSortKey, Stock } from '@/types';
+import { formatMarketCap, formatPercent, formatPrice, formatVolume } from '@/lib/market';
+
+/**
+ * Scanner table columns
+ * What each column shows, how it sorts and how its numbers are written, plus the
+ * helpers that keep a saved layout in step with the columns this build knows about.
+ */
+
+export type ScannerColumnKind = 'text' | 'percent' | 'price' | 'count' | 'dollars' | 'multiple';
+
+export interface ScannerColumnDefinition {
+  id: ScannerColumnId;
+  label: string;
+  /** Header text, when the label is too long for it */
+  header?: string;
+  kind: ScannerColumnKind;
+  width: number;
+  /** Shown in a new layout */
+  visible: boolean;
+  /** Whether a higher value is shown green and a lower one red */
+  signed?: boolean;
+  value: (stock: Stock) => number | string | null;
+}
+
+export const MIN_COLUMN_WIDTH = 60;
+export const MAX_COLUMN_WIDTH = 400;
+export const MAX_SORT_KEYS = 3;
+
+const metric = (key: keyof NonNullable<Stock['metrics']>) => (stock: Stock) => stock.metrics?.[key] ?? null;
+
+export const SCANNER_COLUMNS: ScannerColumnDefinition[] = [
+  { id: 'symbol', label: 'Ticker', kind: 'text', width: 140, visible: true, value: stock => stock.symbol },
+  { id: 'changePercent', label: 'Change %', header: 'Chg%', kind: 'percent', width: 90, visible: true, signed: true, value: stock => stock.changePercent },
+  { id: 'price', label: 'Last Price', kind: 'price', width: 100, visible: true, value: stock => stock.price },
+  { id: 'volume', label: 'Volume', kind: 'count', width: 90, visible: true, value: stock => stock.volume },
+  { id: 'float', label: 'Float', kind: 'count', width: 90, visible: true, value: stock => stock.float },
+  { id: 'marketCap', label: 'Market Cap', kind: 'dollars', width: 110, visible: true, value: stock => stock.marketCap },
+  { id: 'relativeVolume10', label: 'Relative Volume (10d)', header: 'RVol 10d', kind: 'multiple', width: 90, visible: true, value: metric('relativeVolume10') },
+  { id: 'relativeVolume30', label: 'Relative Volume (30d)', header: 'RVol 30d', kind: 'multiple', width: 90, visible: false, value: metric('relativeVolume30') },
+  { id: 'gapPercent', label: 'Gap %', header: 'Gap%', kind: 'percent', width: 90, visible: true, signed: true, value: metric('gapPercent') },
+  { id: 'premarketHigh', label: 'Premarket High', header: 'PM High', kind: 'price', width: 100, visible: false, value: metric('premarketHigh') },
+  { id: 'premarketLow', label: 'Premarket Low', header: 'PM Low', kind: 'price', width: 100, visible: false, value: metric('premarketLow') },
+  { id: 'vwapDistance', label: 'VWAP Distance %', header: 'VWAP%', kind: 'percent', width: 90, visible: true, signed: true, value: metric('vwapDistance') },
+  { id: 'floatRotation', label: 'Float Rotation', header: 'Rotation', kind: 'multiple', width: 90, visible: false, value: metric('floatRotation') },
+  { id: 'dollarVolume', label: 'Dollar Volume', header: '$ Volume', kind: 'dollars', width: 100, visible: true, value: metric('dollarVolume') },
+  { id: 'news', label: 'News', kind: 'count', width: 80, visible: true, value: stock => stock.news }
+];
+
+const COLUMNS_BY_ID = new Map(SCANNER_COLUMNS.map(column => [column.id, column]));
+
+export const DEFAULT_COLUMN_LAYOUT: ScannerColumnLayout = {
+  columns: SCANNER_COLUMNS.map(column => ({ id: column.id, visible: column.visible, format: 'default' })),
+  sort: [{ field: 'changePercent', direction: 'desc' }],
+  pinSymbol: true
+};
+
+/**
+ * KV key a scanner tab's column layout is saved under
+ */
+export function getColumnLayoutKey(tabId: string): string {
+  return `scanner-columns-${tabId}`;
+}
+
+/**
+ * Number formats a column offers; text columns have none
+ */
+export function getColumnFormats(kind: ScannerColumnKind): ScannerNumberFormat[] {
+  switch (kind) {
+    case 'count':
+    case 'dollars':
+      return ['default', 'compact', 'full'];
+    case 'text':
+      return [];
+    default:
+      return ['default', 'full'];
+  }
+}
+
+export function getColumn(id: ScannerColumnId): ScannerColumnDefinition | undefined {
+  return COLUMNS_BY_ID.get(id);
+}
+
+/**
+ * A saved layout brought up to date: unknown columns dropped, columns added since it was
+ * saved appended with their default visibility, and sort keys on dropped columns removed
+ */
+export function normalizeLayout(layout: Partial<ScannerColumnLayout> | undefined): ScannerColumnLayout {
+  const saved = (layout?.columns ?? []).filter(column => COLUMNS_BY_ID.has(column.id));
+  const seen = new Set(saved.map(column => column.id));
+  const added: ScannerColumnSetting[] = SCANNER_COLUMNS
+    .filter(column => !seen.has(column.id))
+    .map(column => ({ id: column.id, visible: column.visible, format: 'default' }));
+
+  const sort = (layout?.sort ?? DEFAULT_COLUMN_LAYOUT.sort)
+    .filter(key => COLUMNS_BY_ID.has(key.field))
+    .slice(0, MAX_SORT_KEYS);
+
+  return {
+    columns: [...saved, ...added],
+    sort: sort.length > 0 ? sort : DEFAULT_COLUMN_LAYOUT.sort,
+    pinSymbol: layout?.pinSymbol ?? DEFAULT_COLUMN_LAYOUT.pinSymbol
+  };
+}
+
+/**
+ * Columns in display order; a pinned ticker column leads and can't be hidden
+ */
+export function getVisibleColumns(layout: ScannerColumnLayout): ScannerColumnSetting[] {
+  const visible = layout.columns.filter(column => column.visible || (layout.pinSymbol && column.id === 'symbol'));
+  if (!layout.pinSymbol) return visible;
+
+  return [
+    ...visible.filter(column => column.id === 'symbol'),
+    ...visible.filter(column => column.id !== 'symbol')
+  ];
+}
+
+/**
+ * Move a column to another's position
+ */
+export function moveColumn(layout: ScannerColumnLayout, id: ScannerColumnId, targetId: ScannerColumnId): ScannerColumnLayout {
+  const from = layout.columns.findIndex(column => column.id === id);
+  const to = layout.columns.findIndex(column => column.id === targetId);
+  if (from === -1 || to === -1 || from === to) return layout;
+
+  const columns = [...layout.columns];
+  const [moved] = columns.splice(from, 1);
+  columns.splice(to, 0, moved);
+  return { ...layout, columns };
+}
+
+/**
+ * Sort keys after a header click. A plain click sorts by that column alone, or flips
+ * its direction; with `additive` the column is added as the next tie-breaker (or
+ * flipped in place), and dropped when clicked again while ascending.
+ */
+export function toggleSort(sort: ScannerSortKey[], field: ScannerColumnId, additive: boolean): ScannerSortKey[] {
+  const existing = sort.find(key => key.field === field);
+
+  if (!additive) {
+    const direction = existing && sort.length === 1 && existing.direction === 'desc' ? 'asc' : 'desc';
+    return [{ field, direction }];
+  }
+
+  if (!existing) {
+    return [...sort, { field, direction: 'desc' as const }].slice(-MAX_SORT_KEYS);
+  }
+  if (existing.direction === 'asc' && sort.length > 1) {
+    return sort.filter(key => key.field !== field);
+  }
+  return sort.map(key => (key.field === field ? { field, direction: key.direction === 'asc' ? 'desc' : 'asc' } : key));
+}
+
+/**
+ * Compare two rows by the sort keys in order. Missing values (metrics that couldn't be
+ * computed) sort last in either direction.
+ */
+export function compareStocks(a: Stock, b: Stock, sort: ScannerSortKey[]): number {
+  for (const key of sort) {
+    const column = COLUMNS_BY_ID.get(key.field);
+    if (!column) continue;
+
+    const aValue = column.value(a);
+    const bValue = column.value(b);
+    if (aValue === bValue) continue;
+    if (aValue === null) return 1;
+    if (bValue === null) return -1;
+
+    const order = typeof aValue === 'string' && typeof bValue === 'string'
+      ? aValue.localeCompare(bValue)
+      : (aValue as number) - (bValue as number);
+    if (order !== 0) return key.direction === 'asc' ? order : -order;
+  }
+  return 0;
+}
+
+function formatCompact(value: number, decimals: number): string {
+  const abs = Math.abs(value);
+  if (abs >= 1_000_000_000) return `${(value / 1_000_000_000).toFixed(decimals)}B`;
+  if (abs >= 1_000_000) return `${(value / 1_000_000).toFixed(decimals)}M`;
+  if (abs >= 1_000) return `${(value / 1_000).toFixed(decimals)}K`;
+  return value.toFixed(0);
+}
+
+function formatFull(value: number, decimals: number): string {
+  return value.toLocaleString('en-US', { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+}
+
+/**
+ * A cell's text under the column's format setting
+ */
+export function formatColumnValue(column: ScannerColumnDefinition, setting: ScannerColumnSetting, value: number | string | null): string {
+  if (value === null) return '-';
+  if (typeof value === 'string') return value;
+
+  const { format, decimals } = setting;
+  const useDefault = format === 'default' && decimals === undefined;
+
+  switch (column.kind) {
+    case 'percent':
+      return useDefault ? formatPercent(value) : `${value >= 0 ? '+' : ''}${value.toFixed(decimals ?? 2)}%`;
+    case 'price':
+      return useDefault ? formatPrice(value) : `$${formatFull(value, decimals ?? 2)}`;
+    case 'multiple':
+      return `${value.toFixed(decimals ?? (value >= 10 ? 0 : 1))}x`;
+    case 'count':
+      if (format === 'full') return formatFull(value, decimals ?? 0);
+      return useDefault ? formatVolume(Math.round(value)) : formatCompact(value, decimals ?? 1);
+    case 'dollars':
+      if (format === 'full') return `$${formatFull(value, decimals ?? 0)}`;
+      if (useDefault && column.id === 'marketCap') return formatMarketCap(value);
+      return `$${formatCompact(value, decimals ?? 1)}`;
+    default:
+      return String(value);
+  }
+}
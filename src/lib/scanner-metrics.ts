@@ -0,0 +1,271 @@
+import { ChartData, Stock, StockMetrics } from '@/types';
+import { clock } from '@/lib/clock';
+import { marketData } from '@/lib/market-data';
+import { historyService } from '@/lib/history';
+import { scannerService } from '@/lib/scanner';
+import { toDailyDate } from '@/lib/indicators';
+import { PREMARKET_OPEN_MINUTE, REGULAR_OPEN_MINUTE, toNewYorkParts } from '@/lib/trading-calendar';
+
+/**
+ * Scanner metrics
+ * Derives the numbers day traders sort by (relative volume, gap, premarket range, VWAP
+ * distance, float rotation, dollar volume) for scanner rows. Daily and 1-minute history
+ * is loaded once per symbol in the background; ticks between loads extend the session
+ * VWAP and premarket range.
+ */
+
+// History is reloaded this often so the VWAP doesn't drift from the provider's bars
+const CONTEXT_TTL = 10 * 60 * 1000;
+
+/**
+ * What a symbol's history says about today's session, extended by ticks
+ */
+export interface SessionContext {
+  /** New York date the context describes */
+  date: string;
+  previousClose: number | null;
+  averageVolume10: number | null;
+  averageVolume30: number | null;
+  /** First regular-session price, null before the open */
+  open: number | null;
+  premarketHigh: number | null;
+  premarketLow: number | null;
+  /** Running sums for the session VWAP */
+  vwapValue: number;
+  vwapVolume: number;
+  /** Session volume when the sums were last extended */
+  lastVolume: number | null;
+  loadedAt: number;
+}
+
+function averageVolume(bars: ChartData[]): number | null {
+  if (bars.length === 0) return null;
+  const average = bars.reduce((sum, bar) => sum + bar.volume, 0) / bars.length;
+  return average > 0 ? average : null;
+}
+
+/**
+ * An empty context for a New York date: the previous close and average volumes come
+ * from the daily bars before it
+ */
+export function startSessionContext(daily: ChartData[], date: string, loadedAt: number): SessionContext {
+  const previous = daily.filter(bar => toDailyDate(bar.time) < date);
+
+  return {
+    date,
+    previousClose: previous.length > 0 ? previous[previous.length - 1].close : null,
+    averageVolume10: averageVolume(previous.slice(-10)),
+    averageVolume30: averageVolume(previous.slice(-30)),
+    open: null,
+    premarketHigh: null,
+    premarketLow: null,
+    vwapValue: 0,
+    vwapVolume: 0,
+    lastVolume: null,
+    loadedAt
+  };
+}
+
+/**
+ * Fold one of the session's intraday bars, starting `minutes` after New York midnight,
+ * into the context
+ */
+export function addSessionBar(context: SessionContext, bar: ChartData, minutes: number): void {
+  if (minutes < PREMARKET_OPEN_MINUTE) return;
+
+  if (minutes < REGULAR_OPEN_MINUTE) {
+    context.premarketHigh = Math.max(context.premarketHigh ?? bar.high, bar.high);
+    context.premarketLow = Math.min(context.premarketLow ?? bar.low, bar.low);
+  } else if (context.open === null) {
+    context.open = bar.open;
+  }
+  context.vwapValue += ((bar.high + bar.low + bar.close) / 3) * bar.volume;
+  context.vwapVolume += bar.volume;
+}
+
+/**
+ * Build today's context from daily bars and 1-minute bars (epoch-second times)
+ */
+export function buildSessionContext(daily: ChartData[], intraday: ChartData[], now: number): SessionContext {
+  const context = startSessionContext(daily, toNewYorkParts(now).date, now);
+
+  intraday.forEach(bar => {
+    if (bar.time * 1000 > now) return;
+    const { date, minutes } = toNewYorkParts(bar.time * 1000);
+    if (date === context.date) {
+      addSessionBar(context, bar, minutes);
+    }
+  });
+
+  return context;
+}
+
+/**
+ * Fold one tick into the context: the volume traded since the last tick counts at
+ * this price, and premarket prices widen the premarket range
+ */
+export function extendSessionContext(context: SessionContext, stock: Stock, now: number): void {
+  const { minutes } = toNewYorkParts(now);
+  if (minutes >= PREMARKET_OPEN_MINUTE && minutes < REGULAR_OPEN_MINUTE) {
+    context.premarketHigh = Math.max(context.premarketHigh ?? stock.price, stock.price);
+    context.premarketLow = Math.min(context.premarketLow ?? stock.price, stock.price);
+  } else if (minutes >= REGULAR_OPEN_MINUTE && context.open === null) {
+    context.open = stock.price;
+  }
+
+  // The first tick after a load only sets the baseline; the bars already cover it
+  if (context.lastVolume !== null && stock.volume > context.lastVolume) {
+    const traded = stock.volume - context.lastVolume;
+    context.vwapValue += stock.price * traded;
+    context.vwapVolume += traded;
+  }
+  context.lastVolume = stock.volume;
+}
+
+/**
+ * Metrics for a row; without a context only the ones the row itself carries
+ */
+export function computeMetrics(stock: Stock, context: SessionContext | undefined): StockMetrics {
+  const ratio = (value: number, base: number | null | undefined) => (base ? value / base : null);
+  const percent = (value: number, base: number | null | undefined) => (base ? ((value - base) / base) * 100 : null);
+  const vwap = context && context.vwapVolume > 0 ? context.vwapValue / context.vwapVolume : null;
+
+  return {
+    relativeVolume10: ratio(stock.volume, context?.averageVolume10),
+    relativeVolume30: ratio(stock.volume, context?.averageVolume30),
+    gapPercent: context ? percent(context.open ?? stock.price, context.previousClose) : null,
+    premarketHigh: context?.premarketHigh ?? null,
+    premarketLow: context?.premarketLow ?? null,
+    vwapDistance: percent(stock.price, vwap),
+    floatRotation: ratio(stock.volume, stock.float),
+    dollarVolume: stock.price * stock.volume
+  };
+}
+
+export class ScannerMetricsService {
+  private contexts: Map<string, SessionContext> = new Map();
+  private loading: Set<string> = new Set();
+  private queue: string[] = [];
+  // Symbols whose history failed to load wait a full CONTEXT_TTL before retrying
+  private failedAt: Map<string, number> = new Map();
+  private listeners: Set<() => void> = new Set();
+  private detachScanner: (() => void) | null = null;
+  private detachProvider: (() => void) | null = null;
+  private detachClock: (() => void) | null = null;
+  // Bumped on source switches and clock jumps so loads already in flight are dropped
+  private generation = 0;
+
+  /**
+   * Follow the scanner rows, loading history for new symbols
+   */
+  start(): void {
+    if (this.detachScanner) return;
+
+    this.detachScanner = scannerService.onUpdate(state => this.update(state.rows));
+    this.detachProvider = marketData.onProviderChange(() => this.reset());
+    this.detachClock = clock.onChange((_now, jumped) => {
+      if (jumped) this.reset();
+    });
+  }
+
+  stop(): void {
+    this.detachScanner?.();
+    this.detachProvider?.();
+    this.detachClock?.();
+    this.detachScanner = null;
+    this.detachProvider = null;
+    this.detachClock = null;
+  }
+
+  /**
+   * Fold streamed rows into their contexts and queue history loads for symbols that
+   * have none (or a stale one)
+   */
+  update(stocks: Stock[]): void {
+    const now = clock.now();
+    const date = toNewYorkParts(now).date;
+
+    stocks.forEach(stock => {
+      const context = this.contexts.get(stock.symbol);
+      if (context && context.date === date) {
+        extendSessionContext(context, stock, now);
+      }
+      const failedAt = this.failedAt.get(stock.symbol);
+      if (failedAt !== undefined && Math.abs(now - failedAt) < CONTEXT_TTL) return;
+      if (!context || context.date !== date || Math.abs(now - context.loadedAt) >= CONTEXT_TTL) {
+        this.enqueue(stock.symbol);
+      }
+    });
+  }
+
+  /**
+   * Rows with their metrics attached
+   */
+  withMetrics(stocks: Stock[]): Stock[] {
+    return stocks.map(stock => ({ ...stock, metrics: computeMetrics(stock, this.contexts.get(stock.symbol)) }));
+  }
+
+  /**
+   * Listen for newly loaded history. Returns an unsubscribe function.
+   */
+  onUpdate(callback: () => void): () => void {
+    this.listeners.add(callback);
+
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  private reset(): void {
+    this.generation++;
+    this.contexts.clear();
+    this.failedAt.clear();
+    this.queue = [];
+    this.notify();
+  }
+
+  private enqueue(symbol: string): void {
+    if (this.loading.has(symbol) || this.queue.includes(symbol)) return;
+
+    this.queue.push(symbol);
+    if (this.loading.size === 0) {
+      this.loadNext();
+    }
+  }
+
+  /**
+   * Load one symbol at a time so the scanner's universe doesn't flood the provider
+   */
+  private async loadNext(): Promise<void> {
+    const symbol = this.queue.shift();
+    if (!symbol) return;
+
+    const generation = this.generation;
+    const provider = marketData.getProvider();
+    this.loading.add(symbol);
+
+    try {
+      const [daily, intraday] = await Promise.all([
+        historyService.load(provider, symbol, '1d'),
+        historyService.load(provider, symbol, '1m')
+      ]);
+      if (generation === this.generation) {
+        this.contexts.set(symbol, buildSessionContext(daily, intraday, clock.now()));
+        this.failedAt.delete(symbol);
+        this.notify();
+      }
+    } catch (error) {
+      console.warn(`Failed to load ${symbol} history for scanner metrics:`, error);
+      this.failedAt.set(symbol, clock.now());
+    } finally {
+      this.loading.delete(symbol);
+      this.loadNext();
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(callback => callback());
+  }
+}
+
+export const scannerMetrics = new ScannerMetricsService();
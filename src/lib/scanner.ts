@@ -0,0 +1,364 @@
+import { ScannerFilters, Stock, StockDelta, StockMetrics } from '@/types';
+import { marketData } from '@/lib/market-data';
+import { clock } from '@/lib/clock';
+import { applyStockDelta } from '@/lib/ibkr-stream';
+import { buildScannerParams, ScannerContract, ScannerParams } from '@/lib/ibkr-scanner';
+
+/**
+ * Scanner service
+ * Runs the active provider's market scan on an interval, enriches the ranked contracts
+ * with snapshots and float/news data and publishes them as `Stock` rows. Several filter
+ * sets (one per scanner tab) are scanned together into one set of rows, which each tab
+ * narrows with `matchesFilters()`.
+ */
+
+export interface ScannerFundamentals {
+  float?: number;
+  news?: number;
+}
+
+/** Float/news lookup for symbols whose snapshot doesn't carry them */
+export type FundamentalsSource = (symbols: string[]) => Promise<Record<string, ScannerFundamentals>>;
+
+export interface ScannerState {
+  rows: Stock[];
+  scanning: boolean;
+  lastScan: Date | null;
+  error: string | null;
+}
+
+/** Built-in filter presets offered by the Scanner tab and the backtester */
+export const SCANNER_PRESETS: Record<string, ScannerFilters> = {
+  'Hot Penny Stocks': {
+    priceMin: 0.01,
+    priceMax: 5.00,
+    marketCapMin: 50_000_000,
+    marketCapMax: 2_000_000_000,
+    floatMin: 10_000_000,
+    floatMax: 500_000_000,
+    volumeMin: 5_000_000,
+    changeMin: 5,
+    changeMax: 100,
+    newsOnly: false
+  },
+  'Low Float Runners': {
+    priceMin: 0.50,
+    priceMax: 5.00,
+    marketCapMin: 100_000_000,
+    marketCapMax: 1_000_000_000,
+    floatMin: 10_000_000,
+    floatMax: 100_000_000,
+    volumeMin: 2_000_000,
+    changeMin: 10,
+    changeMax: 100,
+    newsOnly: false
+  },
+  'News Breakouts': {
+    priceMin: 0.10,
+    priceMax: 5.00,
+    marketCapMin: 25_000_000,
+    marketCapMax: 2_000_000_000,
+    floatMin: 5_000_000,
+    floatMax: 1_000_000_000,
+    volumeMin: 1_000_000,
+    changeMin: 15,
+    changeMax: 100,
+    newsOnly: true
+  }
+};
+
+/**
+ * Whether a row passes every scanner filter, including float and news
+ */
+export function matchesFilters(stock: Stock, filters: ScannerFilters): boolean {
+  if (stock.price < filters.priceMin || stock.price > filters.priceMax) return false;
+  if (stock.marketCap < filters.marketCapMin || stock.marketCap > filters.marketCapMax) return false;
+  if (stock.float < filters.floatMin || stock.float > filters.floatMax) return false;
+  if (stock.volume < filters.volumeMin) return false;
+  if (stock.changePercent < filters.changeMin || stock.changePercent > filters.changeMax) return false;
+  if (filters.newsOnly && stock.news === 0) return false;
+  return matchesMetricFilters(stock.metrics, filters);
+}
+
+/**
+ * Derived-metric ranges. `App` and the strategy backtester always attach metrics, and
+ * a metric that couldn't be computed (null, e.g. before the symbol's history loads)
+ * fails any range set on it. Rows with no metrics object at all skip these ranges.
+ */
+function matchesMetricFilters(metrics: StockMetrics | undefined, filters: ScannerFilters): boolean {
+  if (!metrics) return true;
+
+  const inRange = (value: number | null, min?: number, max?: number) => {
+    if (min === undefined && max === undefined) return true;
+    if (value === null) return false;
+    return (min === undefined || value >= min) && (max === undefined || value <= max);
+  };
+
+  return inRange(metrics.relativeVolume10, filters.relativeVolumeMin)
+    && inRange(metrics.gapPercent, filters.gapMin, filters.gapMax)
+    && inRange(metrics.vwapDistance, filters.vwapDistanceMin, filters.vwapDistanceMax)
+    && inRange(metrics.floatRotation, filters.floatRotationMin)
+    && inRange(metrics.dollarVolume, filters.dollarVolumeMin);
+}
+
+const SCAN_INTERVAL = 30_000;
+const FILTER_DEBOUNCE = 500;
+const FUNDAMENTALS_TTL = 6 * 60 * 60 * 1000; // Float and news counts move slowly
+
+/**
+ * Build a scanner row from a contract and its snapshot. Without a float figure the
+ * shares outstanding (market cap / price) stand in as its upper bound.
+ */
+export function toScannerRow(
+  contract: ScannerContract,
+  quote: StockDelta | undefined,
+  fundamentals: ScannerFundamentals = {},
+  previous?: Stock
+): Stock {
+  const base: Stock = previous || {
+    symbol: contract.symbol,
+    name: contract.name || contract.symbol,
+    price: 0,
+    change: 0,
+    changePercent: 0,
+    volume: 0,
+    marketCap: 0,
+    float: 0,
+    news: 0,
+    lastUpdate: new Date()
+  };
+  const row = quote ? applyStockDelta(base, quote) : base;
+  const sharesOutstanding = row.price > 0 ? Math.round(row.marketCap / row.price) : 0;
+
+  return {
+    ...row,
+    float: fundamentals.float ?? quote?.float ?? (row.float || sharesOutstanding),
+    news: fundamentals.news ?? quote?.news ?? row.news
+  };
+}
+
+export class ScannerService {
+  private filters: ScannerFilters[] = [];
+  // Distinct scan parameters of the filter sets, each run every scan
+  private params: ScannerParams[] = [];
+  private state: ScannerState = { rows: [], scanning: false, lastScan: null, error: null };
+  private listeners: Set<(state: ScannerState) => void> = new Set();
+  private fundamentalsSource: FundamentalsSource | null = null;
+  private fundamentals: Map<string, ScannerFundamentals & { fetchedAt: number }> = new Map();
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private debounceTimer: ReturnType<typeof setTimeout> | null = null;
+  private inFlight: Promise<Stock[]> | null = null;
+  private rescanRequested = false;
+  private detachProvider: (() => void) | null = null;
+  private detachStatus: (() => void) | null = null;
+  private detachClock: (() => void) | null = null;
+  // Clock time of the last scan, so a replay rescans every SCAN_INTERVAL of replayed time
+  private scannedAt = 0;
+
+  /**
+   * Start polling with the given filter sets, or apply new ones if already running
+   */
+  start(filters: ScannerFilters[]): void {
+    const running = this.pollTimer !== null;
+    this.setFilters(filters);
+    if (running) return;
+
+    this.pollTimer = setInterval(() => this.refresh(), SCAN_INTERVAL);
+
+    // A new source has a different universe; rescan from scratch
+    this.detachProvider = marketData.onProviderChange(() => {
+      this.update({ rows: [], lastScan: null, error: null });
+      this.refresh();
+    });
+
+    let authenticated = marketData.getStatus().authenticated;
+    this.detachStatus = marketData.onStatusChange(status => {
+      if (status.authenticated && !authenticated) {
+        this.refresh();
+      }
+      authenticated = status.authenticated;
+    });
+
+    this.detachClock = clock.onChange((now, jumped) => {
+      if (jumped || Math.abs(now - this.scannedAt) >= SCAN_INTERVAL) {
+        this.refresh();
+      }
+    });
+
+    this.refresh();
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    this.detachProvider?.();
+    this.detachStatus?.();
+    this.detachClock?.();
+    this.detachProvider = null;
+    this.detachStatus = null;
+    this.detachClock = null;
+  }
+
+  /**
+   * Update the filter sets. Only changes the scanner can express trigger a rescan;
+   * float and news filters apply to the rows already loaded.
+   */
+  setFilters(filters: ScannerFilters[]): void {
+    this.filters = filters;
+    const distinct = new Map(filters.map(entry => {
+      const params = buildScannerParams(entry);
+      return [JSON.stringify(params), params] as const;
+    }));
+    const params = Array.from(distinct.values());
+    if (JSON.stringify(params) === JSON.stringify(this.params)) return;
+
+    this.params = params;
+    if (this.pollTimer === null) return;
+
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      this.refresh();
+    }, FILTER_DEBOUNCE);
+  }
+
+  getFilters(): ScannerFilters[] {
+    return this.filters;
+  }
+
+  getState(): ScannerState {
+    return this.state;
+  }
+
+  /**
+   * Plug in a float/news lookup; results are cached per symbol
+   */
+  setFundamentalsSource(source: FundamentalsSource | null): void {
+    this.fundamentalsSource = source;
+    this.fundamentals.clear();
+  }
+
+  /**
+   * Run a scan now. Concurrent calls share the scan in flight and queue one more.
+   */
+  refresh(): Promise<Stock[]> {
+    if (this.inFlight) {
+      this.rescanRequested = true;
+      return this.inFlight;
+    }
+
+    this.inFlight = this.scan().finally(() => {
+      this.inFlight = null;
+      if (this.rescanRequested) {
+        this.rescanRequested = false;
+        this.refresh();
+      }
+    });
+    return this.inFlight;
+  }
+
+  /**
+   * Listen for scanner state changes. Returns an unsubscribe function.
+   */
+  onUpdate(callback: (state: ScannerState) => void): () => void {
+    this.listeners.add(callback);
+    callback(this.state);
+
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  private async scan(): Promise<Stock[]> {
+    const provider = marketData.getProvider();
+    if (this.params.length === 0 || !provider.getStatus().authenticated) {
+      return this.state.rows;
+    }
+
+    this.update({ scanning: true });
+    this.scannedAt = clock.now();
+
+    try {
+      const params = this.params;
+      const results = await Promise.all(params.map(entry => provider.scan(entry)));
+      // A symbol more than one scan returned keeps its first (best) rank
+      const seen = new Set<string>();
+      const contracts = results.flat().filter(contract => {
+        if (seen.has(contract.symbol)) return false;
+        seen.add(contract.symbol);
+        return true;
+      });
+      const symbols = contracts.map(contract => contract.symbol);
+      const [quotes, fundamentals] = await Promise.all([
+        symbols.length > 0 ? provider.getQuotes(symbols) : Promise.resolve([]),
+        this.getFundamentals(symbols)
+      ]);
+
+      // The source may have been switched while this scan was running
+      if (provider !== marketData.getProvider()) {
+        return this.state.rows;
+      }
+
+      const quotesBySymbol = new Map(quotes.map(quote => [quote.symbol, quote]));
+      const previous = new Map(this.state.rows.map(row => [row.symbol, row]));
+      const rows = contracts
+        .map(contract => toScannerRow(
+          contract,
+          quotesBySymbol.get(contract.symbol),
+          fundamentals[contract.symbol],
+          previous.get(contract.symbol)
+        ))
+        .filter(row => row.price > 0);
+
+      console.log(`🔎 Scanner: ${rows.length} of ${contracts.length} results priced (${params.map(entry => entry.type).join(', ')})`);
+      this.update({ rows, scanning: false, lastScan: new Date(clock.now()), error: null });
+      return rows;
+    } catch (error) {
+      console.error('Scanner error:', error);
+      this.update({ scanning: false, error: error instanceof Error ? error.message : 'Scanner request failed' });
+      return this.state.rows;
+    }
+  }
+
+  private async getFundamentals(symbols: string[]): Promise<Record<string, ScannerFundamentals>> {
+    if (!this.fundamentalsSource) return {};
+
+    const now = Date.now();
+    const stale = symbols.filter(symbol => {
+      const cached = this.fundamentals.get(symbol);
+      return !cached || now - cached.fetchedAt > FUNDAMENTALS_TTL;
+    });
+
+    if (stale.length > 0) {
+      try {
+        const fetched = await this.fundamentalsSource(stale);
+        // A symbol the source has nothing for is cached empty, so it isn't asked for every scan
+        stale.forEach(symbol => {
+          this.fundamentals.set(symbol, { ...fetched[symbol], fetchedAt: now });
+        });
+      } catch (error) {
+        console.warn('Failed to load scanner fundamentals:', error);
+      }
+    }
+
+    return Object.fromEntries(symbols.flatMap(symbol => {
+      const cached = this.fundamentals.get(symbol);
+      return cached ? [[symbol, { float: cached.float, news: cached.news }]] : [];
+    }));
+  }
+
+  private update(patch: Partial<ScannerState>): void {
+    this.state = { ...this.state, ...patch };
+    this.listeners.forEach(callback => callback(this.state));
+  }
+}
+
+export const scannerService = new ScannerService();
@@ -0,0 +1,277 @@
+import { MarketHours, RecorderFormat, ScannerSnapshot, SessionAction, SessionActionType, SessionEvent } from '@/types';
+import { clock } from '@/lib/clock';
+import { getMarketHours } from '@/lib/market';
+import { getNextSessionEvent } from '@/lib/trading-calendar';
+import { marketData } from '@/lib/market-data';
+import { scannerService } from '@/lib/scanner';
+import { alertService } from '@/lib/alerts';
+import { aiPatternService } from '@/lib/aiPatterns';
+import { toRecordedTick } from '@/lib/recorder';
+import { serializeRecorded } from '@/lib/recorder-formats';
+import { toast } from 'sonner';
+
+/**
+ * Session scheduler
+ * Watches `getMarketHours()` for session changes (premarket open, regular open and
+ * close, after-hours close), announces them, and runs the actions the user attached
+ * to each: switching the scanner preset, snapshotting the scanner, an AI market scan
+ * or clearing triggered alerts.
+ */
+
+export const SESSION_EVENT_LABELS: Record<SessionEvent, string> = {
+  premarket_open: 'Premarket open',
+  regular_open: 'Market open',
+  regular_close: 'Market close',
+  afterhours_close: 'After-hours close'
+};
+
+export const SESSION_ACTION_LABELS: Record<SessionActionType, string> = {
+  apply_preset: 'Switch scanner preset',
+  snapshot_scanner: 'Snapshot scanner',
+  ai_market_scan: 'Run AI market scan',
+  clear_triggered_alerts: 'Clear triggered alerts'
+};
+
+const ACTIONS_STORAGE_KEY = 'sfti-session-actions';
+const SNAPSHOTS_STORAGE_KEY = 'sfti-scanner-snapshots';
+const CHECK_INTERVAL = 15_000;
+// Oldest snapshots are dropped past this many
+export const MAX_SNAPSHOTS = 20;
+
+export interface SessionSchedulerState {
+  actions: SessionAction[];
+  snapshots: ScannerSnapshot[];
+}
+
+/**
+ * The boundary crossed going from one session status to the next, or null
+ */
+export function sessionEventBetween(previous: MarketHours['status'], next: MarketHours['status']): SessionEvent | null {
+  if (previous === next) return null;
+
+  switch (next) {
+    case 'premarket':
+      return 'premarket_open';
+    case 'regular':
+      return 'regular_open';
+    case 'afterhours':
+      return 'regular_close';
+    case 'closed':
+      if (previous === 'regular') return 'regular_close';
+      return previous === 'afterhours' ? 'afterhours_close' : null;
+    default:
+      return null;
+  }
+}
+
+export function createSessionAction(event: SessionEvent, type: SessionActionType): SessionAction {
+  return {
+    id: `session_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    event,
+    type,
+    enabled: true
+  };
+}
+
+export class SessionScheduler {
+  private status: MarketHours['status'] | null = null;
+  private actions: SessionAction[] = [];
+  private snapshots: ScannerSnapshot[] = [];
+  private eventListeners: Set<(event: SessionEvent, at: number) => void> = new Set();
+  private listeners: Set<(state: SessionSchedulerState) => void> = new Set();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private detachClock: (() => void) | null = null;
+
+  constructor() {
+    this.actions = this.load<SessionAction[]>(ACTIONS_STORAGE_KEY) ?? [];
+    this.snapshots = this.load<ScannerSnapshot[]>(SNAPSHOTS_STORAGE_KEY) ?? [];
+  }
+
+  /**
+   * Start watching the session. A replay seek resyncs without announcing the sessions
+   * it skipped over.
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.status = getMarketHours().status;
+    this.timer = setInterval(() => this.check(), CHECK_INTERVAL);
+    this.detachClock = clock.onChange((_now, jumped) => {
+      if (jumped) {
+        this.status = getMarketHours().status;
+      } else {
+        this.check();
+      }
+    });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.detachClock?.();
+    this.detachClock = null;
+  }
+
+  /**
+   * The next session boundary and when it happens (epoch milliseconds), for countdowns
+   */
+  getNextEvent(now: number = clock.now()): { event: SessionEvent; at: number } | null {
+    return getNextSessionEvent(now);
+  }
+
+  getState(): SessionSchedulerState {
+    return { actions: [...this.actions], snapshots: [...this.snapshots] };
+  }
+
+  /**
+   * Listen for session boundaries as they pass. Returns an unsubscribe function.
+   */
+  onEvent(callback: (event: SessionEvent, at: number) => void): () => void {
+    this.eventListeners.add(callback);
+
+    return () => {
+      this.eventListeners.delete(callback);
+    };
+  }
+
+  /**
+   * Listen for changes to the actions and snapshots. Returns an unsubscribe function.
+   */
+  onUpdate(callback: (state: SessionSchedulerState) => void): () => void {
+    this.listeners.add(callback);
+    callback(this.getState());
+
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  setActions(actions: SessionAction[]): void {
+    this.actions = actions;
+    this.save(ACTIONS_STORAGE_KEY, this.actions);
+    this.notify();
+  }
+
+  /**
+   * Run one action now, as if its session event had just passed
+   */
+  runAction(id: string): Promise<void> {
+    const action = this.actions.find(entry => entry.id === id);
+    return action ? this.run(action, action.event) : Promise.resolve();
+  }
+
+  deleteSnapshot(id: string): void {
+    this.snapshots = this.snapshots.filter(snapshot => snapshot.id !== id);
+    this.save(SNAPSHOTS_STORAGE_KEY, this.snapshots);
+    this.notify();
+  }
+
+  /**
+   * A snapshot in one of the recorder's export formats
+   */
+  exportSnapshot(id: string, format: RecorderFormat): string | null {
+    const snapshot = this.snapshots.find(entry => entry.id === id);
+    return snapshot ? serializeRecorded({ dataset: 'ticks', rows: snapshot.rows }, format) : null;
+  }
+
+  private check(): void {
+    const next = getMarketHours().status;
+    const event = this.status === null ? null : sessionEventBetween(this.status, next);
+    this.status = next;
+
+    if (event) {
+      this.emit(event);
+    }
+  }
+
+  private emit(event: SessionEvent): void {
+    const at = clock.now();
+    console.log(`🕘 Session: ${SESSION_EVENT_LABELS[event]}`);
+    this.eventListeners.forEach(callback => callback(event, at));
+
+    // Replayed sessions must not change filters, saved snapshots or alerts
+    if (!clock.isLive()) return;
+
+    this.actions
+      .filter(action => action.enabled && action.event === event)
+      .forEach(action => {
+        this.run(action, event).catch(error => {
+          console.warn(`Session action ${action.type} failed:`, error);
+          toast.error(`${SESSION_EVENT_LABELS[event]}: ${SESSION_ACTION_LABELS[action.type]} failed`);
+        });
+      });
+  }
+
+  private async run(action: SessionAction, event: SessionEvent): Promise<void> {
+    const label = SESSION_EVENT_LABELS[event];
+    const rows = scannerService.getState().rows;
+
+    switch (action.type) {
+      case 'apply_preset':
+        if (!action.filters) return;
+        window.dispatchEvent(new CustomEvent('applyScannerPreset', {
+          detail: { name: action.presetName, filters: action.filters }
+        }));
+        toast.info(`${label}: switched scanner to ${action.presetName ?? 'saved filters'}`);
+        return;
+
+      case 'snapshot_scanner': {
+        const takenAt = Date.now();
+        const source = marketData.getSource();
+        const snapshot: ScannerSnapshot = {
+          id: `snapshot_${takenAt}_${Math.random().toString(36).slice(2, 8)}`,
+          event,
+          takenAt,
+          rows: rows.map(stock => toRecordedTick(source, stock, takenAt))
+        };
+        this.snapshots = [snapshot, ...this.snapshots].slice(0, MAX_SNAPSHOTS);
+        this.save(SNAPSHOTS_STORAGE_KEY, this.snapshots);
+        this.notify();
+        toast.info(`${label}: saved a snapshot of ${rows.length} scanner rows`);
+        return;
+      }
+
+      case 'ai_market_scan': {
+        const scan = await aiPatternService.performAIMarketScan(rows);
+        toast.info(`${label}: AI scan is ${scan.marketSentiment} with ${scan.recommendations.length} picks`);
+        return;
+      }
+
+      case 'clear_triggered_alerts':
+        alertService.clearTriggeredAlerts();
+        toast.info(`${label}: cleared triggered alerts`);
+        return;
+    }
+  }
+
+  private notify(): void {
+    const state = this.getState();
+    this.listeners.forEach(callback => callback(state));
+  }
+
+  private load<T>(key: string): T | null {
+    if (typeof localStorage === 'undefined') return null;
+
+    try {
+      const stored = localStorage.getItem(key);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.warn(`Failed to load ${key}:`, error);
+      return null;
+    }
+  }
+
+  private save(key: string, value: unknown): void {
+    if (typeof localStorage === 'undefined') return;
+
+    try {
+      localStorage.setItem(key, JSON.stringify(value));
+    } catch (error) {
+      console.warn(`Failed to save ${key}:`, error);
+    }
+  }
+}
+
+export const sessionScheduler = new SessionScheduler();
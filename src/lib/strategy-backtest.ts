@@ -0,0 +1,318 @@
+import { ChartData, RecordedTick, ScannerFilters, Stock, StrategyBacktestResult, StrategyRules, StrategyTrade } from '@/types';
+import { matchesFilters } from '@/lib/scanner';
+import { addSessionBar, computeMetrics, startSessionContext } from '@/lib/scanner-metrics';
+import { toDailyDate, toSessionDate } from '@/lib/indicators';
+import { parseTimeOfDay } from '@/lib/alert-timing';
+import { historyService } from '@/lib/history';
+import { marketData } from '@/lib/market-data';
+import { recorderStore } from '@/lib/recorder-store';
+
+/**
+ * Scanner preset backtesting
+ * Rebuilds what the scanner would have shown bar by bar from stored daily and 5-minute
+ * bars (price, change from the previous close, volume so far, market cap at that price
+ * and the derived metrics), enters the first time a symbol matches the preset each session and exits on the stop,
+ * target, time stop or session close. Float and news come from the recorder's rows for
+ * that session; where it recorded none, float and news filters are skipped.
+ */
+
+export const DEFAULT_STRATEGY_RULES: StrategyRules = {
+  entryFrom: '09:30',
+  entryUntil: '15:30',
+  stopPercent: 5,
+  targetPercent: 10,
+  timeStopMinutes: 60
+};
+
+const INTRADAY_TIMEFRAME = '5m';
+const BAR_SECONDS = 300;
+// Series shorter than this are loaded from the provider before replaying
+const MIN_DAILY_BARS = 2;
+const MIN_INTRADAY_BARS = 200;
+// Regular close and end of after hours, minutes after midnight in New York
+const REGULAR_CLOSE = 16 * 60;
+const SESSION_END = 20 * 60;
+
+export interface StrategySeries {
+  /** Current scanner row; shares outstanding are taken from it */
+  stock: Stock;
+  daily: ChartData[];
+  intraday: ChartData[];
+  /** Recorded scanner rows in time order; each snapshot takes float and news from the session's latest one */
+  ticks?: RecordedTick[];
+}
+
+const NEW_YORK_HOUR = new Intl.DateTimeFormat('en-GB', { timeZone: 'America/New_York', hour: '2-digit', hourCycle: 'h23' });
+
+/**
+ * New York date and minutes after midnight for bar times, formatted once per hour
+ */
+function createClock(): (time: number) => { date: string; minutes: number } {
+  const hours = new Map<number, { date: string; minutes: number }>();
+
+  return (time: number) => {
+    const hour = Math.floor(time / 3600);
+    let start = hours.get(hour);
+    if (!start) {
+      start = { date: toSessionDate(hour * 3600), minutes: Number(NEW_YORK_HOUR.format(hour * 3600 * 1000)) * 60 };
+      hours.set(hour, start);
+    }
+    return { date: start.date, minutes: start.minutes + Math.floor((time % 3600) / 60) };
+  };
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const average = (values: number[]) => (values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0);
+
+/**
+ * Replay one symbol's sessions through the filters. At most one trade per session.
+ * Returns the trades, the session dates replayed and the dates checked without a
+ * recorded float and news count (where those filters were skipped).
+ */
+export function backtestSeries(
+  series: StrategySeries,
+  filters: ScannerFilters,
+  rules: StrategyRules
+): { trades: StrategyTrade[]; dates: string[]; unrecordedDates: string[] } {
+  const { stock, daily, intraday, ticks = [] } = series;
+  const clock = createClock();
+  const entryFrom = parseTimeOfDay(rules.entryFrom) ?? 0;
+  const entryUntil = parseTimeOfDay(rules.entryUntil) ?? SESSION_END;
+  const shares = stock.price > 0 ? stock.marketCap / stock.price : 0;
+
+  const dailyCloses = daily.map(bar => ({ date: toDailyDate(bar.time), close: bar.close }));
+  const sessions = new Map<string, ChartData[]>();
+  intraday.forEach(bar => {
+    const { date } = clock(bar.time);
+    const bars = sessions.get(date);
+    if (bars) {
+      bars.push(bar);
+    } else {
+      sessions.set(date, [bar]);
+    }
+  });
+
+  // Today's float and news would leak into every past session, so without a recorded row they aren't filtered on
+  const withoutFundamentals: ScannerFilters = { ...filters, floatMin: -Infinity, floatMax: Infinity, newsOnly: false };
+  const unrecordedDates: string[] = [];
+  let tickIndex = 0;
+
+  const trades: StrategyTrade[] = [];
+  // Regular-session close of the previous intraday session; daily bars cover the first session
+  let lastRegularClose: number | null = null;
+
+  sessions.forEach((bars, date) => {
+    const previousClose = lastRegularClose ?? dailyCloses.filter(bar => bar.date < date).pop()?.close;
+
+    const regular = bars.filter(bar => clock(bar.time).minutes + BAR_SECONDS / 60 <= REGULAR_CLOSE);
+    if (regular.length > 0) {
+      lastRegularClose = regular[regular.length - 1].close;
+    }
+    if (!previousClose) return;
+
+    // Metrics as the scanner would have had them at each bar's close
+    const context = startSessionContext(daily, date, 0);
+    context.previousClose = previousClose;
+
+    let volume = 0;
+    let recorded: RecordedTick | null = null;
+    for (let i = 0; i < bars.length - 1; i++) {
+      const bar = bars[i];
+      const { minutes } = clock(bar.time);
+      volume += bar.volume;
+      addSessionBar(context, bar, minutes);
+
+      // Latest row recorded this session by the bar's close
+      const closeTime = (bar.time + BAR_SECONDS) * 1000;
+      while (tickIndex < ticks.length && ticks[tickIndex].time <= closeTime) {
+        const tick = ticks[tickIndex++];
+        if (clock(Math.floor(tick.time / 1000)).date === date) recorded = tick;
+      }
+
+      const closeMinutes = minutes + BAR_SECONDS / 60;
+      if (closeMinutes < entryFrom || closeMinutes > entryUntil) continue;
+
+      const snapshot: Stock = {
+        ...stock,
+        price: bar.close,
+        change: bar.close - previousClose,
+        changePercent: ((bar.close - previousClose) / previousClose) * 100,
+        volume,
+        marketCap: shares * bar.close,
+        ...(recorded && { float: recorded.float, news: recorded.news })
+      };
+      snapshot.metrics = computeMetrics(snapshot, context);
+      if (!recorded && unrecordedDates[unrecordedDates.length - 1] !== date) unrecordedDates.push(date);
+      if (!matchesFilters(snapshot, recorded ? filters : withoutFundamentals)) continue;
+
+      const trade = exitTrade(bars, i, rules, closeMinutes <= REGULAR_CLOSE ? REGULAR_CLOSE : SESSION_END, clock);
+      trades.push({
+        id: `${stock.symbol}-${date}`,
+        symbol: stock.symbol,
+        date,
+        entryTime: bar.time + BAR_SECONDS,
+        entryPrice: bar.close,
+        changePercent: round(snapshot.changePercent),
+        volume,
+        ...trade
+      });
+      break;
+    }
+  });
+
+  return { trades, dates: Array.from(sessions.keys()), unrecordedDates };
+}
+
+/**
+ * Walk the bars after the entry bar until the stop, target, time stop or close. A bar that
+ * opens through the stop or target fills at its open; one that reaches both is a stop.
+ */
+function exitTrade(
+  bars: ChartData[],
+  entryIndex: number,
+  rules: StrategyRules,
+  sessionClose: number,
+  clock: (time: number) => { minutes: number }
+): Pick<StrategyTrade, 'exitTime' | 'exitPrice' | 'exitReason' | 'returnPercent'> {
+  const entry = bars[entryIndex].close;
+  const entryTime = bars[entryIndex].time + BAR_SECONDS;
+  const stop = entry * (1 - rules.stopPercent / 100);
+  const target = entry * (1 + rules.targetPercent / 100);
+
+  const exit = (index: number, price: number, exitReason: StrategyTrade['exitReason']) => ({
+    exitTime: bars[index].time + BAR_SECONDS,
+    exitPrice: price,
+    exitReason,
+    returnPercent: round(((price - entry) / entry) * 100)
+  });
+
+  for (let j = entryIndex + 1; j < bars.length; j++) {
+    const bar = bars[j];
+    const closeTime = bar.time + BAR_SECONDS;
+
+    if (rules.stopPercent > 0 && bar.low <= stop) return exit(j, Math.min(stop, bar.open), 'stop');
+    if (rules.targetPercent > 0 && bar.high >= target) return exit(j, Math.max(target, bar.open), 'target');
+    if (rules.timeStopMinutes > 0 && closeTime - entryTime >= rules.timeStopMinutes * 60) return exit(j, bar.close, 'time');
+    if (j === bars.length - 1 || clock(closeTime).minutes >= sessionClose) return exit(j, bar.close, 'close');
+  }
+
+  return exit(bars.length - 1, bars[bars.length - 1].close, 'close');
+}
+
+/**
+ * Equity curve and trade statistics. Every trade risks the same stake, so the curve is the
+ * running sum of trade returns in exit order.
+ */
+export function summarizeStrategy(trades: StrategyTrade[]): Pick<
+  StrategyBacktestResult,
+  'trades' | 'equity' | 'winRate' | 'avgWin' | 'avgLoss' | 'expectancy' | 'totalReturn' | 'maxDrawdown'
+> {
+  const ordered = [...trades].sort((a, b) => a.exitTime - b.exitTime);
+  const returns = ordered.map(trade => trade.returnPercent);
+  const wins = returns.filter(value => value > 0);
+  const losses = returns.filter(value => value <= 0);
+
+  let value = 0;
+  let peak = 0;
+  let maxDrawdown = 0;
+  const equity = ordered.map(trade => {
+    value += trade.returnPercent;
+    peak = Math.max(peak, value);
+    maxDrawdown = Math.max(maxDrawdown, peak - value);
+    return { time: trade.exitTime, value: round(value) };
+  });
+
+  return {
+    trades: ordered,
+    equity,
+    winRate: returns.length > 0 ? round((wins.length / returns.length) * 100) : 0,
+    avgWin: round(average(wins)),
+    avgLoss: round(average(losses)),
+    expectancy: round(average(returns)),
+    totalReturn: round(value),
+    maxDrawdown: round(maxDrawdown)
+  };
+}
+
+export class StrategyBacktestService {
+  private running: Promise<StrategyBacktestResult> | null = null;
+  private lastResult: StrategyBacktestResult | null = null;
+
+  isRunning(): boolean {
+    return this.running !== null;
+  }
+
+  getLastResult(): StrategyBacktestResult | null {
+    return this.lastResult;
+  }
+
+  /**
+   * Replay the stored bars of `stocks` through a preset. A run already in progress is
+   * returned instead of starting another.
+   */
+  run(
+    presetName: string,
+    filters: ScannerFilters,
+    rules: StrategyRules,
+    stocks: Stock[],
+    onProgress?: (done: number, total: number) => void
+  ): Promise<StrategyBacktestResult> {
+    if (!this.running) {
+      this.running = this.execute(presetName, filters, rules, stocks, onProgress).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async execute(
+    presetName: string,
+    filters: ScannerFilters,
+    rules: StrategyRules,
+    stocks: Stock[],
+    onProgress?: (done: number, total: number) => void
+  ): Promise<StrategyBacktestResult> {
+    const startedAt = Date.now();
+    const provider = marketData.getProvider();
+    const trades: StrategyTrade[] = [];
+    const sessions = new Set<string>();
+    const unrecorded = new Set<string>();
+    let done = 0;
+
+    for (const stock of stocks) {
+      try {
+        const [daily, intraday, ticks] = await Promise.all([
+          historyService.getStored(provider, stock.symbol, '1d', MIN_DAILY_BARS),
+          historyService.getStored(provider, stock.symbol, INTRADAY_TIMEFRAME, MIN_INTRADAY_BARS),
+          recorderStore.getTicks({ source: provider.source, symbol: stock.symbol })
+        ]);
+        const replayed = backtestSeries({ stock, daily, intraday, ticks }, filters, rules);
+        trades.push(...replayed.trades);
+        replayed.dates.forEach(date => sessions.add(date));
+        replayed.unrecordedDates.forEach(date => unrecorded.add(`${stock.symbol} ${date}`));
+      } catch (error) {
+        console.warn(`Strategy backtest: failed to load ${stock.symbol} bars:`, error);
+      }
+      onProgress?.(++done, stocks.length);
+
+      // Let the UI paint between symbols
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    this.lastResult = {
+      presetName,
+      filters,
+      rules,
+      ...summarizeStrategy(trades),
+      symbols: new Set(trades.map(trade => trade.symbol)).size,
+      sessions: sessions.size,
+      unrecordedSessions: unrecorded.size,
+      startedAt,
+      finishedAt: Date.now()
+    };
+    console.log(`🧪 ${presetName} backtest: ${trades.length} trades over ${sessions.size} sessions in ${Date.now() - startedAt}ms`);
+    return this.lastResult;
+  }
+}
+
+export const strategyBacktestService = new StrategyBacktestService();
@@ -0,0 +1,309 @@
+import { SessionEvent } from '@/types';
+import { clock } from '@/lib/clock';
+
+/**
+ * US equity trading calendar
+ * NYSE/Nasdaq full holidays and 1:00 PM early closes, computed by rule for any year,
+ * and the session boundaries in New York time that follow from them. Every function
+ * that needs the current time takes it as an argument, defaulting to the app clock.
+ */
+
+export interface CalendarEvent {
+  /** New York date, "YYYY-MM-DD" */
+  date: string;
+  name: string;
+}
+
+/** Session boundaries of one trading day, epoch milliseconds */
+export interface SessionTimes {
+  date: string;
+  premarketOpen: number;
+  open: number;
+  close: number;
+  afterHoursClose: number;
+  /** Why the session closes early, or null on a full day */
+  earlyClose: string | null;
+}
+
+/** Minutes after midnight in New York */
+export const PREMARKET_OPEN_MINUTE = 4 * 60;
+export const REGULAR_OPEN_MINUTE = 9 * 60 + 30;
+export const REGULAR_CLOSE_MINUTE = 16 * 60;
+export const AFTER_HOURS_CLOSE_MINUTE = 20 * 60;
+export const EARLY_CLOSE_MINUTE = 13 * 60;
+export const EARLY_AFTER_HOURS_CLOSE_MINUTE = 17 * 60;
+
+// Closures announced for one-off events, which no rule predicts
+const SPECIAL_CLOSURES: CalendarEvent[] = [
+  { date: '2012-10-29', name: 'Hurricane Sandy' },
+  { date: '2012-10-30', name: 'Hurricane Sandy' },
+  { date: '2018-12-05', name: 'National Day of Mourning' },
+  { date: '2025-01-09', name: 'National Day of Mourning' }
+];
+
+// Look this far ahead for the next trading day; the longest closure is four days
+const MAX_SEARCH_DAYS = 10;
+
+const NEW_YORK_PARTS = new Intl.DateTimeFormat('en-US', {
+  timeZone: 'America/New_York',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  second: '2-digit',
+  hourCycle: 'h23'
+});
+
+const holidayCache: Map<number, CalendarEvent[]> = new Map();
+const earlyCloseCache: Map<number, CalendarEvent[]> = new Map();
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+function formatDate(year: number, month: number, day: number): string {
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * Day of the week (0 = Sunday) of a calendar date
+ */
+function weekdayOf(year: number, month: number, day: number): number {
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/**
+ * Day of the month of the nth (1-based) weekday in a month; n = -1 for the last one
+ */
+function nthWeekday(year: number, month: number, weekday: number, n: number): number {
+  if (n > 0) {
+    const first = weekdayOf(year, month, 1);
+    return 1 + ((weekday - first + 7) % 7) + (n - 1) * 7;
+  }
+
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const last = weekdayOf(year, month, lastDay);
+  return lastDay - ((last - weekday + 7) % 7);
+}
+
+/**
+ * Easter Sunday (anonymous Gregorian algorithm) as [month, day]
+ */
+function easter(year: number): [number, number] {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return [month, day];
+}
+
+/**
+ * Fixed-date holiday moved off the weekend: Saturday to Friday, Sunday to Monday
+ */
+function observed(year: number, month: number, day: number): string {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  const weekday = date.getUTCDay();
+  if (weekday === 6) date.setUTCDate(day - 1);
+  if (weekday === 0) date.setUTCDate(day + 1);
+  return date.toISOString().slice(0, 10);
+}
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+/**
+ * New York date, time and weekday of a moment
+ */
+export function toNewYorkParts(time: number): { date: string; minutes: number; weekday: number } {
+  const parts = Object.fromEntries(NEW_YORK_PARTS.formatToParts(time).map(part => [part.type, part.value]));
+  const year = Number(parts.year);
+  const month = Number(parts.month);
+  const day = Number(parts.day);
+
+  return {
+    date: formatDate(year, month, day),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+    weekday: weekdayOf(year, month, day)
+  };
+}
+
+/**
+ * Epoch milliseconds of a New York wall-clock time, across daylight-saving changes
+ */
+export function fromNewYorkTime(date: string, minutes: number): number {
+  const [year, month, day] = date.split('-').map(Number);
+  const wall = Date.UTC(year, month - 1, day) + minutes * 60_000;
+  const offset = (time: number) => {
+    const parts = Object.fromEntries(NEW_YORK_PARTS.formatToParts(time).map(part => [part.type, part.value]));
+    const asUtc = Date.UTC(Number(parts.year), Number(parts.month) - 1, Number(parts.day), Number(parts.hour), Number(parts.minute), Number(parts.second));
+    return asUtc - Math.floor(time / 1000) * 1000;
+  };
+
+  const guess = wall - offset(wall);
+  return wall - offset(guess);
+}
+
+/**
+ * Full-day exchange holidays of a year, in date order
+ */
+export function getHolidays(year: number): CalendarEvent[] {
+  const cached = holidayCache.get(year);
+  if (cached) return cached;
+
+  const [easterMonth, easterDay] = easter(year);
+  const holidays: CalendarEvent[] = [
+    { date: formatDate(year, 1, nthWeekday(year, 1, 1, 3)), name: 'Martin Luther King Jr. Day' },
+    { date: formatDate(year, 2, nthWeekday(year, 2, 1, 3)), name: "Washington's Birthday" },
+    { date: addDays(formatDate(year, easterMonth, easterDay), -2), name: 'Good Friday' },
+    { date: formatDate(year, 5, nthWeekday(year, 5, 1, -1)), name: 'Memorial Day' },
+    { date: observed(year, 7, 4), name: 'Independence Day' },
+    { date: formatDate(year, 9, nthWeekday(year, 9, 1, 1)), name: 'Labor Day' },
+    { date: formatDate(year, 11, nthWeekday(year, 11, 4, 4)), name: 'Thanksgiving Day' },
+    { date: observed(year, 12, 25), name: 'Christmas Day' }
+  ];
+
+  // A Saturday New Year's Day isn't moved back into the old year
+  if (weekdayOf(year, 1, 1) !== 6) {
+    holidays.push({ date: observed(year, 1, 1), name: "New Year's Day" });
+  }
+  if (year >= 2022) {
+    holidays.push({ date: observed(year, 6, 19), name: 'Juneteenth' });
+  }
+  holidays.push(...SPECIAL_CLOSURES.filter(closure => closure.date.startsWith(`${year}-`)));
+
+  const sorted = holidays.sort((a, b) => a.date.localeCompare(b.date));
+  holidayCache.set(year, sorted);
+  return sorted;
+}
+
+/**
+ * 1:00 PM closes of a year: July 3rd and Christmas Eve when they fall Monday to
+ * Thursday, and the day after Thanksgiving
+ */
+export function getEarlyCloses(year: number): CalendarEvent[] {
+  const cached = earlyCloseCache.get(year);
+  if (cached) return cached;
+
+  const closes: CalendarEvent[] = [];
+  const july3 = weekdayOf(year, 7, 3);
+  if (july3 >= 1 && july3 <= 4) {
+    closes.push({ date: formatDate(year, 7, 3), name: 'Independence Day Eve' });
+  }
+  closes.push({ date: formatDate(year, 11, nthWeekday(year, 11, 4, 4) + 1), name: 'Day after Thanksgiving' });
+  const christmasEve = weekdayOf(year, 12, 24);
+  if (christmasEve >= 1 && christmasEve <= 4) {
+    closes.push({ date: formatDate(year, 12, 24), name: 'Christmas Eve' });
+  }
+
+  earlyCloseCache.set(year, closes);
+  return closes;
+}
+
+/**
+ * Name of the holiday closing the exchange on a date, or null
+ */
+export function getHoliday(date: string): string | null {
+  return getHolidays(Number(date.slice(0, 4))).find(holiday => holiday.date === date)?.name ?? null;
+}
+
+/**
+ * Name of the early close on a date, or null on a full day
+ */
+export function getEarlyClose(date: string): string | null {
+  return getEarlyCloses(Number(date.slice(0, 4))).find(close => close.date === date)?.name ?? null;
+}
+
+export function isTradingDay(date: string): boolean {
+  const [year, month, day] = date.split('-').map(Number);
+  const weekday = weekdayOf(year, month, day);
+  return weekday !== 0 && weekday !== 6 && getHoliday(date) === null;
+}
+
+/**
+ * Session boundaries of a date, or null when the exchange is closed
+ */
+export function getSessionTimes(date: string): SessionTimes | null {
+  if (!isTradingDay(date)) return null;
+
+  const earlyClose = getEarlyClose(date);
+  return {
+    date,
+    premarketOpen: fromNewYorkTime(date, PREMARKET_OPEN_MINUTE),
+    open: fromNewYorkTime(date, REGULAR_OPEN_MINUTE),
+    close: fromNewYorkTime(date, earlyClose ? EARLY_CLOSE_MINUTE : REGULAR_CLOSE_MINUTE),
+    afterHoursClose: fromNewYorkTime(date, earlyClose ? EARLY_AFTER_HOURS_CLOSE_MINUTE : AFTER_HOURS_CLOSE_MINUTE),
+    earlyClose
+  };
+}
+
+/**
+ * First trading day on or after `now`'s New York date whose regular session hasn't
+ * closed yet
+ */
+function nextRegularSession(now: number): SessionTimes | null {
+  let date = toNewYorkParts(now).date;
+
+  for (let i = 0; i < MAX_SEARCH_DAYS; i++) {
+    const session = getSessionTimes(date);
+    if (session && session.close > now) return session;
+    date = addDays(date, 1);
+  }
+  return null;
+}
+
+/**
+ * Start of the next regular session after `now` (epoch milliseconds); during a regular
+ * session, the following day's open
+ */
+export function getNextOpen(now: number = clock.now()): number | null {
+  const session = nextRegularSession(now);
+  if (!session) return null;
+  if (session.open > now) return session.open;
+
+  return nextRegularSession(session.close)?.open ?? null;
+}
+
+/**
+ * Milliseconds until the regular session closes, or null outside regular hours
+ */
+export function getTimeUntilClose(now: number = clock.now()): number | null {
+  const session = nextRegularSession(now);
+  return session && session.open <= now ? session.close - now : null;
+}
+
+/**
+ * The next session boundary after `now`: premarket open, regular open, regular close
+ * or after-hours close
+ */
+export function getNextSessionEvent(now: number = clock.now()): { event: SessionEvent; at: number } | null {
+  let date = toNewYorkParts(now).date;
+
+  for (let i = 0; i < MAX_SEARCH_DAYS; i++) {
+    const session = getSessionTimes(date);
+    if (session) {
+      const boundaries: [SessionEvent, number][] = [
+        ['premarket_open', session.premarketOpen],
+        ['regular_open', session.open],
+        ['regular_close', session.close],
+        ['afterhours_close', session.afterHoursClose]
+      ];
+      const next = boundaries.find(([, at]) => at > now);
+      if (next) return { event: next[0], at: next[1] };
+    }
+    date = addDays(date, 1);
+  }
+  return null;
+}
@@ -0,0 +1,267 @@
+import { AlertWebhookPayload, PriceAlert, WebhookDelivery, WebhookDestination, WebhookKind } from '@/types';
+
+/**
+ * Alert webhooks
+ * Renders triggered alerts into Discord, Slack or generic JSON request bodies and hands
+ * them to the Node server (`scripts/webhooks.js`), which delivers them with retries and
+ * keeps the delivery log.
+ */
+
+export const WEBHOOK_KIND_LABELS: Record<WebhookKind, string> = {
+  discord: 'Discord',
+  slack: 'Slack',
+  json: 'Generic JSON'
+};
+
+/** Templates used when a destination has none; JSON destinations send the whole payload */
+export const DEFAULT_WEBHOOK_TEMPLATES: Record<WebhookKind, string> = {
+  discord: [
+    '🔔 **{{alert.symbol}}** {{message}}',
+    'Price ${{stock.price}} ({{stock.changePercent}}%) · Volume {{stock.volume}}',
+    'Pattern: {{pattern.pattern}} · confidence {{pattern.confidence}}'
+  ].join('\n'),
+  slack: [
+    '🔔 *{{alert.symbol}}* {{message}}',
+    'Price ${{stock.price}} ({{stock.changePercent}}%) · Volume {{stock.volume}}',
+    'Pattern: {{pattern.pattern}} · confidence {{pattern.confidence}}'
+  ].join('\n'),
+  json: ''
+};
+
+// Discord rejects message content longer than this
+const DISCORD_CONTENT_LIMIT = 2000;
+
+const PLACEHOLDER = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+function resolvePath(payload: AlertWebhookPayload, path: string): string {
+  const value = path.split('.').reduce<unknown>(
+    (current, key) => (current !== null && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined),
+    payload
+  );
+
+  if (value === undefined || value === null) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Fill `{{path}}` placeholders (e.g. `{{alert.symbol}}`, `{{stock.price}}`) from the payload.
+ * In text templates a line is dropped when every placeholder on it is empty, so the
+ * stock and pattern lines disappear for alerts that don't have them. In JSON templates
+ * values are escaped for use inside string literals.
+ */
+export function renderTemplate(template: string, payload: AlertWebhookPayload, format: 'text' | 'json' = 'text'): string {
+  if (format === 'json') {
+    return template.replace(PLACEHOLDER, (_, path: string) => JSON.stringify(resolvePath(payload, path)).slice(1, -1));
+  }
+
+  return template
+    .split('\n')
+    .flatMap(line => {
+      const values = Array.from(line.matchAll(PLACEHOLDER), match => resolvePath(payload, match[1]));
+      if (values.length > 0 && values.every(value => value === '')) return [];
+      return [line.replace(PLACEHOLDER, (_, path: string) => resolvePath(payload, path))];
+    })
+    .join('\n');
+}
+
+/**
+ * Request body for one destination
+ */
+export function buildWebhookBody(destination: WebhookDestination, payload: AlertWebhookPayload): unknown {
+  const template = destination.template?.trim() || DEFAULT_WEBHOOK_TEMPLATES[destination.kind];
+
+  switch (destination.kind) {
+    case 'discord':
+      return { content: renderTemplate(template, payload).slice(0, DISCORD_CONTENT_LIMIT) };
+    case 'slack':
+      return { text: renderTemplate(template, payload) };
+    case 'json':
+      return template ? JSON.parse(renderTemplate(template, payload, 'json')) : payload;
+  }
+}
+
+/**
+ * Enabled, valid destinations that should receive this alert
+ */
+export function getAlertDestinations(alert: PriceAlert, destinations: WebhookDestination[]): WebhookDestination[] {
+  return destinations.filter(destination =>
+    destination.enabled &&
+    (destination.allAlerts || alert.webhookIds?.includes(destination.id)) &&
+    validateWebhookDestination(destination) === null
+  );
+}
+
+export function createWebhookDestination(kind: WebhookKind = 'discord'): WebhookDestination {
+  return {
+    id: `webhook_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    name: WEBHOOK_KIND_LABELS[kind],
+    kind,
+    url: '',
+    enabled: true,
+    allAlerts: true
+  };
+}
+
+/**
+ * Sample payload for template previews and test deliveries
+ */
+export function createTestPayload(symbol = 'SPY'): AlertWebhookPayload {
+  const triggeredAt = Date.now();
+  return {
+    event: 'test',
+    message: `${symbol} test alert from SFTi Scanner`,
+    triggeredAt,
+    alert: {
+      id: `test_${triggeredAt}`,
+      symbol,
+      type: 'price_above',
+      value: 1,
+      enabled: true,
+      triggered: true,
+      createdAt: new Date(triggeredAt),
+      triggeredAt,
+      triggerPrice: 1.05
+    },
+    stock: {
+      symbol,
+      name: symbol,
+      price: 1.05,
+      change: 0.05,
+      changePercent: 5,
+      volume: 1_250_000,
+      marketCap: 0,
+      float: 0,
+      news: 0,
+      lastUpdate: new Date(triggeredAt)
+    },
+    pattern: {
+      pattern: 'Bull Flag',
+      confidence: 0.78,
+      description: 'Test pattern',
+      timeframe: '5m',
+      signals: ['Test signal']
+    }
+  };
+}
+
+/**
+ * Error message for a destination that can't be saved, or null
+ */
+export function validateWebhookDestination(destination: WebhookDestination): string | null {
+  if (!destination.name.trim()) return 'Give the webhook a name';
+  if (!/^https?:\/\/\S+$/i.test(destination.url)) return 'Webhook URL must start with http:// or https://';
+
+  if (destination.kind === 'json' && destination.template?.trim()) {
+    try {
+      buildWebhookBody(destination, createTestPayload());
+    } catch {
+      return 'JSON template must produce valid JSON';
+    }
+  }
+  return null;
+}
+
+export class WebhookService {
+  /** Server origin; empty means the app's own origin (production build served by server.js) */
+  private serverUrl = '';
+  /** Destinations last sent to the server, as JSON; null until synced */
+  private syncedDestinations: string | null = null;
+  /** Destination syncs run one after another; deliveries wait for the latest */
+  private syncing: Promise<void> = Promise.resolve();
+
+  setServerUrl(url: string | undefined): void {
+    const serverUrl = (url || '').replace(/\/+$/, '');
+    if (serverUrl === this.serverUrl) return;
+
+    this.serverUrl = serverUrl;
+    this.syncedDestinations = null;
+  }
+
+  /**
+   * Save the destinations on the server. Deliveries only name a destination by id, so the
+   * server posts to the URLs saved here (and refuses private or loopback ones).
+   */
+  setDestinations(destinations: WebhookDestination[]): Promise<void> {
+    const valid = destinations
+      .filter(destination => validateWebhookDestination(destination) === null)
+      .map(({ id, name, url }) => ({ id, name, url }));
+    const key = JSON.stringify(valid);
+    // Nothing to save: no webhooks, and none sent to this server yet
+    if (key === this.syncedDestinations || (valid.length === 0 && this.syncedDestinations === null)) return this.syncing;
+
+    this.syncedDestinations = key;
+    this.syncing = this.syncing
+      .catch(() => undefined)
+      .then(() => this.request<{ rejected: { id: string; name?: string }[] }>('PUT', '/api/webhooks/destinations', { destinations: valid }))
+      .then(({ rejected }) => {
+        rejected?.forEach(destination => console.warn(`Webhook ${destination.name ?? destination.id} was refused by the server: its URL is not allowed`));
+      })
+      .catch(error => {
+        // Try again on the next call
+        this.syncedDestinations = null;
+        throw error;
+      });
+    return this.syncing;
+  }
+
+  /**
+   * Queue the payload for each destination on the server
+   */
+  async deliver(destinations: WebhookDestination[], payload: AlertWebhookPayload): Promise<WebhookDelivery[]> {
+    const deliveries = destinations.flatMap(destination => {
+      try {
+        return [{
+          destinationId: destination.id,
+          body: buildWebhookBody(destination, payload),
+          alertId: payload.alert.id,
+          symbol: payload.alert.symbol
+        }];
+      } catch (error) {
+        console.warn(`Skipping webhook ${destination.name}: template did not render`, error);
+        return [];
+      }
+    });
+    if (deliveries.length === 0) return [];
+
+    await this.syncing.catch(() => undefined);
+    const result = await this.request<{ deliveries: WebhookDelivery[] }>('POST', '/api/webhooks/deliver', { deliveries });
+    console.log(`🪝 Queued ${result.deliveries.length} webhook(s) for ${payload.alert.symbol}`);
+    return result.deliveries;
+  }
+
+  async sendTest(destination: WebhookDestination): Promise<WebhookDelivery[]> {
+    return this.deliver([destination], createTestPayload());
+  }
+
+  /**
+   * Delivery log, newest first
+   */
+  async getLog(): Promise<WebhookDelivery[]> {
+    const { deliveries } = await this.request<{ deliveries: WebhookDelivery[] }>('GET', '/api/webhooks/log');
+    return deliveries;
+  }
+
+  async clearLog(): Promise<void> {
+    await this.request('DELETE', '/api/webhooks/log');
+  }
+
+  private async request<T = unknown>(method: string, path: string, body?: unknown): Promise<T> {
+    const response = await fetch(`${this.serverUrl}${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      ...(body !== undefined && { body: JSON.stringify(body) })
+    });
+
+    if (!response.ok) {
+      throw new Error(`${method} ${path} failed: ${response.status}`);
+    }
+    return response.json();
+  }
+}
+
+export const webhookService = new WebhookService();
@@ -9,12 +9,70 @@ export interface Stock {
   float: number;
   news: number;
   lastUpdate: Date;
+  /** Derived day-trading metrics, once the symbol's history has loaded */
+  metrics?: StockMetrics;
+}
+
+/** Metrics derived from a symbol's history and tick stream; null when there isn't enough data */
+export interface StockMetrics {
+  /** Today's volume against the 10 and 30 previous sessions' average */
+  relativeVolume10: number | null;
+  relativeVolume30: number | null;
+  /** Today's open (or the current price before the open) against the previous close, percent */
+  gapPercent: number | null;
+  premarketHigh: number | null;
+  premarketLow: number | null;
+  /** Price against the session VWAP, percent */
+  vwapDistance: number | null;
+  /** Today's volume as a multiple of the float */
+  floatRotation: number | null;
+  dollarVolume: number;
+}
+
+export interface StockDelta extends Partial<Omit<Stock, 'symbol'>> {
+  symbol: string;
+  conid: number;
+  bid?: number;
+  ask?: number;
+  open?: number;
+  high?: number;
+  low?: number;
+  previousClose?: number;
+  halted?: boolean;
 }
 
 export interface MarketHours {
   status: 'premarket' | 'regular' | 'afterhours' | 'closed';
   label: string;
   isOpen: boolean;
+  /** Holiday closing the exchange today */
+  holiday?: string;
+  /** Why today's session closes at 1:00 PM */
+  earlyClose?: string;
+}
+
+/** Session boundaries the scheduler announces, in the order they happen each trading day */
+export type SessionEvent = 'premarket_open' | 'regular_open' | 'regular_close' | 'afterhours_close';
+
+export type SessionActionType = 'apply_preset' | 'snapshot_scanner' | 'ai_market_scan' | 'clear_triggered_alerts';
+
+/** Something to do automatically when a session boundary passes */
+export interface SessionAction {
+  id: string;
+  event: SessionEvent;
+  type: SessionActionType;
+  enabled: boolean;
+  /** Preset applied by 'apply_preset', captured when the action was set up */
+  presetName?: string;
+  filters?: ScannerFilters;
+}
+
+/** Scanner rows saved by a 'snapshot_scanner' action */
+export interface ScannerSnapshot {
+  id: string;
+  event: SessionEvent;
+  takenAt: number;
+  rows: RecordedTick[];
 }
 
 export interface ScannerFilters {
@@ -28,13 +86,178 @@ export interface ScannerFilters {
   changeMin: number;
   changeMax: number;
   newsOnly: boolean;
+  /** Ranges on derived metrics; unset means no limit */
+  relativeVolumeMin?: number;
+  gapMin?: number;
+  gapMax?: number;
+  vwapDistanceMin?: number;
+  vwapDistanceMax?: number;
+  floatRotationMin?: number;
+  dollarVolumeMin?: number;
+}
+
+export type ScannerColumnId =
+  | 'symbol'
+  | 'changePercent'
+  | 'price'
+  | 'volume'
+  | 'float'
+  | 'marketCap'
+  | 'news'
+  | keyof StockMetrics;
+
+/** How a numeric column is written: the column's own style, abbreviated (1.2M) or in full (1,234,567) */
+export type ScannerNumberFormat = 'default' | 'compact' | 'full';
+
+export interface ScannerColumnSetting {
+  id: ScannerColumnId;
+  visible: boolean;
+  /** Pixels; unset uses the column's default width */
+  width?: number;
+  format: ScannerNumberFormat;
+  /** Decimal places; unset uses the column's default */
+  decimals?: number;
+}
+
+export interface ScannerSortKey {
+  field: ScannerColumnId;
+  direction: 'asc' | 'desc';
+}
+
+/** Column order, visibility, widths and sort of one scanner tab's table */
+export interface ScannerColumnLayout {
+  columns: ScannerColumnSetting[];
+  /** Sort keys in priority order: rows tied on the first are ordered by the second, and so on */
+  sort: ScannerSortKey[];
+  /** Keep the ticker column first and visible while scrolling sideways */
+  pinSymbol: boolean;
+}
+
+/** Entry and exit rules for replaying a scanner preset */
+export interface StrategyRules {
+  /** Entries only between these New York times ("HH:MM") */
+  entryFrom: string;
+  entryUntil: string;
+  /** Percent below entry that stops the trade out, and percent above that takes profit */
+  stopPercent: number;
+  targetPercent: number;
+  /** Minutes after entry the trade is closed at the bar's close; 0 holds to the session end */
+  timeStopMinutes: number;
+}
+
+export interface StrategyTrade {
+  id: string;
+  symbol: string;
+  /** New York session date, e.g. "2024-03-15" */
+  date: string;
+  /** Bar close times, epoch seconds */
+  entryTime: number;
+  exitTime: number;
+  entryPrice: number;
+  exitPrice: number;
+  exitReason: 'target' | 'stop' | 'time' | 'close';
+  returnPercent: number;
+  /** Scanner values when the preset matched */
+  changePercent: number;
+  volume: number;
+}
+
+export interface StrategyBacktestResult {
+  presetName: string;
+  filters: ScannerFilters;
+  rules: StrategyRules;
+  trades: StrategyTrade[];
+  /** Cumulative return in percent of a fixed stake per trade, after each exit */
+  equity: { time: number; value: number }[];
+  winRate: number;
+  avgWin: number;
+  avgLoss: number;
+  /** Average return per trade, percent */
+  expectancy: number;
+  totalReturn: number;
+  /** Largest peak-to-trough fall of the equity curve, percentage points */
+  maxDrawdown: number;
+  symbols: number;
+  sessions: number;
+  /** Symbol sessions checked without a recorded float and news count, where those filters were skipped */
+  unrecordedSessions: number;
+  startedAt: number;
+  finishedAt: number;
+}
+
+export interface ReplayState {
+  status: 'idle' | 'loading' | 'ready' | 'playing' | 'paused';
+  /** New York session dates with stored 1-minute bars, newest first */
+  sessions: string[];
+  /** Session being replayed */
+  session: string | null;
+  /** Replayable range and replayed time, epoch milliseconds */
+  start: number;
+  end: number;
+  time: number;
+  /** Replay seconds per wall-clock second */
+  speed: number;
+  symbols: string[];
+  progress: { done: number; total: number } | null;
+  error: string | null;
+}
+
+/** One recorded scanner row or streamed quote */
+export interface RecordedTick {
+  source: DataSource;
+  symbol: string;
+  /** When it was seen, epoch milliseconds */
+  time: number;
+  price: number;
+  change: number;
+  changePercent: number;
+  volume: number;
+  marketCap: number;
+  float: number;
+  news: number;
+}
+
+/** One recorded bar; re-recording a bar replaces it */
+export interface RecordedBar extends ChartData {
+  source: DataSource;
+  symbol: string;
+  timeframe: ChartTimeframe['value'];
+  /** When it was last written, epoch milliseconds; retention is measured from this */
+  recordedAt: number;
+}
+
+export type RecorderDataset = 'ticks' | 'bars';
+
+/** CSV, one JSON object per line, or one JSON document of column arrays */
+export type RecorderFormat = 'csv' | 'jsonl' | 'columnar';
+
+export interface RecorderSettings {
+  enabled: boolean;
+  /** Ticks and bars recorded longer ago than this are deleted */
+  retentionDays: number;
+  /** Oldest records are deleted past these counts */
+  maxTicks: number;
+  maxBars: number;
+}
+
+export interface RecorderStats {
+  ticks: number;
+  bars: number;
+  /** Oldest and newest tick times, epoch milliseconds */
+  oldestTick: number | null;
+  newestTick: number | null;
+  /** Origin-wide storage use and quota in bytes, when the browser reports them */
+  usage: number | null;
+  quota: number | null;
 }
 
 export interface Tab {
   id: string;
-  type: 'scanner' | 'chart' | 'ai_picks' | 'sfti_top10';
+  type: 'scanner' | 'chart' | 'ai_picks' | 'sfti_top10' | 'orders' | 'portfolio' | 'backtest';
   title: string;
   symbol?: string;
+  /** Filters of a scanner tab opened from a preset; the pinned Scanner tab keeps `scanner-filters` */
+  filters?: ScannerFilters;
 }
 
 export interface ChartTimeframe {
@@ -61,14 +284,77 @@ export interface ChartData {
 export interface PriceAlert {
   id: string;
   symbol: string;
-  type: 'price_above' | 'price_below' | 'volume_spike' | 'breakout' | 'pattern_recognition' | 'ai_signal';
+  type: 'price_above' | 'price_below' | 'volume_spike' | 'breakout' | 'pattern_recognition' | 'ai_signal' | 'rule';
   value: number;
+  /** Conditions checked on every quote; simple price/volume alerts are converted into one */
+  rule?: AlertRuleGroup;
   enabled: boolean;
   triggered: boolean;
   createdAt: Date;
   message?: string;
   pattern?: PatternAnalysis;
   confidence?: number;
+  /** Epoch ms of the last trigger */
+  triggeredAt?: number;
+  triggerPrice?: number;
+  /** When a triggered alert re-arms; defaults to 'once' (manual reset) */
+  triggerMode?: AlertTriggerMode;
+  /** Bar length for 'once_per_bar' */
+  barTimeframe?: ChartTimeframe['value'];
+  /** Minutes between triggers for 'every_n_minutes' */
+  repeatMinutes?: number;
+  /** Daily window the alert is checked in, New York time "HH:MM"; may wrap past midnight */
+  activeFrom?: string;
+  activeUntil?: string;
+  /** Epoch ms after which the alert is disabled */
+  expiresAt?: number;
+  /** Webhook destinations this alert is sent to, besides those that receive every alert */
+  webhookIds?: string[];
+}
+
+export type AlertTriggerMode = 'once' | 'once_per_bar' | 'once_per_session' | 'every_n_minutes';
+
+/** Quote fields a rule condition can test */
+export type AlertQuoteField = 'price' | 'change' | 'changePercent' | 'volume' | 'marketCap' | 'float' | 'news';
+
+/** Indicator values computed from chart history */
+export type AlertIndicatorField = 'vwap' | 'ema9' | 'ema20' | 'ema50' | 'rsi' | 'relativeVolume';
+
+export type AlertField = AlertQuoteField | AlertIndicatorField;
+
+export type AlertOperator = '>' | '>=' | '<' | '<=' | 'crosses_above' | 'crosses_below';
+
+/** `field operator target`, where the target is a number or another field */
+export interface AlertCondition {
+  kind: 'condition';
+  field: AlertField;
+  operator: AlertOperator;
+  target: number | AlertField;
+}
+
+/** True while `MarketHours.status` is one of `sessions` */
+export interface AlertSessionCondition {
+  kind: 'session';
+  sessions: MarketHours['status'][];
+}
+
+export interface AlertRuleGroup {
+  kind: 'group';
+  combinator: 'and' | 'or';
+  rules: AlertRuleNode[];
+}
+
+export type AlertRuleNode = AlertCondition | AlertSessionCondition | AlertRuleGroup;
+
+/** One entry of the triggered-alert history */
+export interface AlertTrigger {
+  id: string;
+  alertId: string;
+  symbol: string;
+  type: PriceAlert['type'];
+  message: string;
+  price: number;
+  triggeredAt: number;
 }
 
 export interface IBKRConnection {
@@ -76,10 +362,135 @@ export interface IBKRConnection {
   port: number;
   clientId: number;
   connected: boolean;
-  status: 'disconnected' | 'connecting' | 'connected' | 'error';
+  status: 'disconnected' | 'connecting' | 'connected' | 'reconnecting' | 'authentication_required' | 'error';
+  error?: string;
+  reconnectAttempt?: number;
+}
+
+export interface ContractInfo {
+  conid: number;
+  symbol: string;
+  name: string;
+  secType: string;
+  exchange: string;
+  currency?: string;
+  resolvedAt: number;
+}
+
+export type DataSource = 'ibkr-gateway' | 'ibkr-portal' | 'ibkr-local' | 'simulated' | 'replay';
+
+export interface ProviderStatus {
+  source: DataSource;
+  connected: boolean;
+  authenticated: boolean;
+  streaming: boolean;
+  status: IBKRConnection['status'];
+  reconnectAttempt?: number;
   error?: string;
 }
 
+export interface BrokerAccount {
+  id: string;
+  alias?: string;
+  currency?: string;
+  type?: string;
+}
+
+export interface Position {
+  accountId: string;
+  conid: number;
+  symbol: string;
+  quantity: number;
+  avgCost: number;
+  marketPrice: number;
+  marketValue: number;
+  unrealizedPnl: number;
+  realizedPnl: number;
+  currency?: string;
+}
+
+export interface AccountSummary {
+  accountId: string;
+  netLiquidation: number;
+  cash?: number;
+  currency?: string;
+}
+
+export type OrderType = 'MKT' | 'LMT' | 'STP' | 'STOP_LIMIT' | 'TRAIL';
+
+export type TimeInForce = 'DAY' | 'GTC' | 'IOC' | 'OPG';
+
+export interface OrderRequest {
+  symbol: string;
+  quantity: number;
+  side: 'BUY' | 'SELL';
+  orderType: OrderType;
+  price?: number; // Limit price (LMT, STOP_LIMIT)
+  auxPrice?: number; // Stop trigger (STP, STOP_LIMIT)
+  trailingAmount?: number;
+  trailingType?: 'amt' | '%';
+  tif?: TimeInForce;
+  outsideRth?: boolean;
+  accountId?: string;
+  bracket?: {
+    takeProfit?: number;
+    stopLoss?: number;
+  };
+}
+
+export interface OrderAck {
+  orderId?: string;
+  orderIds?: string[];
+  status: 'submitted' | 'filled' | 'confirmation_required' | 'rejected';
+  message?: string;
+  replyId?: string;
+}
+
+export type OrderStatus = 'pending' | 'working' | 'filled' | 'cancelled' | 'rejected';
+
+export interface BrokerOrder {
+  id: string;
+  accountId?: string;
+  symbol: string;
+  conid?: number;
+  side: 'BUY' | 'SELL';
+  orderType: OrderType;
+  quantity: number;
+  filledQuantity: number;
+  price?: number;
+  auxPrice?: number;
+  avgFillPrice?: number;
+  tif?: TimeInForce;
+  /** Undefined when the broker didn't report it */
+  outsideRth?: boolean;
+  trailingAmount?: number;
+  trailingType?: 'amt' | '%';
+  status: OrderStatus;
+  parentId?: string;
+  updatedAt: number;
+  description?: string;
+}
+
+/** Partial order update, e.g. one `sor` WebSocket entry */
+export interface OrderDelta extends Partial<Omit<BrokerOrder, 'id'>> {
+  id: string;
+}
+
+export interface OrderModification {
+  quantity?: number;
+  price?: number;
+  auxPrice?: number;
+}
+
+export interface OrderFill {
+  orderId: string;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  price: number;
+  time: number;
+}
+
 export interface IBKRMessage {
   type: 'market_data' | 'error' | 'connection_status';
   symbol?: string;
@@ -94,6 +505,50 @@ export interface NotificationSettings {
   priceAlerts: boolean;
   volumeAlerts: boolean;
   newsAlerts: boolean;
+  /** Deliver alerts through Web Push from the Node server while the app is closed */
+  backgroundPush?: boolean;
+  /** Node server origin for push, alert sync, webhook delivery and scanner fundamentals; empty uses the app's origin */
+  pushServerUrl?: string;
+  webhooks?: WebhookDestination[];
+}
+
+export type WebhookKind = 'discord' | 'slack' | 'json';
+
+export interface WebhookDestination {
+  id: string;
+  name: string;
+  kind: WebhookKind;
+  url: string;
+  enabled: boolean;
+  /** Receive every alert rather than only the alerts routed to it */
+  allAlerts: boolean;
+  /** Message template with {{placeholders}}; empty uses the kind's default */
+  template?: string;
+}
+
+/** What a triggered alert sends to its webhooks before a destination's template is applied */
+export interface AlertWebhookPayload {
+  event: 'alert.triggered' | 'test';
+  message: string;
+  triggeredAt: number;
+  alert: PriceAlert;
+  stock?: Stock;
+  pattern?: PatternAnalysis;
+}
+
+/** Delivery log entry kept by the server */
+export interface WebhookDelivery {
+  id: string;
+  destinationId: string;
+  destinationName: string;
+  alertId?: string;
+  symbol?: string;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  statusCode?: number;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
 }
 
 export interface PatternAnalysis {
@@ -102,6 +557,28 @@ export interface PatternAnalysis {
   description: string;
   timeframe: string;
   signals: string[];
+  type?: 'bullish' | 'bearish';
+  /** Pivots the detector used; indices refer to the analyzed bars */
+  points?: PatternPoint[];
+  /** Trend lines, necklines and levels to draw */
+  lines?: PatternLine[];
+  /** Bar range the pattern spans in the analyzed bars */
+  startIndex?: number;
+  endIndex?: number;
+}
+
+export interface PatternPoint {
+  index: number;
+  /** Bar time, same units as `ChartData.time` */
+  time: number;
+  price: number;
+  label?: string;
+}
+
+export interface PatternLine {
+  from: PatternPoint;
+  to: PatternPoint;
+  label?: string;
 }
 
 export interface AISearchResult {
@@ -131,7 +608,66 @@ export interface MarketPattern {
   timeframe: string;
   indicators: string[];
   conditions: Record<string, any>;
+  /** Share of backtested signals that reached target before stop; 0.5 until measured */
   accuracy: number;
+  /** Backtested signals behind `accuracy` */
+  samples?: number;
+  backtest?: PatternBacktestStats;
+}
+
+/** Options for replaying stored bars through the pattern detectors */
+export interface PatternBacktestOptions {
+  /** Forward-return horizons, in bars */
+  horizons: number[];
+  /** Target and stop as a fraction of the entry price, in the pattern's direction */
+  targetPct: number;
+  stopPct: number;
+  /** Bars a trade may stay open before it counts as timed out */
+  maxBars: number;
+}
+
+export interface PatternBacktestTrade {
+  symbol: string;
+  pattern: string;
+  timeframe: string;
+  /** Signal bar time (epoch seconds) and its close, which is the entry */
+  time: number;
+  entry: number;
+  confidence: number;
+  outcome: 'target' | 'stop' | 'timeout';
+  barsHeld: number;
+  /** Return at each horizon (sign-adjusted for bearish patterns), null past the end of data */
+  returns: (number | null)[];
+  /** Maximum favorable and adverse excursion while open, as positive fractions */
+  mfe: number;
+  mae: number;
+}
+
+export interface PatternBacktestStats {
+  pattern: string;
+  type: 'bullish' | 'bearish';
+  timeframe: string;
+  signals: number;
+  targets: number;
+  stops: number;
+  timeouts: number;
+  /** targets / signals */
+  hitRate: number;
+  horizons: { bars: number; avgReturn: number; winRate: number; samples: number }[];
+  avgMFE: number;
+  avgMAE: number;
+  symbols: number;
+  testedAt: number;
+}
+
+export interface PatternBacktestReport {
+  options: PatternBacktestOptions;
+  stats: PatternBacktestStats[];
+  trades: PatternBacktestTrade[];
+  symbols: string[];
+  bars: number;
+  startedAt: number;
+  finishedAt: number;
 }
 
 export interface AIRecommendation {